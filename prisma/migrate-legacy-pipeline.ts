@@ -0,0 +1,39 @@
+import { migrateProjectCandidates } from '../src/lib/legacy-pipeline'
+import prisma from '../src/lib/prisma'
+
+// Copies legacy ProjectCandidate rows into ProjectTalent.
+// Usage: npm run db:migrate-pipeline [-- --dry-run]
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run')
+  console.log(dryRun ? 'Checking legacy pipeline (dry run)...' : 'Migrating legacy pipeline...')
+
+  const report = await migrateProjectCandidates({ dryRun })
+
+  console.log(`Legacy project candidates: ${report.total}`)
+  console.log(`${dryRun ? 'Would migrate' : 'Migrated'}: ${report.migrated}`)
+  console.log(`Already migrated: ${report.alreadyMigrated}`)
+  console.log(`Activity log entries ${dryRun ? 'to re-point' : 're-pointed'}: ${report.activityLogsUpdated}`)
+
+  if (report.conflicts.length > 0) {
+    console.log(`\nConflicts (${report.conflicts.length}) - existing project talent kept:`)
+    for (const conflict of report.conflicts) {
+      console.log(
+        `  project ${conflict.projectId}, candidate ${conflict.candidateId}: ` +
+          `legacy ${conflict.projectCandidateId} vs talent ${conflict.projectTalentId}` +
+          (conflict.differences.length > 0
+            ? ` (differs in ${conflict.differences.join(', ')})`
+            : ' (identical)')
+      )
+    }
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,129 @@
+import { existsSync, promises as fs } from 'fs'
+import path from 'path'
+import prisma from '../src/lib/prisma'
+import { fileStorage } from '../src/lib/storage'
+import { FILE_URL_PREFIX, LEGACY_UPLOAD_DIR, UploadFolder } from '../src/lib/uploads'
+import { getResumeMimeType } from '../src/lib/resume-extraction'
+
+// Moves resumes and client profiles saved under public/uploads (where anyone
+// could download them by URL) into file storage, re-points the records at
+// /api/files/... and deletes the public copies.
+// Usage: npm run storage:migrate-uploads [-- --dry-run]
+
+const LEGACY_URL_PREFIX = '/uploads/'
+
+async function moveFile(url: string, folder: UploadFolder, dryRun: boolean): Promise<string | null> {
+  const filename = path.basename(url)
+  const legacyPath = path.join(LEGACY_UPLOAD_DIR, filename)
+  if (!existsSync(legacyPath)) {
+    console.log(`  missing: ${url}`)
+    return null
+  }
+
+  const newUrl = `${FILE_URL_PREFIX}${folder}/${filename}`
+  if (!dryRun) {
+    const contentType = getResumeMimeType(filename) || 'application/octet-stream'
+    await fileStorage.put(`${folder}/${filename}`, await fs.readFile(legacyPath), contentType)
+  }
+  return newUrl
+}
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run')
+  console.log(dryRun ? 'Checking public uploads (dry run)...' : 'Moving public uploads into file storage...')
+
+  const moved = new Set<string>()
+  let missing = 0
+
+  // Resumes are referenced by candidates and by their document versions,
+  // including older versions no candidate points at any more
+  const [candidateResumes, versionResumes] = await Promise.all([
+    prisma.candidate.findMany({
+      where: { resumeFileUrl: { startsWith: LEGACY_URL_PREFIX } },
+      distinct: ['resumeFileUrl'],
+      select: { resumeFileUrl: true },
+    }),
+    prisma.candidateDocumentVersion.findMany({
+      where: { fileUrl: { startsWith: LEGACY_URL_PREFIX } },
+      distinct: ['fileUrl'],
+      select: { fileUrl: true },
+    }),
+  ])
+  const resumes = Array.from(
+    new Set([
+      ...candidateResumes.map(({ resumeFileUrl }) => resumeFileUrl as string),
+      ...versionResumes.map(({ fileUrl }) => fileUrl),
+    ])
+  )
+  for (const url of resumes) {
+    const newUrl = await moveFile(url, 'resumes', dryRun)
+    if (!newUrl) {
+      missing++
+      continue
+    }
+    if (!dryRun) {
+      await prisma.candidate.updateMany({
+        where: { resumeFileUrl: url },
+        data: { resumeFileUrl: newUrl },
+      })
+      await prisma.candidateDocumentVersion.updateMany({
+        where: { fileUrl: url },
+        data: { fileUrl: newUrl },
+      })
+    }
+    moved.add(path.basename(url))
+  }
+
+  const profiles = await prisma.projectTalent.findMany({
+    where: { profileFileUrl: { startsWith: LEGACY_URL_PREFIX } },
+    distinct: ['profileFileUrl'],
+    select: { profileFileUrl: true },
+  })
+  for (const { profileFileUrl } of profiles) {
+    const url = profileFileUrl as string
+    const newUrl = await moveFile(url, 'profiles', dryRun)
+    if (!newUrl) {
+      missing++
+      continue
+    }
+    if (!dryRun) {
+      await prisma.projectTalent.updateMany({
+        where: { profileFileUrl: url },
+        data: { profileFileUrl: newUrl },
+      })
+    }
+    moved.add(path.basename(url))
+  }
+
+  // Public copies go only once every record is re-pointed
+  if (!dryRun) {
+    for (const filename of Array.from(moved)) {
+      await fs.rm(path.join(LEGACY_UPLOAD_DIR, filename), { force: true })
+    }
+  }
+
+  console.log(`Resumes: ${resumes.length}, client profiles: ${profiles.length}`)
+  console.log(`${dryRun ? 'Would move' : 'Moved'}: ${moved.size}`)
+  console.log(`Referenced but missing from public/uploads: ${missing}`)
+
+  const leftOver = existsSync(LEGACY_UPLOAD_DIR)
+    ? (await fs.readdir(LEGACY_UPLOAD_DIR)).filter(
+        (name) => !name.startsWith('.') && !moved.has(name)
+      )
+    : []
+  if (leftOver.length > 0) {
+    console.log(`\nFiles in public/uploads no record uses (${leftOver.length}) - still public, review and delete:`)
+    for (const name of leftOver) {
+      console.log(`  ${name}`)
+    }
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e)
+    process.exit(1)
+  })
+  .finally(async () => {
+    await prisma.$disconnect()
+  })
@@ -0,0 +1,28 @@
+-- Migration: Add Scoring Profiles
+-- Description: Stores named matching-engine weight sets that admins can edit from Settings
+--              and that projects can select instead of the built-in point split.
+
+-- 1. Create scoring_profiles table
+CREATE TABLE IF NOT EXISTS scoring_profiles (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  name TEXT NOT NULL,
+  description TEXT,
+  "isDefault" BOOLEAN NOT NULL DEFAULT false,
+  "candidateWeights" JSONB NOT NULL,
+  "engineerWeights" JSONB NOT NULL,
+  "availabilityBoost" JSONB NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS scoring_profiles_name_key ON scoring_profiles(name);
+
+-- 2. Let projects select a scoring profile
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS "scoringProfileId" TEXT;
+
+DO $$ BEGIN
+  ALTER TABLE projects ADD CONSTRAINT "projects_scoringProfileId_fkey"
+    FOREIGN KEY ("scoringProfileId") REFERENCES scoring_profiles(id) ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,15 @@
+-- Migration: Add Skill Taxonomy
+-- Description: Managed list of canonical skills with aliases and a parent category,
+--              used to normalize technologies and to score related skills in matching.
+
+CREATE TABLE IF NOT EXISTS skills (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  name TEXT NOT NULL,
+  aliases TEXT[] DEFAULT ARRAY[]::TEXT[],
+  category TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS skills_name_key ON skills(name);
+CREATE INDEX IF NOT EXISTS skills_category_idx ON skills(category);
@@ -0,0 +1,5 @@
+-- Migration: Add Candidate Employment History
+-- Description: JSON array of past roles ({ title, company, startDate, endDate }),
+--              pre-filled from the resume parser and reviewed by recruiters.
+
+ALTER TABLE candidates ADD COLUMN IF NOT EXISTS "employmentHistory" JSONB NOT NULL DEFAULT '[]';
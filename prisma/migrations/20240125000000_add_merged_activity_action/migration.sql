@@ -0,0 +1,4 @@
+-- Migration: Add MERGED Activity Action
+-- Description: Records duplicate candidates being folded into a surviving candidate.
+
+ALTER TYPE "ActivityAction" ADD VALUE IF NOT EXISTS 'MERGED';
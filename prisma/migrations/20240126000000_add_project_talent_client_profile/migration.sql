@@ -0,0 +1,6 @@
+-- Migration: Add Client Profile to Project Talents
+-- Description: Stores the generated client-facing profile PDF ("blind CV")
+--              alongside the submission.
+
+ALTER TABLE project_talents ADD COLUMN IF NOT EXISTS "profileFileUrl" TEXT;
+ALTER TABLE project_talents ADD COLUMN IF NOT EXISTS "profileGeneratedAt" TIMESTAMP(3);
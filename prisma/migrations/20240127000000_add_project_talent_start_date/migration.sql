@@ -0,0 +1,5 @@
+-- Migration: Add Start Date to Project Talents
+-- Description: Start date recorded when a talent is hired or assigned; required
+--              by the pipeline workflow for those stages.
+
+ALTER TABLE project_talents ADD COLUMN IF NOT EXISTS "startDate" TIMESTAMP(3);
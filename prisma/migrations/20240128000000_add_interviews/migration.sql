@@ -0,0 +1,68 @@
+-- Migration: Add Interviews
+-- Description: First-class interview scheduling per project talent with assigned
+--              interviewers, customer contacts, calendar invite sequencing,
+--              reminders and per-interviewer feedback.
+
+-- 1. Create new enums
+DO $$ BEGIN
+  CREATE TYPE "InterviewStatus" AS ENUM ('SCHEDULED', 'COMPLETED', 'CANCELLED', 'NO_SHOW');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "InterviewRecommendation" AS ENUM ('STRONG_YES', 'YES', 'NO', 'STRONG_NO');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- 2. Create interviews table
+CREATE TABLE IF NOT EXISTS interviews (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "projectTalentId" TEXT NOT NULL,
+  round INTEGER NOT NULL,
+  title TEXT,
+  "scheduledAt" TIMESTAMP(3) NOT NULL,
+  "durationMinutes" INTEGER NOT NULL DEFAULT 60,
+  location TEXT,
+  "meetingUrl" TEXT,
+  "customerContacts" JSONB NOT NULL DEFAULT '[]',
+  status "InterviewStatus" NOT NULL DEFAULT 'SCHEDULED',
+  "icsSequence" INTEGER NOT NULL DEFAULT 0,
+  "reminderSentAt" TIMESTAMP(3),
+  "createdByUserId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT interviews_project_talent_fkey FOREIGN KEY ("projectTalentId") REFERENCES project_talents(id) ON DELETE CASCADE,
+  CONSTRAINT interviews_created_by_fkey FOREIGN KEY ("createdByUserId") REFERENCES users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_interviews_project_talent ON interviews("projectTalentId");
+CREATE INDEX IF NOT EXISTS idx_interviews_scheduled ON interviews("scheduledAt");
+
+-- 3. Create junction table for interviewers (many-to-many: Interview <-> User)
+CREATE TABLE IF NOT EXISTS "_InterviewInterviewers" (
+  "A" TEXT NOT NULL,
+  "B" TEXT NOT NULL,
+  CONSTRAINT "_InterviewInterviewers_A_fkey" FOREIGN KEY ("A") REFERENCES interviews(id) ON DELETE CASCADE,
+  CONSTRAINT "_InterviewInterviewers_B_fkey" FOREIGN KEY ("B") REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "_InterviewInterviewers_AB_unique" ON "_InterviewInterviewers"("A", "B");
+CREATE INDEX IF NOT EXISTS "_InterviewInterviewers_B_index" ON "_InterviewInterviewers"("B");
+
+-- 4. Create interview_feedback table (one entry per interviewer per interview)
+CREATE TABLE IF NOT EXISTS interview_feedback (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "interviewId" TEXT NOT NULL,
+  "authorUserId" TEXT NOT NULL,
+  score INTEGER,
+  recommendation "InterviewRecommendation",
+  notes TEXT NOT NULL,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT interview_feedback_interview_fkey FOREIGN KEY ("interviewId") REFERENCES interviews(id) ON DELETE CASCADE,
+  CONSTRAINT interview_feedback_author_fkey FOREIGN KEY ("authorUserId") REFERENCES users(id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS interview_feedback_interview_author_key ON interview_feedback("interviewId", "authorUserId");
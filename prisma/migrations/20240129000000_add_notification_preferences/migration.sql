@@ -0,0 +1,25 @@
+-- Migration: Add Notification Preferences
+-- Description: Per-user delivery choice (in-app, immediate email, daily digest
+--              or off) for each notification type, and digest bookkeeping.
+
+-- 1. Create new enum
+DO $$ BEGIN
+  CREATE TYPE "NotificationDelivery" AS ENUM ('IN_APP', 'EMAIL', 'DIGEST', 'OFF');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- 2. Track when each user last received a digest
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "lastDigestSentAt" TIMESTAMP(3);
+
+-- 3. Create notification_preferences table
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "userId" TEXT NOT NULL,
+  type TEXT NOT NULL,
+  delivery "NotificationDelivery" NOT NULL,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT notification_preferences_user_fkey FOREIGN KEY ("userId") REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS notification_preferences_user_type_key ON notification_preferences("userId", type);
@@ -0,0 +1,36 @@
+-- Migration: Add Customer Portal
+-- Description: Portal accounts for customer contacts, single-use magic link
+--              tokens, and a timestamp for feedback left through the portal.
+
+-- 1. Create portal_users table
+CREATE TABLE IF NOT EXISTS portal_users (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "customerId" TEXT NOT NULL,
+  email TEXT NOT NULL,
+  "fullName" TEXT NOT NULL,
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "lastLoginAt" TIMESTAMP(3),
+  "createdByUserId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT portal_users_customer_fkey FOREIGN KEY ("customerId") REFERENCES customers(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS portal_users_email_key ON portal_users(email);
+CREATE INDEX IF NOT EXISTS idx_portal_users_customer ON portal_users("customerId");
+
+-- 2. Create portal_login_tokens table
+CREATE TABLE IF NOT EXISTS portal_login_tokens (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "portalUserId" TEXT NOT NULL,
+  "tokenHash" TEXT NOT NULL,
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "usedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT portal_login_tokens_portal_user_fkey FOREIGN KEY ("portalUserId") REFERENCES portal_users(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS portal_login_tokens_token_hash_key ON portal_login_tokens("tokenHash");
+
+-- 3. Track client feedback received through the portal
+ALTER TABLE project_talents ADD COLUMN IF NOT EXISTS "clientFeedbackAt" TIMESTAMP(3);
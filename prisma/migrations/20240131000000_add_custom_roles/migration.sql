@@ -0,0 +1,79 @@
+-- Migration: Add Custom Roles
+-- Description: Moves roles from the hard-coded "Role" enum into a roles table
+--              so admins can edit permissions and add roles from Settings.
+--              users.role becomes a text key referencing roles.key.
+
+-- 1. Create RecordScope enum
+DO $$ BEGIN
+  CREATE TYPE "RecordScope" AS ENUM ('ALL', 'ASSIGNED_PROJECTS', 'OWN_ACCOUNTS');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- 2. Create roles table
+CREATE TABLE IF NOT EXISTS roles (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  key TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  permissions TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "recordScope" "RecordScope" NOT NULL DEFAULT 'ALL',
+  "isSystem" BOOLEAN NOT NULL DEFAULT false,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS roles_key_key ON roles(key);
+
+-- 3. Seed the built-in roles with the permissions they had before
+INSERT INTO roles (key, name, description, "recordScope", "isSystem", permissions) VALUES
+  ('ADMIN', 'Administrator', 'Full access to all modules and settings', 'ALL', true, ARRAY[
+    'customers:read', 'customers:write', 'customers:delete', 'projects:read',
+    'projects:write', 'projects:update_status', 'projects:delete',
+    'project_updates:read', 'project_updates:write', 'candidates:read',
+    'candidates:read:full', 'candidates:write', 'candidates:delete',
+    'candidates:merge', 'engineers:read', 'engineers:write', 'engineers:delete',
+    'project_candidates:read', 'project_candidates:write',
+    'project_candidates:feedback', 'project_candidates:delete', 'pipeline:source',
+    'pipeline:submit', 'pipeline:decide', 'interviews:read', 'interviews:write',
+    'interviews:delete', 'notifications:read', 'users:read', 'users:write',
+    'users:delete', 'roles:write', 'settings:read', 'settings:write'
+  ]),
+  ('SALES', 'Sales', 'Manages their customers and those customers'' projects', 'OWN_ACCOUNTS', true, ARRAY[
+    'customers:read', 'customers:write', 'projects:read', 'projects:write',
+    'project_updates:read', 'project_updates:write', 'candidates:read',
+    'engineers:read', 'project_candidates:read', 'pipeline:submit',
+    'pipeline:decide', 'interviews:read', 'notifications:read'
+  ]),
+  ('RECRUITER', 'Recruiter', 'Sources candidates and works the pipeline', 'ALL', true, ARRAY[
+    'customers:read', 'projects:read', 'project_updates:read',
+    'project_updates:write', 'candidates:read', 'candidates:read:full',
+    'candidates:write', 'engineers:read', 'engineers:write',
+    'project_candidates:read', 'project_candidates:write', 'pipeline:source',
+    'pipeline:submit', 'interviews:read', 'interviews:write', 'notifications:read'
+  ]),
+  ('CLIENT_MANAGER', 'Client Manager', 'Runs the client relationship on assigned projects', 'ASSIGNED_PROJECTS', true, ARRAY[
+    'customers:read', 'projects:read', 'projects:update_status',
+    'project_updates:read', 'project_updates:write', 'candidates:read',
+    'candidates:read:full', 'engineers:read', 'project_candidates:read',
+    'project_candidates:feedback', 'pipeline:decide', 'interviews:read',
+    'interviews:write', 'notifications:read'
+  ])
+ON CONFLICT (key) DO NOTHING;
+
+-- 4. Convert users.role from the enum to a key referencing roles
+ALTER TABLE users ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE users ALTER COLUMN role TYPE TEXT USING role::text;
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'RECRUITER';
+
+DO $$ BEGIN
+  ALTER TABLE users
+    ADD CONSTRAINT users_role_fkey FOREIGN KEY (role) REFERENCES roles(key) ON UPDATE CASCADE ON DELETE RESTRICT;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_users_role ON users(role);
+
+-- 5. The enum is no longer used
+DROP TYPE IF EXISTS "Role";
@@ -0,0 +1,24 @@
+-- Migration: Add Single Sign-On
+-- Description: Links users to an SSO identity (provider + subject), lets
+--              SSO-only users exist without a password, and stores the SSO
+--              settings edited from Settings (domains, group-to-role mappings,
+--              provisioning and the password login switch).
+
+-- 1. SSO identity on users; SSO-only users have no password
+ALTER TABLE users ALTER COLUMN "passwordHash" DROP NOT NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "authProvider" TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "externalId" TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS users_auth_provider_external_id_key ON users("authProvider", "externalId");
+
+-- 2. Create sso_settings table (a single row, id 'default')
+CREATE TABLE IF NOT EXISTS sso_settings (
+  id TEXT PRIMARY KEY DEFAULT 'default',
+  "passwordLoginEnabled" BOOLEAN NOT NULL DEFAULT true,
+  "jitProvisioning" BOOLEAN NOT NULL DEFAULT true,
+  "syncRoleOnLogin" BOOLEAN NOT NULL DEFAULT true,
+  "allowedDomains" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "defaultRole" TEXT,
+  "groupRoleMappings" JSONB NOT NULL DEFAULT '[]',
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
@@ -0,0 +1,20 @@
+-- Migration: Add Two-Factor Authentication and Login Hardening
+-- Description: TOTP secrets and hashed recovery codes on users, failed-login
+--              counters for lockout, a per-role switch requiring 2FA, and a
+--              LOGIN_FAILED activity action.
+
+-- 1. Record failed logins in the activity log
+ALTER TYPE "ActivityAction" ADD VALUE IF NOT EXISTS 'LOGIN_FAILED';
+
+-- 2. TOTP enrollment and recovery codes
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "totpSecret" TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "totpEnabledAt" TIMESTAMP(3);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "totpLastUsedStep" INTEGER;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "recoveryCodeHashes" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+-- 3. Lockout after repeated failures
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "failedLoginCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "lockedUntil" TIMESTAMP(3);
+
+-- 4. Roles can require 2FA for password logins
+ALTER TABLE roles ADD COLUMN IF NOT EXISTS "requireTwoFactor" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,47 @@
+-- Migration: Add Session Tracking, Invitations and Password Resets
+-- Description: A row per signed-in session so sessions can be listed and
+--              revoked, single-use tokens for invitation and reset links,
+--              and a flag forcing a password change on next login.
+--              Sessions issued before this migration carry no session id and
+--              are signed out on their next request.
+
+-- 1. Signed-in sessions
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "userId" TEXT NOT NULL,
+  "authMethod" TEXT NOT NULL,
+  "ipAddress" TEXT,
+  "userAgent" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "revokedAt" TIMESTAMP(3),
+  CONSTRAINT user_sessions_user_fkey FOREIGN KEY ("userId") REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user ON user_sessions("userId");
+
+-- 2. Invitation and password reset links
+DO $$ BEGIN
+  CREATE TYPE "PasswordTokenPurpose" AS ENUM ('INVITE', 'RESET');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS password_tokens (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "userId" TEXT NOT NULL,
+  purpose "PasswordTokenPurpose" NOT NULL,
+  "tokenHash" TEXT NOT NULL,
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "usedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT password_tokens_user_fkey FOREIGN KEY ("userId") REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS password_tokens_token_hash_key ON password_tokens("tokenHash");
+CREATE INDEX IF NOT EXISTS idx_password_tokens_user ON password_tokens("userId");
+
+-- 3. Pending invitations and forced password changes
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "invitedAt" TIMESTAMP(3);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS "mustChangePassword" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,22 @@
+-- Migration: Add API Tokens
+-- Description: Personal access tokens for the REST API. Each token belongs to
+--              a user, is limited to a set of permission scopes, expires, and
+--              can be revoked. Only a hash of the token is stored.
+
+-- 1. Create api_tokens table
+CREATE TABLE IF NOT EXISTS api_tokens (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "userId" TEXT NOT NULL,
+  name TEXT NOT NULL,
+  prefix TEXT NOT NULL,
+  "tokenHash" TEXT NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "expiresAt" TIMESTAMP(3) NOT NULL,
+  "lastUsedAt" TIMESTAMP(3),
+  "revokedAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT api_tokens_user_fkey FOREIGN KEY ("userId") REFERENCES users(id) ON DELETE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS api_tokens_token_hash_key ON api_tokens("tokenHash");
+CREATE INDEX IF NOT EXISTS idx_api_tokens_user ON api_tokens("userId");
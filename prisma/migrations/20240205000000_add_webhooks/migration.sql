@@ -0,0 +1,49 @@
+-- Migration: Add Webhooks
+-- Description: Outgoing webhooks for activity events. Endpoints are configured
+--              in Settings; every matching event becomes a delivery row that
+--              is signed, sent, and retried with backoff until it succeeds or
+--              runs out of attempts.
+
+-- 1. Create WebhookDeliveryStatus enum
+DO $$ BEGIN
+  CREATE TYPE "WebhookDeliveryStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- 2. Create webhook_endpoints table
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  name TEXT NOT NULL,
+  url TEXT NOT NULL,
+  secret TEXT NOT NULL,
+  "entityTypes" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  actions TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "createdByUserId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- 3. Create webhook_deliveries table
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "endpointId" TEXT NOT NULL,
+  event TEXT NOT NULL,
+  "activityLogId" TEXT,
+  payload JSONB NOT NULL,
+  status "WebhookDeliveryStatus" NOT NULL DEFAULT 'PENDING',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  "nextAttemptAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "lastAttemptAt" TIMESTAMP(3),
+  "responseStatus" INTEGER,
+  "responseBody" TEXT,
+  error TEXT,
+  "durationMs" INTEGER,
+  "deliveredAt" TIMESTAMP(3),
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT webhook_deliveries_endpoint_fkey FOREIGN KEY ("endpointId") REFERENCES webhook_endpoints(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint ON webhook_deliveries("endpointId", "createdAt");
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, "nextAttemptAt");
@@ -0,0 +1,35 @@
+-- Migration: Add Background Jobs
+-- Description: A Postgres-backed job queue. Resume extraction, notification
+--              emails, webhook deliveries, match re-scoring and the scheduled
+--              reminders and digests run from here instead of inside requests.
+
+-- 1. Create JobStatus enum
+DO $$ BEGIN
+  CREATE TYPE "JobStatus" AS ENUM ('PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- 2. Create jobs table
+CREATE TABLE IF NOT EXISTS jobs (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  type TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  status "JobStatus" NOT NULL DEFAULT 'PENDING',
+  result JSONB,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+  "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "lockedAt" TIMESTAMP(3),
+  "lockedBy" TEXT,
+  "lastError" TEXT,
+  "uniqueKey" TEXT,
+  "createdByUserId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "startedAt" TIMESTAMP(3),
+  "finishedAt" TIMESTAMP(3)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS jobs_unique_key_key ON jobs("uniqueKey");
+CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs(status, "runAt");
+CREATE INDEX IF NOT EXISTS idx_jobs_type ON jobs(type, "createdAt");
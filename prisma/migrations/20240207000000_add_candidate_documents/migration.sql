@@ -0,0 +1,110 @@
+-- Migration: Add Candidate Documents
+-- Description: Candidates keep several files (CV versions, certificates,
+--              portfolio, signed NDA), each with a version history and its
+--              own visibility. The candidate's resume fields now mirror the
+--              resume version chosen for matching and search. Existing
+--              resumes become version 1 of a resume document.
+
+-- 1. Create CandidateDocumentType and DocumentVisibility enums
+DO $$ BEGIN
+  CREATE TYPE "CandidateDocumentType" AS ENUM ('RESUME', 'CERTIFICATE', 'PORTFOLIO', 'NDA', 'OTHER');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  CREATE TYPE "DocumentVisibility" AS ENUM ('ALL_USERS', 'FULL_ACCESS', 'EDITORS');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- 2. Create candidate_documents table
+CREATE TABLE IF NOT EXISTS candidate_documents (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "candidateId" TEXT NOT NULL,
+  type "CandidateDocumentType" NOT NULL,
+  title TEXT NOT NULL,
+  visibility "DocumentVisibility" NOT NULL DEFAULT 'FULL_ACCESS',
+  "createdByUserId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT candidate_documents_candidate_fkey FOREIGN KEY ("candidateId") REFERENCES candidates(id) ON DELETE CASCADE,
+  CONSTRAINT candidate_documents_created_by_fkey FOREIGN KEY ("createdByUserId") REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_candidate_documents_candidate ON candidate_documents("candidateId");
+
+-- 3. Create candidate_document_versions table
+CREATE TABLE IF NOT EXISTS candidate_document_versions (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  "documentId" TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  "fileUrl" TEXT NOT NULL,
+  "originalName" TEXT NOT NULL,
+  "mimeType" TEXT NOT NULL,
+  size INTEGER,
+  "extractedText" TEXT,
+  "uploadedByUserId" TEXT,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT candidate_document_versions_document_fkey FOREIGN KEY ("documentId") REFERENCES candidate_documents(id) ON DELETE CASCADE,
+  CONSTRAINT candidate_document_versions_uploaded_by_fkey FOREIGN KEY ("uploadedByUserId") REFERENCES users(id) ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS candidate_document_versions_document_version_key ON candidate_document_versions("documentId", version);
+CREATE INDEX IF NOT EXISTS idx_candidate_document_versions_file ON candidate_document_versions("fileUrl");
+
+-- 4. Point candidates at the resume version used for matching and search
+ALTER TABLE candidates ADD COLUMN IF NOT EXISTS "activeResumeVersionId" TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "candidates_activeResumeVersionId_key" ON candidates("activeResumeVersionId");
+
+DO $$ BEGIN
+  ALTER TABLE candidates ADD CONSTRAINT candidates_active_resume_version_fkey
+    FOREIGN KEY ("activeResumeVersionId") REFERENCES candidate_document_versions(id) ON DELETE SET NULL;
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- 5. Turn each existing resume into a resume document with one version
+INSERT INTO candidate_documents (id, "candidateId", type, title, visibility, "createdAt", "updatedAt")
+SELECT
+  gen_random_uuid()::text,
+  c.id,
+  'RESUME',
+  'CV',
+  'FULL_ACCESS',
+  COALESCE(c."resumeUploadedAt", c."createdAt"),
+  CURRENT_TIMESTAMP
+FROM candidates c
+WHERE c."resumeFileUrl" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM candidate_documents d WHERE d."candidateId" = c.id);
+
+INSERT INTO candidate_document_versions (id, "documentId", version, "fileUrl", "originalName", "mimeType", "extractedText", "createdAt")
+SELECT
+  gen_random_uuid()::text,
+  d.id,
+  1,
+  c."resumeFileUrl",
+  COALESCE(c."resumeOriginalName", regexp_replace(c."resumeFileUrl", '^.*/', '')),
+  CASE
+    WHEN lower(c."resumeFileUrl") LIKE '%.pdf' THEN 'application/pdf'
+    WHEN lower(c."resumeFileUrl") LIKE '%.docx' THEN 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    WHEN lower(c."resumeFileUrl") LIKE '%.doc' THEN 'application/msword'
+    ELSE 'application/octet-stream'
+  END,
+  c."resumeExtractedText",
+  d."createdAt"
+FROM candidate_documents d
+JOIN candidates c ON c.id = d."candidateId"
+WHERE d.type = 'RESUME'
+  AND c."resumeFileUrl" IS NOT NULL
+  AND c."activeResumeVersionId" IS NULL
+  AND NOT EXISTS (SELECT 1 FROM candidate_document_versions v WHERE v."documentId" = d.id);
+
+UPDATE candidates c
+SET "activeResumeVersionId" = v.id
+FROM candidate_document_versions v
+JOIN candidate_documents d ON d.id = v."documentId"
+WHERE d."candidateId" = c.id
+  AND v."fileUrl" = c."resumeFileUrl"
+  AND c."activeResumeVersionId" IS NULL;
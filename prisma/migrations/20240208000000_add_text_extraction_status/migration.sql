@@ -0,0 +1,27 @@
+-- Migration: Add Text Extraction Status
+-- Description: Record how well each resume version's text could be read
+--              (including by OCR), so failed and low-quality extractions
+--              can be flagged on the candidate.
+
+-- 1. Create TextExtractionStatus enum
+DO $$ BEGIN
+  CREATE TYPE "TextExtractionStatus" AS ENUM ('PENDING', 'OK', 'LOW_QUALITY', 'FAILED');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+-- 2. Add columns to candidate_document_versions
+ALTER TABLE candidate_document_versions ADD COLUMN IF NOT EXISTS "extractionStatus" "TextExtractionStatus";
+ALTER TABLE candidate_document_versions ADD COLUMN IF NOT EXISTS "extractedWithOcr" BOOLEAN NOT NULL DEFAULT false;
+
+-- 3. Existing resume versions: text or no text. Upload a version again to
+--    have it re-read (e.g. with OCR).
+UPDATE candidate_document_versions v
+SET "extractionStatus" = CASE
+  WHEN COALESCE(TRIM(v."extractedText"), '') = '' THEN 'FAILED'::"TextExtractionStatus"
+  ELSE 'OK'::"TextExtractionStatus"
+END
+FROM candidate_documents d
+WHERE d.id = v."documentId"
+  AND d.type = 'RESUME'
+  AND v."extractionStatus" IS NULL;
@@ -1,5 +1,6 @@
-import { PrismaClient, Role, ProjectStatus, ProjectPriority, SeniorityLevel, RemotePolicy, CandidateStage, EmploymentStatus, DevOpsStatus, AssignmentStatus } from '@prisma/client'
+import { PrismaClient, ProjectStatus, ProjectPriority, SeniorityLevel, RemotePolicy, TalentStage, EmploymentStatus, DevOpsStatus, AssignmentStatus } from '@prisma/client'
 import bcrypt from 'bcryptjs'
+import { defaultRoles } from '../src/lib/permissions'
 
 const prisma = new PrismaClient()
 
@@ -12,17 +13,31 @@ async function main() {
   await prisma.activityLog.deleteMany()
   await prisma.engineerUpdate.deleteMany()
   await prisma.engineerAssignment.deleteMany()
+  await prisma.interviewFeedback.deleteMany()
+  await prisma.interview.deleteMany()
   await prisma.projectTalent.deleteMany()
   await prisma.projectCandidate.deleteMany()
   await prisma.projectAssignment.deleteMany()
   await prisma.project.deleteMany()
+  await prisma.scoringProfile.deleteMany()
+  await prisma.skill.deleteMany()
   await prisma.engineer.deleteMany()
   await prisma.candidate.deleteMany()
   await prisma.customer.deleteMany()
   await prisma.user.deleteMany()
+  await prisma.role.deleteMany()
 
   console.log('Cleared existing data')
 
+  // Create built-in roles
+  for (const role of defaultRoles) {
+    await prisma.role.create({
+      data: { ...role, isSystem: true },
+    })
+  }
+
+  console.log('Created roles')
+
   // Create Users
   const passwordHash = await bcrypt.hash('admin123', 12)
 
@@ -31,7 +46,7 @@ async function main() {
       fullName: 'Admin User',
       email: 'admin@naviteq.com',
       passwordHash,
-      role: Role.ADMIN,
+      role: 'ADMIN',
       isActive: true,
     },
   })
@@ -41,7 +56,7 @@ async function main() {
       fullName: 'Sarah Sales',
       email: 'sarah@naviteq.com',
       passwordHash,
-      role: Role.SALES,
+      role: 'SALES',
       isActive: true,
     },
   })
@@ -51,7 +66,7 @@ async function main() {
       fullName: 'Rachel Recruiter',
       email: 'rachel@naviteq.com',
       passwordHash,
-      role: Role.RECRUITER,
+      role: 'RECRUITER',
       isActive: true,
     },
   })
@@ -61,7 +76,7 @@ async function main() {
       fullName: 'Michael Manager',
       email: 'michael@naviteq.com',
       passwordHash,
-      role: Role.CLIENT_MANAGER,
+      role: 'CLIENT_MANAGER',
       isActive: true,
     },
   })
@@ -118,6 +133,64 @@ async function main() {
 
   console.log('Created customers')
 
+  // Create Scoring Profiles
+  const availabilityBoost = { BENCH: 15, ACTIVE: 10, ASSIGNED: 0, ON_LEAVE: -5, INACTIVE: -10 }
+
+  await prisma.scoringProfile.create({
+    data: {
+      name: 'Standard',
+      description: 'Built-in matching weights',
+      isDefault: true,
+      candidateWeights: { technologies: 40, mustHave: 25, seniority: 15, experience: 10, niceToHave: 10 },
+      engineerWeights: { technologies: 35, mustHave: 20, seniority: 15, experience: 10, pastCustomer: 5 },
+      availabilityBoost,
+    },
+  })
+
+  const devOpsContractProfile = await prisma.scoringProfile.create({
+    data: {
+      name: 'DevOps contract',
+      description: 'Favours hands-on tooling overlap and immediate availability',
+      candidateWeights: { technologies: 50, mustHave: 25, seniority: 10, experience: 10, niceToHave: 5 },
+      engineerWeights: { technologies: 40, mustHave: 20, seniority: 10, experience: 5, pastCustomer: 5 },
+      availabilityBoost: { ...availabilityBoost, BENCH: 20 },
+    },
+  })
+
+  const seniorPermProfile = await prisma.scoringProfile.create({
+    data: {
+      name: 'Senior dev perm',
+      description: 'Favours seniority and years of experience for permanent hires',
+      candidateWeights: { technologies: 30, mustHave: 25, seniority: 25, experience: 15, niceToHave: 5 },
+      engineerWeights: { technologies: 25, mustHave: 20, seniority: 20, experience: 15, pastCustomer: 5 },
+      availabilityBoost,
+    },
+  })
+
+  console.log('Created scoring profiles')
+
+  // Create Skill Taxonomy
+  await prisma.skill.createMany({
+    data: [
+      { name: 'Kubernetes', aliases: ['K8s', 'k8s.io'], category: 'Containers' },
+      { name: 'Docker', aliases: ['Docker Compose'], category: 'Containers' },
+      { name: 'AWS EKS', aliases: ['EKS', 'Amazon EKS'], category: 'Containers' },
+      { name: 'AWS', aliases: ['Amazon Web Services'], category: 'Cloud' },
+      { name: 'GCP', aliases: ['Google Cloud', 'Google Cloud Platform'], category: 'Cloud' },
+      { name: 'Azure', aliases: ['Microsoft Azure'], category: 'Cloud' },
+      { name: 'Terraform', aliases: ['TF'], category: 'Infrastructure as Code' },
+      { name: 'Pulumi', aliases: [], category: 'Infrastructure as Code' },
+      { name: 'Node.js', aliases: ['Node', 'NodeJS'], category: 'Backend' },
+      { name: 'Python', aliases: ['Python3'], category: 'Backend' },
+      { name: 'React', aliases: ['ReactJS', 'React.js'], category: 'Frontend' },
+      { name: 'TypeScript', aliases: ['TS'], category: 'Languages' },
+      { name: 'JavaScript', aliases: ['JS', 'ES6'], category: 'Languages' },
+      { name: 'PostgreSQL', aliases: ['Postgres', 'psql'], category: 'Databases' },
+    ],
+  })
+
+  console.log('Created skill taxonomy')
+
   // Create Projects
   const projects = await Promise.all([
     prisma.project.create({
@@ -136,6 +209,7 @@ async function main() {
         headcount: 2,
         priority: ProjectPriority.HIGH,
         status: ProjectStatus.SOURCING,
+        scoringProfileId: seniorPermProfile.id,
         assignedUsers: {
           create: [
             { userId: sales.id },
@@ -160,6 +234,7 @@ async function main() {
         headcount: 1,
         priority: ProjectPriority.MEDIUM,
         status: ProjectStatus.INTERVIEWS,
+        scoringProfileId: devOpsContractProfile.id,
         assignedUsers: {
           create: [{ userId: recruiter.id }],
         },
@@ -507,46 +582,47 @@ async function main() {
 
   console.log(`Created ${candidates.length} candidates`)
 
-  // Create ProjectCandidates (submissions)
+  // Create project talents (candidate submissions)
   const projectCandidates = [
     // Project 1 - Senior Full Stack Developer
-    { projectIndex: 0, candidateIndex: 0, stage: CandidateStage.INTERVIEWING, matchScore: 92 },
-    { projectIndex: 0, candidateIndex: 8, stage: CandidateStage.SUBMITTED_TO_CLIENT, matchScore: 85 },
-    { projectIndex: 0, candidateIndex: 5, stage: CandidateStage.SHORTLISTED, matchScore: 75 },
+    { projectIndex: 0, candidateIndex: 0, stage: TalentStage.INTERVIEWING, matchScore: 92 },
+    { projectIndex: 0, candidateIndex: 8, stage: TalentStage.SUBMITTED_TO_CLIENT, matchScore: 85 },
+    { projectIndex: 0, candidateIndex: 5, stage: TalentStage.SHORTLISTED, matchScore: 75 },
 
     // Project 2 - DevOps Engineer
-    { projectIndex: 1, candidateIndex: 2, stage: CandidateStage.INTERVIEWING, matchScore: 95 },
+    { projectIndex: 1, candidateIndex: 2, stage: TalentStage.INTERVIEWING, matchScore: 95 },
 
     // Project 3 - Python Backend Developer
-    { projectIndex: 2, candidateIndex: 1, stage: CandidateStage.CONTACTED, matchScore: 90 },
-    { projectIndex: 2, candidateIndex: 7, stage: CandidateStage.SHORTLISTED, matchScore: 72 },
+    { projectIndex: 2, candidateIndex: 1, stage: TalentStage.CONTACTED, matchScore: 90 },
+    { projectIndex: 2, candidateIndex: 7, stage: TalentStage.SHORTLISTED, matchScore: 72 },
 
     // Project 4 - React Native Developer
-    { projectIndex: 3, candidateIndex: 3, stage: CandidateStage.SHORTLISTED, matchScore: 88 },
+    { projectIndex: 3, candidateIndex: 3, stage: TalentStage.SHORTLISTED, matchScore: 88 },
 
     // Project 5 - Java Backend Developer (closed won - has hired)
-    { projectIndex: 4, candidateIndex: 4, stage: CandidateStage.HIRED, matchScore: 96 },
+    { projectIndex: 4, candidateIndex: 4, stage: TalentStage.HIRED, matchScore: 96 },
 
     // Additional submissions
-    { projectIndex: 0, candidateIndex: 10, stage: CandidateStage.REJECTED, matchScore: 45 },
-    { projectIndex: 0, candidateIndex: 11, stage: CandidateStage.SHORTLISTED, matchScore: 68 },
-    { projectIndex: 2, candidateIndex: 12, stage: CandidateStage.CONTACTED, matchScore: 70 },
-    { projectIndex: 2, candidateIndex: 13, stage: CandidateStage.SHORTLISTED, matchScore: 65 },
-    { projectIndex: 1, candidateIndex: 14, stage: CandidateStage.REJECTED, matchScore: 40 },
-    { projectIndex: 3, candidateIndex: 15, stage: CandidateStage.SHORTLISTED, matchScore: 55 },
-    { projectIndex: 4, candidateIndex: 16, stage: CandidateStage.REJECTED, matchScore: 50 },
-    { projectIndex: 0, candidateIndex: 17, stage: CandidateStage.SHORTLISTED, matchScore: 78 },
-    { projectIndex: 2, candidateIndex: 18, stage: CandidateStage.SHORTLISTED, matchScore: 62 },
-    { projectIndex: 1, candidateIndex: 19, stage: CandidateStage.SHORTLISTED, matchScore: 58 },
-    { projectIndex: 3, candidateIndex: 20, stage: CandidateStage.CONTACTED, matchScore: 72 },
-    { projectIndex: 0, candidateIndex: 21, stage: CandidateStage.SHORTLISTED, matchScore: 80 },
+    { projectIndex: 0, candidateIndex: 10, stage: TalentStage.REJECTED, matchScore: 45 },
+    { projectIndex: 0, candidateIndex: 11, stage: TalentStage.SHORTLISTED, matchScore: 68 },
+    { projectIndex: 2, candidateIndex: 12, stage: TalentStage.CONTACTED, matchScore: 70 },
+    { projectIndex: 2, candidateIndex: 13, stage: TalentStage.SHORTLISTED, matchScore: 65 },
+    { projectIndex: 1, candidateIndex: 14, stage: TalentStage.REJECTED, matchScore: 40 },
+    { projectIndex: 3, candidateIndex: 15, stage: TalentStage.SHORTLISTED, matchScore: 55 },
+    { projectIndex: 4, candidateIndex: 16, stage: TalentStage.REJECTED, matchScore: 50 },
+    { projectIndex: 0, candidateIndex: 17, stage: TalentStage.SHORTLISTED, matchScore: 78 },
+    { projectIndex: 2, candidateIndex: 18, stage: TalentStage.SHORTLISTED, matchScore: 62 },
+    { projectIndex: 1, candidateIndex: 19, stage: TalentStage.SHORTLISTED, matchScore: 58 },
+    { projectIndex: 3, candidateIndex: 20, stage: TalentStage.CONTACTED, matchScore: 72 },
+    { projectIndex: 0, candidateIndex: 21, stage: TalentStage.SHORTLISTED, matchScore: 80 },
   ]
 
-  await Promise.all(
+  const projectTalents = await Promise.all(
     projectCandidates.map((pc) =>
-      prisma.projectCandidate.create({
+      prisma.projectTalent.create({
         data: {
           projectId: projects[pc.projectIndex].id,
+          talentType: 'CANDIDATE',
           candidateId: candidates[pc.candidateIndex].id,
           stage: pc.stage,
           matchScore: pc.matchScore,
@@ -555,8 +631,10 @@ async function main() {
             'Meets seniority requirements',
             pc.matchScore > 80 ? 'Strong experience fit' : 'Partial experience match',
           ],
-          recruiterOwnerUserId: recruiter.id,
-          submittedAt: pc.stage !== CandidateStage.SHORTLISTED ? new Date() : null,
+          ownerUserId: recruiter.id,
+          submittedAt: pc.stage !== TalentStage.SHORTLISTED ? new Date() : null,
+          startDate: pc.stage === TalentStage.HIRED ? new Date() : null,
+          clientFeedback: pc.stage === TalentStage.REJECTED ? 'Not a fit for the team at this time' : null,
           lastStageChangeAt: new Date(),
         },
       })
@@ -565,6 +643,23 @@ async function main() {
 
   console.log('Created project candidates')
 
+  // Create an upcoming interview for the first interviewing candidate
+  await prisma.interview.create({
+    data: {
+      projectTalentId: projectTalents[0].id,
+      round: 1,
+      title: 'Technical interview',
+      scheduledAt: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000),
+      durationMinutes: 60,
+      meetingUrl: 'https://meet.example.com/naviteq-tech-1',
+      customerContacts: [{ name: 'John Smith', title: 'CTO', email: 'john@techcorp.com' }],
+      createdByUserId: recruiter.id,
+      interviewers: { connect: [{ id: recruiter.id }, { id: clientManager.id }] },
+    },
+  })
+
+  console.log('Created interviews')
+
   // Create Activity Logs
   await prisma.activityLog.createMany({
     data: [
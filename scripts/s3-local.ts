@@ -0,0 +1,128 @@
+/**
+ * A minimal S3-compatible server for trying out STORAGE_TYPE=s3 without AWS
+ * or MinIO. Stores objects under DATA_DIR and supports what the app uses:
+ * PUT, GET, HEAD and DELETE of single objects, path-style.
+ *
+ * Usage:
+ *   npm run storage:s3-local
+ *   S3_ACCESS_KEY=local S3_SECRET_KEY=local-secret PORT=9000 npm run storage:s3-local
+ *
+ * Then run the app with:
+ *   STORAGE_TYPE=s3 S3_ENDPOINT=http://localhost:9000 S3_BUCKET=naviteq-resumes
+ *   S3_ACCESS_KEY=local S3_SECRET_KEY=local-secret
+ *
+ * With S3_ACCESS_KEY and S3_SECRET_KEY set, requests must carry a valid
+ * Signature Version 4 signature, as on AWS; otherwise any request is accepted.
+ */
+
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
+import http from 'http'
+import path from 'path'
+import { signS3Request } from '../src/lib/storage'
+
+const port = parseInt(process.env.PORT || '9000')
+const dataDir = path.resolve(process.env.DATA_DIR || path.join('tmp', 's3'))
+const accessKey = process.env.S3_ACCESS_KEY
+const secretKey = process.env.S3_SECRET_KEY
+
+function sendError(res: http.ServerResponse, status: number, code: string, message: string) {
+  res
+    .writeHead(status, { 'Content-Type': 'application/xml' })
+    .end(`<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${message}</Message></Error>`)
+}
+
+/**
+ * Check the request's Authorization header, returning a problem or null
+ */
+function verifySignature(req: http.IncomingMessage, pathname: string, body: Buffer): string | null {
+  if (!accessKey || !secretKey) return null
+
+  const match = (req.headers.authorization || '').match(
+    /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, ?SignedHeaders=([^,]+), ?Signature=([0-9a-f]+)$/
+  )
+  if (!match) return 'missing or malformed Authorization header'
+  const [, credential, , region, signedHeaderList, received] = match
+  if (credential !== accessKey) return 'unknown access key'
+
+  const payloadHash = req.headers['x-amz-content-sha256'] as string | undefined
+  if (payloadHash !== crypto.createHash('sha256').update(body).digest('hex')) {
+    return 'x-amz-content-sha256 does not match the body'
+  }
+
+  const headers: Record<string, string> = {}
+  for (const name of signedHeaderList.split(';')) {
+    headers[name] = String(req.headers[name] ?? '')
+  }
+
+  const { signature } = signS3Request({
+    method: req.method || 'GET',
+    path: pathname,
+    headers,
+    payloadHash,
+    amzDate: String(req.headers['x-amz-date'] || ''),
+    region,
+    secretAccessKey: secretKey,
+  })
+  return signature === received ? null : 'signature mismatch'
+}
+
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = []
+  req.on('data', (chunk: Buffer) => chunks.push(chunk))
+  req.on('end', async () => {
+    const body = Buffer.concat(chunks)
+    const pathname = (req.url || '/').split('?')[0]
+    console.log(`${new Date().toISOString()} ${req.method} ${pathname} (${body.length} bytes)`)
+
+    try {
+      const problem = verifySignature(req, pathname, body)
+      if (problem) {
+        console.log(`  rejected: ${problem}`)
+        sendError(res, 403, 'SignatureDoesNotMatch', problem)
+        return
+      }
+
+      // /bucket/key, with the key's segments percent-encoded
+      const [bucket, ...keyParts] = pathname.slice(1).split('/').map(decodeURIComponent)
+      const filePath = path.resolve(dataDir, bucket || '', ...keyParts)
+      if (!bucket || keyParts.length === 0 || !filePath.startsWith(dataDir + path.sep)) {
+        sendError(res, 400, 'InvalidRequest', 'Only single-object requests are supported')
+        return
+      }
+
+      switch (req.method) {
+        case 'PUT':
+          await fs.mkdir(path.dirname(filePath), { recursive: true })
+          await fs.writeFile(filePath, body)
+          res.writeHead(200).end()
+          return
+        case 'GET':
+        case 'HEAD': {
+          const file = await fs.readFile(filePath).catch(() => null)
+          if (!file) {
+            sendError(res, 404, 'NoSuchKey', 'The specified key does not exist.')
+            return
+          }
+          res.writeHead(200, { 'Content-Length': file.length })
+          res.end(req.method === 'GET' ? file : undefined)
+          return
+        }
+        case 'DELETE':
+          await fs.rm(filePath, { force: true })
+          res.writeHead(204).end()
+          return
+        default:
+          sendError(res, 405, 'MethodNotAllowed', `${req.method} is not supported`)
+      }
+    } catch (error) {
+      console.error(error)
+      sendError(res, 500, 'InternalError', 'Request failed')
+    }
+  })
+})
+
+server.listen(port, () => {
+  console.log(`S3 stand-in listening on http://localhost:${port}, storing objects in ${dataDir}`)
+  console.log(accessKey && secretKey ? 'Requests must be signed.' : 'Signatures are not checked.')
+})
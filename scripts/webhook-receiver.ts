@@ -0,0 +1,74 @@
+/**
+ * A local webhook receiver for trying out outgoing webhooks.
+ *
+ * Usage:
+ *   npm run webhooks:receive
+ *   WEBHOOK_SECRET=whsec_... PORT=4000 npm run webhooks:receive
+ *   RESPOND_WITH=500 npm run webhooks:receive   # Fail every delivery to watch the retries
+ *
+ * Point a webhook in Settings at http://localhost:4000/. With WEBHOOK_SECRET
+ * set, requests whose signature doesn't match (or is more than five minutes
+ * old) are answered with 401.
+ */
+
+import crypto from 'crypto'
+import http from 'http'
+
+const port = parseInt(process.env.PORT || '4000')
+const secret = process.env.WEBHOOK_SECRET
+const respondWith = parseInt(process.env.RESPOND_WITH || '200')
+const TOLERANCE_SECONDS = 5 * 60
+
+function verifySignature(header: string | undefined, body: string): string | null {
+  if (!secret) return null
+  if (!header) return 'missing signature'
+
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => part.split('=', 2) as [string, string])
+  )
+  const timestamp = parseInt(parts.t)
+  if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) {
+    return 'stale or missing timestamp'
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  const received = parts.v1 || ''
+  if (
+    received.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(received), Buffer.from(expected))
+  ) {
+    return 'signature mismatch'
+  }
+  return null
+}
+
+const server = http.createServer((req, res) => {
+  const chunks: Buffer[] = []
+  req.on('data', (chunk: Buffer) => chunks.push(chunk))
+  req.on('end', () => {
+    const body = Buffer.concat(chunks).toString('utf8')
+    const event = req.headers['x-naviteq-event']
+    const delivery = req.headers['x-naviteq-delivery']
+    const problem = verifySignature(req.headers['x-naviteq-signature'] as string | undefined, body)
+
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url} ${event} (${delivery})`)
+    if (problem) {
+      console.log(`  rejected: ${problem}`)
+      res.writeHead(401, { 'Content-Type': 'text/plain' }).end(problem)
+      return
+    }
+
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2))
+    } catch {
+      console.log(body)
+    }
+
+    res.writeHead(respondWith, { 'Content-Type': 'text/plain' }).end(respondWith < 300 ? 'ok' : 'failing on purpose')
+  })
+})
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`)
+  console.log(secret ? 'Verifying signatures' : 'Not verifying signatures (set WEBHOOK_SECRET)')
+})
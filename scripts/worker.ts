@@ -0,0 +1,48 @@
+/**
+ * Background job worker. Runs queued jobs and queues the recurring ones, so
+ * the web server doesn't have to (set JOB_WORKER=external there).
+ *
+ * Usage:
+ *   npm run worker
+ *
+ * Any number of workers can run at once; each job goes to one of them.
+ */
+
+import { runJobs, scheduleRecurringJobs } from '../src/lib/job-runner'
+import { workerId } from '../src/lib/jobs'
+import prisma from '../src/lib/prisma'
+
+// How long to wait before looking again when the queue is empty
+const IDLE_DELAY_MS = 2000
+
+let stopping = false
+
+async function main() {
+  console.log(`Job worker ${workerId} started`)
+
+  while (!stopping) {
+    try {
+      await scheduleRecurringJobs()
+      const { succeeded, failed } = await runJobs({ deadline: Date.now() + 30 * 1000 })
+      if (succeeded + failed > 0) {
+        console.log(`Ran ${succeeded + failed} job(s): ${succeeded} succeeded, ${failed} failed`)
+        continue
+      }
+    } catch (error) {
+      console.error('Worker error:', error)
+    }
+    await new Promise((resolve) => setTimeout(resolve, IDLE_DELAY_MS))
+  }
+
+  await prisma.$disconnect()
+  console.log('Job worker stopped')
+}
+
+// Finish the job in hand before exiting
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    stopping = true
+  })
+}
+
+main()
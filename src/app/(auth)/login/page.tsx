@@ -1,19 +1,58 @@
 'use client'
 
-import { useState } from 'react'
+import { Suspense, useEffect, useState } from 'react'
+import Link from 'next/link'
 import { signIn } from 'next-auth/react'
-import { useRouter } from 'next/navigation'
+import { useRouter, useSearchParams } from 'next/navigation'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 
-export default function LoginPage() {
+// Reasons a login was refused (src/lib/auth.ts, src/lib/sso.ts) and next-auth's own errors
+const loginErrors: Record<string, string> = {
+  InvalidCredentials: 'Invalid email or password',
+  InvalidTwoFactorCode: 'That code is not valid. Try again or use a recovery code.',
+  TooManyAttempts: 'Too many sign-in attempts. Please wait a few minutes and try again.',
+  SsoMissingEmail: 'Your identity provider did not share an email address.',
+  SsoDomainNotAllowed: 'Your email domain is not allowed to sign in.',
+  SsoNotProvisioned: 'You don\'t have an account yet. Ask an administrator to add you.',
+  SsoNoRole: 'None of your groups grant access. Ask an administrator to assign you a role.',
+  SsoAccountMismatch: 'This email is linked to a different single sign-on account.',
+  AccountDisabled: 'Your account has been deactivated.',
+  PasswordLoginDisabled: 'Password sign-in is disabled. Use single sign-on instead.',
+  OAuthSignin: 'Could not reach the identity provider. Please try again.',
+  OAuthCallback: 'Single sign-on failed. Please try again.',
+}
+
+interface LoginOptions {
+  passwordLogin: boolean
+  providers: Array<{ id: string; name: string }>
+}
+
+function LoginForm() {
   const router = useRouter()
+  const searchParams = useSearchParams()
+  const errorCode = searchParams.get('error')
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
-  const [error, setError] = useState('')
+  const [code, setCode] = useState('')
+  const [needsCode, setNeedsCode] = useState(false)
+  const [error, setError] = useState(
+    errorCode ? loginErrors[errorCode] || 'Sign-in failed. Please try again.' : ''
+  )
   const [loading, setLoading] = useState(false)
+  const passwordSet = searchParams.get('passwordSet') === '1'
+  const [options, setOptions] = useState<LoginOptions>({ passwordLogin: true, providers: [] })
+
+  useEffect(() => {
+    fetch('/api/sso/login-options')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data?.data) setOptions(data.data)
+      })
+      .catch((error) => console.error('Error fetching login options:', error))
+  }, [])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -24,11 +63,16 @@ export default function LoginPage() {
       const result = await signIn('credentials', {
         email,
         password,
+        code: needsCode ? code : '',
         redirect: false,
       })
 
-      if (result?.error) {
-        setError('Invalid email or password')
+      if (result?.error === 'TwoFactorRequired') {
+        // Password was right; ask for the authenticator code and resubmit
+        setNeedsCode(true)
+      } else if (result?.error) {
+        setError(loginErrors[result.error] || loginErrors.InvalidCredentials)
+        if (result.error === 'InvalidTwoFactorCode') setCode('')
       } else {
         router.push('/dashboard')
         router.refresh()
@@ -40,6 +84,117 @@ export default function LoginPage() {
     }
   }
 
+  return (
+    <>
+      {passwordSet && !error && (
+        <div className="mb-4 rounded-md bg-green-50 p-3 text-sm text-green-600">
+          Your password has been set. Sign in with it below.
+        </div>
+      )}
+      {error && (
+        <div className="mb-4 rounded-md bg-red-50 p-3 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+      {options.providers.length > 0 && (
+        <div className="space-y-2">
+          {options.providers.map((provider) => (
+            <Button
+              key={provider.id}
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={() => signIn(provider.id, { callbackUrl: '/dashboard' })}
+            >
+              Sign in with {provider.name}
+            </Button>
+          ))}
+        </div>
+      )}
+      {options.providers.length > 0 && options.passwordLogin && (
+        <div className="my-4 flex items-center gap-3 text-xs uppercase text-gray-400">
+          <div className="h-px flex-1 bg-gray-200" />
+          or
+          <div className="h-px flex-1 bg-gray-200" />
+        </div>
+      )}
+      {options.passwordLogin && (
+        <>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {needsCode ? (
+              <div className="space-y-2">
+                <Label htmlFor="code">Authentication code</Label>
+                <Input
+                  id="code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="123456"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  required
+                />
+                <p className="text-xs text-gray-500">
+                  Enter the code from your authenticator app, or one of your recovery codes.
+                </p>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="you@naviteq.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password">Password</Label>
+                    <Link href="/forgot-password" className="text-xs text-indigo-600 hover:underline">
+                      Forgot password?
+                    </Link>
+                  </div>
+                  <Input
+                    id="password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
+                </div>
+              </>
+            )}
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? 'Signing in...' : needsCode ? 'Verify' : 'Sign In'}
+            </Button>
+            {needsCode && (
+              <Button
+                type="button"
+                variant="ghost"
+                className="w-full"
+                onClick={() => {
+                  setNeedsCode(false)
+                  setCode('')
+                  setPassword('')
+                }}
+              >
+                Back
+              </Button>
+            )}
+          </form>
+          <div className="mt-4 text-center text-sm text-gray-500">
+            Demo credentials: admin@naviteq.com / admin123
+          </div>
+        </>
+      )}
+    </>
+  )
+}
+
+export default function LoginPage() {
   return (
     <div className="flex min-h-screen items-center justify-center bg-gray-100">
       <Card className="w-full max-w-md">
@@ -53,40 +208,9 @@ export default function LoginPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            {error && (
-              <div className="rounded-md bg-red-50 p-3 text-sm text-red-600">
-                {error}
-              </div>
-            )}
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="you@naviteq.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-              />
-            </div>
-            <Button type="submit" className="w-full" disabled={loading}>
-              {loading ? 'Signing in...' : 'Sign In'}
-            </Button>
-          </form>
-          <div className="mt-4 text-center text-sm text-gray-500">
-            Demo credentials: admin@naviteq.com / admin123
-          </div>
+          <Suspense>
+            <LoginForm />
+          </Suspense>
         </CardContent>
       </Card>
     </div>
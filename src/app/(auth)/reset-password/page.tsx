@@ -0,0 +1,155 @@
+'use client'
+
+import { Suspense, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+interface PasswordLink {
+  purpose: 'INVITE' | 'RESET'
+  email: string
+  fullName: string
+}
+
+// Set a password from an invitation or reset link
+function ResetPasswordForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams.get('token') || ''
+  const [link, setLink] = useState<PasswordLink | null>(null)
+  const [checking, setChecking] = useState(true)
+  const [password, setPassword] = useState('')
+  const [confirmPassword, setConfirmPassword] = useState('')
+  const [error, setError] = useState('')
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!token) {
+      setChecking(false)
+      return
+    }
+    fetch(`/api/account/reset-password?token=${encodeURIComponent(token)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setLink(data?.data || null))
+      .catch((error) => console.error('Error checking password link:', error))
+      .finally(() => setChecking(false))
+  }, [token])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+
+    if (password.length < 8) {
+      setError('Password must be at least 8 characters')
+      return
+    }
+    if (password !== confirmPassword) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const res = await fetch('/api/account/reset-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, password }),
+      })
+
+      if (res.ok) {
+        router.push('/login?passwordSet=1')
+      } else {
+        const errorData = await res.json()
+        setError(errorData.error || 'Failed to set password')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (checking) {
+    return <div className="text-center text-gray-500">Loading...</div>
+  }
+
+  if (!link) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm text-gray-600">
+          This link is invalid or has expired. Request a new one, or ask an administrator to
+          resend your invitation.
+        </p>
+        <Link href="/forgot-password" className="text-sm text-indigo-600 hover:underline">
+          Request a new reset link
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {link.purpose === 'INVITE' ? 'Welcome' : 'Hi'} {link.fullName}, choose a password for{' '}
+        <span className="font-medium">{link.email}</span>.
+      </p>
+      {error && (
+        <div className="rounded-md bg-red-50 p-3 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="password">New Password</Label>
+        <Input
+          id="password"
+          type="password"
+          placeholder="Min 8 characters"
+          autoComplete="new-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirmPassword">Confirm Password</Label>
+        <Input
+          id="confirmPassword"
+          type="password"
+          autoComplete="new-password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          required
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading ? 'Saving...' : link.purpose === 'INVITE' ? 'Set password' : 'Reset password'}
+      </Button>
+    </form>
+  )
+}
+
+export default function ResetPasswordPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-indigo-600">
+            <span className="text-2xl font-bold text-white">N</span>
+          </div>
+          <CardTitle className="text-2xl">Choose a password</CardTitle>
+          <CardDescription>
+            Set the password you&apos;ll use to sign in to Naviteq
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Suspense>
+            <ResetPasswordForm />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
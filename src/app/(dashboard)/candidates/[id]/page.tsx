@@ -2,8 +2,9 @@
 
 import { useEffect, useState } from 'react'
 import { useParams, useRouter } from 'next/navigation'
+import { useSession } from 'next-auth/react'
 import Link from 'next/link'
-import { ArrowLeft, Edit, Trash2, FileText, Plus } from 'lucide-react'
+import { ArrowLeft, Edit, Trash2, FileText, Plus, Merge, AlertTriangle } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -11,13 +12,19 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { PageHeader } from '@/components/layout/page-header'
 import { CandidateDialog } from '@/components/forms/candidate-dialog'
 import { InterviewNoteDialog } from '@/components/forms/interview-note-dialog'
+import { MergeCandidateDialog } from '@/components/forms/merge-candidate-dialog'
 import { ActivityList } from '@/components/activity-list'
+import { InterviewList } from '@/components/interview-list'
+import { CandidateDocuments } from '@/components/candidate-documents'
 import { formatDate, formatDateTime } from '@/lib/utils'
+import { hasPermission } from '@/lib/permissions'
 import {
   seniorityLabels,
-  candidateStageLabels,
-  candidateStageColors,
+  talentStageLabels,
+  talentStageColors,
   projectStatusLabels,
+  EmploymentHistoryEntry,
+  TextExtractionStatus,
 } from '@/types'
 
 interface InterviewNote {
@@ -45,9 +52,14 @@ interface Candidate {
   resumeFileUrl: string | null
   resumeOriginalName: string | null
   resumeExtractedText: string | null
+  activeResumeVersion: {
+    extractionStatus: TextExtractionStatus | null
+    extractedWithOcr: boolean
+  } | null
   interviewNotes: InterviewNote[]
+  employmentHistory: EmploymentHistoryEntry[]
   tags: string[]
-  projectCandidates: Array<{
+  projectTalents: Array<{
     id: string
     stage: string
     matchScore: number | null
@@ -60,10 +72,16 @@ interface Candidate {
 export default function CandidateDetailPage() {
   const params = useParams()
   const router = useRouter()
+  const { data: session } = useSession()
   const [candidate, setCandidate] = useState<Candidate | null>(null)
   const [loading, setLoading] = useState(true)
   const [editDialogOpen, setEditDialogOpen] = useState(false)
   const [noteDialogOpen, setNoteDialogOpen] = useState(false)
+  const [mergeDialogOpen, setMergeDialogOpen] = useState(false)
+
+  const canMerge = session?.user
+    ? hasPermission(session.user, 'candidates:merge')
+    : false
 
   const fetchCandidate = async () => {
     try {
@@ -131,6 +149,12 @@ export default function CandidateDetailPage() {
               <Edit className="mr-2 h-4 w-4" />
               Edit
             </Button>
+            {canMerge && (
+              <Button variant="outline" onClick={() => setMergeDialogOpen(true)}>
+                <Merge className="mr-2 h-4 w-4" />
+                Merge Duplicate
+              </Button>
+            )}
             <Button variant="destructive" onClick={handleDelete}>
               <Trash2 className="mr-2 h-4 w-4" />
               Delete
@@ -142,12 +166,13 @@ export default function CandidateDetailPage() {
       <Tabs defaultValue="overview">
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
-          <TabsTrigger value="resume">Resume</TabsTrigger>
+          <TabsTrigger value="documents">Documents</TabsTrigger>
+          <TabsTrigger value="scheduled-interviews">Interviews</TabsTrigger>
           <TabsTrigger value="interviews">
             Interview Notes ({candidate.interviewNotes?.length || 0})
           </TabsTrigger>
           <TabsTrigger value="projects">
-            Projects ({candidate.projectCandidates?.length || 0})
+            Projects ({candidate.projectTalents?.length || 0})
           </TabsTrigger>
           <TabsTrigger value="activity">Activity</TabsTrigger>
         </TabsList>
@@ -297,6 +322,29 @@ export default function CandidateDetailPage() {
                 </Card>
               )}
 
+              {candidate.employmentHistory?.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Employment History</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {candidate.employmentHistory.map((entry, idx) => (
+                      <div key={idx} className="text-sm">
+                        <div className="font-medium">
+                          {entry.title}
+                          {entry.company && (
+                            <span className="font-normal text-gray-500"> at {entry.company}</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {entry.startDate} - {entry.endDate || 'Present'}
+                        </div>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
+
               {candidate.salaryExpectation && (
                 <Card>
                   <CardHeader>
@@ -311,39 +359,75 @@ export default function CandidateDetailPage() {
           </div>
         </TabsContent>
 
-        <TabsContent value="resume" className="mt-4">
+        <TabsContent value="documents" className="mt-4 space-y-4">
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center gap-2">
                 <FileText className="h-5 w-5" />
-                Resume
+                Documents
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {candidate.resumeFileUrl ? (
-                <div className="space-y-4">
-                  <div>
-                    <div className="text-sm font-medium text-gray-500">
-                      File
-                    </div>
-                    <div className="text-sm">
-                      {candidate.resumeOriginalName || 'Resume file'}
+              <CandidateDocuments candidateId={candidate.id} onActiveResumeChange={fetchCandidate} />
+            </CardContent>
+          </Card>
+
+          {candidate.resumeFileUrl && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Resume Used for Matching</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-sm">
+                  {candidate.resumeOriginalName || 'Resume file'}
+                  {candidate.activeResumeVersion?.extractedWithOcr && (
+                    <span className="text-gray-500"> (text read with OCR)</span>
+                  )}
+                </div>
+                {candidate.activeResumeVersion?.extractionStatus === 'PENDING' && (
+                  <p className="mt-2 text-sm text-gray-500">Extracting text...</p>
+                )}
+                {(candidate.activeResumeVersion?.extractionStatus === 'FAILED' ||
+                  candidate.activeResumeVersion?.extractionStatus === 'LOW_QUALITY') && (
+                  <div className="mt-4 rounded border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-900">
+                    <div className="flex items-center gap-2 font-medium">
+                      <AlertTriangle className="h-4 w-4" />
+                      {candidate.activeResumeVersion.extractionStatus === 'FAILED'
+                        ? 'Text extraction failed'
+                        : 'Low-quality text extraction'}
                     </div>
+                    <p className="mt-1">
+                      {candidate.activeResumeVersion.extractionStatus === 'FAILED'
+                        ? 'No usable text could be read from this resume, so matching and search can only use the profile fields.'
+                        : 'Only part of this resume could be read, or the text looks garbled, so matching and search may miss skills.'}{' '}
+                      Upload a text-based version (e.g. exported from Word) if one is available.
+                    </p>
                   </div>
-                  {candidate.resumeExtractedText && (
-                    <div>
-                      <div className="text-sm font-medium text-gray-500 mb-2">
-                        Extracted Content
-                      </div>
-                      <div className="max-h-96 overflow-y-auto rounded-lg bg-gray-50 p-4 text-sm whitespace-pre-wrap">
-                        {candidate.resumeExtractedText}
-                      </div>
+                )}
+                {candidate.resumeExtractedText ? (
+                  <div className="mt-4">
+                    <div className="text-sm font-medium text-gray-500 mb-2">
+                      Extracted Content
                     </div>
-                  )}
-                </div>
-              ) : (
-                <p className="text-gray-500">No resume uploaded</p>
-              )}
+                    <div className="max-h-96 overflow-y-auto rounded-lg bg-gray-50 p-4 text-sm whitespace-pre-wrap">
+                      {candidate.resumeExtractedText}
+                    </div>
+                  </div>
+                ) : (
+                  <p className="mt-2 text-sm text-gray-500">No text extracted</p>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+
+        <TabsContent value="scheduled-interviews" className="mt-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Interviews</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <InterviewList candidateId={candidate.id} showSummary />
             </CardContent>
           </Card>
         </TabsContent>
@@ -395,45 +479,45 @@ export default function CandidateDetailPage() {
               <CardTitle>Project Submissions</CardTitle>
             </CardHeader>
             <CardContent>
-              {!candidate.projectCandidates ||
-              candidate.projectCandidates.length === 0 ? (
+              {!candidate.projectTalents ||
+              candidate.projectTalents.length === 0 ? (
                 <p className="text-gray-500">
                   Not submitted to any projects yet
                 </p>
               ) : (
                 <div className="space-y-3">
-                  {candidate.projectCandidates.map((pc) => (
+                  {candidate.projectTalents.map((pt) => (
                     <Link
-                      key={pc.id}
-                      href={`/projects/${pc.project.id}`}
+                      key={pt.id}
+                      href={`/projects/${pt.project.id}`}
                       className="flex items-center justify-between rounded-lg border p-3 hover:bg-gray-50"
                     >
                       <div>
-                        <div className="font-medium">{pc.project.title}</div>
+                        <div className="font-medium">{pt.project.title}</div>
                         <div className="text-sm text-gray-500">
                           {
                             projectStatusLabels[
-                              pc.project.status as keyof typeof projectStatusLabels
+                              pt.project.status as keyof typeof projectStatusLabels
                             ]
                           }
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
-                        {pc.matchScore != null && (
+                        {pt.matchScore != null && (
                           <Badge variant="outline">
-                            {pc.matchScore}% match
+                            {pt.matchScore}% match
                           </Badge>
                         )}
                         <Badge
                           className={
-                            candidateStageColors[
-                              pc.stage as keyof typeof candidateStageColors
+                            talentStageColors[
+                              pt.stage as keyof typeof talentStageColors
                             ]
                           }
                         >
                           {
-                            candidateStageLabels[
-                              pc.stage as keyof typeof candidateStageLabels
+                            talentStageLabels[
+                              pt.stage as keyof typeof talentStageLabels
                             ]
                           }
                         </Badge>
@@ -478,6 +562,18 @@ export default function CandidateDetailPage() {
           fetchCandidate()
         }}
       />
+
+      {canMerge && (
+        <MergeCandidateDialog
+          open={mergeDialogOpen}
+          onOpenChange={setMergeDialogOpen}
+          candidate={candidate}
+          onSuccess={() => {
+            setMergeDialogOpen(false)
+            fetchCandidate()
+          }}
+        />
+      )}
     </div>
   )
 }
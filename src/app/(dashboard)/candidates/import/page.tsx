@@ -0,0 +1,443 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, FileSpreadsheet, FileArchive, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { PageHeader } from '@/components/layout/page-header'
+import {
+  CandidateImportField,
+  CandidateImportMapping,
+  CandidateImportRow,
+  CandidateImportResult,
+  candidateImportFieldLabels,
+} from '@/types'
+
+type Step = 'upload' | 'map' | 'preview' | 'results'
+
+const importFields = Object.keys(candidateImportFieldLabels) as CandidateImportField[]
+
+const resultStatusVariants: Record<CandidateImportResult['status'], 'success' | 'secondary' | 'destructive'> = {
+  created: 'success',
+  skipped: 'secondary',
+  invalid: 'destructive',
+}
+
+export default function CandidateImportPage() {
+  const [step, setStep] = useState<Step>('upload')
+  const [loading, setLoading] = useState(false)
+  const [csvFile, setCsvFile] = useState<File | null>(null)
+  const [zipFile, setZipFile] = useState<File | null>(null)
+  const [headers, setHeaders] = useState<string[]>([])
+  const [mapping, setMapping] = useState<CandidateImportMapping>({})
+  const [rows, setRows] = useState<CandidateImportRow[]>([])
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [results, setResults] = useState<CandidateImportResult[]>([])
+
+  const buildFormData = (action: 'preview' | 'commit', withMapping: boolean) => {
+    const formData = new FormData()
+    if (csvFile) formData.append('csv', csvFile)
+    if (zipFile) formData.append('zip', zipFile)
+    formData.append('action', action)
+    if (withMapping) formData.append('mapping', JSON.stringify(mapping))
+    if (action === 'commit') formData.append('include', JSON.stringify(Array.from(selected)))
+    return formData
+  }
+
+  const runPreview = async (withMapping: boolean) => {
+    setLoading(true)
+    try {
+      const res = await fetch('/api/candidates/import', {
+        method: 'POST',
+        body: buildFormData('preview', withMapping),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        alert(data.error || 'Failed to read import files')
+        return
+      }
+
+      setHeaders(data.data.headers)
+      setMapping(data.data.mapping)
+      setRows(data.data.rows)
+      // Pre-select rows that are valid and not flagged as duplicates
+      setSelected(
+        new Set(
+          (data.data.rows as CandidateImportRow[])
+            .filter((row) => row.errors.length === 0 && row.duplicates.length === 0 && !row.batchDuplicateOf)
+            .map((row) => row.rowNumber)
+        )
+      )
+      // CSV uploads get a chance to adjust the column mapping first
+      setStep(!withMapping && data.data.headers.length > 0 ? 'map' : 'preview')
+    } catch (error) {
+      console.error('Error previewing import:', error)
+      alert('Failed to read import files')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const runImport = async () => {
+    if (!confirm(`Import ${selected.size} candidate(s)?`)) return
+
+    setLoading(true)
+    try {
+      const res = await fetch('/api/candidates/import', {
+        method: 'POST',
+        body: buildFormData('commit', true),
+      })
+      const data = await res.json()
+
+      if (!res.ok) {
+        alert(data.error || 'Failed to import candidates')
+        return
+      }
+
+      setResults(data.data.results)
+      setStep('results')
+    } catch (error) {
+      console.error('Error importing candidates:', error)
+      alert('Failed to import candidates')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleRow = (rowNumber: number) => {
+    const next = new Set(selected)
+    if (next.has(rowNumber)) {
+      next.delete(rowNumber)
+    } else {
+      next.add(rowNumber)
+    }
+    setSelected(next)
+  }
+
+  const startOver = () => {
+    setStep('upload')
+    setCsvFile(null)
+    setZipFile(null)
+    setHeaders([])
+    setMapping({})
+    setRows([])
+    setSelected(new Set())
+    setResults([])
+  }
+
+  const validCount = rows.filter((row) => row.errors.length === 0).length
+
+  return (
+    <div>
+      <div className="mb-4">
+        <Link
+          href="/candidates"
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to Candidates
+        </Link>
+      </div>
+
+      <PageHeader
+        title="Import Candidates"
+        description="Create candidates in bulk from a CSV and/or a ZIP of resumes"
+      />
+
+      {step === 'upload' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>1. Upload Files</CardTitle>
+            <CardDescription>
+              The CSV needs a header row. To attach resumes to CSV rows, add a column with the
+              resume&apos;s file name inside the ZIP. Resumes not referenced by the CSV are imported
+              on their own, with fields parsed from the document.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="csv-file" className="flex items-center gap-2">
+                  <FileSpreadsheet className="h-4 w-4" />
+                  Candidates CSV
+                </Label>
+                <input
+                  id="csv-file"
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(e) => setCsvFile(e.target.files?.[0] || null)}
+                  className="block w-full text-sm"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="zip-file" className="flex items-center gap-2">
+                  <FileArchive className="h-4 w-4" />
+                  Resumes ZIP (PDF, Word, RTF, ODT, text or HTML)
+                </Label>
+                <input
+                  id="zip-file"
+                  type="file"
+                  accept=".zip,application/zip"
+                  onChange={(e) => setZipFile(e.target.files?.[0] || null)}
+                  className="block w-full text-sm"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={() => runPreview(false)}
+                disabled={loading || (!csvFile && !zipFile)}
+              >
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {loading ? 'Reading files...' : 'Continue'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'map' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>2. Map Columns</CardTitle>
+            <CardDescription>
+              Choose the candidate field for each CSV column. List fields (technologies, languages,
+              tags) may be separated by commas, semicolons or pipes.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>CSV Column</TableHead>
+                  <TableHead>Candidate Field</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {headers.map((header) => (
+                  <TableRow key={header}>
+                    <TableCell className="font-medium">{header}</TableCell>
+                    <TableCell>
+                      <Select
+                        value={mapping[header] || '_ignore'}
+                        onValueChange={(value) =>
+                          setMapping({
+                            ...mapping,
+                            [header]: value === '_ignore' ? '' : (value as CandidateImportField),
+                          })
+                        }
+                      >
+                        <SelectTrigger className="w-[240px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="_ignore">Don&apos;t import</SelectItem>
+                          {importFields.map((field) => (
+                            <SelectItem key={field} value={field}>
+                              {candidateImportFieldLabels[field]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('upload')}>
+                Back
+              </Button>
+              <Button onClick={() => runPreview(true)} disabled={loading}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Preview
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'preview' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>3. Review</CardTitle>
+            <CardDescription>
+              {rows.length} row(s), {validCount} valid. Rows with errors can&apos;t be imported;
+              possible duplicates are unselected by default.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10"></TableHead>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Resume</TableHead>
+                  <TableHead>Technologies</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                      No rows found in the uploaded files
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          checked={selected.has(row.rowNumber)}
+                          disabled={row.errors.length > 0}
+                          onChange={() => toggleRow(row.rowNumber)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-gray-500">
+                        {row.source === 'csv' ? row.rowNumber : 'ZIP'}
+                      </TableCell>
+                      <TableCell className="font-medium">{row.fullName || '-'}</TableCell>
+                      <TableCell>{row.email || '-'}</TableCell>
+                      <TableCell className="text-sm text-gray-600">{row.resumeFileName || '-'}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {row.technologies.slice(0, 3).map((tech) => (
+                            <Badge key={tech} variant="secondary" className="text-xs">
+                              {tech}
+                            </Badge>
+                          ))}
+                          {row.technologies.length > 3 && (
+                            <Badge variant="outline" className="text-xs">
+                              +{row.technologies.length - 3}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {row.errors.length > 0 ? (
+                          <div className="text-red-600">{row.errors.join('; ')}</div>
+                        ) : row.duplicates.length > 0 || row.batchDuplicateOf ? (
+                          <div className="text-yellow-700">
+                            {row.duplicates.map((duplicate) => (
+                              <div key={duplicate.id}>
+                                Possible duplicate of{' '}
+                                <Link
+                                  href={`/candidates/${duplicate.id}`}
+                                  target="_blank"
+                                  className="text-blue-600 hover:underline"
+                                >
+                                  {duplicate.fullName}
+                                </Link>{' '}
+                                ({duplicate.reasons.join(', ')})
+                              </div>
+                            ))}
+                            {row.batchDuplicateOf && (
+                              <div>Same person as row {row.batchDuplicateOf}</div>
+                            )}
+                          </div>
+                        ) : (
+                          <Badge variant="success">Ready</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+            <div className="flex justify-between">
+              <Button
+                variant="outline"
+                onClick={() => setStep(headers.length > 0 ? 'map' : 'upload')}
+              >
+                Back
+              </Button>
+              <Button onClick={runImport} disabled={loading || selected.size === 0}>
+                {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {selected.size} Candidate{selected.size === 1 ? '' : 's'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {step === 'results' && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Results</CardTitle>
+            <CardDescription>
+              {results.filter((r) => r.status === 'created').length} created,{' '}
+              {results.filter((r) => r.status === 'skipped').length} skipped,{' '}
+              {results.filter((r) => r.status === 'invalid').length} invalid
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Result</TableHead>
+                  <TableHead>Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {results.map((result) => (
+                  <TableRow key={result.rowNumber}>
+                    <TableCell className="text-gray-500">{result.rowNumber}</TableCell>
+                    <TableCell>
+                      {result.candidateId ? (
+                        <Link
+                          href={`/candidates/${result.candidateId}`}
+                          className="font-medium text-blue-600 hover:underline"
+                        >
+                          {result.fullName}
+                        </Link>
+                      ) : (
+                        result.fullName || '-'
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={resultStatusVariants[result.status]}>{result.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-gray-600">{result.message || ''}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={startOver}>
+                Import Another Batch
+              </Button>
+              <Link href="/candidates">
+                <Button>Done</Button>
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
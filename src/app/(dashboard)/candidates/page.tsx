@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react'
 import Link from 'next/link'
-import { Plus, Search, Users } from 'lucide-react'
+import { Plus, Search, Upload, Users } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Badge } from '@/components/ui/badge'
@@ -22,6 +22,7 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { PageHeader } from '@/components/layout/page-header'
+import { ExportMenu } from '@/components/export-menu'
 import { CandidateDialog } from '@/components/forms/candidate-dialog'
 import { formatDate } from '@/lib/utils'
 import { seniorityLabels } from '@/types'
@@ -35,7 +36,7 @@ interface Candidate {
   yearsExperience: number | null
   seniorityLevel: string | null
   tags: string[]
-  _count: { projectCandidates: number }
+  _count: { projectTalents: number }
   updatedAt: string
 }
 
@@ -77,10 +78,22 @@ export default function CandidatesPage() {
         title="Candidates"
         description="Manage your talent pool"
         actions={
-          <Button onClick={() => setDialogOpen(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Candidate
-          </Button>
+          <div className="flex gap-2">
+            <ExportMenu
+              endpoint="/api/candidates/export"
+              filters={{ search, seniorityLevel: seniorityFilter }}
+            />
+            <Link href="/candidates/import">
+              <Button variant="outline">
+                <Upload className="mr-2 h-4 w-4" />
+                Import
+              </Button>
+            </Link>
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Candidate
+            </Button>
+          </div>
         }
       />
 
@@ -175,7 +188,7 @@ export default function CandidatesPage() {
                     </div>
                   </TableCell>
                   <TableCell>{candidate.location || '-'}</TableCell>
-                  <TableCell>{candidate._count.projectCandidates}</TableCell>
+                  <TableCell>{candidate._count.projectTalents}</TableCell>
                   <TableCell>{formatDate(candidate.updatedAt)}</TableCell>
                 </TableRow>
               ))
@@ -11,6 +11,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { PageHeader } from '@/components/layout/page-header'
 import { CustomerDialog } from '@/components/forms/customer-dialog'
 import { ActivityList } from '@/components/activity-list'
+import { PortalUserList } from '@/components/portal-user-list'
 import { formatDate } from '@/lib/utils'
 import { projectStatusLabels, projectStatusColors } from '@/types'
 
@@ -120,6 +121,7 @@ export default function CustomerDetailPage() {
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="contacts">Contacts</TabsTrigger>
           <TabsTrigger value="projects">Projects ({customer.projects.length})</TabsTrigger>
+          <TabsTrigger value="portal">Portal Access</TabsTrigger>
           <TabsTrigger value="activity">Activity</TabsTrigger>
         </TabsList>
 
@@ -262,6 +264,17 @@ export default function CustomerDetailPage() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="portal" className="mt-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Customer Portal</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <PortalUserList customerId={customer.id} contacts={customer.contacts} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="activity" className="mt-4">
           <Card>
             <CardHeader>
@@ -15,6 +15,7 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { PageHeader } from '@/components/layout/page-header'
+import { ExportMenu } from '@/components/export-menu'
 import { CustomerDialog } from '@/components/forms/customer-dialog'
 import { formatDate } from '@/lib/utils'
 
@@ -65,10 +66,13 @@ export default function CustomersPage() {
         title="Customers"
         description="Manage your customer relationships"
         actions={
-          <Button onClick={() => setDialogOpen(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Customer
-          </Button>
+          <div className="flex gap-2">
+            <ExportMenu endpoint="/api/customers/export" filters={{ search }} />
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Customer
+            </Button>
+          </div>
         }
       />
 
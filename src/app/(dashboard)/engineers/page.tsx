@@ -22,6 +22,7 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { PageHeader } from '@/components/layout/page-header'
+import { ExportMenu } from '@/components/export-menu'
 import { EngineerDialog } from '@/components/forms/engineer-dialog'
 import { formatDate } from '@/lib/utils'
 import { seniorityLabels, employmentStatusLabels, employmentStatusColors } from '@/types'
@@ -92,10 +93,16 @@ export default function EngineersPage() {
         title="Engineers"
         description="Manage internal employees"
         actions={
-          <Button onClick={() => setDialogOpen(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            Add Engineer
-          </Button>
+          <div className="flex gap-2">
+            <ExportMenu
+              endpoint="/api/engineers/export"
+              filters={{ search, seniorityLevel: seniorityFilter, employmentStatus: statusFilter }}
+            />
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Engineer
+            </Button>
+          </div>
         }
       />
 
@@ -1,7 +1,7 @@
 'use client'
 
 import { useSession } from 'next-auth/react'
-import { redirect } from 'next/navigation'
+import { redirect, usePathname } from 'next/navigation'
 import { Sidebar } from '@/components/layout/sidebar'
 import { Header } from '@/components/layout/header'
 
@@ -11,6 +11,7 @@ export default function DashboardLayout({
   children: React.ReactNode
 }) {
   const { data: session, status } = useSession()
+  const pathname = usePathname()
 
   if (status === 'loading') {
     return (
@@ -24,6 +25,15 @@ export default function DashboardLayout({
     redirect('/login')
   }
 
+  // Roles that require 2FA get nothing but enrollment until it's set up, and
+  // a forced password change blocks everything else the same way
+  if (
+    (session.user.twoFactorSetupRequired || session.user.passwordChangeRequired) &&
+    pathname !== '/profile'
+  ) {
+    redirect('/profile')
+  }
+
   return (
     <div className="flex h-screen overflow-hidden">
       <Sidebar />
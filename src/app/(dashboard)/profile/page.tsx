@@ -8,7 +8,8 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { PageHeader } from '@/components/layout/page-header'
-import { roleDisplayNames } from '@/lib/permissions'
+import { NotificationPreferences } from '@/components/notifications'
+import { ApiTokens, SessionList, TwoFactorSettings } from '@/components/profile'
 
 interface ProfileForm {
   fullName: string
@@ -69,10 +70,8 @@ export default function ProfilePage() {
       if (res.ok) {
         setMessage('Profile updated successfully')
         reset({ fullName: data.fullName, password: '', confirmPassword: '' })
-        // Update session
-        if (payload.fullName) {
-          await update({ ...session, user: { ...session?.user, fullName: payload.fullName } })
-        }
+        // Refresh the session; the server re-reads the name and any forced password change
+        await update()
       } else {
         const error = await res.json()
         setMessage(error.error || 'Failed to update profile')
@@ -93,6 +92,12 @@ export default function ProfilePage() {
     <div>
       <PageHeader title="Profile" description="Manage your account settings" />
 
+      {session.user.passwordChangeRequired && (
+        <div className="mb-4 rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+          Choose a new password to continue using the app.
+        </div>
+      )}
+
       <div className="grid gap-4 md:grid-cols-2">
         <Card>
           <CardHeader>
@@ -107,7 +112,7 @@ export default function ProfilePage() {
             <div>
               <div className="text-sm font-medium text-gray-500">Role</div>
               <div>
-                {roleDisplayNames[session.user.role as keyof typeof roleDisplayNames]}
+                {session.user.roleName}
               </div>
             </div>
           </CardContent>
@@ -176,6 +181,32 @@ export default function ProfilePage() {
             </form>
           </CardContent>
         </Card>
+
+        <div className="md:col-span-2">
+          <TwoFactorSettings />
+        </div>
+
+        <div className="md:col-span-2">
+          <Card>
+            <CardHeader>
+              <CardTitle>Active Sessions</CardTitle>
+              <CardDescription>
+                Devices signed in to your account. Revoke any you don&apos;t recognise.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SessionList />
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="md:col-span-2">
+          <ApiTokens />
+        </div>
+
+        <div className="md:col-span-2">
+          <NotificationPreferences />
+        </div>
       </div>
     </div>
   )
@@ -29,9 +29,11 @@ import {
 } from '@/components/ui/alert-dialog'
 import { MatchingPanel } from '@/components/matching-panel'
 import { CandidatePipeline } from '@/components/candidate-pipeline'
+import { InterviewList } from '@/components/interview-list'
 import { ActivityList } from '@/components/activity-list'
 import { ProjectUpdatesTimeline } from '@/components/project-updates'
 import { formatDate } from '@/lib/utils'
+import { useRealtimeEvent } from '@/lib/realtime-client'
 import {
   projectStatusLabels,
   projectStatusColors,
@@ -45,6 +47,9 @@ import {
   ProjectStatus,
   ProjectCategory,
   DevOpsStatus,
+  TalentStage,
+  TalentType,
+  Contact,
 } from '@/types'
 
 interface Project {
@@ -64,20 +69,21 @@ interface Project {
   remotePolicy: string | null
   languageRequirements: string[]
   headcount: number | null
-  customer: { id: string; name: string; industry: string | null }
+  scoringProfileId: string | null
+  customer: { id: string; name: string; industry: string | null; contacts: Contact[] }
   assignedUsers: Array<{ user: { id: string; fullName: string; role: string } }>
-  projectCandidates: Array<{
+  projectTalents: Array<{
     id: string
-    stage: string
+    talentType: TalentType
+    stage: TalentStage
     matchScore: number | null
-    candidate: {
-      id: string
-      fullName: string
-      title: string | null
-      technologies: string[]
-      yearsExperience: number | null
-      seniorityLevel: string | null
-    }
+    submittedAt: string | null
+    startDate: string | null
+    clientFeedback: string | null
+    profileFileUrl: string | null
+    profileGeneratedAt: string | null
+    candidate: { id: string; fullName: string; title: string | null; technologies: string[] } | null
+    engineer: { id: string; fullName: string; title: string | null; technologies: string[] } | null
   }>
   createdAt: string
   updatedAt: string
@@ -109,6 +115,12 @@ export default function ProjectDetailPage() {
     fetchProject()
   }, [params.id])
 
+  // Keep the pipeline current when someone else moves a talent
+  useRealtimeEvent('talent_stage', (event) => {
+    if (event.projectId === params.id) fetchProject()
+  })
+  useRealtimeEvent('reconnected', () => fetchProject())
+
   const handleStatusChange = async (newStatus: string) => {
     if (!project) return
     try {
@@ -276,8 +288,9 @@ export default function ProjectDetailPage() {
           {project.projectCategory === 'PIPELINE' && (
             <>
               <TabsTrigger value="candidates">
-                Candidates ({project.projectCandidates.length})
+                Candidates ({project.projectTalents.length})
               </TabsTrigger>
+              <TabsTrigger value="interviews">Interviews</TabsTrigger>
               <TabsTrigger value="matching">
                 <UserPlus className="mr-1 h-4 w-4" />
                 Find Matches
@@ -421,11 +434,26 @@ export default function ProjectDetailPage() {
             <TabsContent value="candidates" className="mt-4">
               <CandidatePipeline
                 projectId={project.id}
-                candidates={project.projectCandidates}
+                talents={project.projectTalents}
+                customerContacts={project.customer.contacts || []}
                 onRefresh={fetchProject}
               />
             </TabsContent>
 
+            <TabsContent value="interviews" className="mt-4">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Interviews</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <InterviewList
+                    projectId={project.id}
+                    customerContacts={project.customer.contacts || []}
+                  />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
             <TabsContent value="matching" className="mt-4">
               <MatchingPanel projectId={project.id} onAddTalent={fetchProject} />
             </TabsContent>
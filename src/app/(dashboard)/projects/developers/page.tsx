@@ -22,6 +22,7 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { PageHeader } from '@/components/layout/page-header'
+import { ExportMenu } from '@/components/export-menu'
 import { ProjectDialog } from '@/components/forms/project-dialog'
 import { formatDate } from '@/lib/utils'
 import {
@@ -81,10 +82,16 @@ export default function DevelopersProjectsPage() {
         title="Developers Projects"
         description="Internal developer pools, squads, and future allocation"
         actions={
-          <Button onClick={() => setDialogOpen(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            New Developers Project
-          </Button>
+          <div className="flex gap-2">
+            <ExportMenu
+              endpoint="/api/projects/export"
+              filters={{ category: 'DEVELOPERS', search, priority }}
+            />
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Developers Project
+            </Button>
+          </div>
         }
       />
 
@@ -22,6 +22,7 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { PageHeader } from '@/components/layout/page-header'
+import { ExportMenu } from '@/components/export-menu'
 import { ProjectDialog } from '@/components/forms/project-dialog'
 import { formatDate } from '@/lib/utils'
 import {
@@ -86,10 +87,16 @@ export default function DevOpsProjectsPage() {
         title="DevOps Projects"
         description="Active delivery projects with assigned engineers"
         actions={
-          <Button onClick={() => setDialogOpen(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            New DevOps Project
-          </Button>
+          <div className="flex gap-2">
+            <ExportMenu
+              endpoint="/api/projects/export"
+              filters={{ category: 'DEVOPS', search, devOpsStatus, priority }}
+            />
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New DevOps Project
+            </Button>
+          </div>
         }
       />
 
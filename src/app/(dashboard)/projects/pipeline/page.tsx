@@ -22,6 +22,7 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { PageHeader } from '@/components/layout/page-header'
+import { ExportMenu } from '@/components/export-menu'
 import { ProjectDialog } from '@/components/forms/project-dialog'
 import { formatDate } from '@/lib/utils'
 import {
@@ -40,7 +41,7 @@ interface Project {
   priority: ProjectPriority
   customer: { id: string; name: string }
   assignedUsers: Array<{ user: { fullName: string } }>
-  _count: { projectCandidates: number; projectTalents: number }
+  _count: { projectTalents: number }
   updatedAt: string
 }
 
@@ -85,10 +86,16 @@ export default function PipelineProjectsPage() {
         title="Pipeline Projects"
         description="Recruitment and staffing projects - finding the right candidates"
         actions={
-          <Button onClick={() => setDialogOpen(true)}>
-            <Plus className="mr-2 h-4 w-4" />
-            New Pipeline Project
-          </Button>
+          <div className="flex gap-2">
+            <ExportMenu
+              endpoint="/api/projects/export"
+              filters={{ category: 'PIPELINE', search, status, priority }}
+            />
+            <Button onClick={() => setDialogOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Pipeline Project
+            </Button>
+          </div>
         }
       />
 
@@ -202,7 +209,7 @@ export default function PipelineProjectsPage() {
                       ` +${project.assignedUsers.length - 2}`}
                   </TableCell>
                   <TableCell>
-                    {project._count.projectCandidates + project._count.projectTalents}
+                    {project._count.projectTalents}
                   </TableCell>
                   <TableCell>{formatDate(project.updatedAt)}</TableCell>
                 </TableRow>
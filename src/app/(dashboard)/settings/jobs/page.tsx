@@ -0,0 +1,332 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowLeft, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { PageHeader } from '@/components/layout/page-header'
+import { formatDateTime } from '@/lib/utils'
+
+type JobStatus = 'PENDING' | 'RUNNING' | 'SUCCEEDED' | 'FAILED'
+
+interface Job {
+  id: string
+  type: string
+  payload: unknown
+  status: JobStatus
+  attempts: number
+  maxAttempts: number
+  runAt: string
+  lockedBy: string | null
+  lastError: string | null
+  createdAt: string
+  startedAt: string | null
+  finishedAt: string | null
+}
+
+interface RecurringJob {
+  type: string
+  description: string
+  everyMinutes?: number
+  dailyAtHourUtc?: number
+  nextRunAt: string
+  lastRun: {
+    status: JobStatus
+    runAt: string
+    finishedAt: string | null
+    lastError: string | null
+  } | null
+}
+
+const STATUSES: JobStatus[] = ['PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED']
+
+const statusVariants: Record<JobStatus, 'warning' | 'info' | 'success' | 'destructive'> = {
+  PENDING: 'warning',
+  RUNNING: 'info',
+  SUCCEEDED: 'success',
+  FAILED: 'destructive',
+}
+
+function scheduleLabel(recurring: RecurringJob): string {
+  if (recurring.everyMinutes) {
+    return recurring.everyMinutes === 60 ? 'Hourly' : `Every ${recurring.everyMinutes} minutes`
+  }
+  return `Daily at ${String(recurring.dailyAtHourUtc ?? 0).padStart(2, '0')}:00 UTC`
+}
+
+export default function JobsPage() {
+  const [jobs, setJobs] = useState<Job[]>([])
+  const [counts, setCounts] = useState<Record<JobStatus, number> | null>(null)
+  const [types, setTypes] = useState<string[]>([])
+  const [recurring, setRecurring] = useState<RecurringJob[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [statusFilter, setStatusFilter] = useState('')
+  const [typeFilter, setTypeFilter] = useState('')
+  const [expandedJob, setExpandedJob] = useState<string | null>(null)
+
+  const fetchJobs = async () => {
+    try {
+      const params = new URLSearchParams()
+      if (statusFilter) params.set('status', statusFilter)
+      if (typeFilter) params.set('type', typeFilter)
+
+      const res = await fetch(`/api/jobs?${params}`)
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'Failed to load jobs')
+        return
+      }
+
+      setError('')
+      setJobs(data.data)
+      setTotal(data.total)
+      setCounts(data.counts)
+      setTypes(data.types)
+      setRecurring(data.recurring)
+    } catch (error) {
+      console.error('Error fetching jobs:', error)
+      setError('Failed to load jobs')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchJobs()
+  }, [statusFilter, typeFilter])
+
+  const handleRetry = async (job: Job) => {
+    try {
+      const res = await fetch(`/api/jobs/${job.id}/retry`, { method: 'POST' })
+      if (!res.ok) {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to retry job')
+      }
+      fetchJobs()
+    } catch (error) {
+      console.error('Error retrying job:', error)
+    }
+  }
+
+  return (
+    <div>
+      <PageHeader
+        title="Background Jobs"
+        description="Resume extraction, notification emails, webhooks, re-matching and scheduled tasks"
+        actions={
+          <>
+            <Link href="/settings">
+              <Button variant="outline">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Settings
+              </Button>
+            </Link>
+            <Button variant="outline" onClick={fetchJobs}>
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+          </>
+        }
+      />
+
+      {error ? (
+        <div className="rounded-md bg-red-50 p-4 text-sm text-red-700">{error}</div>
+      ) : loading ? (
+        <div className="text-gray-500">Loading...</div>
+      ) : (
+        <div className="space-y-4">
+          {counts && (
+            <div className="grid gap-4 md:grid-cols-4">
+              {STATUSES.map((status) => (
+                <button
+                  key={status}
+                  type="button"
+                  className="text-left"
+                  onClick={() => setStatusFilter(statusFilter === status ? '' : status)}
+                >
+                  <Card className={statusFilter === status ? 'ring-2 ring-blue-500' : ''}>
+                    <CardContent className="p-4">
+                      <div className="text-sm text-gray-500">
+                        {status.charAt(0) + status.slice(1).toLowerCase()}
+                      </div>
+                      <div className="text-2xl font-bold">{counts[status]}</div>
+                    </CardContent>
+                  </Card>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Scheduled</CardTitle>
+              <CardDescription>
+                Queued by <code className="text-xs">npm run worker</code> or the{' '}
+                <code className="text-xs">/api/cron/jobs</code> scheduler.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Job</TableHead>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Last run</TableHead>
+                    <TableHead>Next run</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recurring.map((job) => (
+                    <TableRow key={job.type}>
+                      <TableCell>
+                        <div className="font-medium">{job.type}</div>
+                        <div className="text-xs text-gray-500">{job.description}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{scheduleLabel(job)}</TableCell>
+                      <TableCell>
+                        {job.lastRun ? (
+                          <div className="flex items-center gap-2">
+                            <Badge variant={statusVariants[job.lastRun.status]}>
+                              {job.lastRun.status.toLowerCase()}
+                            </Badge>
+                            <span className="text-xs text-gray-500">
+                              {formatDateTime(job.lastRun.finishedAt || job.lastRun.runAt)}
+                            </span>
+                          </div>
+                        ) : (
+                          <span className="text-sm text-gray-400">Never</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDateTime(job.nextRunAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle>Jobs</CardTitle>
+                <CardDescription>
+                  {total} job(s){statusFilter && ` · ${statusFilter.toLowerCase()}`}. Finished jobs
+                  are kept for 7 days, failed ones for 30.
+                </CardDescription>
+              </div>
+              <Select
+                value={typeFilter || '_all'}
+                onValueChange={(v) => setTypeFilter(v === '_all' ? '' : v)}
+              >
+                <SelectTrigger className="w-[220px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="_all">All Types</SelectItem>
+                  {types.map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {type}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardHeader>
+            <CardContent>
+              {jobs.length === 0 ? (
+                <p className="text-sm text-gray-500">No jobs.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead>Queued</TableHead>
+                      <TableHead>Finished / Next run</TableHead>
+                      <TableHead className="w-[100px]"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {jobs.map((job) => (
+                      <TableRow
+                        key={job.id}
+                        className="cursor-pointer align-top"
+                        onClick={() => setExpandedJob(expandedJob === job.id ? null : job.id)}
+                      >
+                        <TableCell>
+                          <div className="font-medium">{job.type}</div>
+                          {job.lastError && (
+                            <div className="max-w-md truncate text-xs text-red-600">
+                              {job.lastError}
+                            </div>
+                          )}
+                          {expandedJob === job.id && (
+                            <pre className="mt-2 max-h-60 max-w-xl overflow-auto rounded bg-gray-50 p-2 text-xs">
+                              {JSON.stringify(job.payload, null, 2)}
+                            </pre>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariants[job.status]}>
+                            {job.status.toLowerCase()}
+                          </Badge>
+                          {job.status === 'RUNNING' && job.lockedBy && (
+                            <div className="text-xs text-gray-500">{job.lockedBy}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {job.attempts}/{job.maxAttempts}
+                        </TableCell>
+                        <TableCell className="text-sm">{formatDateTime(job.createdAt)}</TableCell>
+                        <TableCell className="text-sm">
+                          {job.finishedAt
+                            ? formatDateTime(job.finishedAt)
+                            : job.status === 'PENDING'
+                              ? formatDateTime(job.runAt)
+                              : '-'}
+                        </TableCell>
+                        <TableCell>
+                          {job.status === 'FAILED' && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                handleRetry(job)
+                              }}
+                            >
+                              Retry
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,238 @@
 'use client'
 
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import Link from 'next/link'
+import { Cog, KeyRound, Plus, ShieldCheck, SlidersHorizontal, Tags, Trash2, Webhook } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
 import { PageHeader } from '@/components/layout/page-header'
+import { ScoringProfileDialog } from '@/components/forms/scoring-profile-dialog'
+import { SkillDialog } from '@/components/forms/skill-dialog'
+import { RoleDialog } from '@/components/forms/role-dialog'
+import { SsoSettingsDialog } from '@/components/forms/sso-settings-dialog'
+import { WebhookList } from '@/components/webhook-list'
+import { hasPermission, recordScopeLabels } from '@/lib/permissions'
+import type { SsoSettingsInput } from '@/lib/validations'
+import type { RecordScope } from '@prisma/client'
+import { formatDate } from '@/lib/utils'
+
+interface ScoringProfile {
+  id: string
+  name: string
+  description: string | null
+  isDefault: boolean
+  candidateWeights: Record<string, number>
+  engineerWeights: Record<string, number>
+  availabilityBoost: Record<string, number>
+  updatedAt: string
+  _count: { projects: number }
+}
+
+interface Skill {
+  id: string
+  name: string
+  aliases: string[]
+  category: string | null
+}
+
+interface RoleRecord {
+  id: string
+  key: string
+  name: string
+  description: string | null
+  recordScope: RecordScope
+  requireTwoFactor: boolean
+  permissions: string[]
+  isSystem: boolean
+  _count: { users: number }
+}
+
+type SsoSettings = SsoSettingsInput & {
+  providers: Array<{ id: string; name: string }>
+  passwordLoginForced: boolean
+}
 
 export default function SettingsPage() {
+  const { data: session } = useSession()
+  const [profiles, setProfiles] = useState<ScoringProfile[]>([])
+  const [loadingProfiles, setLoadingProfiles] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingProfile, setEditingProfile] = useState<ScoringProfile | null>(null)
+  const [skills, setSkills] = useState<Skill[]>([])
+  const [loadingSkills, setLoadingSkills] = useState(true)
+  const [skillDialogOpen, setSkillDialogOpen] = useState(false)
+  const [editingSkill, setEditingSkill] = useState<Skill | null>(null)
+  const [roles, setRoles] = useState<RoleRecord[]>([])
+  const [loadingRoles, setLoadingRoles] = useState(true)
+  const [roleDialogOpen, setRoleDialogOpen] = useState(false)
+  const [editingRole, setEditingRole] = useState<RoleRecord | null>(null)
+  const [ssoSettings, setSsoSettings] = useState<SsoSettings | null>(null)
+  const [ssoDialogOpen, setSsoDialogOpen] = useState(false)
+
+  const canEdit = session?.user
+    ? hasPermission(session.user, 'settings:write')
+    : false
+  const canEditRoles = session?.user
+    ? hasPermission(session.user, 'roles:write')
+    : false
+
+  const fetchProfiles = async () => {
+    try {
+      const res = await fetch('/api/scoring-profiles')
+      const data = await res.json()
+      setProfiles(data.data || [])
+    } catch (error) {
+      console.error('Error fetching scoring profiles:', error)
+    } finally {
+      setLoadingProfiles(false)
+    }
+  }
+
+  const fetchSkills = async () => {
+    try {
+      const res = await fetch('/api/skills')
+      const data = await res.json()
+      setSkills(data.data || [])
+    } catch (error) {
+      console.error('Error fetching skills:', error)
+    } finally {
+      setLoadingSkills(false)
+    }
+  }
+
+  const fetchRoles = async () => {
+    try {
+      const res = await fetch('/api/roles')
+      const data = await res.json()
+      setRoles(data.data || [])
+    } catch (error) {
+      console.error('Error fetching roles:', error)
+    } finally {
+      setLoadingRoles(false)
+    }
+  }
+
+  const fetchSsoSettings = async () => {
+    try {
+      const res = await fetch('/api/sso/settings')
+      const data = await res.json()
+      setSsoSettings(data.data || null)
+    } catch (error) {
+      console.error('Error fetching SSO settings:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchProfiles()
+    fetchSkills()
+    fetchSsoSettings()
+  }, [])
+
+  useEffect(() => {
+    // The SSO editor needs the role list too
+    if (canEditRoles || canEdit) fetchRoles()
+  }, [canEditRoles, canEdit])
+
+  const handleEdit = (profile: ScoringProfile) => {
+    setEditingProfile(profile)
+    setDialogOpen(true)
+  }
+
+  const handleDelete = async (profile: ScoringProfile) => {
+    const message = profile._count.projects > 0
+      ? `Delete "${profile.name}"? ${profile._count.projects} project(s) will fall back to the default weights.`
+      : `Delete "${profile.name}"?`
+    if (!confirm(message)) return
+
+    try {
+      const res = await fetch(`/api/scoring-profiles/${profile.id}`, { method: 'DELETE' })
+      if (res.ok) {
+        fetchProfiles()
+      }
+    } catch (error) {
+      console.error('Error deleting scoring profile:', error)
+    }
+  }
+
+  const handleSaved = () => {
+    setDialogOpen(false)
+    setEditingProfile(null)
+    fetchProfiles()
+  }
+
+  const handleCloseDialog = (open: boolean) => {
+    setDialogOpen(open)
+    if (!open) setEditingProfile(null)
+  }
+
+  const handleDeleteSkill = async (skill: Skill) => {
+    if (!confirm(`Delete "${skill.name}"? Existing records keep their technology text.`)) return
+
+    try {
+      const res = await fetch(`/api/skills/${skill.id}`, { method: 'DELETE' })
+      if (res.ok) {
+        fetchSkills()
+      }
+    } catch (error) {
+      console.error('Error deleting skill:', error)
+    }
+  }
+
+  const handleSkillSaved = () => {
+    setSkillDialogOpen(false)
+    setEditingSkill(null)
+    fetchSkills()
+  }
+
+  const handleCloseSkillDialog = (open: boolean) => {
+    setSkillDialogOpen(open)
+    if (!open) setEditingSkill(null)
+  }
+
+  const handleDeleteRole = async (role: RoleRecord) => {
+    if (!confirm(`Delete the "${role.name}" role?`)) return
+
+    try {
+      const res = await fetch(`/api/roles/${role.id}`, { method: 'DELETE' })
+      if (res.ok) {
+        fetchRoles()
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to delete role')
+      }
+    } catch (error) {
+      console.error('Error deleting role:', error)
+    }
+  }
+
+  const handleRoleSaved = () => {
+    setRoleDialogOpen(false)
+    setEditingRole(null)
+    fetchRoles()
+  }
+
+  const handleCloseRoleDialog = (open: boolean) => {
+    setRoleDialogOpen(open)
+    if (!open) setEditingRole(null)
+  }
+
+  const handleSsoSaved = () => {
+    setSsoDialogOpen(false)
+    fetchSsoSettings()
+  }
+
+  const roleName = (key: string) => roles.find((r) => r.key === key)?.name || key
+
   return (
     <div>
       <PageHeader
@@ -12,6 +241,396 @@ export default function SettingsPage() {
       />
 
       <div className="grid gap-4 md:grid-cols-2">
+        <Card className="md:col-span-2">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <SlidersHorizontal className="h-5 w-5" />
+                Matching Scoring Profiles
+              </CardTitle>
+              <CardDescription>
+                Named weight sets used by the matching engine. Projects pick a profile;
+                projects without one use the default profile.
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button
+                size="sm"
+                onClick={() => {
+                  setEditingProfile(null)
+                  setDialogOpen(true)
+                }}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Profile
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Candidate Split</TableHead>
+                  <TableHead>Engineer Split</TableHead>
+                  <TableHead>Projects</TableHead>
+                  <TableHead>Updated</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loadingProfiles ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      Loading...
+                    </TableCell>
+                  </TableRow>
+                ) : profiles.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                      No scoring profiles yet. The built-in weights are used for all projects.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  profiles.map((profile) => (
+                    <TableRow key={profile.id}>
+                      <TableCell>
+                        <div className="flex items-center gap-2 font-medium">
+                          {profile.name}
+                          {profile.isDefault && <Badge variant="info">Default</Badge>}
+                        </div>
+                        {profile.description && (
+                          <div className="text-xs text-gray-500">{profile.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {Object.values(profile.candidateWeights).join(' / ')}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {Object.values(profile.engineerWeights).join(' / ')}
+                      </TableCell>
+                      <TableCell>{profile._count.projects}</TableCell>
+                      <TableCell>{formatDate(profile.updatedAt)}</TableCell>
+                      <TableCell>
+                        {canEdit && (
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(profile)}
+                            >
+                              Edit
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDelete(profile)}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card className="md:col-span-2">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2">
+                <Tags className="h-5 w-5" />
+                Skill Taxonomy
+              </CardTitle>
+              <CardDescription>
+                Canonical skill names with their aliases. Technologies are normalized on save,
+                and skills in the same category earn partial credit when matching.
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button
+                size="sm"
+                onClick={() => {
+                  setEditingSkill(null)
+                  setSkillDialogOpen(true)
+                }}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Skill
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Skill</TableHead>
+                  <TableHead>Aliases</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loadingSkills ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8">
+                      Loading...
+                    </TableCell>
+                  </TableRow>
+                ) : skills.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8 text-gray-500">
+                      No skills defined. Technologies are matched by exact name only.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  skills.map((skill) => (
+                    <TableRow key={skill.id}>
+                      <TableCell className="font-medium">{skill.name}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {skill.aliases.map((alias) => (
+                            <Badge key={alias} variant="secondary">
+                              {alias}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">
+                        {skill.category || '-'}
+                      </TableCell>
+                      <TableCell>
+                        {canEdit && (
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setEditingSkill(skill)
+                                setSkillDialogOpen(true)
+                              }}
+                            >
+                              Edit
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleDeleteSkill(skill)}
+                            >
+                              <Trash2 className="h-4 w-4 text-red-500" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        {canEditRoles && (
+          <Card className="md:col-span-2">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5" />
+                  Roles &amp; Permissions
+                </CardTitle>
+                <CardDescription>
+                  What each role can do and which records it sees. Changes apply to signed-in
+                  users within a minute.
+                </CardDescription>
+              </div>
+              <Button
+                size="sm"
+                onClick={() => {
+                  setEditingRole(null)
+                  setRoleDialogOpen(true)
+                }}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Role
+              </Button>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Record Access</TableHead>
+                    <TableHead>Permissions</TableHead>
+                    <TableHead>Users</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loadingRoles ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8">
+                        Loading...
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    roles.map((role) => (
+                      <TableRow key={role.id}>
+                        <TableCell>
+                          <div className="flex items-center gap-2 font-medium">
+                            {role.name}
+                            {role.isSystem && <Badge variant="secondary">Built-in</Badge>}
+                            {role.requireTwoFactor && <Badge variant="info">2FA required</Badge>}
+                          </div>
+                          <div className="text-xs text-gray-500">
+                            {role.description || role.key}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-600">
+                          {recordScopeLabels[role.recordScope]}
+                        </TableCell>
+                        <TableCell>{role.permissions.length}</TableCell>
+                        <TableCell>{role._count.users}</TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setEditingRole(role)
+                                setRoleDialogOpen(true)
+                              }}
+                            >
+                              Edit
+                            </Button>
+                            {!role.isSystem && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleDeleteRole(role)}
+                              >
+                                <Trash2 className="h-4 w-4 text-red-500" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {ssoSettings && (
+          <Card className="md:col-span-2">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center gap-2">
+                  <KeyRound className="h-5 w-5" />
+                  Single Sign-On
+                </CardTitle>
+                <CardDescription>
+                  Sign-in through your identity provider. Providers are configured on the
+                  server (OIDC_* and SAML_* environment variables).
+                </CardDescription>
+              </div>
+              {canEdit && (
+                <Button size="sm" variant="outline" onClick={() => setSsoDialogOpen(true)}>
+                  Configure
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-500">Identity providers</span>
+                <span>
+                  {ssoSettings.providers.length > 0
+                    ? ssoSettings.providers.map((p) => p.name).join(', ')
+                    : 'None configured'}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-500">Password sign-in</span>
+                <span>
+                  {ssoSettings.passwordLoginForced
+                    ? 'Forced on (FORCE_PASSWORD_LOGIN)'
+                    : ssoSettings.passwordLoginEnabled || ssoSettings.providers.length === 0
+                      ? 'Enabled'
+                      : 'Disabled'}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-500">Allowed domains</span>
+                <span>{ssoSettings.allowedDomains.join(', ') || 'Any'}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-500">New users</span>
+                <span>
+                  {ssoSettings.jitProvisioning
+                    ? `Created on first sign-in${ssoSettings.defaultRole ? ` as ${roleName(ssoSettings.defaultRole)}` : ''}`
+                    : 'Must be added by an administrator'}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-500">Group mappings</span>
+                <span className="text-right">
+                  {ssoSettings.groupRoleMappings.length > 0
+                    ? ssoSettings.groupRoleMappings
+                        .map((m) => `${m.group} → ${roleName(m.role)}`)
+                        .join(', ')
+                    : 'None'}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {canEdit && (
+          <Card className="md:col-span-2">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Webhook className="h-5 w-5" />
+                Webhooks
+              </CardTitle>
+              <CardDescription>
+                Send activity events, such as a candidate changing stage or an engineer being
+                assigned, to other systems. Each request is signed with the webhook&apos;s secret
+                and failed deliveries are retried with backoff.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <WebhookList />
+            </CardContent>
+          </Card>
+        )}
+
+        {canEdit && (
+          <Card className="md:col-span-2">
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center gap-2">
+                  <Cog className="h-5 w-5" />
+                  Background Jobs
+                </CardTitle>
+                <CardDescription>
+                  Resume extraction, notification emails, webhook deliveries, re-matching and the
+                  scheduled reminders and digests run in the background, with retries.
+                </CardDescription>
+              </div>
+              <Link href="/settings/jobs">
+                <Button size="sm" variant="outline">
+                  View Jobs
+                </Button>
+              </Link>
+            </CardHeader>
+          </Card>
+        )}
+
         <Card>
           <CardHeader>
             <CardTitle>General Settings</CardTitle>
@@ -43,6 +662,37 @@ export default function SettingsPage() {
           </CardContent>
         </Card>
       </div>
+
+      <ScoringProfileDialog
+        open={dialogOpen}
+        onOpenChange={handleCloseDialog}
+        profile={editingProfile || undefined}
+        onSuccess={handleSaved}
+      />
+
+      <SkillDialog
+        open={skillDialogOpen}
+        onOpenChange={handleCloseSkillDialog}
+        skill={editingSkill || undefined}
+        onSuccess={handleSkillSaved}
+      />
+
+      <RoleDialog
+        open={roleDialogOpen}
+        onOpenChange={handleCloseRoleDialog}
+        role={editingRole || undefined}
+        onSuccess={handleRoleSaved}
+      />
+
+      {ssoSettings && (
+        <SsoSettingsDialog
+          open={ssoDialogOpen}
+          onOpenChange={setSsoDialogOpen}
+          settings={ssoSettings}
+          roles={roles}
+          onSuccess={handleSsoSaved}
+        />
+      )}
     </div>
   )
 }
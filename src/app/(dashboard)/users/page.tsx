@@ -12,19 +12,30 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
 import { PageHeader } from '@/components/layout/page-header'
 import { UserDialog } from '@/components/forms/user-dialog'
+import { SessionList } from '@/components/profile'
 import { formatDate } from '@/lib/utils'
-import { roleDisplayNames } from '@/lib/permissions'
 
 interface User {
   id: string
   fullName: string
   email: string
   role: string
+  roleDefinition: { name: string }
   isActive: boolean
   createdAt: string
   lastLoginAt: string | null
+  totpEnabledAt: string | null
+  lockedUntil: string | null
+  invitedAt: string | null
+  mustChangePassword: boolean
 }
 
 export default function UsersPage() {
@@ -32,6 +43,7 @@ export default function UsersPage() {
   const [loading, setLoading] = useState(true)
   const [dialogOpen, setDialogOpen] = useState(false)
   const [editingUser, setEditingUser] = useState<User | null>(null)
+  const [sessionsUser, setSessionsUser] = useState<User | null>(null)
 
   const fetchUsers = async () => {
     try {
@@ -54,6 +66,46 @@ export default function UsersPage() {
     setDialogOpen(true)
   }
 
+  const handleSecurityAction = async (user: User, action: 'unlock' | 'resetTwoFactor') => {
+    const message = action === 'unlock'
+      ? `Unlock ${user.fullName}'s account?`
+      : `Remove two-factor authentication for ${user.fullName}? They will need to set it up again.`
+    if (!confirm(message)) return
+
+    try {
+      const res = await fetch(`/api/users/${user.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ [action]: true }),
+      })
+      if (res.ok) {
+        fetchUsers()
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to update user')
+      }
+    } catch (error) {
+      console.error('Error updating user:', error)
+    }
+  }
+
+  const handleResendInvite = async (user: User) => {
+    try {
+      const res = await fetch(`/api/users/${user.id}/invite`, { method: 'POST' })
+      if (res.ok) {
+        alert(`Invitation sent to ${user.email}`)
+        fetchUsers()
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to send invitation')
+      }
+    } catch (error) {
+      console.error('Error sending invitation:', error)
+    }
+  }
+
+  const isLocked = (user: User) => !!user.lockedUntil && new Date(user.lockedUntil) > new Date()
+
   const handleCreated = () => {
     setDialogOpen(false)
     setEditingUser(null)
@@ -117,28 +169,72 @@ export default function UsersPage() {
                   <TableCell>{user.email}</TableCell>
                   <TableCell>
                     <Badge variant="outline">
-                      {roleDisplayNames[user.role as keyof typeof roleDisplayNames] || user.role}
+                      {user.roleDefinition.name}
                     </Badge>
                   </TableCell>
                   <TableCell>
-                    <Badge
-                      variant={user.isActive ? 'success' : 'secondary'}
-                    >
-                      {user.isActive ? 'Active' : 'Inactive'}
-                    </Badge>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge
+                        variant={user.isActive ? 'success' : 'secondary'}
+                      >
+                        {user.isActive ? 'Active' : 'Inactive'}
+                      </Badge>
+                      {isLocked(user) && <Badge variant="warning">Locked</Badge>}
+                      {user.totpEnabledAt && <Badge variant="info">2FA</Badge>}
+                      {user.invitedAt && <Badge variant="outline">Invited</Badge>}
+                      {user.mustChangePassword && (
+                        <Badge variant="outline">Password change</Badge>
+                      )}
+                    </div>
                   </TableCell>
                   <TableCell>
                     {user.lastLoginAt ? formatDate(user.lastLoginAt) : 'Never'}
                   </TableCell>
                   <TableCell>{formatDate(user.createdAt)}</TableCell>
                   <TableCell>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleEdit(user)}
-                    >
-                      Edit
-                    </Button>
+                    <div className="flex justify-end gap-1">
+                      {isLocked(user) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleSecurityAction(user, 'unlock')}
+                        >
+                          Unlock
+                        </Button>
+                      )}
+                      {user.totpEnabledAt && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleSecurityAction(user, 'resetTwoFactor')}
+                        >
+                          Reset 2FA
+                        </Button>
+                      )}
+                      {user.invitedAt && user.isActive && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleResendInvite(user)}
+                        >
+                          Resend invite
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setSessionsUser(user)}
+                      >
+                        Sessions
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEdit(user)}
+                      >
+                        Edit
+                      </Button>
+                    </div>
                   </TableCell>
                 </TableRow>
               ))
@@ -153,6 +249,15 @@ export default function UsersPage() {
         user={editingUser || undefined}
         onSuccess={handleCreated}
       />
+
+      <Dialog open={!!sessionsUser} onOpenChange={(open) => !open && setSessionsUser(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Sessions for {sessionsUser?.fullName}</DialogTitle>
+          </DialogHeader>
+          {sessionsUser && <SessionList userId={sessionsUser.id} />}
+        </DialogContent>
+      </Dialog>
     </div>
   )
 }
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { forgotPasswordSchema } from '@/lib/validations'
+import { clientIp, takeLoginAttempt } from '@/lib/login-security'
+import { isPasswordLoginEnabled } from '@/lib/sso'
+import { sendPasswordReset } from '@/lib/password-tokens'
+
+// POST /api/account/forgot-password - Email a password reset link (public).
+// Always answers the same way so the form can't be used to probe for accounts.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validationResult = forgotPasswordSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    // Shares the login throttle so the form can't be used to flood inboxes
+    if (!takeLoginAttempt(clientIp(request.headers))) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please wait a few minutes and try again.' },
+        { status: 429 }
+      )
+    }
+
+    if (await isPasswordLoginEnabled()) {
+      const user = await prisma.user.findFirst({
+        where: { email: { equals: validationResult.data.email.trim(), mode: 'insensitive' } },
+      })
+
+      // Accounts that only sign in through SSO don't get a password this way
+      if (user?.isActive && (user.passwordHash || !user.authProvider)) {
+        await sendPasswordReset(user)
+      }
+    }
+
+    return NextResponse.json({
+      message: 'If this email has an account, a reset link is on its way',
+    })
+  } catch (error) {
+    console.error('Error requesting password reset:', error)
+    return NextResponse.json(
+      { error: 'Failed to send reset link' },
+      { status: 500 }
+    )
+  }
+}
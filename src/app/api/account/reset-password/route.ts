@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { hashPassword } from '@/lib/auth'
+import { resetPasswordSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { consumePasswordToken, findPasswordToken } from '@/lib/password-tokens'
+import { revokeAllUserSessions } from '@/lib/user-sessions'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/account/reset-password?token= - Check an invitation or reset link (public)
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.nextUrl.searchParams.get('token')
+    const passwordToken = token ? await findPasswordToken(token) : null
+
+    if (!passwordToken) {
+      return NextResponse.json(
+        { error: 'This link is invalid or has expired' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      data: {
+        purpose: passwordToken.purpose,
+        email: passwordToken.user.email,
+        fullName: passwordToken.user.fullName,
+      },
+    })
+  } catch (error) {
+    console.error('Error checking password link:', error)
+    return NextResponse.json(
+      { error: 'Failed to check link' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/account/reset-password - Set a password with an invitation or reset link (public)
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validationResult = resetPasswordSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const { token, password } = validationResult.data
+    const passwordToken = await consumePasswordToken(token)
+
+    if (!passwordToken) {
+      return NextResponse.json(
+        { error: 'This link is invalid or has expired' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.user.update({
+      where: { id: passwordToken.userId },
+      data: {
+        passwordHash: await hashPassword(password),
+        mustChangePassword: false,
+        invitedAt: null,
+        failedLoginCount: 0,
+        lockedUntil: null,
+      },
+    })
+
+    // Whoever knew the old password is signed out everywhere
+    const sessionsRevoked = await revokeAllUserSessions(passwordToken.userId)
+
+    await logActivity({
+      entityType: 'User',
+      entityId: passwordToken.userId,
+      action: 'UPDATED',
+      performedByUserId: passwordToken.userId,
+      diff: {
+        password: passwordToken.purpose === 'INVITE' ? 'set from invitation' : 'reset by email',
+        ...(sessionsRevoked > 0 ? { sessionsRevoked } : {}),
+      },
+    })
+
+    return NextResponse.json({ message: 'Password updated' })
+  } catch (error) {
+    console.error('Error resetting password:', error)
+    return NextResponse.json(
+      { error: 'Failed to reset password' },
+      { status: 500 }
+    )
+  }
+}
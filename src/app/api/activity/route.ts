@@ -1,11 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
+import { canAccessCustomer, canAccessProject, isProjectScoped } from '@/lib/access'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
@@ -16,6 +16,17 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1')
     const pageSize = parseInt(searchParams.get('pageSize') || '20')
 
+    // Scoped roles only read the history of records they can see
+    if (isProjectScoped(session.user)) {
+      const allowed =
+        !!entityId &&
+        (entityType !== 'Project' || (await canAccessProject(session.user, entityId))) &&
+        (entityType !== 'Customer' || (await canAccessCustomer(session.user, entityId)))
+      if (!allowed) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      }
+    }
+
     const where: Record<string, unknown> = {}
 
     if (entityType) {
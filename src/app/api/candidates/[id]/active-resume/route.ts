@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { activeResumeSchema } from '@/lib/validations'
+import { createDiff, logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { canViewFullCandidate } from '@/lib/access'
+import { setActiveResume } from '@/lib/candidate-documents'
+import { queueRescoreIfNeeded } from '@/lib/scoring-profiles'
+
+// PUT /api/candidates/[id]/active-resume - Choose the resume version used for
+// matching and search (null: none)
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (
+      !hasPermission(session.user, 'candidates:write') ||
+      !(await canViewFullCandidate(session.user, params.id))
+    ) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validationResult = activeResumeSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const { versionId } = validationResult.data
+
+    const existing = await prisma.candidate.findUnique({
+      where: { id: params.id },
+      select: { resumeFileUrl: true, resumeOriginalName: true, resumeExtractedText: true },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Candidate not found' }, { status: 404 })
+    }
+
+    if (versionId) {
+      const version = await prisma.candidateDocumentVersion.findFirst({
+        where: { id: versionId, document: { candidateId: params.id } },
+        select: { document: { select: { type: true } } },
+      })
+
+      if (!version) {
+        return NextResponse.json({ error: 'Document version not found' }, { status: 404 })
+      }
+
+      if (version.document.type !== 'RESUME') {
+        return NextResponse.json(
+          { error: 'Only a CV / resume can be used for matching' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const candidate = await setActiveResume(params.id, versionId)
+
+    const diff = createDiff(existing, {
+      resumeFileUrl: candidate.resumeFileUrl,
+      resumeOriginalName: candidate.resumeOriginalName,
+      resumeExtractedText: candidate.resumeExtractedText,
+    })
+
+    if (diff) {
+      await logActivity({
+        entityType: 'Candidate',
+        entityId: params.id,
+        action: 'UPDATED',
+        performedByUserId: session.user.id,
+        diff,
+      })
+      await queueRescoreIfNeeded('candidate', params.id, diff)
+    }
+
+    return NextResponse.json({ data: { activeResumeVersionId: candidate.activeResumeVersionId } })
+  } catch (error) {
+    console.error('Error setting active resume:', error)
+    return NextResponse.json(
+      { error: 'Failed to set active resume' },
+      { status: 500 }
+    )
+  }
+}
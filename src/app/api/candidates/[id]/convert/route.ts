@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { convertToEngineerSchema } from '@/lib/validations'
 import { logActivity } from '@/lib/activity'
@@ -11,13 +10,13 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Only Admin and Recruiter can convert candidates to engineers
-    if (!['ADMIN', 'RECRUITER'].includes(session.user.role)) {
+    // Converting creates an engineer from the candidate record
+    if (!hasPermission(session.user, 'candidates:write') || !hasPermission(session.user, 'engineers:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { updateCandidateDocumentSchema } from '@/lib/validations'
+import { createDiff, logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { SessionUser, canViewFullCandidate } from '@/lib/access'
+import { deleteUnusedFiles, setActiveResume } from '@/lib/candidate-documents'
+import { queueRescoreIfNeeded } from '@/lib/scoring-profiles'
+import { candidateDocumentTypeLabels } from '@/types'
+
+type RouteParams = { params: { id: string; documentId: string } }
+
+async function canEditDocuments(user: SessionUser, candidateId: string) {
+  return hasPermission(user, 'candidates:write') && (await canViewFullCandidate(user, candidateId))
+}
+
+// PUT /api/candidates/[id]/documents/[documentId] - Rename a document or change who can see it
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canEditDocuments(session.user, params.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.candidateDocument.findFirst({
+      where: { id: params.documentId, candidateId: params.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validationResult = updateCandidateDocumentSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const document = await prisma.candidateDocument.update({
+      where: { id: params.documentId },
+      data: validationResult.data,
+    })
+
+    const diff = createDiff(
+      { title: existing.title, visibility: existing.visibility },
+      { title: document.title, visibility: document.visibility }
+    )
+    if (diff) {
+      await logActivity({
+        entityType: 'Candidate',
+        entityId: params.id,
+        action: 'UPDATED',
+        performedByUserId: session.user.id,
+        diff: { document: `${candidateDocumentTypeLabels[document.type]}: ${existing.title}`, ...diff },
+      })
+    }
+
+    return NextResponse.json({ data: document })
+  } catch (error) {
+    console.error('Error updating candidate document:', error)
+    return NextResponse.json(
+      { error: 'Failed to update document' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/candidates/[id]/documents/[documentId] - Delete a document with all its versions
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!(await canEditDocuments(session.user, params.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const document = await prisma.candidateDocument.findFirst({
+      where: { id: params.documentId, candidateId: params.id },
+      include: {
+        versions: { select: { id: true, fileUrl: true } },
+        candidate: {
+          select: {
+            activeResumeVersionId: true,
+            resumeFileUrl: true,
+            resumeOriginalName: true,
+            resumeExtractedText: true,
+          },
+        },
+      },
+    })
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    // Deleting the active resume leaves the candidate without one
+    const { candidate } = document
+    const activeDeleted = document.versions.some(
+      (version) => version.id === candidate.activeResumeVersionId
+    )
+    if (activeDeleted) {
+      await setActiveResume(params.id, null)
+      await queueRescoreIfNeeded(
+        'candidate',
+        params.id,
+        createDiff(
+          {
+            resumeFileUrl: candidate.resumeFileUrl,
+            resumeOriginalName: candidate.resumeOriginalName,
+            resumeExtractedText: candidate.resumeExtractedText,
+          },
+          { resumeFileUrl: null, resumeOriginalName: null, resumeExtractedText: null }
+        )
+      )
+    }
+
+    await prisma.candidateDocument.delete({ where: { id: document.id } })
+    await deleteUnusedFiles(document.versions.map((version) => version.fileUrl))
+
+    await logActivity({
+      entityType: 'Candidate',
+      entityId: params.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: {
+        deletedDocument: `${candidateDocumentTypeLabels[document.type]}: ${document.title}`,
+        versions: document.versions.length,
+        ...(activeDeleted && { resumeFileUrl: { old: candidate.resumeFileUrl, new: null } }),
+      },
+    })
+
+    return NextResponse.json({ message: 'Document deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting candidate document:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete document' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { candidateDocumentSchema } from '@/lib/validations'
+import { createDiff, logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { canViewFullCandidate } from '@/lib/access'
+import { addDocumentVersion, setActiveResume, visibleDocumentLevels } from '@/lib/candidate-documents'
+import { inspectDocumentFile, inspectResumeFile } from '@/lib/file-inspection'
+import { saveUpload } from '@/lib/uploads'
+import { enqueueJob } from '@/lib/jobs'
+import { queueRescoreIfNeeded } from '@/lib/scoring-profiles'
+import { candidateDocumentTypeLabels } from '@/types'
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024
+
+// GET /api/candidates/[id]/documents - Documents the caller may see, newest version first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'candidates:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const candidate = await prisma.candidate.findUnique({
+      where: { id: params.id },
+      select: { activeResumeVersionId: true },
+    })
+
+    if (!candidate) {
+      return NextResponse.json({ error: 'Candidate not found' }, { status: 404 })
+    }
+
+    const fullAccess = await canViewFullCandidate(session.user, params.id)
+
+    const documents = await prisma.candidateDocument.findMany({
+      where: {
+        candidateId: params.id,
+        visibility: { in: visibleDocumentLevels(session.user, fullAccess) },
+      },
+      include: {
+        createdBy: { select: { id: true, fullName: true } },
+        versions: {
+          // The text is on the candidate page for the active resume only
+          omit: { extractedText: true },
+          include: { uploadedBy: { select: { id: true, fullName: true } } },
+          orderBy: { version: 'desc' },
+        },
+      },
+      orderBy: [{ type: 'asc' }, { updatedAt: 'desc' }],
+    })
+
+    return NextResponse.json({
+      data: documents,
+      activeResumeVersionId: fullAccess ? candidate.activeResumeVersionId : null,
+      canEdit: fullAccess && hasPermission(session.user, 'candidates:write'),
+    })
+  } catch (error) {
+    console.error('Error fetching candidate documents:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch candidate documents' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/candidates/[id]/documents - Upload a document, or a new version of one
+// (multipart: file, type, title, visibility, documentId, useForMatching)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (
+      !hasPermission(session.user, 'candidates:write') ||
+      !(await canViewFullCandidate(session.user, params.id))
+    ) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const candidate = await prisma.candidate.findUnique({
+      where: { id: params.id },
+      select: { resumeFileUrl: true, resumeOriginalName: true, resumeExtractedText: true },
+    })
+
+    if (!candidate) {
+      return NextResponse.json({ error: 'Candidate not found' }, { status: 404 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    const validationResult = candidateDocumentSchema.safeParse({
+      documentId: formData.get('documentId') || undefined,
+      type: formData.get('type') || undefined,
+      title: formData.get('title') || undefined,
+      visibility: formData.get('visibility') || undefined,
+      useForMatching: formData.has('useForMatching')
+        ? formData.get('useForMatching') === 'true'
+        : undefined,
+    })
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+
+    const existingDocument = data.documentId
+      ? await prisma.candidateDocument.findFirst({
+          where: { id: data.documentId, candidateId: params.id },
+        })
+      : null
+
+    if (data.documentId && !existingDocument) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'File too large. Maximum size is 10MB.' },
+        { status: 400 }
+      )
+    }
+
+    const type = existingDocument?.type ?? data.type
+    const buffer = Buffer.from(await file.arrayBuffer())
+    const inspection =
+      type === 'RESUME' ? await inspectResumeFile(buffer) : await inspectDocumentFile(buffer)
+    if (!inspection.ok) {
+      return NextResponse.json({ error: inspection.error }, { status: 400 })
+    }
+
+    const storedName = `${file.name.replace(/\.[^.]*$/, '')}.${inspection.extension}`
+    const { url } = await saveUpload(buffer, storedName, {
+      folder: type === 'RESUME' ? 'resumes' : 'documents',
+      contentType: inspection.mimeType,
+    })
+
+    const { document, version } = await addDocumentVersion({
+      candidateId: params.id,
+      documentId: existingDocument?.id,
+      document: {
+        type,
+        title: data.title || (type === 'RESUME' ? 'CV' : file.name),
+        visibility: data.visibility,
+      },
+      file: { url, originalName: file.name, mimeType: inspection.mimeType, size: file.size },
+      extraction: type === 'RESUME' ? { status: 'PENDING' } : undefined,
+      userId: session.user.id,
+    })
+
+    // The extraction job fills in the version's text (and the candidate's,
+    // once it is the active resume)
+    let extractionJobId: string | null = null
+    if (type === 'RESUME') {
+      const job = await enqueueJob(
+        'resume.extract',
+        { url, mimeType: inspection.mimeType },
+        { maxAttempts: 2, createdByUserId: session.user.id }
+      )
+      extractionJobId = job.id
+
+      if (data.useForMatching) {
+        const updated = await setActiveResume(params.id, version.id)
+        await queueRescoreIfNeeded(
+          'candidate',
+          params.id,
+          createDiff(candidate, {
+            resumeFileUrl: updated.resumeFileUrl,
+            resumeOriginalName: updated.resumeOriginalName,
+            resumeExtractedText: updated.resumeExtractedText,
+          })
+        )
+      }
+    }
+
+    await logActivity({
+      entityType: 'Candidate',
+      entityId: params.id,
+      action: type === 'RESUME' ? 'UPLOADED_RESUME' : 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: {
+        document: `${candidateDocumentTypeLabels[type]}: ${document.title}`,
+        version: version.version,
+        fileName: file.name,
+        ...(type === 'RESUME' && data.useForMatching && { usedForMatching: true }),
+      },
+    })
+
+    return NextResponse.json(
+      { data: { document, version, extractionJobId } },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error uploading candidate document:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload document' },
+      { status: 500 }
+    )
+  }
+}
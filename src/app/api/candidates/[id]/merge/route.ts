@@ -0,0 +1,219 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { mergeCandidateSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { EmploymentHistoryEntry, InterviewNote } from '@/types'
+
+function union(a: string[], b: string[]): string[] {
+  const seen = new Set(a.map((value) => value.toLowerCase()))
+  return [...a, ...b.filter((value) => !seen.has(value.toLowerCase()))]
+}
+
+// POST /api/candidates/[id]/merge - Fold a duplicate candidate into this one and delete it
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'candidates:merge')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validationResult = mergeCandidateSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const { sourceCandidateId } = validationResult.data
+
+    if (sourceCandidateId === params.id) {
+      return NextResponse.json(
+        { error: 'A candidate cannot be merged into itself' },
+        { status: 400 }
+      )
+    }
+
+    const include = {
+      projectTalents: { select: { id: true, projectId: true } },
+      projectCandidates: { select: { id: true, projectId: true } },
+      linkedEngineer: { select: { id: true } },
+      _count: { select: { documents: true } },
+    }
+
+    const [target, source] = await Promise.all([
+      prisma.candidate.findUnique({ where: { id: params.id }, include }),
+      prisma.candidate.findUnique({ where: { id: sourceCandidateId }, include }),
+    ])
+
+    if (!target || !source) {
+      return NextResponse.json({ error: 'Candidate not found' }, { status: 404 })
+    }
+
+    if (target.linkedEngineer && source.linkedEngineer) {
+      return NextResponse.json(
+        { error: 'Both candidates are linked to engineers and cannot be merged' },
+        { status: 400 }
+      )
+    }
+
+    // Where both candidates are on the same project, the surviving candidate's entry is kept
+    const targetTalentProjects = new Set(target.projectTalents.map((t) => t.projectId))
+    const movedTalents = source.projectTalents.filter((t) => !targetTalentProjects.has(t.projectId))
+    const droppedTalents = source.projectTalents.filter((t) => targetTalentProjects.has(t.projectId))
+
+    const targetLegacyProjects = new Set(target.projectCandidates.map((pc) => pc.projectId))
+    const movedLegacy = source.projectCandidates.filter((pc) => !targetLegacyProjects.has(pc.projectId))
+    const droppedLegacy = source.projectCandidates.filter((pc) => targetLegacyProjects.has(pc.projectId))
+
+    const interviewNotes = [
+      ...((target.interviewNotes as unknown as InterviewNote[]) || []),
+      ...((source.interviewNotes as unknown as InterviewNote[]) || []),
+    ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+
+    const targetHistory = (target.employmentHistory as unknown as EmploymentHistoryEntry[]) || []
+    const sourceHistory = (source.employmentHistory as unknown as EmploymentHistoryEntry[]) || []
+
+    // Keep the most recently uploaded resume
+    const useSourceResume = !!source.resumeFileUrl && (
+      !target.resumeFileUrl ||
+      (source.resumeUploadedAt?.getTime() ?? 0) > (target.resumeUploadedAt?.getTime() ?? 0)
+    )
+
+    // Interviews belong to a pipeline entry; a dropped entry's go to the kept one
+    const targetTalentByProject = new Map(target.projectTalents.map((t) => [t.projectId, t.id]))
+    let interviewsMoved = 0
+
+    const merged = await prisma.$transaction(async (tx) => {
+      if (movedTalents.length > 0) {
+        await tx.projectTalent.updateMany({
+          where: { id: { in: movedTalents.map((t) => t.id) } },
+          data: { candidateId: target.id },
+        })
+      }
+      if (droppedTalents.length > 0) {
+        // Deleting the entries would cascade to their interviews and feedback
+        for (const talent of droppedTalents) {
+          const { count } = await tx.interview.updateMany({
+            where: { projectTalentId: talent.id },
+            data: { projectTalentId: targetTalentByProject.get(talent.projectId) as string },
+          })
+          interviewsMoved += count
+        }
+        await tx.projectTalent.deleteMany({
+          where: { id: { in: droppedTalents.map((t) => t.id) } },
+        })
+      }
+
+      if (movedLegacy.length > 0) {
+        await tx.projectCandidate.updateMany({
+          where: { id: { in: movedLegacy.map((pc) => pc.id) } },
+          data: { candidateId: target.id },
+        })
+      }
+      if (droppedLegacy.length > 0) {
+        await tx.projectCandidate.deleteMany({
+          where: { id: { in: droppedLegacy.map((pc) => pc.id) } },
+        })
+      }
+
+      // Keep the duplicate's history visible on the surviving candidate
+      await tx.activityLog.updateMany({
+        where: { entityType: 'Candidate', entityId: source.id },
+        data: { entityId: target.id },
+      })
+
+      // Documents keep their versions; the source's resume versions become
+      // part of the surviving candidate's history
+      if (source._count.documents > 0) {
+        await tx.candidateDocument.updateMany({
+          where: { candidateId: source.id },
+          data: { candidateId: target.id },
+        })
+      }
+
+      if (source.linkedEngineer) {
+        await tx.engineer.update({
+          where: { id: source.linkedEngineer.id },
+          data: { linkedCandidateId: target.id },
+        })
+      }
+
+      await tx.candidate.delete({ where: { id: source.id } })
+
+      return tx.candidate.update({
+        where: { id: target.id },
+        data: {
+          email: target.email ?? source.email,
+          phone: target.phone ?? source.phone,
+          location: target.location ?? source.location,
+          title: target.title ?? source.title,
+          summaryPublic: target.summaryPublic ?? source.summaryPublic,
+          summaryInternal: target.summaryInternal ?? source.summaryInternal,
+          yearsExperience: target.yearsExperience ?? source.yearsExperience,
+          seniorityLevel: target.seniorityLevel ?? source.seniorityLevel,
+          availability: target.availability ?? source.availability,
+          salaryExpectation: target.salaryExpectation ?? source.salaryExpectation,
+          technologies: union(target.technologies, source.technologies),
+          languages: union(target.languages, source.languages),
+          tags: union(target.tags, source.tags),
+          interviewNotes: interviewNotes as unknown as Prisma.InputJsonValue,
+          employmentHistory: (targetHistory.length > 0
+            ? targetHistory
+            : sourceHistory) as unknown as Prisma.InputJsonValue,
+          ...(useSourceResume && {
+            resumeFileUrl: source.resumeFileUrl,
+            resumeOriginalName: source.resumeOriginalName,
+            resumeUploadedAt: source.resumeUploadedAt,
+            resumeExtractedText: source.resumeExtractedText,
+            activeResumeVersionId: source.activeResumeVersionId,
+          }),
+        },
+      })
+    })
+
+    await logActivity({
+      entityType: 'Candidate',
+      entityId: target.id,
+      action: 'MERGED',
+      performedByUserId: session.user.id,
+      diff: {
+        mergedCandidateId: source.id,
+        mergedCandidateName: source.fullName,
+        mergedCandidateEmail: source.email,
+        movedProjectTalents: movedTalents.length,
+        droppedProjectTalents: droppedTalents.length,
+        interviewsMoved,
+        movedProjectCandidates: movedLegacy.length,
+        droppedProjectCandidates: droppedLegacy.length,
+        interviewNotesAdded: ((source.interviewNotes as unknown as InterviewNote[]) || []).length,
+        resumeTakenFromMerged: useSourceResume,
+        documentsMoved: source._count.documents,
+        linkedEngineerMoved: !!source.linkedEngineer,
+      },
+    })
+
+    return NextResponse.json({
+      data: merged,
+      message: `${source.fullName} was merged into ${target.fullName}`,
+    })
+  } catch (error) {
+    console.error('Error merging candidates:', error)
+    return NextResponse.json(
+      { error: 'Failed to merge candidates' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,81 +1,53 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { candidateSchema } from '@/lib/validations'
 import { logActivity, createDiff } from '@/lib/activity'
-import { hasPermission, canAccessFullCandidateInfo } from '@/lib/permissions'
+import { queueRescoreIfNeeded } from '@/lib/scoring-profiles'
+import { hasPermission } from '@/lib/permissions'
+import { canViewFullCandidate, projectScope, redactCandidate } from '@/lib/access'
+import { getSkillIndex } from '@/lib/skill-taxonomy'
+import { normalizeSkills } from '@/lib/skills'
+import { deleteUnusedFiles, syncResumeFromCandidate } from '@/lib/candidate-documents'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:read')) {
+    if (!hasPermission(session.user, 'candidates:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    const canSeeFullInfo = canAccessFullCandidateInfo(session.user.role)
-
-    // For client managers, check if they're assigned to any project this candidate is in
-    if (session.user.role === 'CLIENT_MANAGER') {
-      const candidateInAssignedProject = await prisma.projectCandidate.findFirst({
-        where: {
-          candidateId: params.id,
-          project: {
-            assignedUsers: {
-              some: { userId: session.user.id },
-            },
-          },
-        },
-      })
-
-      if (!candidateInAssignedProject) {
-        // Return limited info only
-        const candidate = await prisma.candidate.findUnique({
-          where: { id: params.id },
-          select: {
-            id: true,
-            fullName: true,
-            location: true,
-            title: true,
-            summaryPublic: true,
-            technologies: true,
-            yearsExperience: true,
-            seniorityLevel: true,
-            tags: true,
-          },
-        })
-
-        if (!candidate) {
-          return NextResponse.json({ error: 'Candidate not found' }, { status: 404 })
-        }
-
-        return NextResponse.json({ data: candidate })
-      }
-    }
+    // Project-scoped roles only see full details of candidates on their projects
+    const canSeeFullInfo = await canViewFullCandidate(session.user, params.id)
 
     const candidate = await prisma.candidate.findUnique({
       where: { id: params.id },
       include: {
-        projectCandidates: canSeeFullInfo
+        projectTalents: canSeeFullInfo
           ? {
+              where: { project: projectScope(session.user) },
               include: {
                 project: {
                   select: { id: true, title: true, status: true },
                 },
-                recruiterOwner: {
+                owner: {
                   select: { id: true, fullName: true },
                 },
               },
               orderBy: { createdAt: 'desc' },
             }
           : false,
+        // How well the resume used for matching could be read
+        activeResumeVersion: canSeeFullInfo
+          ? { select: { extractionStatus: true, extractedWithOcr: true } }
+          : false,
       },
     })
 
@@ -85,19 +57,7 @@ export async function GET(
 
     // Filter out sensitive fields for non-full-access roles
     if (!canSeeFullInfo) {
-      const {
-        email,
-        phone,
-        summaryInternal,
-        availability,
-        salaryExpectation,
-        resumeFileUrl,
-        resumeOriginalName,
-        resumeExtractedText,
-        interviewNotes,
-        ...publicData
-      } = candidate
-      return NextResponse.json({ data: publicData })
+      return NextResponse.json({ data: redactCandidate(candidate) })
     }
 
     return NextResponse.json({ data: candidate })
@@ -115,12 +75,12 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:write')) {
+    if (!hasPermission(session.user, 'candidates:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -143,6 +103,7 @@ export async function PUT(
     }
 
     const data = validationResult.data
+    const skillIndex = await getSkillIndex()
 
     const candidate = await prisma.candidate.update({
       where: { id: params.id },
@@ -154,7 +115,7 @@ export async function PUT(
         title: data.title || null,
         summaryPublic: data.summaryPublic || null,
         summaryInternal: data.summaryInternal || null,
-        technologies: data.technologies || [],
+        technologies: normalizeSkills(data.technologies || [], skillIndex),
         yearsExperience: data.yearsExperience ?? null,
         seniorityLevel: data.seniorityLevel || null,
         languages: data.languages || [],
@@ -164,10 +125,13 @@ export async function PUT(
         resumeExtractedText: data.resumeExtractedText || null,
         resumeFileUrl: data.resumeFileUrl || null,
         resumeOriginalName: data.resumeOriginalName || null,
+        employmentHistory: data.employmentHistory ?? undefined,
         resumeUploadedAt: data.resumeFileUrl && !existing.resumeFileUrl ? new Date() : existing.resumeUploadedAt,
       },
     })
 
+    await syncResumeFromCandidate(candidate, session.user.id)
+
     const diff = createDiff(
       existing as unknown as Record<string, unknown>,
       candidate as unknown as Record<string, unknown>
@@ -181,6 +145,8 @@ export async function PUT(
       diff: diff || undefined,
     })
 
+    await queueRescoreIfNeeded('candidate', candidate.id, diff)
+
     return NextResponse.json({ data: candidate })
   } catch (error) {
     console.error('Error updating candidate:', error)
@@ -196,17 +162,20 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:delete')) {
+    if (!hasPermission(session.user, 'candidates:delete')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
     const existing = await prisma.candidate.findUnique({
       where: { id: params.id },
+      include: {
+        documents: { select: { versions: { select: { fileUrl: true } } } },
+      },
     })
 
     if (!existing) {
@@ -217,6 +186,14 @@ export async function DELETE(
       where: { id: params.id },
     })
 
+    // Remove the resume and document files unless another candidate (e.g. a
+    // merge target) still uses them
+    const fileUrls = existing.documents.flatMap((document) =>
+      document.versions.map((version) => version.fileUrl)
+    )
+    if (existing.resumeFileUrl) fileUrls.push(existing.resumeFileUrl)
+    await deleteUnusedFiles(fileUrls)
+
     await logActivity({
       entityType: 'Candidate',
       entityId: params.id,
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import { duplicateCheckSchema } from '@/lib/validations'
+import { hasPermission } from '@/lib/permissions'
+import { findDuplicateCandidates } from '@/lib/candidate-duplicates'
+
+// POST /api/candidates/duplicates - Find existing candidates that look like the same person
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'candidates:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validationResult = duplicateCheckSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const { excludeId, ...fields } = validationResult.data
+    const duplicates = await findDuplicateCandidates(fields, excludeId)
+
+    return NextResponse.json({ data: duplicates })
+  } catch (error) {
+    console.error('Error checking for duplicate candidates:', error)
+    return NextResponse.json(
+      { error: 'Failed to check for duplicate candidates' },
+      { status: 500 }
+    )
+  }
+}
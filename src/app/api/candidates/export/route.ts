@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import { Candidate } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { hasPermission, canAccessFullCandidateInfo } from '@/lib/permissions'
+import { buildCandidateWhere } from '@/lib/list-filters'
+import { getFullCandidateIds, redactCandidate } from '@/lib/access'
+import { createExportResponse, parseExportFormat, ExportColumn } from '@/lib/export'
+
+type CandidateRow = Partial<Candidate> & Pick<Candidate, 'id' | 'fullName'>
+
+const publicColumns: ExportColumn<CandidateRow>[] = [
+  { header: 'Full Name', value: (c) => c.fullName },
+  { header: 'Title', value: (c) => c.title },
+  { header: 'Location', value: (c) => c.location },
+  { header: 'Seniority', value: (c) => c.seniorityLevel },
+  { header: 'Years Experience', value: (c) => c.yearsExperience },
+  { header: 'Technologies', value: (c) => c.technologies },
+  { header: 'Languages', value: (c) => c.languages },
+  { header: 'Public Summary', value: (c) => c.summaryPublic },
+  { header: 'Tags', value: (c) => c.tags },
+]
+
+// Only exported for roles that can see them in the UI
+const restrictedColumns: ExportColumn<CandidateRow>[] = [
+  { header: 'Email', value: (c) => c.email },
+  { header: 'Phone', value: (c) => c.phone },
+  { header: 'Availability', value: (c) => c.availability },
+  { header: 'Salary Expectation', value: (c) => c.salaryExpectation },
+  { header: 'Internal Summary', value: (c) => c.summaryInternal },
+  { header: 'Resume', value: (c) => c.resumeOriginalName },
+]
+
+const timestampColumns: ExportColumn<CandidateRow>[] = [
+  { header: 'Created', value: (c) => c.createdAt },
+  { header: 'Updated', value: (c) => c.updatedAt },
+]
+
+// GET /api/candidates/export - Download the filtered candidate list as CSV or XLSX
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'candidates:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = parseExportFormat(searchParams.get('format'))
+    if (!format) {
+      return NextResponse.json({ error: 'Unsupported export format' }, { status: 400 })
+    }
+
+    const where = buildCandidateWhere(searchParams)
+    const canSeeFullInfo = canAccessFullCandidateInfo(session.user)
+
+    const columns = canSeeFullInfo
+      ? [...publicColumns, ...restrictedColumns, ...timestampColumns]
+      : [...publicColumns, ...timestampColumns]
+
+    return createExportResponse<CandidateRow>({
+      format,
+      filename: 'candidates',
+      columns,
+      fetchBatch: async (skip, take) => {
+        const rows: CandidateRow[] = await prisma.candidate.findMany({
+          where,
+          select: {
+            id: true,
+            fullName: true,
+            email: canSeeFullInfo,
+            phone: canSeeFullInfo,
+            location: true,
+            title: true,
+            summaryPublic: true,
+            summaryInternal: canSeeFullInfo,
+            technologies: true,
+            yearsExperience: true,
+            seniorityLevel: true,
+            languages: true,
+            availability: canSeeFullInfo,
+            salaryExpectation: canSeeFullInfo,
+            resumeOriginalName: canSeeFullInfo,
+            tags: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+          orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+          skip,
+          take,
+        })
+
+        // Project-scoped roles only get full details of candidates on their projects
+        const fullIds = await getFullCandidateIds(session.user, rows.map((c) => c.id))
+        return rows.map((c) => (fullIds.has(c.id) ? c : redactCandidate(c)))
+      },
+    })
+  } catch (error) {
+    console.error('Error exporting candidates:', error)
+    return NextResponse.json(
+      { error: 'Failed to export candidates' },
+      { status: 500 }
+    )
+  }
+}
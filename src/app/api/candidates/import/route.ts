@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import { hasPermission } from '@/lib/permissions'
+import { buildImportPreview, commitImport, toPublicRow } from '@/lib/candidate-import'
+import { CandidateImportMapping } from '@/types'
+
+const MAX_CSV_SIZE = 5 * 1024 * 1024
+const MAX_ZIP_SIZE = 100 * 1024 * 1024
+
+// POST /api/candidates/import - Preview or commit a bulk import
+// Multipart fields: csv (file), zip (file), mapping (JSON), action ('preview' | 'commit'),
+// include (JSON array of row numbers to create, commit only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'candidates:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const formData = await request.formData()
+    const csv = formData.get('csv') as File | null
+    const zip = formData.get('zip') as File | null
+    const action = formData.get('action') === 'commit' ? 'commit' : 'preview'
+
+    if (!csv && !zip) {
+      return NextResponse.json(
+        { error: 'Provide a CSV file, a ZIP of resumes, or both' },
+        { status: 400 }
+      )
+    }
+
+    if (csv && csv.size > MAX_CSV_SIZE) {
+      return NextResponse.json(
+        { error: 'CSV too large. Maximum size is 5MB.' },
+        { status: 400 }
+      )
+    }
+
+    if (zip && zip.size > MAX_ZIP_SIZE) {
+      return NextResponse.json(
+        { error: 'ZIP too large. Maximum size is 100MB.' },
+        { status: 400 }
+      )
+    }
+
+    let mapping: CandidateImportMapping | undefined
+    let include: number[] = []
+    try {
+      const rawMapping = formData.get('mapping') as string | null
+      const rawInclude = formData.get('include') as string | null
+      mapping = rawMapping ? JSON.parse(rawMapping) : undefined
+      include = rawInclude ? JSON.parse(rawInclude) : []
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid mapping or row selection' },
+        { status: 400 }
+      )
+    }
+
+    let preview
+    try {
+      preview = await buildImportPreview({
+        csvText: csv ? await csv.text() : undefined,
+        zipBuffer: zip ? Buffer.from(await zip.arrayBuffer()) : undefined,
+        mapping,
+      })
+    } catch (error) {
+      console.error('Error reading import files:', error)
+      return NextResponse.json(
+        { error: 'Could not read the uploaded files. Check the CSV and ZIP are valid.' },
+        { status: 400 }
+      )
+    }
+
+    if ('error' in preview) {
+      return NextResponse.json({ error: preview.error }, { status: 400 })
+    }
+
+    if (action === 'preview') {
+      return NextResponse.json({
+        data: {
+          headers: preview.headers,
+          mapping: preview.mapping,
+          rows: preview.rows.map(toPublicRow),
+        },
+      })
+    }
+
+    const results = await commitImport(preview, include, session.user.id)
+
+    return NextResponse.json({
+      data: {
+        results,
+        created: results.filter((r) => r.status === 'created').length,
+      },
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error importing candidates:', error)
+    return NextResponse.json(
+      { error: 'Failed to import candidates' },
+      { status: 500 }
+    )
+  }
+}
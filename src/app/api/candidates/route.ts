@@ -1,69 +1,34 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { candidateSchema } from '@/lib/validations'
 import { logActivity } from '@/lib/activity'
 import { hasPermission, canAccessFullCandidateInfo } from '@/lib/permissions'
+import { getSkillIndex } from '@/lib/skill-taxonomy'
+import { normalizeSkills } from '@/lib/skills'
+import { findDuplicateCandidates } from '@/lib/candidate-duplicates'
+import { buildCandidateWhere } from '@/lib/list-filters'
+import { getFullCandidateIds, redactCandidate } from '@/lib/access'
+import { syncResumeFromCandidate } from '@/lib/candidate-documents'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:read')) {
+    if (!hasPermission(session.user, 'candidates:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
     const { searchParams } = new URL(request.url)
-    const search = searchParams.get('search') || ''
-    const technologies = searchParams.get('technologies')?.split(',').filter(Boolean) || []
-    const seniorityLevel = searchParams.get('seniorityLevel') || ''
-    const minYears = searchParams.get('minYearsExperience')
-    const maxYears = searchParams.get('maxYearsExperience')
-    const location = searchParams.get('location') || ''
     const page = parseInt(searchParams.get('page') || '1')
     const pageSize = parseInt(searchParams.get('pageSize') || '20')
 
-    const where: Record<string, unknown> = {}
+    const where = buildCandidateWhere(searchParams)
 
-    if (search) {
-      where.OR = [
-        { fullName: { contains: search, mode: 'insensitive' } },
-        { title: { contains: search, mode: 'insensitive' } },
-        { summaryPublic: { contains: search, mode: 'insensitive' } },
-      ]
-    }
-
-    if (technologies.length > 0) {
-      where.technologies = { hasSome: technologies }
-    }
-
-    if (seniorityLevel) {
-      where.seniorityLevel = seniorityLevel
-    }
-
-    if (minYears) {
-      where.yearsExperience = {
-        ...(where.yearsExperience as Record<string, unknown> || {}),
-        gte: parseInt(minYears),
-      }
-    }
-
-    if (maxYears) {
-      where.yearsExperience = {
-        ...(where.yearsExperience as Record<string, unknown> || {}),
-        lte: parseInt(maxYears),
-      }
-    }
-
-    if (location) {
-      where.location = { contains: location, mode: 'insensitive' }
-    }
-
-    const canSeeFullInfo = canAccessFullCandidateInfo(session.user.role)
+    const canSeeFullInfo = canAccessFullCandidateInfo(session.user)
 
     const [candidates, total] = await Promise.all([
       prisma.candidate.findMany({
@@ -89,7 +54,7 @@ export async function GET(request: NextRequest) {
           createdAt: true,
           updatedAt: true,
           _count: {
-            select: { projectCandidates: true },
+            select: { projectTalents: true },
           },
         },
         orderBy: { updatedAt: 'desc' },
@@ -99,8 +64,11 @@ export async function GET(request: NextRequest) {
       prisma.candidate.count({ where }),
     ])
 
+    // Project-scoped roles only see full details of candidates on their projects
+    const fullIds = await getFullCandidateIds(session.user, candidates.map((c) => c.id))
+
     return NextResponse.json({
-      data: candidates,
+      data: candidates.map((c) => (fullIds.has(c.id) ? c : redactCandidate(c))),
       total,
       page,
       pageSize,
@@ -117,12 +85,12 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:write')) {
+    if (!hasPermission(session.user, 'candidates:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -138,6 +106,20 @@ export async function POST(request: NextRequest) {
 
     const data = validationResult.data
 
+    // Block likely duplicates unless the user confirmed with ?allowDuplicate=true
+    const { searchParams } = new URL(request.url)
+    if (searchParams.get('allowDuplicate') !== 'true') {
+      const duplicates = await findDuplicateCandidates(data)
+      if (duplicates.length > 0) {
+        return NextResponse.json(
+          { error: 'Possible duplicate candidate', duplicates },
+          { status: 409 }
+        )
+      }
+    }
+
+    const skillIndex = await getSkillIndex()
+
     const candidate = await prisma.candidate.create({
       data: {
         fullName: data.fullName,
@@ -147,7 +129,7 @@ export async function POST(request: NextRequest) {
         title: data.title || null,
         summaryPublic: data.summaryPublic || null,
         summaryInternal: data.summaryInternal || null,
-        technologies: data.technologies || [],
+        technologies: normalizeSkills(data.technologies || [], skillIndex),
         yearsExperience: data.yearsExperience ?? null,
         seniorityLevel: data.seniorityLevel || null,
         languages: data.languages || [],
@@ -157,10 +139,13 @@ export async function POST(request: NextRequest) {
         resumeExtractedText: data.resumeExtractedText || null,
         resumeFileUrl: data.resumeFileUrl || null,
         resumeOriginalName: data.resumeOriginalName || null,
+        employmentHistory: data.employmentHistory || [],
         resumeUploadedAt: data.resumeFileUrl ? new Date() : null,
       },
     })
 
+    await syncResumeFromCandidate(candidate, session.user.id)
+
     await logActivity({
       entityType: 'Candidate',
       entityId: candidate.id,
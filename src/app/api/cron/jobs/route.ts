@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runJobs, scheduleRecurringJobs } from '@/lib/job-runner'
+
+// GET /api/cron/jobs - Queue the recurring jobs that are due, then run queued
+// jobs for up to 50 seconds. Called every minute by the scheduler (see
+// vercel.json) with `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const scheduled = await scheduleRecurringJobs()
+    const result = await runJobs()
+
+    return NextResponse.json({ data: { scheduled, ...result } })
+  } catch (error) {
+    console.error('Error running jobs:', error)
+    return NextResponse.json(
+      { error: 'Failed to run jobs' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+import { canAccessCustomer } from '@/lib/access'
+import { sendPortalLoginLink } from '@/lib/portal'
+
+// POST /api/customers/[id]/portal-users/[portalUserId]/invite - Email a fresh sign-in link
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; portalUserId: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'customers:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (!(await canAccessCustomer(session.user, params.id, 'write'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const portalUser = await prisma.portalUser.findUnique({
+      where: { id: params.portalUserId },
+      include: { customer: { select: { name: true } } },
+    })
+
+    if (!portalUser || portalUser.customerId !== params.id) {
+      return NextResponse.json({ error: 'Portal user not found' }, { status: 404 })
+    }
+
+    if (!portalUser.isActive) {
+      return NextResponse.json(
+        { error: 'Enable this portal account before sending a link' },
+        { status: 400 }
+      )
+    }
+
+    const sent = await sendPortalLoginLink(portalUser)
+    if (!sent) {
+      return NextResponse.json({ error: 'Failed to send sign-in link' }, { status: 502 })
+    }
+
+    return NextResponse.json({ message: 'Sign-in link sent' })
+  } catch (error) {
+    console.error('Error sending portal invite:', error)
+    return NextResponse.json(
+      { error: 'Failed to send portal invite' },
+      { status: 500 }
+    )
+  }
+}
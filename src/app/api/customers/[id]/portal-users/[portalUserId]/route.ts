@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { updatePortalUserSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { canAccessCustomer } from '@/lib/access'
+
+type RouteParams = { params: { id: string; portalUserId: string } }
+
+// PUT /api/customers/[id]/portal-users/[portalUserId] - Rename or enable/disable a portal account
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'customers:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (!(await canAccessCustomer(session.user, params.id, 'write'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.portalUser.findUnique({
+      where: { id: params.portalUserId },
+    })
+
+    if (!existing || existing.customerId !== params.id) {
+      return NextResponse.json({ error: 'Portal user not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validationResult = updatePortalUserSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+
+    const portalUser = await prisma.portalUser.update({
+      where: { id: params.portalUserId },
+      data: {
+        fullName: data.fullName ?? existing.fullName,
+        isActive: data.isActive ?? existing.isActive,
+      },
+    })
+
+    if (portalUser.isActive !== existing.isActive) {
+      await logActivity({
+        entityType: 'Customer',
+        entityId: params.id,
+        action: 'UPDATED',
+        performedByUserId: session.user.id,
+        diff: portalUser.isActive
+          ? { portalAccessEnabled: portalUser.email }
+          : { portalAccessDisabled: portalUser.email },
+      })
+    }
+
+    return NextResponse.json({ data: portalUser })
+  } catch (error) {
+    console.error('Error updating portal user:', error)
+    return NextResponse.json(
+      { error: 'Failed to update portal user' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/customers/[id]/portal-users/[portalUserId] - Revoke portal access
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'customers:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (!(await canAccessCustomer(session.user, params.id, 'write'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.portalUser.findUnique({
+      where: { id: params.portalUserId },
+    })
+
+    if (!existing || existing.customerId !== params.id) {
+      return NextResponse.json({ error: 'Portal user not found' }, { status: 404 })
+    }
+
+    await prisma.portalUser.delete({ where: { id: params.portalUserId } })
+
+    await logActivity({
+      entityType: 'Customer',
+      entityId: params.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: { portalAccessRevoked: existing.email },
+    })
+
+    return NextResponse.json({ message: 'Portal access revoked' })
+  } catch (error) {
+    console.error('Error deleting portal user:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete portal user' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { portalUserSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { canAccessCustomer } from '@/lib/access'
+import { sendPortalLoginLink } from '@/lib/portal'
+
+// GET /api/customers/[id]/portal-users - List portal accounts for a customer's contacts
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'customers:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (!(await canAccessCustomer(session.user, params.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const portalUsers = await prisma.portalUser.findMany({
+      where: { customerId: params.id },
+      orderBy: { fullName: 'asc' },
+    })
+
+    return NextResponse.json({ data: portalUsers })
+  } catch (error) {
+    console.error('Error fetching portal users:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch portal users' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/customers/[id]/portal-users - Give a customer contact portal access
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'customers:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (!(await canAccessCustomer(session.user, params.id, 'write'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const customer = await prisma.customer.findUnique({
+      where: { id: params.id },
+      select: { id: true, name: true },
+    })
+
+    if (!customer) {
+      return NextResponse.json({ error: 'Customer not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validationResult = portalUserSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const { fullName, sendInvite } = validationResult.data
+    const email = validationResult.data.email.toLowerCase()
+
+    const existing = await prisma.portalUser.findUnique({ where: { email } })
+    if (existing) {
+      return NextResponse.json(
+        { error: 'This email already has portal access' },
+        { status: 409 }
+      )
+    }
+
+    const portalUser = await prisma.portalUser.create({
+      data: {
+        customerId: customer.id,
+        email,
+        fullName,
+        createdByUserId: session.user.id,
+      },
+    })
+
+    const inviteSent = sendInvite
+      ? await sendPortalLoginLink({ ...portalUser, customer })
+      : false
+
+    await logActivity({
+      entityType: 'Customer',
+      entityId: customer.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: { portalAccessGranted: email },
+    })
+
+    return NextResponse.json({ data: portalUser, inviteSent }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating portal user:', error)
+    return NextResponse.json(
+      { error: 'Failed to create portal user' },
+      { status: 500 }
+    )
+  }
+}
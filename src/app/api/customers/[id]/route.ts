@@ -1,22 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { customerSchema } from '@/lib/validations'
 import { logActivity, createDiff } from '@/lib/activity'
 import { hasPermission } from '@/lib/permissions'
+import { canAccessCustomer, projectScope } from '@/lib/access'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'customers:read')) {
+    if (!hasPermission(session.user, 'customers:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (!(await canAccessCustomer(session.user, params.id))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -27,6 +31,7 @@ export async function GET(
           select: { id: true, fullName: true, email: true },
         },
         projects: {
+          where: projectScope(session.user),
           select: {
             id: true,
             title: true,
@@ -58,12 +63,12 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'customers:write')) {
+    if (!hasPermission(session.user, 'customers:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -75,6 +80,11 @@ export async function PUT(
       return NextResponse.json({ error: 'Customer not found' }, { status: 404 })
     }
 
+    // Sales can only edit the accounts they own
+    if (!(await canAccessCustomer(session.user, params.id, 'write'))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     const body = await request.json()
     const validationResult = customerSchema.safeParse(body)
 
@@ -134,12 +144,12 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'customers:delete')) {
+    if (!hasPermission(session.user, 'customers:delete')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
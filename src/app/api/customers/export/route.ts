@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+import { buildCustomerWhere } from '@/lib/list-filters'
+import { createExportResponse, parseExportFormat, ExportColumn } from '@/lib/export'
+
+const include = {
+  owner: { select: { fullName: true } },
+  _count: { select: { projects: true } },
+}
+
+type CustomerRow = Prisma.CustomerGetPayload<{ include: typeof include }>
+
+const columns: ExportColumn<CustomerRow>[] = [
+  { header: 'Name', value: (c) => c.name },
+  { header: 'Industry', value: (c) => c.industry },
+  { header: 'Website', value: (c) => c.website },
+  { header: 'Description', value: (c) => c.description },
+  { header: 'Owner', value: (c) => c.owner?.fullName },
+  { header: 'Tags', value: (c) => c.tags },
+  { header: 'Projects', value: (c) => c._count.projects },
+  { header: 'Created', value: (c) => c.createdAt },
+  { header: 'Updated', value: (c) => c.updatedAt },
+]
+
+// GET /api/customers/export - Download the filtered customer list as CSV or XLSX
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'customers:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = parseExportFormat(searchParams.get('format'))
+    if (!format) {
+      return NextResponse.json({ error: 'Unsupported export format' }, { status: 400 })
+    }
+
+    const where = buildCustomerWhere(searchParams, session.user)
+
+    return createExportResponse<CustomerRow>({
+      format,
+      filename: 'customers',
+      columns,
+      fetchBatch: (skip, take) =>
+        prisma.customer.findMany({
+          where,
+          include,
+          orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+          skip,
+          take,
+        }),
+    })
+  } catch (error) {
+    console.error('Error exporting customers:', error)
+    return NextResponse.json(
+      { error: 'Failed to export customers' },
+      { status: 500 }
+    )
+  }
+}
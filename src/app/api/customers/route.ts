@@ -1,45 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { customerSchema } from '@/lib/validations'
 import { logActivity } from '@/lib/activity'
 import { hasPermission } from '@/lib/permissions'
+import { buildCustomerWhere } from '@/lib/list-filters'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'customers:read')) {
+    if (!hasPermission(session.user, 'customers:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
     const { searchParams } = new URL(request.url)
-    const search = searchParams.get('search') || ''
-    const industry = searchParams.get('industry') || ''
-    const ownerUserId = searchParams.get('ownerUserId') || ''
     const page = parseInt(searchParams.get('page') || '1')
     const pageSize = parseInt(searchParams.get('pageSize') || '20')
 
-    const where: Record<string, unknown> = {}
-
-    if (search) {
-      where.OR = [
-        { name: { contains: search, mode: 'insensitive' } },
-        { description: { contains: search, mode: 'insensitive' } },
-      ]
-    }
-
-    if (industry) {
-      where.industry = industry
-    }
-
-    if (ownerUserId) {
-      where.ownerUserId = ownerUserId
-    }
+    const where = buildCustomerWhere(searchParams, session.user)
 
     const [customers, total] = await Promise.all([
       prisma.customer.findMany({
@@ -77,12 +59,12 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'customers:write')) {
+    if (!hasPermission(session.user, 'customers:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -1,22 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { engineerAssignmentSchema } from '@/lib/validations'
 import { logActivity } from '@/lib/activity'
 import { hasPermission } from '@/lib/permissions'
+import { notifyEngineerAssignment, notifyEngineerOnBench } from '@/lib/notifications'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:read')) {
+    if (!hasPermission(session.user, 'candidates:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -44,12 +44,12 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:write')) {
+    if (!hasPermission(session.user, 'candidates:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -117,6 +117,14 @@ export async function POST(
         where: { id: params.id },
         data: { employmentStatus: 'ASSIGNED' },
       })
+
+      await notifyEngineerAssignment({
+        engineerId: params.id,
+        projectId: assignment.projectId,
+        customerId: assignment.customerId,
+        assigned: true,
+        actingUserId: session.user.id,
+      })
     }
 
     await logActivity({
@@ -146,12 +154,12 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:write')) {
+    if (!hasPermission(session.user, 'candidates:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -192,6 +200,14 @@ export async function PUT(
 
     // Update engineer status based on assignment status change
     if (body.status && body.status !== 'ACTIVE' && existing.status === 'ACTIVE') {
+      await notifyEngineerAssignment({
+        engineerId: params.id,
+        projectId: assignment.projectId,
+        customerId: assignment.customerId,
+        assigned: false,
+        actingUserId: session.user.id,
+      })
+
       // Check if there are other active assignments
       const otherActive = await prisma.engineerAssignment.findFirst({
         where: {
@@ -206,6 +222,8 @@ export async function PUT(
           where: { id: params.id },
           data: { employmentStatus: 'BENCH' },
         })
+
+        await notifyEngineerOnBench({ engineerId: params.id, actingUserId: session.user.id })
       }
     }
 
@@ -1,22 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { engineerSchema } from '@/lib/validations'
 import { logActivity, createDiff } from '@/lib/activity'
+import { queueRescoreIfNeeded } from '@/lib/scoring-profiles'
 import { hasPermission } from '@/lib/permissions'
+import { getSkillIndex } from '@/lib/skill-taxonomy'
+import { normalizeSkills } from '@/lib/skills'
+import { notifyEngineerOnBench } from '@/lib/notifications'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:read')) {
+    if (!hasPermission(session.user, 'candidates:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -77,12 +80,12 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:write')) {
+    if (!hasPermission(session.user, 'candidates:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -105,6 +108,7 @@ export async function PUT(
     }
 
     const data = validationResult.data
+    const skillIndex = await getSkillIndex()
 
     const engineer = await prisma.engineer.update({
       where: { id: params.id },
@@ -114,7 +118,7 @@ export async function PUT(
         phone: data.phone || null,
         location: data.location || null,
         title: data.title || null,
-        technologies: data.technologies || [],
+        technologies: normalizeSkills(data.technologies || [], skillIndex),
         yearsExperience: data.yearsExperience ?? null,
         seniorityLevel: data.seniorityLevel || null,
         employmentStatus: data.employmentStatus || existing.employmentStatus,
@@ -138,6 +142,12 @@ export async function PUT(
       diff: diff || undefined,
     })
 
+    await queueRescoreIfNeeded('engineer', engineer.id, diff)
+
+    if (engineer.employmentStatus === 'BENCH' && existing.employmentStatus !== 'BENCH') {
+      await notifyEngineerOnBench({ engineerId: engineer.id, actingUserId: session.user.id })
+    }
+
     return NextResponse.json({ data: engineer })
   } catch (error) {
     console.error('Error updating engineer:', error)
@@ -153,12 +163,12 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:delete')) {
+    if (!hasPermission(session.user, 'candidates:delete')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
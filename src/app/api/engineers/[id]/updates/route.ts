@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { engineerUpdateSchema } from '@/lib/validations'
 import { hasPermission } from '@/lib/permissions'
@@ -10,12 +9,12 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:read')) {
+    if (!hasPermission(session.user, 'candidates:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -57,12 +56,12 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:write')) {
+    if (!hasPermission(session.user, 'candidates:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -114,7 +113,7 @@ export async function POST(
 
 export async function DELETE(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
@@ -137,8 +136,8 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Update not found' }, { status: 404 })
     }
 
-    // Only author or admin can delete
-    if (update.authorUserId !== session.user.id && session.user.role !== 'ADMIN') {
+    // Only the author or someone who can delete engineers
+    if (update.authorUserId !== session.user.id && !hasPermission(session.user, 'engineers:delete')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
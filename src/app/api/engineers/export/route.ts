@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+import { buildEngineerWhere } from '@/lib/list-filters'
+import { createExportResponse, parseExportFormat, ExportColumn } from '@/lib/export'
+
+const include = {
+  manager: { select: { fullName: true } },
+  assignments: {
+    where: { status: 'ACTIVE' as const },
+    include: {
+      project: { select: { title: true } },
+      customer: { select: { name: true } },
+    },
+    take: 1,
+  },
+}
+
+type EngineerRow = Prisma.EngineerGetPayload<{ include: typeof include }>
+
+const columns: ExportColumn<EngineerRow>[] = [
+  { header: 'Full Name', value: (e) => e.fullName },
+  { header: 'Email', value: (e) => e.email },
+  { header: 'Phone', value: (e) => e.phone },
+  { header: 'Title', value: (e) => e.title },
+  { header: 'Location', value: (e) => e.location },
+  { header: 'Seniority', value: (e) => e.seniorityLevel },
+  { header: 'Years Experience', value: (e) => e.yearsExperience },
+  { header: 'Technologies', value: (e) => e.technologies },
+  { header: 'Employment Status', value: (e) => e.employmentStatus },
+  { header: 'Employment Start', value: (e) => e.employmentStartDate },
+  { header: 'Manager', value: (e) => e.manager?.fullName },
+  { header: 'Current Project', value: (e) => e.assignments[0]?.project?.title },
+  { header: 'Current Customer', value: (e) => e.assignments[0]?.customer?.name },
+  { header: 'Created', value: (e) => e.createdAt },
+  { header: 'Updated', value: (e) => e.updatedAt },
+]
+
+// GET /api/engineers/export - Download the filtered engineer list as CSV or XLSX
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'candidates:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = parseExportFormat(searchParams.get('format'))
+    if (!format) {
+      return NextResponse.json({ error: 'Unsupported export format' }, { status: 400 })
+    }
+
+    const where = buildEngineerWhere(searchParams)
+
+    return createExportResponse<EngineerRow>({
+      format,
+      filename: 'engineers',
+      columns,
+      fetchBatch: (skip, take) =>
+        prisma.engineer.findMany({
+          where,
+          include,
+          orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+          skip,
+          take,
+        }),
+    })
+  } catch (error) {
+    console.error('Error exporting engineers:', error)
+    return NextResponse.json(
+      { error: 'Failed to export engineers' },
+      { status: 500 }
+    )
+  }
+}
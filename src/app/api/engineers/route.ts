@@ -1,51 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { engineerSchema } from '@/lib/validations'
 import { logActivity } from '@/lib/activity'
 import { hasPermission } from '@/lib/permissions'
+import { getSkillIndex } from '@/lib/skill-taxonomy'
+import { normalizeSkills } from '@/lib/skills'
+import { buildEngineerWhere } from '@/lib/list-filters'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:read')) {
+    if (!hasPermission(session.user, 'candidates:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
     const { searchParams } = new URL(request.url)
-    const search = searchParams.get('search') || ''
-    const technologies = searchParams.get('technologies')?.split(',').filter(Boolean) || []
-    const seniorityLevel = searchParams.get('seniorityLevel') || ''
-    const employmentStatus = searchParams.get('employmentStatus') || ''
     const page = parseInt(searchParams.get('page') || '1')
     const pageSize = parseInt(searchParams.get('pageSize') || '20')
 
-    const where: Record<string, unknown> = {}
-
-    if (search) {
-      where.OR = [
-        { fullName: { contains: search, mode: 'insensitive' } },
-        { title: { contains: search, mode: 'insensitive' } },
-        { email: { contains: search, mode: 'insensitive' } },
-      ]
-    }
-
-    if (technologies.length > 0) {
-      where.technologies = { hasSome: technologies }
-    }
-
-    if (seniorityLevel) {
-      where.seniorityLevel = seniorityLevel
-    }
-
-    if (employmentStatus) {
-      where.employmentStatus = employmentStatus
-    }
+    const where = buildEngineerWhere(searchParams)
 
     const [engineers, total] = await Promise.all([
       prisma.engineer.findMany({
@@ -91,12 +69,12 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'candidates:write')) {
+    if (!hasPermission(session.user, 'candidates:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -111,6 +89,7 @@ export async function POST(request: NextRequest) {
     }
 
     const data = validationResult.data
+    const skillIndex = await getSkillIndex()
 
     const engineer = await prisma.engineer.create({
       data: {
@@ -119,7 +98,7 @@ export async function POST(request: NextRequest) {
         phone: data.phone || null,
         location: data.location || null,
         title: data.title || null,
-        technologies: data.technologies || [],
+        technologies: normalizeSkills(data.technologies || [], skillIndex),
         yearsExperience: data.yearsExperience ?? null,
         seniorityLevel: data.seniorityLevel || null,
         employmentStatus: data.employmentStatus || 'ACTIVE',
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+import { canAccessProject } from '@/lib/access'
+import { realtime, RealtimeEvent } from '@/lib/realtime'
+import { isUserSessionActive } from '@/lib/user-sessions'
+
+export const dynamic = 'force-dynamic'
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25000
+
+// GET /api/events - Server-Sent Events stream of realtime updates for the current user
+export async function GET(request: NextRequest) {
+  const session = await getRequestSession()
+  if (!session) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { id: userId } = session.user
+
+  // Only forward events the user could see through the regular API
+  const canReceive = async (event: RealtimeEvent): Promise<boolean> => {
+    if (event.type === 'notification') {
+      return event.userIds.includes(userId)
+    }
+
+    const permission = event.type === 'project_update' ? 'project_updates:read' : 'projects:read'
+    if (!hasPermission(session.user, permission)) return false
+
+    // Scoped roles only follow projects they can see
+    return canAccessProject(session.user, event.projectId)
+  }
+
+  // Checked on every heartbeat: a revoked session or token, or a deactivated
+  // user, ends the stream rather than lasting until the client disconnects
+  const stillSignedIn = async (): Promise<boolean> => {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { isActive: true } })
+    if (!user?.isActive) return false
+
+    if (session.apiTokenId) {
+      const token = await prisma.apiToken.findUnique({
+        where: { id: session.apiTokenId },
+        select: { revokedAt: true, expiresAt: true },
+      })
+      return !!token && !token.revokedAt && token.expiresAt > new Date()
+    }
+    return isUserSessionActive(session.user.sessionId)
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      // Reconnect delay for the browser's EventSource
+      send('retry: 5000\n\n')
+
+      const unsubscribe = realtime.subscribe((event) => {
+        canReceive(event)
+          .then((allowed) => {
+            if (allowed) send(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+          })
+          .catch((error) => console.error('Error filtering realtime event:', error))
+      })
+
+      const heartbeat = setInterval(() => {
+        stillSignedIn()
+          .then((signedIn) => (signedIn ? send(': keep-alive\n\n') : cleanup()))
+          .catch((error) => console.error('Error checking realtime session:', error))
+      }, HEARTBEAT_MS)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+        cleanup = () => {}
+      }
+
+      request.signal.addEventListener('abort', () => cleanup())
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+import { SessionUser, canAccessProject, getFullCandidateIds } from '@/lib/access'
+import { getResumeMimeType } from '@/lib/resume-extraction'
+import { fileStorage } from '@/lib/storage'
+import { FILE_URL_PREFIX, uploadKey } from '@/lib/uploads'
+import { canSeeDocument } from '@/lib/candidate-documents'
+
+type FileAccess =
+  | { status: 403 | 404 }
+  | { status: 200; name: string | null; mimeType?: string }
+
+/**
+ * Candidate documents follow the document's visibility. Other resumes follow
+ * the candidate: full candidate access, which scoped roles only have for
+ * candidates on their projects. A resume that isn't on a candidate (uploaded
+ * in the candidate form and not saved yet, or left behind) can't be
+ * downloaded.
+ */
+async function candidateFileAccess(user: SessionUser, url: string): Promise<FileAccess> {
+  const versions = await prisma.candidateDocumentVersion.findMany({
+    where: { fileUrl: url },
+    include: { document: { select: { candidateId: true, visibility: true } } },
+  })
+  for (const version of versions) {
+    if (await canSeeDocument(user, version.document)) {
+      return { status: 200, name: version.originalName, mimeType: version.mimeType }
+    }
+  }
+  if (versions.length > 0) {
+    return { status: 403 }
+  }
+
+  if (!hasPermission(user, 'candidates:read:full')) {
+    return { status: 403 }
+  }
+
+  const candidates = await prisma.candidate.findMany({
+    where: { resumeFileUrl: url },
+    select: { id: true, resumeOriginalName: true },
+  })
+  if (candidates.length === 0) {
+    return { status: 404 }
+  }
+
+  const allowed = await getFullCandidateIds(user, candidates.map((c) => c.id))
+  const candidate = candidates.find((c) => allowed.has(c.id))
+  return candidate ? { status: 200, name: candidate.resumeOriginalName } : { status: 403 }
+}
+
+/**
+ * Client profiles follow the project they were generated for
+ */
+async function profileAccess(user: SessionUser, url: string): Promise<FileAccess> {
+  if (!hasPermission(user, 'projects:read')) {
+    return { status: 403 }
+  }
+
+  const talents = await prisma.projectTalent.findMany({
+    where: { profileFileUrl: url },
+    select: { projectId: true },
+  })
+  if (talents.length === 0) {
+    return { status: 404 }
+  }
+
+  for (const talent of talents) {
+    if (await canAccessProject(user, talent.projectId)) {
+      return { status: 200, name: null }
+    }
+  }
+  return { status: 403 }
+}
+
+// GET /api/files/[...key] - Download a stored resume, candidate document or client profile
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const url = `${FILE_URL_PREFIX}${params.key.join('/')}`
+    const key = uploadKey(url)
+    if (!key) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    const folder = key.split('/')[0]
+    const access =
+      folder === 'resumes' || folder === 'documents'
+        ? await candidateFileAccess(session.user, url)
+        : folder === 'profiles'
+          ? await profileAccess(session.user, url)
+          : ({ status: 404 } as const)
+
+    if (access.status === 403) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const file = access.status === 200 ? await fileStorage.get(key) : null
+    if (access.status !== 200 || !file) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    const storedName = key.split('/').pop() as string
+    const contentType =
+      access.mimeType || getResumeMimeType(storedName) || 'application/octet-stream'
+    // Header-safe version of the name the file was uploaded under
+    const filename = (access.name || storedName).replace(/[^\x20-\x7e]|"/g, '_')
+    // PDFs and images open in the browser; anything else is downloaded
+    const disposition =
+      contentType === 'application/pdf' || contentType.startsWith('image/') ? 'inline' : 'attachment'
+
+    return new Response(new Uint8Array(file), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `${disposition}; filename="${filename}"`,
+        'Content-Security-Policy': 'sandbox',
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error downloading file:', error)
+    return NextResponse.json(
+      { error: 'Failed to download file' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { interviewFeedbackSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { interviewInclude } from '@/lib/interviews'
+import { canAccessProject } from '@/lib/access'
+
+// PUT /api/interviews/[id]/feedback - Record (or replace) the current user's feedback
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'interviews:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const interview = await prisma.interview.findUnique({
+      where: { id: params.id },
+      include: {
+        projectTalent: { select: { projectId: true } },
+        interviewers: { select: { id: true } },
+      },
+    })
+
+    if (!interview) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 })
+    }
+
+    if (!(await canAccessProject(session.user, interview.projectTalent.projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Interviewers give feedback on their own interviews; schedulers may record it for anyone
+    const isInterviewer = interview.interviewers.some((u) => u.id === session.user.id)
+    if (!isInterviewer && !hasPermission(session.user, 'interviews:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (interview.status === 'CANCELLED') {
+      return NextResponse.json(
+        { error: 'Cannot add feedback to a cancelled interview' },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const validationResult = interviewFeedbackSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+    const feedbackData = {
+      score: data.score ?? null,
+      recommendation: data.recommendation ?? null,
+      notes: data.notes,
+    }
+
+    await prisma.interviewFeedback.upsert({
+      where: {
+        interviewId_authorUserId: { interviewId: params.id, authorUserId: session.user.id },
+      },
+      create: { interviewId: params.id, authorUserId: session.user.id, ...feedbackData },
+      update: feedbackData,
+    })
+
+    // Feedback means the interview took place
+    const updated = await prisma.interview.update({
+      where: { id: params.id },
+      data: interview.status === 'SCHEDULED' ? { status: 'COMPLETED' } : {},
+      include: interviewInclude,
+    })
+
+    await logActivity({
+      entityType: 'Interview',
+      entityId: params.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: { feedback: { score: feedbackData.score, recommendation: feedbackData.recommendation } },
+    })
+
+    return NextResponse.json({ data: updated })
+  } catch (error) {
+    console.error('Error saving interview feedback:', error)
+    return NextResponse.json(
+      { error: 'Failed to save interview feedback' },
+      { status: 500 }
+    )
+  }
+}
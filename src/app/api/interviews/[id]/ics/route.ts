@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+import { buildInterviewIcs, interviewInclude } from '@/lib/interviews'
+import { canAccessProject } from '@/lib/access'
+
+// GET /api/interviews/[id]/ics - Download the calendar invite (or cancellation) for an interview
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'interviews:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const interview = await prisma.interview.findUnique({
+      where: { id: params.id },
+      include: interviewInclude,
+    })
+
+    if (!interview) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 })
+    }
+
+    if (!(await canAccessProject(session.user, interview.projectTalent.project.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    return new Response(buildInterviewIcs(interview), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="interview-round-${interview.round}.ics"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error generating interview invite:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate interview invite' },
+      { status: 500 }
+    )
+  }
+}
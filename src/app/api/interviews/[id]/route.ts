@@ -0,0 +1,240 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { updateInterviewSchema } from '@/lib/validations'
+import { logActivity, createDiff } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { formatDateTime } from '@/lib/utils'
+import {
+  interviewInclude,
+  interviewSummary,
+  notifyInterviewParticipants,
+} from '@/lib/interviews'
+import { canAccessProject } from '@/lib/access'
+
+// GET /api/interviews/[id] - Get an interview with its feedback
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'interviews:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const interview = await prisma.interview.findUnique({
+      where: { id: params.id },
+      include: interviewInclude,
+    })
+
+    if (!interview) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 })
+    }
+
+    if (!(await canAccessProject(session.user, interview.projectTalent.project.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    return NextResponse.json({ data: interview })
+  } catch (error) {
+    console.error('Error fetching interview:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch interview' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/interviews/[id] - Reschedule, reassign or change the status of an interview
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'interviews:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.interview.findUnique({
+      where: { id: params.id },
+      include: interviewInclude,
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 })
+    }
+
+    if (!(await canAccessProject(session.user, existing.projectTalent.project.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validationResult = updateInterviewSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+
+    let interviewerIds: string[] | undefined
+    if (data.interviewerUserIds) {
+      interviewerIds = Array.from(new Set(data.interviewerUserIds))
+      const interviewerCount = await prisma.user.count({
+        where: { id: { in: interviewerIds }, isActive: true },
+      })
+      if (interviewerCount !== interviewerIds.length) {
+        return NextResponse.json(
+          { error: 'One or more interviewers were not found or are inactive' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const updateData = {
+      ...(data.round !== undefined && { round: data.round }),
+      ...(data.title !== undefined && { title: data.title || null }),
+      ...(data.scheduledAt !== undefined && { scheduledAt: new Date(data.scheduledAt) }),
+      ...(data.durationMinutes !== undefined && { durationMinutes: data.durationMinutes }),
+      ...(data.location !== undefined && { location: data.location || null }),
+      ...(data.meetingUrl !== undefined && { meetingUrl: data.meetingUrl || null }),
+      ...(data.customerContacts !== undefined && { customerContacts: data.customerContacts }),
+      ...(data.status !== undefined && { status: data.status }),
+    }
+
+    const rescheduled =
+      updateData.scheduledAt !== undefined &&
+      updateData.scheduledAt.getTime() !== existing.scheduledAt.getTime()
+    const cancelled = data.status === 'CANCELLED' && existing.status !== 'CANCELLED'
+
+    // Anything that shows up in the calendar entry needs a new invite sequence
+    const diff = createDiff(
+      {
+        scheduledAt: existing.scheduledAt.toISOString(),
+        durationMinutes: existing.durationMinutes,
+        location: existing.location,
+        meetingUrl: existing.meetingUrl,
+        status: existing.status,
+        interviewerUserIds: existing.interviewers.map((u) => u.id).sort(),
+      },
+      {
+        scheduledAt: updateData.scheduledAt?.toISOString() ?? existing.scheduledAt.toISOString(),
+        durationMinutes: updateData.durationMinutes ?? existing.durationMinutes,
+        location: updateData.location !== undefined ? updateData.location : existing.location,
+        meetingUrl: updateData.meetingUrl !== undefined ? updateData.meetingUrl : existing.meetingUrl,
+        status: updateData.status ?? existing.status,
+        interviewerUserIds: (interviewerIds ?? existing.interviewers.map((u) => u.id)).sort(),
+      }
+    )
+
+    const interview = await prisma.interview.update({
+      where: { id: params.id },
+      data: {
+        ...updateData,
+        ...(diff && { icsSequence: { increment: 1 } }),
+        // A new time gets a fresh reminder
+        ...(rescheduled && { reminderSentAt: null }),
+        ...(interviewerIds && {
+          interviewers: { set: interviewerIds.map((id) => ({ id })) },
+        }),
+      },
+      include: interviewInclude,
+    })
+
+    if (cancelled) {
+      await notifyInterviewParticipants(
+        interview,
+        {
+          type: 'INTERVIEW_CANCELLED',
+          title: 'Interview cancelled',
+          message: `${session.user.fullName} cancelled ${interviewSummary(interview)}`,
+        },
+        session.user.id
+      )
+    } else if (rescheduled) {
+      await notifyInterviewParticipants(
+        interview,
+        {
+          type: 'INTERVIEW_RESCHEDULED',
+          title: 'Interview rescheduled',
+          message: `${session.user.fullName} moved ${interviewSummary(interview)} to ${formatDateTime(interview.scheduledAt)}`,
+        },
+        session.user.id
+      )
+    }
+
+    await logActivity({
+      entityType: 'Interview',
+      entityId: interview.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: diff || undefined,
+    })
+
+    return NextResponse.json({ data: interview })
+  } catch (error) {
+    console.error('Error updating interview:', error)
+    return NextResponse.json(
+      { error: 'Failed to update interview' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/interviews/[id] - Delete an interview and its feedback
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'interviews:delete')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.interview.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Interview not found' }, { status: 404 })
+    }
+
+    await prisma.interview.delete({
+      where: { id: params.id },
+    })
+
+    await logActivity({
+      entityType: 'Interview',
+      entityId: params.id,
+      action: 'DELETED',
+      performedByUserId: session.user.id,
+      diff: { projectTalentId: existing.projectTalentId, round: existing.round },
+    })
+
+    return NextResponse.json({ message: 'Interview deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting interview:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete interview' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+
+// GET /api/interviews/interviewers - Active users that can be assigned as interviewers
+export async function GET() {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'interviews:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const users = await prisma.user.findMany({
+      where: { isActive: true },
+      select: { id: true, fullName: true, email: true, role: true },
+      orderBy: { fullName: 'asc' },
+    })
+
+    return NextResponse.json({ data: users })
+  } catch (error) {
+    console.error('Error fetching interviewers:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch interviewers' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { interviewSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { formatDateTime } from '@/lib/utils'
+import {
+  interviewInclude,
+  interviewSummary,
+  notifyInterviewParticipants,
+} from '@/lib/interviews'
+import { canAccessProject, projectScope } from '@/lib/access'
+
+// GET /api/interviews - List interviews for a project, talent, candidate or engineer
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'interviews:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const projectId = searchParams.get('projectId')
+    const projectTalentId = searchParams.get('projectTalentId')
+    const candidateId = searchParams.get('candidateId')
+    const engineerId = searchParams.get('engineerId')
+    const upcoming = searchParams.get('upcoming') === 'true'
+    const mine = searchParams.get('mine') === 'true'
+
+    const talentWhere: Prisma.ProjectTalentWhereInput = {}
+    if (projectId) talentWhere.projectId = projectId
+    if (candidateId) talentWhere.candidateId = candidateId
+    if (engineerId) talentWhere.engineerId = engineerId
+
+    // Scoped roles only see interviews on their projects
+    talentWhere.project = projectScope(session.user)
+
+    const where: Prisma.InterviewWhereInput = { projectTalent: talentWhere }
+    if (projectTalentId) where.projectTalentId = projectTalentId
+    if (upcoming) {
+      where.status = 'SCHEDULED'
+      where.scheduledAt = { gte: new Date() }
+    }
+    if (mine) {
+      where.interviewers = { some: { id: session.user.id } }
+    }
+
+    const interviews = await prisma.interview.findMany({
+      where,
+      include: interviewInclude,
+      orderBy: { scheduledAt: upcoming ? 'asc' : 'desc' },
+    })
+
+    return NextResponse.json({ data: interviews })
+  } catch (error) {
+    console.error('Error fetching interviews:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch interviews' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/interviews - Schedule an interview for a project talent
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'interviews:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validationResult = interviewSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+
+    const projectTalent = await prisma.projectTalent.findUnique({
+      where: { id: data.projectTalentId },
+      include: {
+        interviews: { select: { round: true } },
+      },
+    })
+
+    if (!projectTalent) {
+      return NextResponse.json({ error: 'Project talent not found' }, { status: 404 })
+    }
+
+    if (!(await canAccessProject(session.user, projectTalent.projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const interviewerIds = Array.from(new Set(data.interviewerUserIds))
+    const interviewerCount = await prisma.user.count({
+      where: { id: { in: interviewerIds }, isActive: true },
+    })
+    if (interviewerCount !== interviewerIds.length) {
+      return NextResponse.json(
+        { error: 'One or more interviewers were not found or are inactive' },
+        { status: 400 }
+      )
+    }
+
+    // Rounds number up from the talent's latest interview unless given
+    const round =
+      data.round ?? Math.max(0, ...projectTalent.interviews.map((i) => i.round)) + 1
+
+    const interview = await prisma.interview.create({
+      data: {
+        projectTalentId: data.projectTalentId,
+        round,
+        title: data.title || null,
+        scheduledAt: new Date(data.scheduledAt),
+        durationMinutes: data.durationMinutes ?? 60,
+        location: data.location || null,
+        meetingUrl: data.meetingUrl || null,
+        customerContacts: data.customerContacts || [],
+        createdByUserId: session.user.id,
+        interviewers: {
+          connect: interviewerIds.map((id) => ({ id })),
+        },
+      },
+      include: interviewInclude,
+    })
+
+    await notifyInterviewParticipants(
+      interview,
+      {
+        type: 'INTERVIEW_SCHEDULED',
+        title: 'Interview scheduled',
+        message: `${session.user.fullName} scheduled ${interviewSummary(interview)} for ${formatDateTime(interview.scheduledAt)}`,
+      },
+      session.user.id
+    )
+
+    await logActivity({
+      entityType: 'Interview',
+      entityId: interview.id,
+      action: 'CREATED',
+      performedByUserId: session.user.id,
+      diff: {
+        projectTalentId: interview.projectTalentId,
+        round: interview.round,
+        scheduledAt: interview.scheduledAt,
+      },
+    })
+
+    return NextResponse.json({ data: interview }, { status: 201 })
+  } catch (error) {
+    console.error('Error scheduling interview:', error)
+    return NextResponse.json(
+      { error: 'Failed to schedule interview' },
+      { status: 500 }
+    )
+  }
+}
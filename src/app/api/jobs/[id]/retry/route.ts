@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+import { retryJob } from '@/lib/jobs'
+
+// POST /api/jobs/[id]/retry - Queue a failed job again with a fresh set of attempts
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.job.findUnique({ where: { id: params.id } })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    if (existing.status !== 'FAILED') {
+      return NextResponse.json({ error: 'Only failed jobs can be retried' }, { status: 400 })
+    }
+
+    const job = await retryJob(existing.id)
+
+    return NextResponse.json({ data: job })
+  } catch (error) {
+    console.error('Error retrying job:', error)
+    return NextResponse.json(
+      { error: 'Failed to retry job' },
+      { status: 500 }
+    )
+  }
+}
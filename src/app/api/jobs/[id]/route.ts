@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+
+// GET /api/jobs/[id] - A job's status and result. Visible to whoever queued
+// it (e.g. polling a resume extraction) and to admins.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const job = await prisma.job.findUnique({ where: { id: params.id } })
+
+    if (
+      !job ||
+      (job.createdByUserId !== session.user.id && !hasPermission(session.user, 'settings:write'))
+    ) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ data: job })
+  } catch (error) {
+    console.error('Error fetching job:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch job' },
+      { status: 500 }
+    )
+  }
+}
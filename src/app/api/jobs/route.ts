@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { JobStatus } from '@prisma/client'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+import { JOB_TYPES, nextRecurringRun, recurringJobs } from '@/lib/job-runner'
+
+export const dynamic = 'force-dynamic'
+
+const STATUSES: JobStatus[] = ['PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED']
+
+// GET /api/jobs - Background jobs, newest first, with counts per status and
+// the recurring schedule
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as JobStatus | null
+    const type = searchParams.get('type')
+    const page = parseInt(searchParams.get('page') || '1')
+    const pageSize = parseInt(searchParams.get('pageSize') || '50')
+
+    const where: Record<string, unknown> = {}
+    if (status && STATUSES.includes(status)) {
+      where.status = status
+    }
+    if (type) {
+      where.type = type
+    }
+
+    const [jobs, total, statusCounts, lastRecurringRuns] = await Promise.all([
+      prisma.job.findMany({
+        where,
+        select: {
+          id: true,
+          type: true,
+          payload: true,
+          status: true,
+          attempts: true,
+          maxAttempts: true,
+          runAt: true,
+          lockedBy: true,
+          lastError: true,
+          createdAt: true,
+          startedAt: true,
+          finishedAt: true,
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.job.count({ where }),
+      prisma.job.groupBy({ by: ['status'], _count: { _all: true } }),
+      Promise.all(
+        recurringJobs.map((recurring) =>
+          prisma.job.findFirst({
+            where: { type: recurring.type, uniqueKey: { not: null } },
+            orderBy: { runAt: 'desc' },
+            select: { status: true, runAt: true, finishedAt: true, lastError: true },
+          })
+        )
+      ),
+    ])
+
+    const counts = Object.fromEntries(STATUSES.map((s) => [s, 0])) as Record<JobStatus, number>
+    for (const row of statusCounts) {
+      counts[row.status] = row._count._all
+    }
+
+    return NextResponse.json({
+      data: jobs,
+      total,
+      page,
+      pageSize,
+      counts,
+      types: JOB_TYPES,
+      recurring: recurringJobs.map((recurring, index) => ({
+        ...recurring,
+        nextRunAt: nextRecurringRun(recurring),
+        lastRun: lastRecurringRuns[index],
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching jobs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch jobs' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,19 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { hasPermission } from '@/lib/permissions'
 import { rankCandidates, rankEngineers, rankAllTalent } from '@/lib/matching'
+import { getScoringWeights } from '@/lib/scoring-profiles'
+import { getSkillIndex } from '@/lib/skill-taxonomy'
+import { canAccessProject } from '@/lib/access'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'projects:read') ||
-        !hasPermission(session.user.role, 'candidates:read')) {
+    if (!hasPermission(session.user, 'projects:read') ||
+        !hasPermission(session.user, 'candidates:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -24,6 +26,7 @@ export async function GET(request: NextRequest) {
     const seniorityLevel = searchParams.get('seniorityLevel') || ''
     const talentType = searchParams.get('talentType') || '' // 'CANDIDATE', 'ENGINEER', or '' for all
     const limit = parseInt(searchParams.get('limit') || '50')
+    const scoringProfileId = searchParams.get('scoringProfileId') || '' // Overrides the project's profile
 
     if (!projectId) {
       return NextResponse.json(
@@ -41,22 +44,24 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 })
     }
 
-    // Get talent already in this project (both legacy and new)
-    const [existingCandidates, existingTalents] = await Promise.all([
-      prisma.projectCandidate.findMany({
-        where: { projectId },
-        select: { candidateId: true },
-      }),
-      prisma.projectTalent.findMany({
-        where: { projectId },
-        select: { candidateId: true, engineerId: true },
-      }),
+    if (!(await canAccessProject(session.user, projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const [weights, skillIndex] = await Promise.all([
+      getScoringWeights(scoringProfileId || project.scoringProfileId),
+      getSkillIndex(),
     ])
 
-    const excludeCandidateIds = [
-      ...existingCandidates.map((pc) => pc.candidateId),
-      ...existingTalents.filter((t) => t.candidateId).map((t) => t.candidateId as string),
-    ]
+    // Get talent already in this project
+    const existingTalents = await prisma.projectTalent.findMany({
+      where: { projectId },
+      select: { candidateId: true, engineerId: true },
+    })
+
+    const excludeCandidateIds = existingTalents
+      .filter((t) => t.candidateId)
+      .map((t) => t.candidateId as string)
     const excludeEngineerIds = existingTalents
       .filter((t) => t.engineerId)
       .map((t) => t.engineerId as string)
@@ -122,7 +127,7 @@ export async function GET(request: NextRequest) {
 
     if (talentType === 'CANDIDATE') {
       // Only candidates
-      const matchResults = rankCandidates(candidates, project)
+      const matchResults = rankCandidates(candidates, project, weights, skillIndex)
       results = matchResults
         .filter((r) => r.score >= minScore)
         .map((match) => {
@@ -143,7 +148,7 @@ export async function GET(request: NextRequest) {
         })
     } else if (talentType === 'ENGINEER') {
       // Only engineers
-      const matchResults = rankEngineers(engineers, project)
+      const matchResults = rankEngineers(engineers, project, weights, skillIndex)
       results = matchResults
         .filter((r) => r.score >= minScore)
         .map((match) => {
@@ -165,7 +170,7 @@ export async function GET(request: NextRequest) {
         })
     } else {
       // Both - use unified ranking
-      const unifiedResults = rankAllTalent(candidates, engineers, project)
+      const unifiedResults = rankAllTalent(candidates, engineers, project, weights, skillIndex)
       results = unifiedResults
         .filter((r) => r.score >= minScore)
         .map((match) => ({
@@ -198,6 +203,7 @@ export async function GET(request: NextRequest) {
         minScore,
         seniorityLevel: seniorityLevel || null,
         technologies: technologies.length > 0 ? technologies : null,
+        scoringProfileId: scoringProfileId || project.scoringProfileId,
       },
     })
   } catch (error) {
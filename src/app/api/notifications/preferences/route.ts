@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+import { notificationPreferencesSchema } from '@/lib/validations'
+import { getUserNotificationPreferences } from '@/lib/notification-preferences'
+
+// GET /api/notifications/preferences - Delivery choice per notification type for the current user
+export async function GET() {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'notifications:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const preferences = await getUserNotificationPreferences(session.user.id)
+
+    return NextResponse.json({ data: preferences })
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch notification preferences' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/notifications/preferences - Save delivery choices for the current user
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'notifications:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validationResult = notificationPreferencesSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const userId = session.user.id
+
+    await prisma.$transaction(
+      validationResult.data.preferences.map(({ type, delivery }) =>
+        prisma.notificationPreference.upsert({
+          where: { userId_type: { userId, type } },
+          create: { userId, type, delivery },
+          update: { delivery },
+        })
+      )
+    )
+
+    const preferences = await getUserNotificationPreferences(userId)
+
+    return NextResponse.json({ data: preferences })
+  } catch (error) {
+    console.error('Error updating notification preferences:', error)
+    return NextResponse.json(
+      { error: 'Failed to update notification preferences' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import { buildOpenApiDocument } from '@/lib/openapi'
+import { appUrl } from '@/lib/mail'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/openapi - OpenAPI document for the REST API (any signed-in user or token)
+export async function GET() {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json(buildOpenApiDocument(appUrl('')))
+  } catch (error) {
+    console.error('Error building OpenAPI document:', error)
+    return NextResponse.json(
+      { error: 'Failed to build OpenAPI document' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { portalLoginSchema } from '@/lib/validations'
+import { sendPortalLoginLink } from '@/lib/portal'
+
+// POST /api/portal/auth/login - Email a sign-in link to a portal user.
+// Always answers the same way so the form can't be used to probe for accounts.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const validationResult = portalLoginSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const portalUser = await prisma.portalUser.findUnique({
+      where: { email: validationResult.data.email.toLowerCase() },
+      include: { customer: { select: { name: true } } },
+    })
+
+    if (portalUser?.isActive) {
+      await sendPortalLoginLink(portalUser)
+    }
+
+    return NextResponse.json({
+      message: 'If this email has portal access, a sign-in link is on its way',
+    })
+  } catch (error) {
+    console.error('Error requesting portal sign-in link:', error)
+    return NextResponse.json(
+      { error: 'Failed to send sign-in link' },
+      { status: 500 }
+    )
+  }
+}
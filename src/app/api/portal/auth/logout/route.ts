@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server'
+import { PORTAL_SESSION_COOKIE, portalSessionCookieOptions } from '@/lib/portal'
+
+// POST /api/portal/auth/logout - End the portal session
+export async function POST() {
+  const response = NextResponse.json({ message: 'Signed out' })
+  response.cookies.set(PORTAL_SESSION_COOKIE, '', { ...portalSessionCookieOptions, maxAge: 0 })
+  return response
+}
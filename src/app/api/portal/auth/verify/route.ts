@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  consumePortalLoginToken,
+  signPortalSession,
+  portalSessionCookieOptions,
+  PORTAL_SESSION_COOKIE,
+} from '@/lib/portal'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/portal/auth/verify?token= - Redeem a magic link and start a portal session
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token')
+
+  try {
+    const portalUser = token ? await consumePortalLoginToken(token) : null
+
+    if (!portalUser) {
+      return NextResponse.redirect(new URL('/portal/login?error=invalid_link', request.url))
+    }
+
+    const response = NextResponse.redirect(new URL('/portal', request.url))
+    response.cookies.set(
+      PORTAL_SESSION_COOKIE,
+      signPortalSession(portalUser.id),
+      portalSessionCookieOptions
+    )
+    return response
+  } catch (error) {
+    console.error('Error verifying portal sign-in link:', error)
+    return NextResponse.redirect(new URL('/portal/login?error=server_error', request.url))
+  }
+}
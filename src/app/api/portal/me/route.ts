@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { getPortalUser } from '@/lib/portal'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/portal/me - The signed-in portal user and their customer
+export async function GET() {
+  try {
+    const portalUser = await getPortalUser()
+    if (!portalUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    return NextResponse.json({
+      data: {
+        id: portalUser.id,
+        fullName: portalUser.fullName,
+        email: portalUser.email,
+        customer: portalUser.customer,
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching portal user:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch portal user' },
+      { status: 500 }
+    )
+  }
+}
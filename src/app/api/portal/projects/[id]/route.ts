@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import {
+  getPortalUser,
+  portalTalentSelect,
+  toPortalTalent,
+  PORTAL_VISIBLE_STAGES,
+} from '@/lib/portal'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/portal/projects/[id] - Project with customer-facing updates and talent under review
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const portalUser = await getPortalUser()
+    if (!portalUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const project = await prisma.project.findFirst({
+      where: { id: params.id, customerId: portalUser.customerId },
+      select: {
+        id: true,
+        title: true,
+        description: true,
+        projectCategory: true,
+        status: true,
+        devOpsStatus: true,
+        technologies: true,
+        updates: {
+          where: { visibility: 'CUSTOMER_FACING' },
+          select: {
+            id: true,
+            content: true,
+            createdAt: true,
+            author: { select: { fullName: true } },
+          },
+          orderBy: { createdAt: 'desc' },
+        },
+        projectTalents: {
+          where: { stage: { in: PORTAL_VISIBLE_STAGES } },
+          select: portalTalentSelect,
+          orderBy: { submittedAt: 'desc' },
+        },
+      },
+    })
+
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const { projectTalents, ...rest } = project
+
+    return NextResponse.json({
+      data: { ...rest, talents: projectTalents.map(toPortalTalent) },
+    })
+  } catch (error) {
+    console.error('Error fetching portal project:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch project' },
+      { status: 500 }
+    )
+  }
+}
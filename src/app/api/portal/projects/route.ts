@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { getPortalUser, PORTAL_VISIBLE_STAGES } from '@/lib/portal'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/portal/projects - The portal user's customer projects
+export async function GET() {
+  try {
+    const portalUser = await getPortalUser()
+    if (!portalUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const projects = await prisma.project.findMany({
+      where: { customerId: portalUser.customerId },
+      select: {
+        id: true,
+        title: true,
+        projectCategory: true,
+        status: true,
+        devOpsStatus: true,
+        updatedAt: true,
+        _count: {
+          select: {
+            projectTalents: { where: { stage: { in: PORTAL_VISIBLE_STAGES } } },
+            updates: { where: { visibility: 'CUSTOMER_FACING' } },
+          },
+        },
+      },
+      orderBy: { updatedAt: 'desc' },
+    })
+
+    return NextResponse.json({
+      data: projects.map(({ _count, ...project }) => ({
+        ...project,
+        talentsInReview: _count.projectTalents,
+        updateCount: _count.updates,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching portal projects:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch projects' },
+      { status: 500 }
+    )
+  }
+}
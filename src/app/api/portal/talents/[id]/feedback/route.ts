@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { portalFeedbackSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { notifyClientFeedback } from '@/lib/notifications'
+import { findPortalTalent, getPortalUser, portalTalentSelect, toPortalTalent } from '@/lib/portal'
+
+// PUT /api/portal/talents/[id]/feedback - Customer feedback on a submitted talent
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const portalUser = await getPortalUser()
+    if (!portalUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const existing = await findPortalTalent(portalUser.customerId, params.id)
+    if (!existing) {
+      return NextResponse.json({ error: 'Talent not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validationResult = portalFeedbackSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const talent = await prisma.projectTalent.update({
+      where: { id: params.id },
+      data: {
+        clientFeedback: validationResult.data.feedback,
+        clientFeedbackAt: new Date(),
+      },
+      select: portalTalentSelect,
+    })
+
+    // Portal users aren't staff accounts, so record who wrote it in the diff
+    await logActivity({
+      entityType: 'ProjectTalent',
+      entityId: params.id,
+      action: 'UPDATED',
+      diff: {
+        clientFeedback: { old: existing.clientFeedback, new: talent.clientFeedback },
+        via: 'portal',
+        portalUser: portalUser.email,
+      },
+    })
+
+    await notifyClientFeedback({
+      projectTalentId: params.id,
+      portalUserName: portalUser.fullName,
+    })
+
+    return NextResponse.json({ data: toPortalTalent(talent) })
+  } catch (error) {
+    console.error('Error saving portal feedback:', error)
+    return NextResponse.json(
+      { error: 'Failed to save feedback' },
+      { status: 500 }
+    )
+  }
+}
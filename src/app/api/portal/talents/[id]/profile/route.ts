@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readUpload } from '@/lib/uploads'
+import { findPortalTalent, getPortalUser } from '@/lib/portal'
+
+// GET /api/portal/talents/[id]/profile - Download the blind profile PDF for a submitted talent
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const portalUser = await getPortalUser()
+    if (!portalUser) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const talent = await findPortalTalent(portalUser.customerId, params.id)
+    if (!talent) {
+      return NextResponse.json({ error: 'Talent not found' }, { status: 404 })
+    }
+
+    if (!talent.profileFileUrl) {
+      return NextResponse.json({ error: 'No profile is available yet' }, { status: 404 })
+    }
+
+    const file = await readUpload(talent.profileFileUrl)
+    const filename = talent.profileFileUrl.split('/').pop()
+
+    return new Response(new Uint8Array(file), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error downloading portal profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to download profile' },
+      { status: 500 }
+    )
+  }
+}
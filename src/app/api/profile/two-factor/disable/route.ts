@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import prisma from '@/lib/prisma'
+import { twoFactorCodeSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { verifySecondFactor } from '@/lib/login-security'
+import { getRoleConfig } from '@/lib/roles'
+
+// POST /api/profile/two-factor/disable - Turn 2FA off (needs a current code)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validationResult = twoFactorCodeSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+    })
+
+    if (!user || !user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      )
+    }
+
+    const roleConfig = await getRoleConfig(user.role)
+    if (roleConfig.requireTwoFactor) {
+      return NextResponse.json(
+        { error: 'Your role requires two-factor authentication' },
+        { status: 400 }
+      )
+    }
+
+    if (!(await verifySecondFactor(user, validationResult.data.code))) {
+      return NextResponse.json({ error: 'That code is not valid' }, { status: 400 })
+    }
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpLastUsedStep: null,
+        recoveryCodeHashes: [],
+      },
+    })
+
+    await logActivity({
+      entityType: 'User',
+      entityId: user.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: { twoFactor: { old: true, new: false } },
+    })
+
+    return NextResponse.json({ message: 'Two-factor authentication disabled' })
+  } catch (error) {
+    console.error('Error disabling two-factor authentication:', error)
+    return NextResponse.json(
+      { error: 'Failed to disable two-factor authentication' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import prisma from '@/lib/prisma'
+import { twoFactorCodeSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import {
+  decryptTotpSecret,
+  generateRecoveryCodes,
+  hashRecoveryCode,
+  verifyTotp,
+} from '@/lib/totp'
+
+// POST /api/profile/two-factor/enable - Confirm enrollment with a first code
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validationResult = twoFactorCodeSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, totpSecret: true, totpEnabledAt: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      )
+    }
+
+    if (!user.totpSecret) {
+      return NextResponse.json({ error: 'Start the setup first' }, { status: 400 })
+    }
+
+    const step = verifyTotp(decryptTotpSecret(user.totpSecret), validationResult.data.code)
+    if (step === null) {
+      return NextResponse.json(
+        { error: 'That code is not valid. Check the time on your device and try again.' },
+        { status: 400 }
+      )
+    }
+
+    const recoveryCodes = generateRecoveryCodes()
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        totpEnabledAt: new Date(),
+        totpLastUsedStep: step,
+        recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode),
+      },
+    })
+
+    await logActivity({
+      entityType: 'User',
+      entityId: user.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: { twoFactor: { old: false, new: true } },
+    })
+
+    // Shown once; only hashes are stored
+    return NextResponse.json({ data: { recoveryCodes } })
+  } catch (error) {
+    console.error('Error enabling two-factor authentication:', error)
+    return NextResponse.json(
+      { error: 'Failed to enable two-factor authentication' },
+      { status: 500 }
+    )
+  }
+}
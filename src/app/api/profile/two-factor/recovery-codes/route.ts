@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import prisma from '@/lib/prisma'
+import { twoFactorCodeSchema } from '@/lib/validations'
+import { verifySecondFactor } from '@/lib/login-security'
+import { generateRecoveryCodes, hashRecoveryCode } from '@/lib/totp'
+
+// POST /api/profile/two-factor/recovery-codes - Replace all recovery codes
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validationResult = twoFactorCodeSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+    })
+
+    if (!user || !user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is not enabled' },
+        { status: 400 }
+      )
+    }
+
+    if (!(await verifySecondFactor(user, validationResult.data.code))) {
+      return NextResponse.json({ error: 'That code is not valid' }, { status: 400 })
+    }
+
+    const recoveryCodes = generateRecoveryCodes()
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { recoveryCodeHashes: recoveryCodes.map(hashRecoveryCode) },
+    })
+
+    return NextResponse.json({ data: { recoveryCodes } })
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error)
+    return NextResponse.json(
+      { error: 'Failed to regenerate recovery codes' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import prisma from '@/lib/prisma'
+import { getRoleConfig } from '@/lib/roles'
+
+// GET /api/profile/two-factor - Current user's 2FA status
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { role: true, totpSecret: true, totpEnabledAt: true, recoveryCodeHashes: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const roleConfig = await getRoleConfig(user.role)
+
+    return NextResponse.json({
+      data: {
+        enabled: !!user.totpEnabledAt,
+        enabledAt: user.totpEnabledAt,
+        recoveryCodesRemaining: user.totpEnabledAt ? user.recoveryCodeHashes.length : 0,
+        requiredByRole: roleConfig.requireTwoFactor,
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching two-factor status:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch two-factor status' },
+      { status: 500 }
+    )
+  }
+}
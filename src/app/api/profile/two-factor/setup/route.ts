@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import prisma from '@/lib/prisma'
+import { encryptTotpSecret, generateTotpSecret, totpUri } from '@/lib/totp'
+
+// POST /api/profile/two-factor/setup - Start enrollment with a new secret
+export async function POST() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { id: true, email: true, totpEnabledAt: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (user.totpEnabledAt) {
+      return NextResponse.json(
+        { error: 'Two-factor authentication is already enabled' },
+        { status: 400 }
+      )
+    }
+
+    // Replaces any unfinished enrollment; 2FA stays off until confirmed
+    const secret = generateTotpSecret()
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { totpSecret: encryptTotpSecret(secret), totpLastUsedStep: null },
+    })
+
+    return NextResponse.json({
+      data: {
+        secret,
+        uri: totpUri(secret, user.email),
+      },
+    })
+  } catch (error) {
+    console.error('Error starting two-factor setup:', error)
+    return NextResponse.json(
+      { error: 'Failed to start two-factor setup' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,42 +1,68 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { logActivity } from '@/lib/activity'
 import { hasPermission } from '@/lib/permissions'
+import {
+  canAccessProject,
+  canViewFullCandidate,
+  projectTalentWriteError,
+  redactCandidate,
+} from '@/lib/access'
+import { checkStageTransition } from '@/lib/talent-stages'
+import { publishEvent } from '@/lib/realtime'
+import { notifyTalentStageChanged } from '@/lib/notifications'
+import { toLegacyProjectCandidate, LEGACY_ENDPOINT_HEADERS } from '@/lib/legacy-pipeline'
+
+// Deprecated: compatibility shim over ProjectTalent (talentType CANDIDATE).
+// Migrated rows keep their legacy id. Use /api/project-talents/[id] instead.
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'project_candidates:read')) {
+    if (!hasPermission(session.user, 'project_candidates:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    const projectCandidate = await prisma.projectCandidate.findUnique({
-      where: { id: params.id },
+    const projectTalent = await prisma.projectTalent.findFirst({
+      where: { id: params.id, talentType: 'CANDIDATE' },
       include: {
         project: {
           select: { id: true, title: true, status: true, customer: { select: { name: true } } },
         },
         candidate: true,
-        recruiterOwner: {
+        owner: {
           select: { id: true, fullName: true },
         },
       },
     })
 
-    if (!projectCandidate) {
+    if (!projectTalent) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 })
     }
 
-    return NextResponse.json({ data: projectCandidate })
+    if (!(await canAccessProject(session.user, projectTalent.project.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Contact details, internal notes and resumes need full candidate access
+    const { candidate } = projectTalent
+    const redacted =
+      candidate && !(await canViewFullCandidate(session.user, candidate.id))
+        ? { ...projectTalent, candidate: redactCandidate(candidate) }
+        : projectTalent
+
+    return NextResponse.json(
+      { data: toLegacyProjectCandidate(redacted) },
+      { headers: LEGACY_ENDPOINT_HEADERS }
+    )
   } catch (error) {
     console.error('Error fetching project candidate:', error)
     return NextResponse.json(
@@ -51,52 +77,41 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'project_candidates:write')) {
+    if (
+      !hasPermission(session.user, 'project_candidates:write') &&
+      !hasPermission(session.user, 'project_candidates:feedback')
+    ) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    const existing = await prisma.projectCandidate.findUnique({
-      where: { id: params.id },
-      include: {
-        project: {
-          include: { assignedUsers: true },
-        },
-      },
+    const existing = await prisma.projectTalent.findFirst({
+      where: { id: params.id, talentType: 'CANDIDATE' },
     })
 
     if (!existing) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 })
     }
 
-    // Client managers can only update feedback on their assigned projects
-    if (session.user.role === 'CLIENT_MANAGER') {
-      const isAssigned = existing.project.assignedUsers.some(
-        (a) => a.userId === session.user.id
-      )
-      if (!isAssigned) {
-        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-      }
+    if (!(await canAccessProject(session.user, existing.projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
     const body = await request.json()
     const { stage, notes, clientFeedback, submittedAt } = body
 
-    const updateData: Record<string, unknown> = {}
-
-    if (stage !== undefined) {
-      updateData.stage = stage
-      updateData.lastStageChangeAt = new Date()
-
-      if (stage === 'SUBMITTED_TO_CLIENT' && !existing.submittedAt) {
-        updateData.submittedAt = new Date()
-      }
+    // Feedback-only access can't change notes
+    const writeError = projectTalentWriteError(session.user, { notes }, existing)
+    if (writeError) {
+      return NextResponse.json({ error: writeError }, { status: 403 })
     }
 
+    const updateData: Record<string, unknown> = {}
+
     if (notes !== undefined) {
       updateData.notes = notes
     }
@@ -109,7 +124,35 @@ export async function PUT(
       updateData.submittedAt = submittedAt ? new Date(submittedAt) : null
     }
 
-    const projectCandidate = await prisma.projectCandidate.update({
+    if (stage !== undefined && stage !== existing.stage) {
+      // Legacy callers never sent a submission date; keep stamping it for them
+      if (stage === 'SUBMITTED_TO_CLIENT' && updateData.submittedAt === undefined && !existing.submittedAt) {
+        updateData.submittedAt = new Date()
+      }
+
+      const transitionError = checkStageTransition(
+        'CANDIDATE',
+        existing.stage,
+        stage,
+        session.user,
+        {
+          submittedAt: (updateData.submittedAt as Date | null | undefined) ?? existing.submittedAt,
+          startDate: existing.startDate,
+          clientFeedback: (updateData.clientFeedback as string | null | undefined) ?? existing.clientFeedback,
+        }
+      )
+      if (transitionError) {
+        return NextResponse.json(
+          { error: transitionError.error, missingFields: transitionError.missingFields },
+          { status: transitionError.status, headers: LEGACY_ENDPOINT_HEADERS }
+        )
+      }
+
+      updateData.stage = stage
+      updateData.lastStageChangeAt = new Date()
+    }
+
+    const projectTalent = await prisma.projectTalent.update({
       where: { id: params.id },
       data: updateData,
       include: {
@@ -119,31 +162,49 @@ export async function PUT(
         candidate: {
           select: { id: true, fullName: true },
         },
-        recruiterOwner: {
+        owner: {
           select: { id: true, fullName: true },
         },
       },
     })
 
     // Log stage change
-    if (stage && stage !== existing.stage) {
+    if (updateData.stage) {
       await logActivity({
-        entityType: 'ProjectCandidate',
-        entityId: projectCandidate.id,
+        entityType: 'ProjectTalent',
+        entityId: projectTalent.id,
         action: 'STAGE_CHANGED',
         performedByUserId: session.user.id,
-        diff: { stage: { old: existing.stage, new: stage } },
+        diff: { from: existing.stage, to: stage },
+      })
+
+      await publishEvent({
+        type: 'talent_stage',
+        projectId: existing.projectId,
+        projectTalentId: projectTalent.id,
+        from: existing.stage,
+        to: projectTalent.stage,
+      })
+
+      await notifyTalentStageChanged({
+        projectTalentId: projectTalent.id,
+        from: existing.stage,
+        to: projectTalent.stage,
+        actingUserId: session.user.id,
       })
     } else {
       await logActivity({
-        entityType: 'ProjectCandidate',
-        entityId: projectCandidate.id,
+        entityType: 'ProjectTalent',
+        entityId: projectTalent.id,
         action: 'UPDATED',
         performedByUserId: session.user.id,
       })
     }
 
-    return NextResponse.json({ data: projectCandidate })
+    return NextResponse.json(
+      { data: toLegacyProjectCandidate(projectTalent) },
+      { headers: LEGACY_ENDPOINT_HEADERS }
+    )
   } catch (error) {
     console.error('Error updating project candidate:', error)
     return NextResponse.json(
@@ -158,35 +219,42 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'project_candidates:delete')) {
+    if (!hasPermission(session.user, 'project_candidates:delete')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
-    const existing = await prisma.projectCandidate.findUnique({
-      where: { id: params.id },
+    const existing = await prisma.projectTalent.findFirst({
+      where: { id: params.id, talentType: 'CANDIDATE' },
     })
 
     if (!existing) {
       return NextResponse.json({ error: 'Not found' }, { status: 404 })
     }
 
-    await prisma.projectCandidate.delete({
+    if (!(await canAccessProject(session.user, existing.projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    await prisma.projectTalent.delete({
       where: { id: params.id },
     })
 
     await logActivity({
-      entityType: 'ProjectCandidate',
+      entityType: 'ProjectTalent',
       entityId: params.id,
       action: 'DELETED',
       performedByUserId: session.user.id,
     })
 
-    return NextResponse.json({ message: 'Removed from project successfully' })
+    return NextResponse.json(
+      { message: 'Removed from project successfully' },
+      { headers: LEGACY_ENDPOINT_HEADERS }
+    )
   } catch (error) {
     console.error('Error deleting project candidate:', error)
     return NextResponse.json(
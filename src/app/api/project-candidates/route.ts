@@ -1,20 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { projectCandidateSchema } from '@/lib/validations'
 import { logActivity } from '@/lib/activity'
 import { hasPermission } from '@/lib/permissions'
+import { canAccessProject, projectScope } from '@/lib/access'
 import { calculateMatchScore } from '@/lib/matching'
+import { getScoringWeights } from '@/lib/scoring-profiles'
+import { getSkillIndex } from '@/lib/skill-taxonomy'
+import { talentWorkflows } from '@/lib/talent-stages'
+import { toLegacyProjectCandidate, LEGACY_ENDPOINT_HEADERS } from '@/lib/legacy-pipeline'
+
+// Deprecated: compatibility shim over ProjectTalent (talentType CANDIDATE).
+// Use /api/project-talents instead.
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'project_candidates:read')) {
+    if (!hasPermission(session.user, 'project_candidates:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -25,7 +32,10 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1')
     const pageSize = parseInt(searchParams.get('pageSize') || '50')
 
-    const where: Record<string, unknown> = {}
+    const where: Record<string, unknown> = {
+      talentType: 'CANDIDATE',
+      project: projectScope(session.user),
+    }
 
     if (projectId) {
       where.projectId = projectId
@@ -39,8 +49,8 @@ export async function GET(request: NextRequest) {
       where.stage = stage
     }
 
-    const [projectCandidates, total] = await Promise.all([
-      prisma.projectCandidate.findMany({
+    const [projectTalents, total] = await Promise.all([
+      prisma.projectTalent.findMany({
         where,
         include: {
           project: {
@@ -58,7 +68,7 @@ export async function GET(request: NextRequest) {
               location: true,
             },
           },
-          recruiterOwner: {
+          owner: {
             select: { id: true, fullName: true },
           },
         },
@@ -66,16 +76,19 @@ export async function GET(request: NextRequest) {
         skip: (page - 1) * pageSize,
         take: pageSize,
       }),
-      prisma.projectCandidate.count({ where }),
+      prisma.projectTalent.count({ where }),
     ])
 
-    return NextResponse.json({
-      data: projectCandidates,
-      total,
-      page,
-      pageSize,
-      totalPages: Math.ceil(total / pageSize),
-    })
+    return NextResponse.json(
+      {
+        data: projectTalents.map(toLegacyProjectCandidate),
+        total,
+        page,
+        pageSize,
+        totalPages: Math.ceil(total / pageSize),
+      },
+      { headers: LEGACY_ENDPOINT_HEADERS }
+    )
   } catch (error) {
     console.error('Error fetching project candidates:', error)
     return NextResponse.json(
@@ -87,12 +100,12 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'project_candidates:write')) {
+    if (!hasPermission(session.user, 'project_candidates:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -108,8 +121,16 @@ export async function POST(request: NextRequest) {
 
     const data = validationResult.data
 
+    const initialStage = talentWorkflows.CANDIDATE.initialStage
+    if (data.stage && data.stage !== initialStage) {
+      return NextResponse.json(
+        { error: `New talent must start in ${initialStage}` },
+        { status: 400 }
+      )
+    }
+
     // Check if already exists
-    const existing = await prisma.projectCandidate.findUnique({
+    const existing = await prisma.projectTalent.findUnique({
       where: {
         projectId_candidateId: {
           projectId: data.projectId,
@@ -138,17 +159,27 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const matchResult = calculateMatchScore(candidate, project)
+    if (!(await canAccessProject(session.user, project.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const [weights, skillIndex] = await Promise.all([
+      getScoringWeights(project.scoringProfileId),
+      getSkillIndex(),
+    ])
+    const matchResult = calculateMatchScore(candidate, project, weights, skillIndex)
 
-    const projectCandidate = await prisma.projectCandidate.create({
+    const projectTalent = await prisma.projectTalent.create({
       data: {
         projectId: data.projectId,
+        talentType: 'CANDIDATE',
         candidateId: data.candidateId,
-        stage: data.stage || 'SHORTLISTED',
+        stage: initialStage,
         matchScore: matchResult.score,
         matchReasons: matchResult.reasons,
-        recruiterOwnerUserId: data.recruiterOwnerUserId || session.user.id,
+        ownerUserId: data.recruiterOwnerUserId || session.user.id,
         notes: data.notes || null,
+        clientFeedback: data.clientFeedback || null,
         lastStageChangeAt: new Date(),
       },
       include: {
@@ -158,20 +189,28 @@ export async function POST(request: NextRequest) {
         candidate: {
           select: { id: true, fullName: true },
         },
-        recruiterOwner: {
+        owner: {
           select: { id: true, fullName: true },
         },
       },
     })
 
     await logActivity({
-      entityType: 'ProjectCandidate',
-      entityId: projectCandidate.id,
+      entityType: 'ProjectTalent',
+      entityId: projectTalent.id,
       action: 'CREATED',
       performedByUserId: session.user.id,
+      diff: {
+        projectId: data.projectId,
+        talentType: 'CANDIDATE',
+        talentId: data.candidateId,
+      },
     })
 
-    return NextResponse.json({ data: projectCandidate }, { status: 201 })
+    return NextResponse.json(
+      { data: toLegacyProjectCandidate(projectTalent) },
+      { status: 201, headers: LEGACY_ENDPOINT_HEADERS }
+    )
   } catch (error) {
     console.error('Error creating project candidate:', error)
     return NextResponse.json(
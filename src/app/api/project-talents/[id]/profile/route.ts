@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { clientProfileSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { canAccessProject } from '@/lib/access'
+import { generateClientProfile } from '@/lib/client-profile'
+import { readUpload } from '@/lib/uploads'
+
+// GET /api/project-talents/[id]/profile - Download the stored client profile PDF
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'projects:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const talent = await prisma.projectTalent.findUnique({
+      where: { id: params.id },
+      select: {
+        profileFileUrl: true,
+        projectId: true,
+      },
+    })
+
+    if (!talent) {
+      return NextResponse.json({ error: 'Project talent not found' }, { status: 404 })
+    }
+
+    if (!(await canAccessProject(session.user, talent.projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (!talent.profileFileUrl) {
+      return NextResponse.json({ error: 'No client profile has been generated yet' }, { status: 404 })
+    }
+
+    const file = await readUpload(talent.profileFileUrl)
+    const filename = talent.profileFileUrl.split('/').pop()
+
+    return new Response(new Uint8Array(file), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Error downloading client profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to download client profile' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/project-talents/[id]/profile - Generate (or regenerate) the client profile PDF
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'projects:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const talent = await prisma.projectTalent.findUnique({
+      where: { id: params.id },
+      select: { projectId: true },
+    })
+
+    if (!talent) {
+      return NextResponse.json({ error: 'Project talent not found' }, { status: 404 })
+    }
+
+    if (!(await canAccessProject(session.user, talent.projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validationResult = clientProfileSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const projectTalent = await generateClientProfile(
+      params.id,
+      validationResult.data.interviewNoteIndexes
+    )
+
+    if (!projectTalent) {
+      return NextResponse.json({ error: 'Project talent not found' }, { status: 404 })
+    }
+
+    await logActivity({
+      entityType: 'ProjectTalent',
+      entityId: params.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: {
+        clientProfileGenerated: projectTalent.profileFileUrl,
+        interviewNotesIncluded: validationResult.data.interviewNoteIndexes.length,
+      },
+    })
+
+    return NextResponse.json({ data: projectTalent })
+  } catch (error) {
+    console.error('Error generating client profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate client profile' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,22 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
-import { updateProjectTalentStageSchema } from '@/lib/validations'
+import { updateProjectTalentSchema } from '@/lib/validations'
 import { logActivity } from '@/lib/activity'
 import { hasPermission } from '@/lib/permissions'
+import { generateClientProfile } from '@/lib/client-profile'
+import { checkStageTransition } from '@/lib/talent-stages'
+import { publishEvent } from '@/lib/realtime'
+import { notifyEngineerAssignment, notifyTalentStageChanged } from '@/lib/notifications'
+import {
+  canAccessProject,
+  getFullCandidateIds,
+  projectTalentWriteError,
+  redactCandidate,
+} from '@/lib/access'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'projects:read')) {
+    if (!hasPermission(session.user, 'projects:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -27,6 +36,9 @@ export async function GET(
         candidate: true,
         engineer: {
           include: {
+            linkedCandidate: {
+              select: { id: true, interviewNotes: true },
+            },
             assignments: {
               where: { status: 'ACTIVE' },
               include: {
@@ -46,7 +58,31 @@ export async function GET(
       return NextResponse.json({ error: 'Project talent not found' }, { status: 404 })
     }
 
-    return NextResponse.json({ data: projectTalent })
+    if (!(await canAccessProject(session.user, projectTalent.projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Contact details, internal notes and resumes need full candidate access
+    const linkedCandidate = projectTalent.engineer?.linkedCandidate
+    const fullIds = await getFullCandidateIds(
+      session.user,
+      [projectTalent.candidate?.id, linkedCandidate?.id].filter((id): id is string => !!id)
+    )
+    const { candidate, engineer } = projectTalent
+
+    return NextResponse.json({
+      data: {
+        ...projectTalent,
+        candidate: candidate && !fullIds.has(candidate.id) ? redactCandidate(candidate) : candidate,
+        engineer: engineer && {
+          ...engineer,
+          linkedCandidate:
+            linkedCandidate && !fullIds.has(linkedCandidate.id)
+              ? redactCandidate(linkedCandidate)
+              : linkedCandidate,
+        },
+      },
+    })
   } catch (error) {
     console.error('Error fetching project talent:', error)
     return NextResponse.json(
@@ -61,12 +97,18 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'projects:write')) {
+    // Recruiters work the pipeline without being able to edit projects themselves;
+    // which stage moves each role may make is decided by the workflow below
+    if (
+      !hasPermission(session.user, 'projects:write') &&
+      !hasPermission(session.user, 'project_candidates:write') &&
+      !hasPermission(session.user, 'project_candidates:feedback')
+    ) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -78,15 +120,45 @@ export async function PUT(
       return NextResponse.json({ error: 'Project talent not found' }, { status: 404 })
     }
 
+    if (!(await canAccessProject(session.user, existing.projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     const body = await request.json()
+    const validationResult = updateProjectTalentSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
 
-    // Validate stage if provided
-    if (body.stage) {
-      const stageValidation = updateProjectTalentStageSchema.safeParse({ stage: body.stage })
-      if (!stageValidation.success) {
+    const data = validationResult.data
+
+    // Feedback-only access is limited to client feedback and stage moves
+    const writeError = projectTalentWriteError(session.user, data, existing)
+    if (writeError) {
+      return NextResponse.json({ error: writeError }, { status: 403 })
+    }
+
+    const stageChanged = !!data.stage && data.stage !== existing.stage
+    const submittedAt = data.submittedAt ? new Date(data.submittedAt) : existing.submittedAt
+    const startDate = data.startDate ? new Date(data.startDate) : existing.startDate
+    const clientFeedback = data.clientFeedback ?? existing.clientFeedback
+
+    if (stageChanged && data.stage) {
+      const transitionError = checkStageTransition(
+        existing.talentType,
+        existing.stage,
+        data.stage,
+        session.user,
+        { submittedAt, startDate, clientFeedback }
+      )
+      if (transitionError) {
         return NextResponse.json(
-          { error: 'Invalid stage', details: stageValidation.error.errors },
-          { status: 400 }
+          { error: transitionError.error, missingFields: transitionError.missingFields },
+          { status: transitionError.status }
         )
       }
     }
@@ -94,15 +166,13 @@ export async function PUT(
     const projectTalent = await prisma.projectTalent.update({
       where: { id: params.id },
       data: {
-        stage: body.stage ?? existing.stage,
-        notes: body.notes ?? existing.notes,
-        clientFeedback: body.clientFeedback ?? existing.clientFeedback,
-        ownerUserId: body.ownerUserId ?? existing.ownerUserId,
-        lastStageChangeAt: body.stage && body.stage !== existing.stage ? new Date() : existing.lastStageChangeAt,
-        submittedAt:
-          body.stage === 'SUBMITTED_TO_CLIENT' && !existing.submittedAt
-            ? new Date()
-            : existing.submittedAt,
+        stage: data.stage ?? existing.stage,
+        notes: data.notes ?? existing.notes,
+        clientFeedback,
+        ownerUserId: data.ownerUserId ?? existing.ownerUserId,
+        lastStageChangeAt: stageChanged ? new Date() : existing.lastStageChangeAt,
+        submittedAt,
+        startDate,
       },
       include: {
         candidate: {
@@ -114,10 +184,28 @@ export async function PUT(
       },
     })
 
+    // Submitting to the client generates the client-facing profile unless one already exists
+    if (
+      stageChanged &&
+      data.stage === 'SUBMITTED_TO_CLIENT' &&
+      !existing.profileFileUrl
+    ) {
+      try {
+        const withProfile = await generateClientProfile(params.id, data.interviewNoteIndexes || [])
+        if (withProfile) {
+          projectTalent.profileFileUrl = withProfile.profileFileUrl
+          projectTalent.profileGeneratedAt = withProfile.profileGeneratedAt
+        }
+      } catch (error) {
+        // The stage change stands; the profile can be regenerated from the pipeline
+        console.error('Error generating client profile:', error)
+      }
+    }
+
     // If engineer is being ASSIGNED, create an assignment and update status
     if (
-      body.stage === 'ASSIGNED' &&
-      existing.stage !== 'ASSIGNED' &&
+      stageChanged &&
+      data.stage === 'ASSIGNED' &&
       existing.talentType === 'ENGINEER' &&
       existing.engineerId
     ) {
@@ -134,7 +222,7 @@ export async function PUT(
             projectId: project.id,
             customerId: project.customerId,
             roleTitle: projectTalent.engineer?.title || null,
-            startDate: new Date(),
+            startDate: startDate ?? new Date(),
             status: 'ACTIVE',
           },
         })
@@ -144,16 +232,38 @@ export async function PUT(
           where: { id: existing.engineerId },
           data: { employmentStatus: 'ASSIGNED' },
         })
+
+        await notifyEngineerAssignment({
+          engineerId: existing.engineerId,
+          projectId: project.id,
+          assigned: true,
+          actingUserId: session.user.id,
+        })
       }
     }
 
-    if (body.stage && body.stage !== existing.stage) {
+    if (stageChanged) {
       await logActivity({
         entityType: 'ProjectTalent',
         entityId: params.id,
         action: 'STAGE_CHANGED',
         performedByUserId: session.user.id,
-        diff: { from: existing.stage, to: body.stage },
+        diff: { from: existing.stage, to: data.stage },
+      })
+
+      await publishEvent({
+        type: 'talent_stage',
+        projectId: existing.projectId,
+        projectTalentId: params.id,
+        from: existing.stage,
+        to: projectTalent.stage,
+      })
+
+      await notifyTalentStageChanged({
+        projectTalentId: params.id,
+        from: existing.stage,
+        to: projectTalent.stage,
+        actingUserId: session.user.id,
       })
     } else {
       await logActivity({
@@ -179,12 +289,12 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'projects:write')) {
+    if (!hasPermission(session.user, 'projects:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -196,6 +306,10 @@ export async function DELETE(
       return NextResponse.json({ error: 'Project talent not found' }, { status: 404 })
     }
 
+    if (!(await canAccessProject(session.user, existing.projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     await prisma.projectTalent.delete({
       where: { id: params.id },
     })
@@ -1,20 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { projectTalentSchema } from '@/lib/validations'
 import { logActivity } from '@/lib/activity'
 import { hasPermission } from '@/lib/permissions'
 import { calculateMatchScore, calculateEngineerMatchScore } from '@/lib/matching'
+import { getScoringWeights } from '@/lib/scoring-profiles'
+import { getSkillIndex } from '@/lib/skill-taxonomy'
+import { talentWorkflows } from '@/lib/talent-stages'
+import { canAccessProject, projectScope } from '@/lib/access'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'projects:read')) {
+    if (!hasPermission(session.user, 'projects:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -23,7 +26,7 @@ export async function GET(request: NextRequest) {
     const talentType = searchParams.get('talentType')
     const stage = searchParams.get('stage')
 
-    const where: Record<string, unknown> = {}
+    const where: Record<string, unknown> = { project: projectScope(session.user) }
 
     if (projectId) {
       where.projectId = projectId
@@ -85,12 +88,12 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'projects:write')) {
+    if (!hasPermission(session.user, 'projects:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -106,6 +109,15 @@ export async function POST(request: NextRequest) {
 
     const data = validationResult.data
 
+    // Talent always enters the pipeline at the start of its workflow
+    const initialStage = talentWorkflows[data.talentType].initialStage
+    if (data.stage && data.stage !== initialStage) {
+      return NextResponse.json(
+        { error: `New talent must start in ${initialStage}` },
+        { status: 400 }
+      )
+    }
+
     // Get the project
     const project = await prisma.project.findUnique({
       where: { id: data.projectId },
@@ -115,6 +127,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Project not found' }, { status: 404 })
     }
 
+    if (!(await canAccessProject(session.user, project.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const [weights, skillIndex] = await Promise.all([
+      getScoringWeights(project.scoringProfileId),
+      getSkillIndex(),
+    ])
+
     // Calculate match score
     let matchScore: number | null = null
     let matchReasons: string[] = []
@@ -145,7 +166,7 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      const matchResult = calculateMatchScore(candidate, project)
+      const matchResult = calculateMatchScore(candidate, project, weights, skillIndex)
       matchScore = matchResult.score
       matchReasons = matchResult.reasons
     } else if (data.talentType === 'ENGINEER' && data.engineerId) {
@@ -179,7 +200,7 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      const matchResult = calculateEngineerMatchScore(engineer, project)
+      const matchResult = calculateEngineerMatchScore(engineer, project, weights, skillIndex)
       matchScore = matchResult.score
       matchReasons = matchResult.reasons
     }
@@ -190,7 +211,7 @@ export async function POST(request: NextRequest) {
         talentType: data.talentType,
         candidateId: data.candidateId || null,
         engineerId: data.engineerId || null,
-        stage: data.stage || 'SHORTLISTED',
+        stage: initialStage,
         matchScore,
         matchReasons: matchReasons.length > 0 ? matchReasons : undefined,
         ownerUserId: data.ownerUserId || session.user.id,
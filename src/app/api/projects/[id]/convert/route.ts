@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { logActivity } from '@/lib/activity'
 import { hasPermission } from '@/lib/permissions'
+import { canAccessProject } from '@/lib/access'
+import { notifyCustomerProjectCreated, notifyEngineerAssignment } from '@/lib/notifications'
 
 // POST /api/projects/[id]/convert
 // Converts a Pipeline project to a DevOps project
@@ -12,12 +13,16 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'projects:write')) {
+    if (!hasPermission(session.user, 'projects:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (!(await canAccessProject(session.user, params.id))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -32,20 +37,15 @@ export async function POST(
         assignedUsers: {
           include: { user: true },
         },
-        projectCandidates: {
+        projectTalents: {
           where: { stage: 'HIRED' },
           include: {
+            engineer: true,
             candidate: {
               include: { linkedEngineer: true },
             },
           },
         },
-        projectTalents: {
-          where: { stage: 'HIRED' },
-          include: {
-            engineer: true,
-          },
-        },
       },
     })
 
@@ -63,17 +63,11 @@ export async function POST(
     // Collect hired engineers from the pipeline
     const hiredEngineers: string[] = []
 
-    // From projectCandidates (candidates who were hired and converted to engineers)
-    for (const pc of sourceProject.projectCandidates) {
-      if (pc.candidate.linkedEngineer) {
-        hiredEngineers.push(pc.candidate.linkedEngineer.id)
-      }
-    }
-
-    // From projectTalents (engineers who were hired/assigned)
+    // Hired engineers, and hired candidates who have since been converted to engineers
     for (const pt of sourceProject.projectTalents) {
-      if (pt.engineer && !hiredEngineers.includes(pt.engineer.id)) {
-        hiredEngineers.push(pt.engineer.id)
+      const engineer = pt.engineer ?? pt.candidate?.linkedEngineer
+      if (engineer && !hiredEngineers.includes(engineer.id)) {
+        hiredEngineers.push(engineer.id)
       }
     }
 
@@ -143,6 +137,11 @@ export async function POST(
           convertedTo: devOpsProject.id,
         },
       })
+
+      await notifyCustomerProjectCreated({
+        projectId: devOpsProject.id,
+        actingUserId: session.user.id,
+      })
     } else {
       // Convert the project in place (change category)
       devOpsProject = await prisma.project.update({
@@ -186,6 +185,15 @@ export async function POST(
       })
     }
 
+    for (const engineerId of hiredEngineers) {
+      await notifyEngineerAssignment({
+        engineerId,
+        projectId: devOpsProject.id,
+        assigned: true,
+        actingUserId: session.user.id,
+      })
+    }
+
     return NextResponse.json({
       data: devOpsProject,
       message: createNew
@@ -1,22 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { projectSchema } from '@/lib/validations'
 import { logActivity, createDiff } from '@/lib/activity'
+import { queueRescoreIfNeeded } from '@/lib/scoring-profiles'
 import { hasPermission } from '@/lib/permissions'
+import { getSkillIndex } from '@/lib/skill-taxonomy'
+import { normalizeSkills } from '@/lib/skills'
+import { notifyProjectStatusAlert } from '@/lib/notifications'
+import { canAccessCustomer, canAccessProject, projectWriteError } from '@/lib/access'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'projects:read')) {
+    if (!hasPermission(session.user, 'projects:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    if (!(await canAccessProject(session.user, params.id))) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -24,7 +32,7 @@ export async function GET(
       where: { id: params.id },
       include: {
         customer: {
-          select: { id: true, name: true, industry: true },
+          select: { id: true, name: true, industry: true, contacts: true },
         },
         assignedUsers: {
           include: {
@@ -33,7 +41,7 @@ export async function GET(
             },
           },
         },
-        projectCandidates: {
+        projectTalents: {
           include: {
             candidate: {
               select: {
@@ -43,10 +51,19 @@ export async function GET(
                 technologies: true,
                 yearsExperience: true,
                 seniorityLevel: true,
-                summaryPublic: true,
               },
             },
-            recruiterOwner: {
+            engineer: {
+              select: {
+                id: true,
+                fullName: true,
+                title: true,
+                technologies: true,
+                yearsExperience: true,
+                seniorityLevel: true,
+              },
+            },
+            owner: {
               select: { id: true, fullName: true },
             },
           },
@@ -59,16 +76,6 @@ export async function GET(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 })
     }
 
-    // Client managers can only see projects they're assigned to
-    if (session.user.role === 'CLIENT_MANAGER') {
-      const isAssigned = project.assignedUsers.some(
-        (a) => a.userId === session.user.id
-      )
-      if (!isAssigned) {
-        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-      }
-    }
-
     return NextResponse.json({ data: project })
   } catch (error) {
     console.error('Error fetching project:', error)
@@ -84,12 +91,15 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'projects:write')) {
+    if (
+      !hasPermission(session.user, 'projects:write') &&
+      !hasPermission(session.user, 'projects:update_status')
+    ) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -104,14 +114,8 @@ export async function PUT(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 })
     }
 
-    // Client managers can only update status and notes of their assigned projects
-    if (session.user.role === 'CLIENT_MANAGER') {
-      const isAssigned = existing.assignedUsers.some(
-        (a) => a.userId === session.user.id
-      )
-      if (!isAssigned) {
-        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
-      }
+    if (!(await canAccessProject(session.user, params.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
     const body = await request.json()
@@ -125,6 +129,25 @@ export async function PUT(
     }
 
     const data = validationResult.data
+
+    // Status-only access (client managers by default) can't touch other fields
+    const writeError = projectWriteError(session.user, data, {
+      ...existing,
+      assignedUserIds: existing.assignedUsers.map((a) => a.userId),
+    })
+    if (writeError) {
+      return NextResponse.json({ error: writeError }, { status: 403 })
+    }
+
+    // Moving a project adds it to the other customer's account
+    if (
+      data.customerId !== existing.customerId &&
+      !(await canAccessCustomer(session.user, data.customerId, 'write'))
+    ) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const skillIndex = await getSkillIndex()
     const oldStatus = existing.status
 
     // Handle assigned users update
@@ -149,7 +172,7 @@ export async function PUT(
         customerId: data.customerId,
         title: data.title,
         description: data.description || null,
-        technologies: data.technologies || [],
+        technologies: normalizeSkills(data.technologies || [], skillIndex),
         mustHave: data.mustHave || [],
         niceToHave: data.niceToHave || [],
         seniorityLevel: data.seniorityLevel || null,
@@ -161,6 +184,7 @@ export async function PUT(
         priority: data.priority,
         status: data.status,
         devOpsStatus: data.devOpsStatus ?? null,
+        scoringProfileId: data.scoringProfileId ?? null,
       },
       include: {
         customer: {
@@ -200,6 +224,15 @@ export async function PUT(
       })
     }
 
+    await queueRescoreIfNeeded('project', project.id, diff)
+
+    await notifyProjectStatusAlert({
+      projectId: project.id,
+      from: existing.devOpsStatus,
+      to: project.devOpsStatus,
+      actingUserId: session.user.id,
+    })
+
     return NextResponse.json({ data: project })
   } catch (error) {
     console.error('Error updating project:', error)
@@ -215,12 +248,12 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'projects:delete')) {
+    if (!hasPermission(session.user, 'projects:delete')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { projectUpdateSchema } from '@/lib/validations'
 import { logActivity } from '@/lib/activity'
 import { hasPermission } from '@/lib/permissions'
+import { canAccessProject } from '@/lib/access'
+import { createNotifications } from '@/lib/notifications'
+import { publishEvent } from '@/lib/realtime'
 
 // GET /api/projects/[id]/updates - Get all updates for a project
 export async function GET(
@@ -12,12 +14,12 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'project_updates:read')) {
+    if (!hasPermission(session.user, 'project_updates:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -33,6 +35,10 @@ export async function GET(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 })
     }
 
+    if (!(await canAccessProject(session.user, projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     const { searchParams } = new URL(request.url)
     const page = parseInt(searchParams.get('page') || '1')
     const pageSize = parseInt(searchParams.get('pageSize') || '20')
@@ -77,12 +83,12 @@ export async function POST(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'project_updates:write')) {
+    if (!hasPermission(session.user, 'project_updates:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -98,6 +104,10 @@ export async function POST(
       return NextResponse.json({ error: 'Project not found' }, { status: 404 })
     }
 
+    if (!(await canAccessProject(session.user, projectId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     const body = await request.json()
     const validationResult = projectUpdateSchema.safeParse(body)
 
@@ -135,8 +145,8 @@ export async function POST(
 
     // Create notifications for mentioned users
     if (mentionedUserIds.length > 0) {
-      await prisma.notification.createMany({
-        data: mentionedUserIds
+      await createNotifications(
+        mentionedUserIds
           .filter((id) => id !== session.user.id) // Don't notify the author
           .map((userId) => ({
             userId,
@@ -145,10 +155,13 @@ export async function POST(
             message: `${session.user.fullName} mentioned you in an update on "${project.title}"`,
             linkUrl: `/projects/${projectId}?tab=updates`,
             projectUpdateId: update.id,
-          })),
-      })
+          }))
+      )
     }
 
+    // Push the new entry to anyone viewing the project timeline
+    await publishEvent({ type: 'project_update', projectId, updateId: update.id })
+
     // Log activity
     await logActivity({
       entityType: 'Project',
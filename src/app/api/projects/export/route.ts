@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+import { buildProjectWhere } from '@/lib/list-filters'
+import { createExportResponse, parseExportFormat, ExportColumn } from '@/lib/export'
+
+const include = {
+  customer: { select: { name: true } },
+  assignedUsers: {
+    include: { user: { select: { fullName: true } } },
+  },
+  _count: {
+    select: { projectTalents: true, engineerAssignments: true },
+  },
+}
+
+type ProjectRow = Prisma.ProjectGetPayload<{ include: typeof include }>
+
+const columns: ExportColumn<ProjectRow>[] = [
+  { header: 'Title', value: (p) => p.title },
+  { header: 'Customer', value: (p) => p.customer.name },
+  { header: 'Category', value: (p) => p.projectCategory },
+  { header: 'Status', value: (p) => p.status },
+  { header: 'DevOps Status', value: (p) => p.devOpsStatus },
+  { header: 'Priority', value: (p) => p.priority },
+  { header: 'Headcount', value: (p) => p.headcount },
+  { header: 'Seniority', value: (p) => p.seniorityLevel },
+  { header: 'Min Years Experience', value: (p) => p.yearsExperienceMin },
+  { header: 'Technologies', value: (p) => p.technologies },
+  { header: 'Must Have', value: (p) => p.mustHave },
+  { header: 'Nice to Have', value: (p) => p.niceToHave },
+  { header: 'Location', value: (p) => p.location },
+  { header: 'Remote Policy', value: (p) => p.remotePolicy },
+  { header: 'Assigned Users', value: (p) => p.assignedUsers.map((a) => a.user.fullName) },
+  { header: 'Talent Submissions', value: (p) => p._count.projectTalents },
+  { header: 'Engineer Assignments', value: (p) => p._count.engineerAssignments },
+  { header: 'Created', value: (p) => p.createdAt },
+  { header: 'Updated', value: (p) => p.updatedAt },
+]
+
+// GET /api/projects/export - Download the filtered project list as CSV or XLSX
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'projects:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const format = parseExportFormat(searchParams.get('format'))
+    if (!format) {
+      return NextResponse.json({ error: 'Unsupported export format' }, { status: 400 })
+    }
+
+    const where = buildProjectWhere(searchParams, session.user)
+
+    return createExportResponse<ProjectRow>({
+      format,
+      filename: 'projects',
+      columns,
+      fetchBatch: (skip, take) =>
+        prisma.project.findMany({
+          where,
+          include,
+          orderBy: [{ updatedAt: 'desc' }, { id: 'asc' }],
+          skip,
+          take,
+        }),
+    })
+  } catch (error) {
+    console.error('Error exporting projects:', error)
+    return NextResponse.json(
+      { error: 'Failed to export projects' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,75 +1,31 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import prisma from '@/lib/prisma'
 import { projectSchema } from '@/lib/validations'
 import { logActivity } from '@/lib/activity'
 import { hasPermission } from '@/lib/permissions'
+import { getSkillIndex } from '@/lib/skill-taxonomy'
+import { normalizeSkills } from '@/lib/skills'
+import { buildProjectWhere } from '@/lib/list-filters'
+import { canAccessCustomer } from '@/lib/access'
+import { notifyCustomerProjectCreated } from '@/lib/notifications'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'projects:read')) {
+    if (!hasPermission(session.user, 'projects:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
     const { searchParams } = new URL(request.url)
-    const search = searchParams.get('search') || ''
-    const customerId = searchParams.get('customerId') || ''
-    const category = searchParams.get('category') || ''
-    const status = searchParams.get('status') || ''
-    const devOpsStatus = searchParams.get('devOpsStatus') || ''
-    const priority = searchParams.get('priority') || ''
-    const assignedUserId = searchParams.get('assignedUserId') || ''
     const page = parseInt(searchParams.get('page') || '1')
     const pageSize = parseInt(searchParams.get('pageSize') || '20')
 
-    const where: Record<string, unknown> = {}
-
-    if (search) {
-      where.OR = [
-        { title: { contains: search, mode: 'insensitive' } },
-        { description: { contains: search, mode: 'insensitive' } },
-      ]
-    }
-
-    if (customerId) {
-      where.customerId = customerId
-    }
-
-    // Filter by project category
-    if (category) {
-      where.projectCategory = category
-    }
-
-    if (status) {
-      where.status = status
-    }
-
-    if (devOpsStatus) {
-      where.devOpsStatus = devOpsStatus
-    }
-
-    if (priority) {
-      where.priority = priority
-    }
-
-    if (assignedUserId) {
-      where.assignedUsers = {
-        some: { userId: assignedUserId },
-      }
-    }
-
-    // Client managers can only see projects they're assigned to
-    if (session.user.role === 'CLIENT_MANAGER') {
-      where.assignedUsers = {
-        some: { userId: session.user.id },
-      }
-    }
+    const where = buildProjectWhere(searchParams, session.user)
 
     const [projects, total] = await Promise.all([
       prisma.project.findMany({
@@ -94,7 +50,6 @@ export async function GET(request: NextRequest) {
           },
           _count: {
             select: {
-              projectCandidates: true,
               projectTalents: true,
               updates: true,
               engineerAssignments: true,
@@ -126,12 +81,12 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'projects:write')) {
+    if (!hasPermission(session.user, 'projects:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -147,13 +102,20 @@ export async function POST(request: NextRequest) {
 
     const data = validationResult.data
 
+    // Sales open projects only for customers they can see
+    if (!(await canAccessCustomer(session.user, data.customerId))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const skillIndex = await getSkillIndex()
+
     const project = await prisma.project.create({
       data: {
         customerId: data.customerId,
         title: data.title,
         description: data.description || null,
         projectCategory: data.projectCategory || 'PIPELINE',
-        technologies: data.technologies || [],
+        technologies: normalizeSkills(data.technologies || [], skillIndex),
         mustHave: data.mustHave || [],
         niceToHave: data.niceToHave || [],
         seniorityLevel: data.seniorityLevel || null,
@@ -165,6 +127,7 @@ export async function POST(request: NextRequest) {
         priority: data.priority || 'MEDIUM',
         status: data.status || 'INITIAL',
         devOpsStatus: data.projectCategory === 'DEVOPS' ? (data.devOpsStatus || 'ACTIVE') : null,
+        scoringProfileId: data.scoringProfileId || null,
         assignedUsers: data.assignedUserIds
           ? {
               create: data.assignedUserIds.map((userId: string) => ({
@@ -196,6 +159,8 @@ export async function POST(request: NextRequest) {
       performedByUserId: session.user.id,
     })
 
+    await notifyCustomerProjectCreated({ projectId: project.id, actingUserId: session.user.id })
+
     return NextResponse.json({ data: project }, { status: 201 })
   } catch (error) {
     console.error('Error creating project:', error)
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { roleSchema } from '@/lib/validations'
+import { logActivity, createDiff } from '@/lib/activity'
+import { ADMIN_ROLE, hasPermission } from '@/lib/permissions'
+import { invalidateRoleCache } from '@/lib/roles'
+import { getSsoSettings, parseGroupRoleMappings } from '@/lib/sso'
+
+// PUT /api/roles/[id] - Rename a role or change its permissions and record scope
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'roles:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.role.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validationResult = roleSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+    const isAdminRole = existing.key === ADMIN_ROLE
+
+    // The administrator role keeps every permission so nobody gets locked out
+    const role = await prisma.role.update({
+      where: { id: params.id },
+      data: {
+        name: data.name,
+        description: data.description || null,
+        recordScope: isAdminRole ? existing.recordScope : data.recordScope,
+        requireTwoFactor: data.requireTwoFactor,
+        permissions: isAdminRole ? existing.permissions : Array.from(new Set(data.permissions)),
+      },
+      include: { _count: { select: { users: true } } },
+    })
+
+    invalidateRoleCache()
+
+    const diff = createDiff(
+      existing as unknown as Record<string, unknown>,
+      role as unknown as Record<string, unknown>
+    )
+
+    await logActivity({
+      entityType: 'Role',
+      entityId: role.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: diff || undefined,
+    })
+
+    return NextResponse.json({ data: role })
+  } catch (error) {
+    console.error('Error updating role:', error)
+    return NextResponse.json(
+      { error: 'Failed to update role' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/roles/[id] - Remove a custom role that no user holds
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'roles:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.role.findUnique({
+      where: { id: params.id },
+      include: { _count: { select: { users: true } } },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Role not found' }, { status: 404 })
+    }
+
+    if (existing.isSystem) {
+      return NextResponse.json({ error: 'Built-in roles cannot be deleted' }, { status: 400 })
+    }
+
+    if (existing._count.users > 0) {
+      return NextResponse.json(
+        { error: `${existing._count.users} user(s) still have this role. Move them to another role first.` },
+        { status: 409 }
+      )
+    }
+
+    const ssoSettings = await getSsoSettings()
+    const usedBySso =
+      ssoSettings.defaultRole === existing.key ||
+      parseGroupRoleMappings(ssoSettings.groupRoleMappings).some((m) => m.role === existing.key)
+    if (usedBySso) {
+      return NextResponse.json(
+        { error: 'This role is used by the single sign-on settings. Update them first.' },
+        { status: 409 }
+      )
+    }
+
+    await prisma.role.delete({
+      where: { id: params.id },
+    })
+
+    invalidateRoleCache()
+
+    await logActivity({
+      entityType: 'Role',
+      entityId: params.id,
+      action: 'DELETED',
+      performedByUserId: session.user.id,
+    })
+
+    return NextResponse.json({ message: 'Role deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting role:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete role' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { roleSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { invalidateRoleCache, roleKeyFromName } from '@/lib/roles'
+
+// GET /api/roles - List roles with their permissions (Settings and the user form)
+export async function GET() {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'users:read') && !hasPermission(session.user, 'roles:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const roles = await prisma.role.findMany({
+      include: { _count: { select: { users: true } } },
+      orderBy: [{ isSystem: 'desc' }, { name: 'asc' }],
+    })
+
+    return NextResponse.json({ data: roles })
+  } catch (error) {
+    console.error('Error fetching roles:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch roles' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/roles - Add a custom role
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'roles:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validationResult = roleSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+    const key = roleKeyFromName(data.name)
+
+    if (!key) {
+      return NextResponse.json({ error: 'Name must contain letters or digits' }, { status: 400 })
+    }
+
+    const existing = await prisma.role.findUnique({ where: { key } })
+    if (existing) {
+      return NextResponse.json(
+        { error: `A role with the key ${key} already exists` },
+        { status: 409 }
+      )
+    }
+
+    const role = await prisma.role.create({
+      data: {
+        key,
+        name: data.name,
+        description: data.description || null,
+        recordScope: data.recordScope,
+        requireTwoFactor: data.requireTwoFactor,
+        permissions: Array.from(new Set(data.permissions)),
+      },
+      include: { _count: { select: { users: true } } },
+    })
+
+    invalidateRoleCache()
+
+    await logActivity({
+      entityType: 'Role',
+      entityId: role.id,
+      action: 'CREATED',
+      performedByUserId: session.user.id,
+    })
+
+    return NextResponse.json({ data: role }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating role:', error)
+    return NextResponse.json(
+      { error: 'Failed to create role' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { scoringProfileSchema } from '@/lib/validations'
+import { logActivity, createDiff } from '@/lib/activity'
+import { enqueueJob } from '@/lib/jobs'
+import { hasPermission } from '@/lib/permissions'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'projects:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const profile = await prisma.scoringProfile.findUnique({
+      where: { id: params.id },
+      include: {
+        _count: {
+          select: { projects: true },
+        },
+      },
+    })
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Scoring profile not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ data: profile })
+  } catch (error) {
+    console.error('Error fetching scoring profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch scoring profile' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.scoringProfile.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Scoring profile not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validationResult = scoringProfileSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+
+    if (data.name !== existing.name) {
+      const nameTaken = await prisma.scoringProfile.findUnique({
+        where: { name: data.name },
+      })
+      if (nameTaken) {
+        return NextResponse.json(
+          { error: 'A scoring profile with this name already exists' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // Only one profile can be the default
+    if (data.isDefault && !existing.isDefault) {
+      await prisma.scoringProfile.updateMany({
+        where: { isDefault: true },
+        data: { isDefault: false },
+      })
+    }
+
+    const profile = await prisma.scoringProfile.update({
+      where: { id: params.id },
+      data: {
+        name: data.name,
+        description: data.description || null,
+        isDefault: data.isDefault ?? existing.isDefault,
+        candidateWeights: data.candidateWeights,
+        engineerWeights: data.engineerWeights,
+        availabilityBoost: data.availabilityBoost,
+      },
+    })
+
+    const diff = createDiff(
+      existing as unknown as Record<string, unknown>,
+      profile as unknown as Record<string, unknown>
+    )
+
+    await logActivity({
+      entityType: 'ScoringProfile',
+      entityId: profile.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: diff || undefined,
+    })
+
+    if (diff) {
+      await enqueueJob('matching.rescore', { scoringProfileId: profile.id })
+    }
+
+    return NextResponse.json({ data: profile })
+  } catch (error) {
+    console.error('Error updating scoring profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to update scoring profile' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.scoringProfile.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Scoring profile not found' }, { status: 404 })
+    }
+
+    // Projects using this profile fall back to the default (onDelete: SetNull)
+    await prisma.scoringProfile.delete({
+      where: { id: params.id },
+    })
+
+    await logActivity({
+      entityType: 'ScoringProfile',
+      entityId: params.id,
+      action: 'DELETED',
+      performedByUserId: session.user.id,
+    })
+
+    return NextResponse.json({ message: 'Scoring profile deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting scoring profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete scoring profile' },
+      { status: 500 }
+    )
+  }
+}
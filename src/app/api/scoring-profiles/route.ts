@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { scoringProfileSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+
+// GET /api/scoring-profiles - List scoring profiles (used by Settings and the project form)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'projects:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const profiles = await prisma.scoringProfile.findMany({
+      include: {
+        _count: {
+          select: { projects: true },
+        },
+      },
+      orderBy: [{ isDefault: 'desc' }, { name: 'asc' }],
+    })
+
+    return NextResponse.json({ data: profiles })
+  } catch (error) {
+    console.error('Error fetching scoring profiles:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch scoring profiles' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/scoring-profiles - Create a scoring profile
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validationResult = scoringProfileSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+
+    const existing = await prisma.scoringProfile.findUnique({
+      where: { name: data.name },
+    })
+
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A scoring profile with this name already exists' },
+        { status: 400 }
+      )
+    }
+
+    // Only one profile can be the default
+    if (data.isDefault) {
+      await prisma.scoringProfile.updateMany({
+        where: { isDefault: true },
+        data: { isDefault: false },
+      })
+    }
+
+    const profile = await prisma.scoringProfile.create({
+      data: {
+        name: data.name,
+        description: data.description || null,
+        isDefault: data.isDefault ?? false,
+        candidateWeights: data.candidateWeights,
+        engineerWeights: data.engineerWeights,
+        availabilityBoost: data.availabilityBoost,
+      },
+    })
+
+    await logActivity({
+      entityType: 'ScoringProfile',
+      entityId: profile.id,
+      action: 'CREATED',
+      performedByUserId: session.user.id,
+    })
+
+    return NextResponse.json({ data: profile }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating scoring profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to create scoring profile' },
+      { status: 500 }
+    )
+  }
+}
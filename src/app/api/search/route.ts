@@ -1,6 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
 import { searchQuerySchema } from '@/lib/validations'
 import { hasPermission } from '@/lib/permissions'
 import {
@@ -16,7 +15,7 @@ export async function GET(request: NextRequest) {
   const startTime = Date.now()
 
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
@@ -36,38 +35,38 @@ export async function GET(request: NextRequest) {
     }
 
     const { q: query, limit } = validationResult.data
-    const role = session.user.role
+    const user = session.user
 
     // Build search promises based on user permissions
     const searchPromises: Promise<unknown>[] = []
     const searchKeys: (keyof SearchResults)[] = []
 
     // Customers
-    if (hasPermission(role, 'customers:read')) {
-      searchPromises.push(searchCustomers(query, limit))
+    if (hasPermission(user, 'customers:read')) {
+      searchPromises.push(searchCustomers(query, limit, session.user))
       searchKeys.push('customers')
     }
 
     // Projects
-    if (hasPermission(role, 'projects:read')) {
-      searchPromises.push(searchProjects(query, limit))
+    if (hasPermission(user, 'projects:read')) {
+      searchPromises.push(searchProjects(query, limit, session.user))
       searchKeys.push('projects')
     }
 
     // Candidates
-    if (hasPermission(role, 'candidates:read')) {
-      searchPromises.push(searchCandidates(query, limit))
+    if (hasPermission(user, 'candidates:read')) {
+      searchPromises.push(searchCandidates(query, limit, session.user))
       searchKeys.push('candidates')
     }
 
     // Engineers
-    if (hasPermission(role, 'engineers:read')) {
+    if (hasPermission(user, 'engineers:read')) {
       searchPromises.push(searchEngineers(query, limit))
       searchKeys.push('engineers')
     }
 
     // Users (only admins can search users)
-    if (hasPermission(role, 'users:read')) {
+    if (hasPermission(user, 'users:read')) {
       searchPromises.push(searchUsers(query, limit))
       searchKeys.push('users')
     }
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import prisma from '@/lib/prisma'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { revokeUserSession } from '@/lib/user-sessions'
+
+// DELETE /api/sessions/[id] - Revoke a session: your own, or anyone's with users:write
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const target = await prisma.userSession.findUnique({
+      where: { id: params.id },
+      select: { id: true, userId: true },
+    })
+
+    if (!target || (target.userId !== session.user.id && !hasPermission(session.user, 'users:write'))) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (!(await revokeUserSession(target.userId, target.id))) {
+      return NextResponse.json({ error: 'Session already ended' }, { status: 400 })
+    }
+
+    await logActivity({
+      entityType: 'User',
+      entityId: target.userId,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: { sessionsRevoked: 1 },
+    })
+
+    return NextResponse.json({ message: 'Session revoked' })
+  } catch (error) {
+    console.error('Error revoking session:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke session' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { logActivity } from '@/lib/activity'
+import { listActiveSessions, revokeAllUserSessions } from '@/lib/user-sessions'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/sessions - The current user's active sessions
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const sessions = await listActiveSessions(session.user.id)
+
+    return NextResponse.json({
+      data: sessions.map((s) => ({ ...s, current: s.id === session.user.sessionId })),
+    })
+  } catch (error) {
+    console.error('Error fetching sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch sessions' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/sessions - Sign out everywhere except this session
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const revoked = await revokeAllUserSessions(session.user.id, session.user.sessionId)
+
+    if (revoked > 0) {
+      await logActivity({
+        entityType: 'User',
+        entityId: session.user.id,
+        action: 'UPDATED',
+        performedByUserId: session.user.id,
+        diff: { sessionsRevoked: revoked },
+      })
+    }
+
+    return NextResponse.json({ data: { revoked } })
+  } catch (error) {
+    console.error('Error revoking sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke sessions' },
+      { status: 500 }
+    )
+  }
+}
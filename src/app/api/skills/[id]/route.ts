@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { skillSchema } from '@/lib/validations'
+import { logActivity, createDiff } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { getSkillIndex } from '@/lib/skill-taxonomy'
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.skill.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validationResult = skillSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+    const aliases = (data.aliases || []).map((a) => a.trim()).filter(Boolean)
+
+    // Names and aliases must not collide with another skill
+    const skillIndex = await getSkillIndex()
+    const conflict = [data.name, ...aliases].find((value) => {
+      const owner = skillIndex.get(value.trim().toLowerCase())
+      return owner && owner.name !== existing.name
+    })
+    if (conflict) {
+      return NextResponse.json(
+        { error: `"${conflict}" is already used by ${skillIndex.get(conflict.trim().toLowerCase())?.name}` },
+        { status: 400 }
+      )
+    }
+
+    const skill = await prisma.skill.update({
+      where: { id: params.id },
+      data: {
+        name: data.name.trim(),
+        aliases,
+        category: data.category?.trim() || null,
+      },
+    })
+
+    const diff = createDiff(
+      existing as unknown as Record<string, unknown>,
+      skill as unknown as Record<string, unknown>
+    )
+
+    await logActivity({
+      entityType: 'Skill',
+      entityId: skill.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: diff || undefined,
+    })
+
+    return NextResponse.json({ data: skill })
+  } catch (error) {
+    console.error('Error updating skill:', error)
+    return NextResponse.json(
+      { error: 'Failed to update skill' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.skill.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Skill not found' }, { status: 404 })
+    }
+
+    await prisma.skill.delete({
+      where: { id: params.id },
+    })
+
+    await logActivity({
+      entityType: 'Skill',
+      entityId: params.id,
+      action: 'DELETED',
+      performedByUserId: session.user.id,
+    })
+
+    return NextResponse.json({ message: 'Skill deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting skill:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete skill' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { skillSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { getSkillIndex } from '@/lib/skill-taxonomy'
+
+// GET /api/skills - List the skill taxonomy (used by Settings and to normalize form input)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'candidates:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const search = searchParams.get('search') || ''
+    const category = searchParams.get('category') || ''
+
+    const where: Record<string, unknown> = {}
+
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { aliases: { has: search } },
+      ]
+    }
+
+    if (category) {
+      where.category = category
+    }
+
+    const skills = await prisma.skill.findMany({
+      where,
+      orderBy: [{ category: 'asc' }, { name: 'asc' }],
+    })
+
+    return NextResponse.json({ data: skills })
+  } catch (error) {
+    console.error('Error fetching skills:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch skills' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/skills - Add a canonical skill to the taxonomy
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validationResult = skillSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+    const aliases = (data.aliases || []).map((a) => a.trim()).filter(Boolean)
+
+    // Names and aliases must not collide with an existing skill
+    const skillIndex = await getSkillIndex()
+    const conflict = [data.name, ...aliases].find((value) =>
+      skillIndex.has(value.trim().toLowerCase())
+    )
+    if (conflict) {
+      return NextResponse.json(
+        { error: `"${conflict}" is already used by ${skillIndex.get(conflict.trim().toLowerCase())?.name}` },
+        { status: 400 }
+      )
+    }
+
+    const skill = await prisma.skill.create({
+      data: {
+        name: data.name.trim(),
+        aliases,
+        category: data.category?.trim() || null,
+      },
+    })
+
+    await logActivity({
+      entityType: 'Skill',
+      entityId: skill.id,
+      action: 'CREATED',
+      performedByUserId: session.user.id,
+    })
+
+    return NextResponse.json({ data: skill }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating skill:', error)
+    return NextResponse.json(
+      { error: 'Failed to create skill' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { configuredSsoProviders, isPasswordLoginEnabled } from '@/lib/sso'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/sso/login-options - Sign-in methods shown on the login page (public)
+export async function GET() {
+  try {
+    return NextResponse.json({
+      data: {
+        passwordLogin: await isPasswordLoginEnabled(),
+        providers: configuredSsoProviders(),
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching login options:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch login options' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { ssoSettingsSchema } from '@/lib/validations'
+import { hasPermission } from '@/lib/permissions'
+import { canAssignRole } from '@/lib/roles'
+import { logActivity, createDiff } from '@/lib/activity'
+import {
+  configuredSsoProviders,
+  getSsoSettings,
+  parseGroupRoleMappings,
+  updateSsoSettings,
+} from '@/lib/sso'
+
+// GET /api/sso/settings - SSO behaviour and the providers configured on the server
+export async function GET() {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:read')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const settings = await getSsoSettings()
+
+    return NextResponse.json({
+      data: {
+        passwordLoginEnabled: settings.passwordLoginEnabled,
+        jitProvisioning: settings.jitProvisioning,
+        syncRoleOnLogin: settings.syncRoleOnLogin,
+        allowedDomains: settings.allowedDomains,
+        defaultRole: settings.defaultRole,
+        groupRoleMappings: parseGroupRoleMappings(settings.groupRoleMappings),
+        providers: configuredSsoProviders(),
+        passwordLoginForced: process.env.FORCE_PASSWORD_LOGIN === 'true',
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching SSO settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch SSO settings' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/sso/settings - Update SSO behaviour
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validationResult = ssoSettingsSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+
+    // Turning off passwords without an IdP would lock everyone out
+    if (!data.passwordLoginEnabled && configuredSsoProviders().length === 0) {
+      return NextResponse.json(
+        { error: 'Configure an identity provider before disabling password login' },
+        { status: 400 }
+      )
+    }
+
+    const roleKeys = Array.from(
+      new Set([
+        ...data.groupRoleMappings.map((m) => m.role),
+        ...(data.defaultRole ? [data.defaultRole] : []),
+      ])
+    )
+    const knownRoles = await prisma.role.count({ where: { key: { in: roleKeys } } })
+    if (knownRoles !== roleKeys.length) {
+      return NextResponse.json({ error: 'Unknown role' }, { status: 400 })
+    }
+
+    // SSO sign-in hands these roles out, so they follow the same rule as
+    // assigning a role to a user directly
+    for (const key of roleKeys) {
+      if (!(await canAssignRole(session.user, key))) {
+        return NextResponse.json(
+          { error: 'You cannot map a role with more access than your own' },
+          { status: 403 }
+        )
+      }
+    }
+
+    const existing = await getSsoSettings()
+    const settings = await updateSsoSettings({
+      passwordLoginEnabled: data.passwordLoginEnabled,
+      jitProvisioning: data.jitProvisioning,
+      syncRoleOnLogin: data.syncRoleOnLogin,
+      allowedDomains: Array.from(new Set(data.allowedDomains)),
+      defaultRole: data.defaultRole || null,
+      groupRoleMappings: data.groupRoleMappings,
+    })
+
+    const diff = createDiff(
+      existing as unknown as Record<string, unknown>,
+      settings as unknown as Record<string, unknown>
+    )
+
+    await logActivity({
+      entityType: 'SsoSettings',
+      entityId: settings.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: diff || undefined,
+    })
+
+    return NextResponse.json({
+      data: {
+        ...settings,
+        groupRoleMappings: parseGroupRoleMappings(settings.groupRoleMappings),
+      },
+    })
+  } catch (error) {
+    console.error('Error updating SSO settings:', error)
+    return NextResponse.json(
+      { error: 'Failed to update SSO settings' },
+      { status: 500 }
+    )
+  }
+}
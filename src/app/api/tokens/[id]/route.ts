@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import prisma from '@/lib/prisma'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+
+// DELETE /api/tokens/[id] - Revoke an API token: your own, or anyone's with users:write
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const apiToken = await prisma.apiToken.findUnique({ where: { id: params.id } })
+
+    if (
+      !apiToken ||
+      apiToken.revokedAt ||
+      (apiToken.userId !== session.user.id && !hasPermission(session.user, 'users:write'))
+    ) {
+      return NextResponse.json({ error: 'Token not found' }, { status: 404 })
+    }
+
+    await prisma.apiToken.update({
+      where: { id: apiToken.id },
+      data: { revokedAt: new Date() },
+    })
+
+    await logActivity({
+      entityType: 'User',
+      entityId: apiToken.userId,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: { apiTokenRevoked: { name: apiToken.name, prefix: apiToken.prefix } },
+    })
+
+    return NextResponse.json({ message: 'Token revoked' })
+  } catch (error) {
+    console.error('Error revoking API token:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke API token' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import prisma from '@/lib/prisma'
+import { apiTokenSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { generateApiToken } from '@/lib/api-tokens'
+
+export const dynamic = 'force-dynamic'
+
+const tokenSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  createdAt: true,
+}
+
+// Tokens are managed from a browser session only, so a token can't mint more tokens
+
+// GET /api/tokens - The current user's API tokens that haven't been revoked
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tokens = await prisma.apiToken.findMany({
+      where: { userId: session.user.id, revokedAt: null },
+      select: tokenSelect,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ data: tokens })
+  } catch (error) {
+    console.error('Error fetching API tokens:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch API tokens' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/tokens - Create an API token. The token is only ever returned here.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const validationResult = apiTokenSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const data = validationResult.data
+
+    if (data.scopes.some((scope) => !hasPermission(session.user, scope))) {
+      return NextResponse.json(
+        { error: "A token can't have permissions your role doesn't" },
+        { status: 403 }
+      )
+    }
+
+    const { token, tokenHash, prefix } = generateApiToken()
+
+    const apiToken = await prisma.apiToken.create({
+      data: {
+        userId: session.user.id,
+        name: data.name,
+        prefix,
+        tokenHash,
+        scopes: data.scopes,
+        expiresAt: new Date(Date.now() + data.expiresInDays * 24 * 60 * 60 * 1000),
+      },
+      select: tokenSelect,
+    })
+
+    await logActivity({
+      entityType: 'User',
+      entityId: session.user.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: { apiTokenCreated: { name: apiToken.name, prefix, scopes: data.scopes } },
+    })
+
+    return NextResponse.json({ data: { ...apiToken, token } }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating API token:', error)
+    return NextResponse.json(
+      { error: 'Failed to create API token' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,37 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { writeFile, mkdir } from 'fs/promises'
-import { existsSync } from 'fs'
-import path from 'path'
-import * as mammoth from 'mammoth'
+import { getRequestSession } from '@/lib/api-tokens'
+import { hasPermission } from '@/lib/permissions'
+import { inspectResumeFile } from '@/lib/file-inspection'
+import { saveUpload } from '@/lib/uploads'
+import { enqueueJob } from '@/lib/jobs'
 
-const UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads')
-
-async function extractTextFromPDF(buffer: Buffer): Promise<string> {
+// POST /api/upload - Save a resume and queue text extraction. Poll
+// GET /api/jobs/{extractionJobId} for the text and suggested candidate fields.
+export async function POST(request: NextRequest) {
   try {
-    // pdf-parse ESM compatibility workaround
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const pdfParseModule = await import('pdf-parse') as any
-    const pdfParse = pdfParseModule.default || pdfParseModule
-    const data = await pdfParse(buffer)
-    return data.text
-  } catch (error) {
-    console.error('Error extracting PDF text:', error)
-    return ''
-  }
-}
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
 
-async function extractTextFromDOCX(buffer: Buffer): Promise<string> {
-  try {
-    const result = await mammoth.extractRawText({ buffer })
-    return result.value
-  } catch (error) {
-    console.error('Error extracting DOCX text:', error)
-    return ''
-  }
-}
+    if (!hasPermission(session.user, 'candidates:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
 
-export async function POST(request: NextRequest) {
-  try {
     const formData = await request.formData()
     const file = formData.get('file') as File | null
 
@@ -39,20 +25,6 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 })
     }
 
-    // Validate file type
-    const allowedTypes = [
-      'application/pdf',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'application/msword',
-    ]
-
-    if (!allowedTypes.includes(file.type)) {
-      return NextResponse.json(
-        { error: 'Invalid file type. Only PDF and Word documents are allowed.' },
-        { status: 400 }
-      )
-    }
-
     // Validate file size (max 10MB)
     const maxSize = 10 * 1024 * 1024
     if (file.size > maxSize) {
@@ -62,50 +34,41 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Ensure upload directory exists
-    if (!existsSync(UPLOAD_DIR)) {
-      await mkdir(UPLOAD_DIR, { recursive: true })
-    }
-
-    // Generate unique filename
-    const timestamp = Date.now()
-    const originalName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_')
-    const filename = `${timestamp}-${originalName}`
-    const filepath = path.join(UPLOAD_DIR, filename)
-
-    // Convert file to buffer and save
+    // The type comes from the contents, not the browser's file.type
     const bytes = await file.arrayBuffer()
     const buffer = Buffer.from(bytes)
-    await writeFile(filepath, buffer)
-
-    // Extract text based on file type
-    let extractedText = ''
-    if (file.type === 'application/pdf') {
-      extractedText = await extractTextFromPDF(buffer)
-    } else if (
-      file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-      file.type === 'application/msword'
-    ) {
-      extractedText = await extractTextFromDOCX(buffer)
+    const inspection = await inspectResumeFile(buffer)
+    if (!inspection.ok) {
+      return NextResponse.json({ error: inspection.error }, { status: 400 })
     }
 
-    // Clean up extracted text
-    extractedText = extractedText
-      .replace(/\s+/g, ' ')
-      .replace(/\n+/g, '\n')
-      .trim()
+    // Stored under the extension of its real type, so downloads get the right one
+    const storedName = `${file.name.replace(/\.[^.]*$/, '')}.${inspection.extension}`
+    const { filename, url } = await saveUpload(buffer, storedName, {
+      folder: 'resumes',
+      contentType: inspection.mimeType,
+    })
+
+    const job = await enqueueJob(
+      'resume.extract',
+      { url, mimeType: inspection.mimeType },
+      { maxAttempts: 2, createdByUserId: session.user.id }
+    )
 
-    return NextResponse.json({
-      success: true,
-      data: {
-        filename,
-        url: `/uploads/${filename}`,
-        originalName: file.name,
-        size: file.size,
-        type: file.type,
-        extractedText,
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          filename,
+          url,
+          originalName: file.name,
+          size: file.size,
+          type: inspection.mimeType,
+          extractionJobId: job.id,
+        },
       },
-    })
+      { status: 202 }
+    )
   } catch (error) {
     console.error('Upload error:', error)
     return NextResponse.json(
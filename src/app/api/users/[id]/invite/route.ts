@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { sendInvitation } from '@/lib/password-tokens'
+
+// POST /api/users/[id]/invite - Resend the set-password invitation
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'users:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const user = await prisma.user.findUnique({ where: { id: params.id } })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    if (!user.isActive) {
+      return NextResponse.json({ error: 'User is deactivated' }, { status: 400 })
+    }
+
+    if (user.passwordHash) {
+      return NextResponse.json(
+        { error: 'This user has already set a password' },
+        { status: 400 }
+      )
+    }
+
+    const sent = await sendInvitation(user, session.user.fullName)
+    if (!sent) {
+      return NextResponse.json({ error: 'Failed to send invitation email' }, { status: 502 })
+    }
+
+    await logActivity({
+      entityType: 'User',
+      entityId: user.id,
+      action: 'UPDATED',
+      performedByUserId: session.user.id,
+      diff: { invitationSent: true },
+    })
+
+    return NextResponse.json({ message: 'Invitation sent' })
+  } catch (error) {
+    console.error('Error sending invitation:', error)
+    return NextResponse.json(
+      { error: 'Failed to send invitation' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,23 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions, hashPassword } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
+import { hashPassword, verifyPassword } from '@/lib/auth'
 import prisma from '@/lib/prisma'
 import { updateUserSchema } from '@/lib/validations'
 import { logActivity } from '@/lib/activity'
 import { hasPermission } from '@/lib/permissions'
+import { canAssignRole } from '@/lib/roles'
+import { revokeAllUserSessions } from '@/lib/user-sessions'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
     // Users can view their own profile
-    if (params.id !== session.user.id && !hasPermission(session.user.role, 'users:read')) {
+    if (params.id !== session.user.id && !hasPermission(session.user, 'users:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -28,9 +30,14 @@ export async function GET(
         fullName: true,
         email: true,
         role: true,
+        roleDefinition: { select: { name: true } },
         isActive: true,
         createdAt: true,
         lastLoginAt: true,
+        totpEnabledAt: true,
+        lockedUntil: true,
+        invitedAt: true,
+        mustChangePassword: true,
       },
     })
 
@@ -53,14 +60,15 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    // Users can update their own profile (limited fields), admins can update anyone
+    // Users can update their own profile (limited fields), admins can update anyone.
+    // Changing your own name or password needs a browser session, not an API token.
     const isSelf = params.id === session.user.id
-    if (!isSelf && !hasPermission(session.user.role, 'users:write')) {
+    if ((!isSelf || session.apiTokenId) && !hasPermission(session.user, 'users:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -85,8 +93,15 @@ export async function PUT(
     const data = validationResult.data
 
     // Non-admins can only update their own name and password
-    if (!hasPermission(session.user.role, 'users:write') && isSelf) {
-      if (data.role || data.isActive !== undefined || data.email) {
+    if (!hasPermission(session.user, 'users:write') && isSelf) {
+      if (
+        data.role ||
+        data.isActive !== undefined ||
+        data.email ||
+        data.unlock ||
+        data.resetTwoFactor ||
+        data.mustChangePassword !== undefined
+      ) {
         return NextResponse.json(
           { error: 'You can only update your name and password' },
           { status: 403 }
@@ -107,6 +122,37 @@ export async function PUT(
       }
     }
 
+    if (data.role && data.role !== existing.role) {
+      const role = await prisma.role.findUnique({ where: { key: data.role } })
+      if (!role) {
+        return NextResponse.json({ error: 'Unknown role' }, { status: 400 })
+      }
+      // Both the new role and the one taken away (e.g. demoting an admin)
+      if (
+        !(await canAssignRole(session.user, role.key)) ||
+        !(await canAssignRole(session.user, existing.role))
+      ) {
+        return NextResponse.json(
+          { error: 'You cannot assign a role with more access than your own' },
+          { status: 403 }
+        )
+      }
+    }
+
+    // A forced change has to actually change the password
+    if (
+      isSelf &&
+      data.password &&
+      existing.mustChangePassword &&
+      existing.passwordHash &&
+      (await verifyPassword(data.password, existing.passwordHash))
+    ) {
+      return NextResponse.json(
+        { error: 'Choose a password different from your current one' },
+        { status: 400 }
+      )
+    }
+
     const updateData: Record<string, unknown> = {}
 
     if (data.fullName) updateData.fullName = data.fullName
@@ -115,6 +161,22 @@ export async function PUT(
     if (data.isActive !== undefined) updateData.isActive = data.isActive
     if (data.password) {
       updateData.passwordHash = await hashPassword(data.password)
+      updateData.invitedAt = null
+      // Changing your own password satisfies a forced change
+      if (isSelf) updateData.mustChangePassword = false
+    }
+    if (data.mustChangePassword !== undefined && !isSelf) {
+      updateData.mustChangePassword = data.mustChangePassword
+    }
+    if (data.unlock) {
+      updateData.failedLoginCount = 0
+      updateData.lockedUntil = null
+    }
+    if (data.resetTwoFactor) {
+      updateData.totpSecret = null
+      updateData.totpEnabledAt = null
+      updateData.totpLastUsedStep = null
+      updateData.recoveryCodeHashes = []
     }
 
     const user = await prisma.user.update({
@@ -125,17 +187,44 @@ export async function PUT(
         fullName: true,
         email: true,
         role: true,
+        roleDefinition: { select: { name: true } },
         isActive: true,
         createdAt: true,
         lastLoginAt: true,
+        totpEnabledAt: true,
+        lockedUntil: true,
+        invitedAt: true,
+        mustChangePassword: true,
       },
     })
 
+    // Deactivation, role and password changes end existing sessions, since the
+    // session token carries the role; changing your own password keeps the
+    // session you did it from
+    let sessionsRevoked = 0
+    if (
+      (data.isActive === false && existing.isActive) ||
+      (data.role && data.role !== existing.role) ||
+      data.password
+    ) {
+      sessionsRevoked = await revokeAllUserSessions(
+        params.id,
+        isSelf && data.isActive !== false ? session.user.sessionId : undefined
+      )
+    }
+
     await logActivity({
       entityType: 'User',
       entityId: user.id,
       action: 'UPDATED',
       performedByUserId: session.user.id,
+      diff: data.unlock || data.resetTwoFactor || sessionsRevoked > 0
+        ? {
+            ...(data.unlock ? { unlocked: true } : {}),
+            ...(data.resetTwoFactor ? { twoFactor: { old: !!existing.totpEnabledAt, new: false } } : {}),
+            ...(sessionsRevoked > 0 ? { sessionsRevoked } : {}),
+          }
+        : undefined,
     })
 
     return NextResponse.json({ data: user })
@@ -153,12 +242,12 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'users:delete')) {
+    if (!hasPermission(session.user, 'users:delete')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -183,6 +272,7 @@ export async function DELETE(
       where: { id: params.id },
       data: { isActive: false },
     })
+    await revokeAllUserSessions(params.id)
 
     await logActivity({
       entityType: 'User',
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { listActiveSessions, revokeAllUserSessions } from '@/lib/user-sessions'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/users/[id]/sessions - A user's active sessions (admin)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'users:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const sessions = await listActiveSessions(params.id)
+
+    return NextResponse.json({
+      data: sessions.map((s) => ({ ...s, current: s.id === session.user.sessionId })),
+    })
+  } catch (error) {
+    console.error('Error fetching user sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch sessions' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/users/[id]/sessions - Sign a user out everywhere (admin)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'users:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Never end the admin's own request session from here
+    const revoked = await revokeAllUserSessions(params.id, session.user.sessionId)
+
+    if (revoked > 0) {
+      await logActivity({
+        entityType: 'User',
+        entityId: params.id,
+        action: 'UPDATED',
+        performedByUserId: session.user.id,
+        diff: { sessionsRevoked: revoked },
+      })
+    }
+
+    return NextResponse.json({ data: { revoked } })
+  } catch (error) {
+    console.error('Error revoking user sessions:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke sessions' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,19 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions, hashPassword } from '@/lib/auth'
+import { getRequestSession } from '@/lib/api-tokens'
+import { hashPassword } from '@/lib/auth'
 import prisma from '@/lib/prisma'
 import { createUserSchema } from '@/lib/validations'
 import { logActivity } from '@/lib/activity'
 import { hasPermission } from '@/lib/permissions'
+import { canAssignRole } from '@/lib/roles'
+import { sendInvitation } from '@/lib/password-tokens'
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'users:read')) {
+    if (!hasPermission(session.user, 'users:read')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -46,9 +48,14 @@ export async function GET(request: NextRequest) {
         fullName: true,
         email: true,
         role: true,
+        roleDefinition: { select: { name: true } },
         isActive: true,
         createdAt: true,
         lastLoginAt: true,
+        totpEnabledAt: true,
+        lockedUntil: true,
+        invitedAt: true,
+        mustChangePassword: true,
       },
       orderBy: { fullName: 'asc' },
     })
@@ -65,12 +72,12 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
+    const session = await getRequestSession()
     if (!session) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    if (!hasPermission(session.user.role, 'users:write')) {
+    if (!hasPermission(session.user, 'users:write')) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
 
@@ -98,7 +105,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const passwordHash = await hashPassword(data.password)
+    const role = await prisma.role.findUnique({ where: { key: data.role } })
+    if (!role) {
+      return NextResponse.json({ error: 'Unknown role' }, { status: 400 })
+    }
+    if (!(await canAssignRole(session.user, role.key))) {
+      return NextResponse.json(
+        { error: 'You cannot assign a role with more access than your own' },
+        { status: 403 }
+      )
+    }
+
+    // Invited users get no password until they follow the emailed link
+    const passwordHash = data.sendInvite || !data.password ? null : await hashPassword(data.password)
 
     const user = await prisma.user.create({
       data: {
@@ -106,12 +125,14 @@ export async function POST(request: NextRequest) {
         email: data.email,
         passwordHash,
         role: data.role,
+        mustChangePassword: !!passwordHash && !!data.mustChangePassword,
       },
       select: {
         id: true,
         fullName: true,
         email: true,
         role: true,
+        roleDefinition: { select: { name: true } },
         isActive: true,
         createdAt: true,
       },
@@ -124,7 +145,11 @@ export async function POST(request: NextRequest) {
       performedByUserId: session.user.id,
     })
 
-    return NextResponse.json({ data: user }, { status: 201 })
+    const invitationSent = passwordHash
+      ? undefined
+      : await sendInvitation(user, session.user.fullName)
+
+    return NextResponse.json({ data: user, invitationSent }, { status: 201 })
   } catch (error) {
     console.error('Error creating user:', error)
     return NextResponse.json(
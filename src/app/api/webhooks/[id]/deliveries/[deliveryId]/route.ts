@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+import { redeliverWebhook } from '@/lib/webhooks'
+
+// POST /api/webhooks/[id]/deliveries/[deliveryId] - Send a delivery again now
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; deliveryId: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.webhookDelivery.findFirst({
+      where: { id: params.deliveryId, endpointId: params.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+    }
+
+    await redeliverWebhook(existing.id)
+    const delivery = await prisma.webhookDelivery.findUnique({ where: { id: existing.id } })
+
+    return NextResponse.json({ data: delivery })
+  } catch (error) {
+    console.error('Error redelivering webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to redeliver webhook' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { WebhookDeliveryStatus } from '@prisma/client'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+
+const STATUSES: WebhookDeliveryStatus[] = ['PENDING', 'SUCCEEDED', 'FAILED']
+
+// GET /api/webhooks/[id]/deliveries - Delivery log for a webhook endpoint, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') as WebhookDeliveryStatus | null
+    const page = parseInt(searchParams.get('page') || '1')
+    const pageSize = parseInt(searchParams.get('pageSize') || '25')
+
+    const where: Record<string, unknown> = { endpointId: params.id }
+    if (status && STATUSES.includes(status)) {
+      where.status = status
+    }
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ])
+
+    return NextResponse.json({
+      data: deliveries,
+      total,
+      page,
+      pageSize,
+    })
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhook deliveries' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { updateWebhookEndpointSchema } from '@/lib/validations'
+import { createDiff, logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { generateWebhookSecret, invalidateWebhookCache, maskWebhookSecret } from '@/lib/webhooks'
+
+// PUT /api/webhooks/[id] - Update a webhook endpoint, optionally rotating its secret
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const existing = await prisma.webhookEndpoint.findUnique({ where: { id: params.id } })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validationResult = updateWebhookEndpointSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const { rotateSecret, ...data } = validationResult.data
+
+    const endpoint = await prisma.webhookEndpoint.update({
+      where: { id: params.id },
+      data: {
+        ...data,
+        ...(rotateSecret && { secret: generateWebhookSecret() }),
+      },
+    })
+    invalidateWebhookCache()
+
+    const diff = createDiff(existing, data)
+    if (diff || rotateSecret) {
+      await logActivity({
+        entityType: 'Webhook',
+        entityId: endpoint.id,
+        action: 'UPDATED',
+        performedByUserId: session.user.id,
+        diff: { ...diff, ...(rotateSecret && { secretRotated: true }) },
+      })
+    }
+
+    return NextResponse.json({ data: rotateSecret ? endpoint : maskWebhookSecret(endpoint) })
+  } catch (error) {
+    console.error('Error updating webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to update webhook' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/webhooks/[id] - Delete a webhook endpoint and its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id: params.id } })
+
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    await prisma.webhookEndpoint.delete({ where: { id: params.id } })
+    invalidateWebhookCache()
+
+    await logActivity({
+      entityType: 'Webhook',
+      entityId: endpoint.id,
+      action: 'DELETED',
+      performedByUserId: session.user.id,
+      diff: { name: endpoint.name, url: endpoint.url },
+    })
+
+    return NextResponse.json({ message: 'Webhook deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    )
+  }
+}
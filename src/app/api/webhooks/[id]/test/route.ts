@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { hasPermission } from '@/lib/permissions'
+import { sendWebhookPing } from '@/lib/webhooks'
+
+// POST /api/webhooks/[id]/test - Send a "ping" event now and return the delivery
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const endpoint = await prisma.webhookEndpoint.findUnique({ where: { id: params.id } })
+
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 })
+    }
+
+    const delivery = await sendWebhookPing(endpoint.id)
+
+    return NextResponse.json({ data: delivery })
+  } catch (error) {
+    console.error('Error sending test webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to send test webhook' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestSession } from '@/lib/api-tokens'
+import prisma from '@/lib/prisma'
+import { webhookEndpointSchema } from '@/lib/validations'
+import { logActivity } from '@/lib/activity'
+import { hasPermission } from '@/lib/permissions'
+import { generateWebhookSecret, invalidateWebhookCache, maskWebhookSecret } from '@/lib/webhooks'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/webhooks - List webhook endpoints with their latest delivery
+export async function GET() {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const endpoints = await prisma.webhookEndpoint.findMany({
+      include: {
+        deliveries: {
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { id: true, event: true, status: true, responseStatus: true, createdAt: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json({
+      data: endpoints.map(({ deliveries, ...endpoint }) => ({
+        ...maskWebhookSecret(endpoint),
+        lastDelivery: deliveries[0] ?? null,
+      })),
+    })
+  } catch (error) {
+    console.error('Error fetching webhooks:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch webhooks' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/webhooks - Create a webhook endpoint with a new signing secret. The
+// secret is only returned here and when it is rotated.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getRequestSession()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!hasPermission(session.user, 'settings:write')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const validationResult = webhookEndpointSchema.safeParse(body)
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validationResult.error.errors },
+        { status: 400 }
+      )
+    }
+
+    const endpoint = await prisma.webhookEndpoint.create({
+      data: {
+        ...validationResult.data,
+        secret: generateWebhookSecret(),
+        createdByUserId: session.user.id,
+      },
+    })
+    invalidateWebhookCache()
+
+    await logActivity({
+      entityType: 'Webhook',
+      entityId: endpoint.id,
+      action: 'CREATED',
+      performedByUserId: session.user.id,
+      diff: { name: endpoint.name, url: endpoint.url },
+    })
+
+    return NextResponse.json({ data: endpoint }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating webhook:', error)
+    return NextResponse.json(
+      { error: 'Failed to create webhook' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,14 @@
+import type { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Naviteq - Customer Portal',
+  description: 'Project updates and candidate submissions from Naviteq',
+}
+
+export default function PortalLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  return <div className="min-h-screen bg-gray-50">{children}</div>
+}
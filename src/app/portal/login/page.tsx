@@ -0,0 +1,107 @@
+'use client'
+
+import { Suspense, useState } from 'react'
+import { useSearchParams } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+
+const linkErrors: Record<string, string> = {
+  invalid_link: 'That sign-in link is invalid or has expired. Request a new one below.',
+  server_error: 'Something went wrong signing you in. Please try again.',
+}
+
+function PortalLoginForm() {
+  const searchParams = useSearchParams()
+  const [email, setEmail] = useState('')
+  const [error, setError] = useState(linkErrors[searchParams.get('error') || ''] || '')
+  const [sent, setSent] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError('')
+    setLoading(true)
+
+    try {
+      const res = await fetch('/api/portal/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email }),
+      })
+
+      if (res.ok) {
+        setSent(true)
+      } else {
+        const errorData = await res.json()
+        setError(errorData.error || 'Failed to send sign-in link')
+      }
+    } catch {
+      setError('An error occurred. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (sent) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-sm text-gray-600">
+          If <span className="font-medium">{email}</span> has portal access, we&apos;ve emailed
+          a sign-in link. It can be used once and expires in 30 minutes.
+        </p>
+        <Button variant="outline" onClick={() => setSent(false)}>
+          Use a different email
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-50 p-3 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="email">Email</Label>
+        <Input
+          id="email"
+          type="email"
+          placeholder="you@company.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading ? 'Sending...' : 'Email me a sign-in link'}
+      </Button>
+    </form>
+  )
+}
+
+export default function PortalLoginPage() {
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-lg bg-indigo-600">
+            <span className="text-2xl font-bold text-white">N</span>
+          </div>
+          <CardTitle className="text-2xl">Naviteq Customer Portal</CardTitle>
+          <CardDescription>
+            Follow your projects and review submitted candidates
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Suspense>
+            <PortalLoginForm />
+          </Suspense>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
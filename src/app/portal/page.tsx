@@ -0,0 +1,99 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import { PortalShell } from '@/components/portal/portal-shell'
+import { formatDate } from '@/lib/utils'
+import {
+  devOpsStatusLabels,
+  devOpsStatusColors,
+  projectStatusLabels,
+  projectStatusColors,
+  DevOpsStatus,
+  ProjectCategory,
+  ProjectStatus,
+} from '@/types'
+
+interface PortalProject {
+  id: string
+  title: string
+  projectCategory: ProjectCategory
+  status: ProjectStatus
+  devOpsStatus: DevOpsStatus | null
+  updatedAt: string
+  talentsInReview: number
+  updateCount: number
+}
+
+function PortalProjects() {
+  const [projects, setProjects] = useState<PortalProject[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchProjects = async () => {
+      try {
+        const res = await fetch('/api/portal/projects')
+        const data = await res.json()
+        setProjects(data.data || [])
+      } catch (error) {
+        console.error('Error fetching projects:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchProjects()
+  }, [])
+
+  if (loading) {
+    return <div className="text-gray-500">Loading projects...</div>
+  }
+
+  return (
+    <div>
+      <h1 className="mb-4 text-2xl font-bold">Your Projects</h1>
+
+      {projects.length === 0 ? (
+        <p className="text-gray-500">No projects yet</p>
+      ) : (
+        <div className="space-y-3">
+          {projects.map((project) => (
+            <Link
+              key={project.id}
+              href={`/portal/projects/${project.id}`}
+              className="flex items-center justify-between rounded-lg border bg-white p-4 hover:bg-gray-50"
+            >
+              <div>
+                <div className="font-medium">{project.title}</div>
+                <div className="text-sm text-gray-500">
+                  {project.talentsInReview > 0 &&
+                    `${project.talentsInReview} candidate${project.talentsInReview === 1 ? '' : 's'} to review - `}
+                  {project.updateCount} update{project.updateCount === 1 ? '' : 's'} - last
+                  activity {formatDate(project.updatedAt)}
+                </div>
+              </div>
+              {project.projectCategory === 'DEVOPS' && project.devOpsStatus ? (
+                <Badge className={devOpsStatusColors[project.devOpsStatus]}>
+                  {devOpsStatusLabels[project.devOpsStatus]}
+                </Badge>
+              ) : (
+                <Badge className={projectStatusColors[project.status]}>
+                  {projectStatusLabels[project.status]}
+                </Badge>
+              )}
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function PortalHomePage() {
+  return (
+    <PortalShell>
+      <PortalProjects />
+    </PortalShell>
+  )
+}
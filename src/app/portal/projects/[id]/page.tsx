@@ -0,0 +1,236 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { ArrowLeft, FileText } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { PortalShell } from '@/components/portal/portal-shell'
+import { formatDate, formatDateTime } from '@/lib/utils'
+import type { PortalTalent } from '@/lib/portal'
+import { talentStageLabels, talentStageColors } from '@/types'
+
+interface PortalProject {
+  id: string
+  title: string
+  description: string | null
+  technologies: string[]
+  updates: Array<{
+    id: string
+    content: string
+    createdAt: string
+    author: { fullName: string }
+  }>
+  talents: Array<Omit<PortalTalent, 'submittedAt' | 'clientFeedbackAt'> & {
+    submittedAt: string | null
+    clientFeedbackAt: string | null
+  }>
+}
+
+type Talent = PortalProject['talents'][number]
+
+function TalentReview({ talent, onSaved }: { talent: Talent; onSaved: (talent: Talent) => void }) {
+  const [feedback, setFeedback] = useState(talent.clientFeedback || '')
+  const [saving, setSaving] = useState(false)
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/portal/talents/${talent.id}/feedback`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ feedback }),
+      })
+
+      if (res.ok) {
+        const data = await res.json()
+        onSaved(data.data)
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to save feedback')
+      }
+    } catch (error) {
+      console.error('Error saving feedback:', error)
+      alert('Failed to save feedback')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="rounded-lg border bg-white p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="font-medium">{talent.displayName}</span>
+            <Badge className={talentStageColors[talent.stage]}>
+              {talentStageLabels[talent.stage]}
+            </Badge>
+          </div>
+          <div className="text-sm text-gray-500">
+            {[
+              talent.title,
+              talent.seniority,
+              talent.yearsExperience != null ? `${talent.yearsExperience} years` : null,
+              talent.location,
+            ]
+              .filter(Boolean)
+              .join(' - ')}
+          </div>
+          {talent.submittedAt && (
+            <div className="text-xs text-gray-400">Submitted {formatDate(talent.submittedAt)}</div>
+          )}
+        </div>
+        {talent.hasProfile && (
+          <a href={`/api/portal/talents/${talent.id}/profile`} target="_blank" rel="noopener noreferrer">
+            <Button variant="outline" size="sm">
+              <FileText className="mr-2 h-4 w-4" />
+              Profile
+            </Button>
+          </a>
+        )}
+      </div>
+
+      {talent.technologies.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-1">
+          {talent.technologies.map((tech) => (
+            <Badge key={tech} variant="secondary">
+              {tech}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 space-y-2">
+        <Textarea
+          value={feedback}
+          onChange={(e) => setFeedback(e.target.value)}
+          placeholder="Your feedback on this candidate"
+          rows={3}
+        />
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-400">
+            {talent.clientFeedbackAt && `Last saved ${formatDateTime(talent.clientFeedbackAt)}`}
+          </span>
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={saving || !feedback.trim() || feedback === (talent.clientFeedback || '')}
+          >
+            {saving ? 'Saving...' : 'Save Feedback'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function PortalProjectDetail() {
+  const params = useParams()
+  const [project, setProject] = useState<PortalProject | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchProject = async () => {
+      try {
+        const res = await fetch(`/api/portal/projects/${params.id}`)
+        if (!res.ok) throw new Error('Failed to fetch')
+        const data = await res.json()
+        setProject(data.data)
+      } catch (error) {
+        console.error('Error fetching project:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchProject()
+  }, [params.id])
+
+  if (loading) {
+    return <div className="text-gray-500">Loading...</div>
+  }
+
+  if (!project) {
+    return <div className="text-gray-500">Project not found</div>
+  }
+
+  const handleTalentSaved = (updated: Talent) => {
+    setProject({
+      ...project,
+      talents: project.talents.map((t) => (t.id === updated.id ? updated : t)),
+    })
+  }
+
+  return (
+    <div>
+      <div className="mb-4">
+        <Link
+          href="/portal"
+          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="mr-1 h-4 w-4" />
+          Back to Projects
+        </Link>
+      </div>
+
+      <h1 className="text-2xl font-bold">{project.title}</h1>
+      {project.description && (
+        <p className="mt-1 whitespace-pre-wrap text-gray-600">{project.description}</p>
+      )}
+
+      <Tabs defaultValue={project.talents.length > 0 ? 'candidates' : 'updates'} className="mt-6">
+        <TabsList>
+          <TabsTrigger value="candidates">Candidates ({project.talents.length})</TabsTrigger>
+          <TabsTrigger value="updates">Updates ({project.updates.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="candidates" className="mt-4 space-y-3">
+          {project.talents.length === 0 ? (
+            <p className="text-gray-500">No candidates waiting for your review</p>
+          ) : (
+            project.talents.map((talent) => (
+              <TalentReview key={talent.id} talent={talent} onSaved={handleTalentSaved} />
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="updates" className="mt-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Project Updates</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {project.updates.length === 0 ? (
+                <p className="text-gray-500">No updates yet</p>
+              ) : (
+                <div className="space-y-4">
+                  {project.updates.map((update) => (
+                    <div key={update.id} className="border-b pb-4 last:border-0 last:pb-0">
+                      <div className="text-sm text-gray-500">
+                        {update.author.fullName} - {formatDateTime(update.createdAt)}
+                      </div>
+                      <p className="mt-1 whitespace-pre-wrap">{update.content}</p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
+
+export default function PortalProjectPage() {
+  return (
+    <PortalShell>
+      <PortalProjectDetail />
+    </PortalShell>
+  )
+}
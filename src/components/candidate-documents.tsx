@@ -0,0 +1,284 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AlertTriangle, CheckCircle, Download, Edit, Plus, Trash2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { CandidateDocumentDialog } from '@/components/forms/candidate-document-dialog'
+import { formatDateTime } from '@/lib/utils'
+import {
+  candidateDocumentTypeLabels,
+  documentVisibilityLabels,
+  textExtractionStatusLabels,
+  CandidateDocumentType,
+  DocumentVisibility,
+  TextExtractionStatus,
+} from '@/types'
+
+interface DocumentVersion {
+  id: string
+  version: number
+  fileUrl: string
+  originalName: string
+  mimeType: string
+  size: number | null
+  // Resumes only: how well the text could be read for matching
+  extractionStatus: TextExtractionStatus | null
+  extractedWithOcr: boolean
+  createdAt: string
+  uploadedBy: { id: string; fullName: string } | null
+}
+
+interface CandidateDocument {
+  id: string
+  type: CandidateDocumentType
+  title: string
+  visibility: DocumentVisibility
+  versions: DocumentVersion[]
+}
+
+interface CandidateDocumentsProps {
+  candidateId: string
+  // Called when the resume used for matching changes, so the page can reload it
+  onActiveResumeChange?: () => void
+}
+
+function formatSize(size: number | null): string {
+  if (size == null) return ''
+  if (size < 1024 * 1024) return `${Math.max(1, Math.round(size / 1024))} KB`
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function CandidateDocuments({
+  candidateId,
+  onActiveResumeChange,
+}: CandidateDocumentsProps) {
+  const [documents, setDocuments] = useState<CandidateDocument[]>([])
+  const [activeResumeVersionId, setActiveResumeVersionId] = useState<string | null>(null)
+  // Upload, edit and choose the resume for matching (candidates:write with full access)
+  const [canEdit, setCanEdit] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [dialog, setDialog] = useState<{ document?: CandidateDocument; editOnly?: boolean } | null>(
+    null
+  )
+
+  const fetchDocuments = async () => {
+    try {
+      const res = await fetch(`/api/candidates/${candidateId}/documents`)
+      const data = await res.json()
+      setDocuments(data.data || [])
+      setActiveResumeVersionId(data.activeResumeVersionId ?? null)
+      setCanEdit(!!data.canEdit)
+    } catch (error) {
+      console.error('Error fetching candidate documents:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchDocuments()
+  }, [candidateId])
+
+  const toggleExpanded = (documentId: string) => {
+    const next = new Set(expanded)
+    if (next.has(documentId)) {
+      next.delete(documentId)
+    } else {
+      next.add(documentId)
+    }
+    setExpanded(next)
+  }
+
+  const handleUseForMatching = async (versionId: string) => {
+    try {
+      const res = await fetch(`/api/candidates/${candidateId}/active-resume`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ versionId }),
+      })
+
+      if (res.ok) {
+        fetchDocuments()
+        onActiveResumeChange?.()
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to change the resume used for matching')
+      }
+    } catch (error) {
+      console.error('Error setting active resume:', error)
+    }
+  }
+
+  const handleDelete = async (document: CandidateDocument) => {
+    const containsActive = document.versions.some((v) => v.id === activeResumeVersionId)
+    const message = containsActive
+      ? `Delete "${document.title}" and all its versions? It holds the resume used for matching, so the candidate will have none.`
+      : `Delete "${document.title}" and all its versions?`
+    if (!confirm(message)) return
+
+    try {
+      const res = await fetch(`/api/candidates/${candidateId}/documents/${document.id}`, {
+        method: 'DELETE',
+      })
+      if (res.ok) {
+        fetchDocuments()
+        if (containsActive) onActiveResumeChange?.()
+      }
+    } catch (error) {
+      console.error('Error deleting document:', error)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-gray-500">Loading documents...</div>
+  }
+
+  return (
+    <div className="space-y-4">
+      {canEdit && (
+        <div className="flex justify-end">
+          <Button size="sm" onClick={() => setDialog({})}>
+            <Plus className="mr-1 h-4 w-4" />
+            Upload Document
+          </Button>
+        </div>
+      )}
+
+      {documents.length === 0 && <div className="text-gray-500">No documents uploaded</div>}
+
+      {documents.map((document) => {
+        const [latest, ...older] = document.versions
+        const shownVersions = expanded.has(document.id) ? document.versions : latest ? [latest] : []
+
+        return (
+          <div key={document.id} className="rounded-lg border p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{document.title}</span>
+                  <Badge variant="secondary">{candidateDocumentTypeLabels[document.type]}</Badge>
+                </div>
+                <div className="text-sm text-gray-500">
+                  Visible to: {documentVisibilityLabels[document.visibility]}
+                </div>
+              </div>
+
+              {canEdit && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setDialog({ document })}
+                  >
+                    <Upload className="mr-2 h-4 w-4" />
+                    New Version
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setDialog({ document, editOnly: true })}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(document)}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="mt-3 space-y-2 border-t pt-3">
+              {shownVersions.map((version) => {
+                const isActive = version.id === activeResumeVersionId
+                return (
+                  <div key={version.id} className="flex items-center justify-between gap-4 text-sm">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">v{version.version}</Badge>
+                        <span>{version.originalName}</span>
+                        {isActive && (
+                          <Badge variant="success">
+                            <CheckCircle className="mr-1 h-3 w-3" />
+                            Used for matching
+                          </Badge>
+                        )}
+                        {version.extractionStatus === 'PENDING' && (
+                          <Badge variant="secondary">
+                            {textExtractionStatusLabels.PENDING}...
+                          </Badge>
+                        )}
+                        {(version.extractionStatus === 'LOW_QUALITY' ||
+                          version.extractionStatus === 'FAILED') && (
+                          <Badge
+                            variant={
+                              version.extractionStatus === 'FAILED' ? 'destructive' : 'warning'
+                            }
+                          >
+                            <AlertTriangle className="mr-1 h-3 w-3" />
+                            {textExtractionStatusLabels[version.extractionStatus]}
+                          </Badge>
+                        )}
+                        {version.extractedWithOcr && <Badge variant="info">OCR</Badge>}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {formatDateTime(version.createdAt)}
+                        {version.uploadedBy && ` by ${version.uploadedBy.fullName}`}
+                        {version.size != null && ` - ${formatSize(version.size)}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {canEdit && document.type === 'RESUME' && !isActive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleUseForMatching(version.id)}
+                        >
+                          Use for Matching
+                        </Button>
+                      )}
+                      <a href={version.fileUrl} target="_blank" rel="noopener noreferrer">
+                        <Button variant="outline" size="sm">
+                          <Download className="mr-2 h-4 w-4" />
+                          Download
+                        </Button>
+                      </a>
+                    </div>
+                  </div>
+                )
+              })}
+              {older.length > 0 && (
+                <button
+                  type="button"
+                  className="text-sm text-blue-600 hover:underline"
+                  onClick={() => toggleExpanded(document.id)}
+                >
+                  {expanded.has(document.id)
+                    ? 'Hide earlier versions'
+                    : `Show ${older.length} earlier version${older.length === 1 ? '' : 's'}`}
+                </button>
+              )}
+            </div>
+          </div>
+        )
+      })}
+
+      {dialog && (
+        <CandidateDocumentDialog
+          open={!!dialog}
+          onOpenChange={(open) => !open && setDialog(null)}
+          candidateId={candidateId}
+          document={dialog.document}
+          editOnly={dialog.editOnly}
+          onSuccess={() => {
+            const changesResume = !dialog.editOnly
+            setDialog(null)
+            fetchDocuments()
+            if (changesResume) onActiveResumeChange?.()
+          }}
+        />
+      )}
+    </div>
+  )
+}
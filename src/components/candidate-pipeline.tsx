@@ -2,7 +2,8 @@
 
 import { useState } from 'react'
 import Link from 'next/link'
-import { Trash2 } from 'lucide-react'
+import { useSession } from 'next-auth/react'
+import { CalendarPlus, FileText, Trash2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
@@ -13,55 +14,80 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select'
+import { ClientProfileDialog } from '@/components/forms/client-profile-dialog'
+import { InterviewDialog } from '@/components/forms/interview-dialog'
+import { TalentStageDialog } from '@/components/forms/talent-stage-dialog'
+import { getAllowedTransitions, stageRequirements } from '@/lib/talent-stages'
+import { hasPermission } from '@/lib/permissions'
 import {
-  candidateStageLabels,
-  candidateStageColors,
-  CandidateStage,
+  talentStageLabels,
+  talentStageColors,
+  talentTypeLabels,
+  talentTypeColors,
+  Contact,
+  TalentStage,
+  TalentType,
 } from '@/types'
 
-interface ProjectCandidate {
+interface TalentSummary {
   id: string
-  stage: string
+  fullName: string
+  title: string | null
+  technologies: string[]
+}
+
+interface ProjectTalent {
+  id: string
+  talentType: TalentType
+  stage: TalentStage
   matchScore: number | null
-  candidate: {
-    id: string
-    fullName: string
-    title: string | null
-    technologies: string[]
-    yearsExperience: number | null
-    seniorityLevel: string | null
-  }
+  submittedAt: string | null
+  startDate: string | null
+  clientFeedback: string | null
+  profileFileUrl: string | null
+  profileGeneratedAt: string | null
+  candidate: TalentSummary | null
+  engineer: TalentSummary | null
 }
 
 interface CandidatePipelineProps {
   projectId: string
-  candidates: ProjectCandidate[]
+  talents: ProjectTalent[]
+  customerContacts: Contact[]
   onRefresh: () => void
 }
 
-const stages: CandidateStage[] = [
-  'SHORTLISTED',
-  'CONTACTED',
-  'SUBMITTED_TO_CLIENT',
-  'INTERVIEWING',
-  'REJECTED',
-  'HIRED',
-]
+const stages = Object.keys(talentStageLabels) as TalentStage[]
 
 export function CandidatePipeline({
   projectId,
-  candidates,
+  talents,
+  customerContacts,
   onRefresh,
 }: CandidatePipelineProps) {
   const [updating, setUpdating] = useState<string | null>(null)
+  const [profileTalent, setProfileTalent] = useState<ProjectTalent | null>(null)
+  const [interviewTalent, setInterviewTalent] = useState<ProjectTalent | null>(null)
+  const [stageChange, setStageChange] = useState<{
+    talent: ProjectTalent
+    stage: TalentStage
+  } | null>(null)
+  const { data: session } = useSession()
+  const canScheduleInterviews = session?.user
+    ? hasPermission(session.user, 'interviews:write')
+    : false
+
+  const handleStageChange = async (talent: ProjectTalent, newStage: TalentStage) => {
+    // Stages that need extra data are collected in a dialog first
+    if (stageRequirements[newStage]) {
+      setStageChange({ talent, stage: newStage })
+      return
+    }
 
-  const handleStageChange = async (
-    projectCandidateId: string,
-    newStage: string
-  ) => {
-    setUpdating(projectCandidateId)
+    const projectTalentId = talent.id
+    setUpdating(projectTalentId)
     try {
-      const res = await fetch(`/api/project-candidates/${projectCandidateId}`, {
+      const res = await fetch(`/api/project-talents/${projectTalentId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ stage: newStage }),
@@ -69,6 +95,9 @@ export function CandidatePipeline({
 
       if (res.ok) {
         onRefresh()
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to update stage')
       }
     } catch (error) {
       console.error('Error updating stage:', error)
@@ -77,11 +106,11 @@ export function CandidatePipeline({
     }
   }
 
-  const handleRemove = async (projectCandidateId: string) => {
-    if (!confirm('Remove this candidate from the project?')) return
+  const handleRemove = async (projectTalentId: string) => {
+    if (!confirm('Remove this talent from the project?')) return
 
     try {
-      const res = await fetch(`/api/project-candidates/${projectCandidateId}`, {
+      const res = await fetch(`/api/project-talents/${projectTalentId}`, {
         method: 'DELETE',
       })
 
@@ -89,20 +118,20 @@ export function CandidatePipeline({
         onRefresh()
       }
     } catch (error) {
-      console.error('Error removing candidate:', error)
+      console.error('Error removing talent:', error)
     }
   }
 
-  // Group candidates by stage
-  const candidatesByStage = stages.reduce(
+  // Group talent by stage
+  const talentsByStage = stages.reduce(
     (acc, stage) => {
-      acc[stage] = candidates.filter((c) => c.stage === stage)
+      acc[stage] = talents.filter((t) => t.stage === stage)
       return acc
     },
-    {} as Record<CandidateStage, ProjectCandidate[]>
+    {} as Record<TalentStage, ProjectTalent[]>
   )
 
-  if (candidates.length === 0) {
+  if (talents.length === 0) {
     return (
       <Card>
         <CardContent className="py-8 text-center text-gray-500">
@@ -116,16 +145,16 @@ export function CandidatePipeline({
   return (
     <div className="space-y-4">
       {/* Summary cards */}
-      <div className="grid grid-cols-6 gap-2">
+      <div className="grid grid-cols-7 gap-2">
         {stages.map((stage) => (
           <div
             key={stage}
-            className={`rounded-lg p-2 text-center ${candidateStageColors[stage]}`}
+            className={`rounded-lg p-2 text-center ${talentStageColors[stage]}`}
           >
             <div className="text-2xl font-bold">
-              {candidatesByStage[stage].length}
+              {talentsByStage[stage].length}
             </div>
-            <div className="text-xs">{candidateStageLabels[stage]}</div>
+            <div className="text-xs">{talentStageLabels[stage]}</div>
           </div>
         ))}
       </div>
@@ -133,72 +162,156 @@ export function CandidatePipeline({
       {/* List view */}
       <Card>
         <CardHeader>
-          <CardTitle>All Candidates</CardTitle>
+          <CardTitle>All Talent</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
-            {candidates.map((pc) => (
-              <div
-                key={pc.id}
-                className="flex items-center justify-between rounded-lg border p-3"
-              >
-                <div className="flex-1">
-                  <div className="flex items-center gap-2">
-                    <Link
-                      href={`/candidates/${pc.candidate.id}`}
-                      className="font-medium text-blue-600 hover:underline"
-                    >
-                      {pc.candidate.fullName}
-                    </Link>
-                    {pc.matchScore != null && (
-                      <Badge variant="outline" className="text-xs">
-                        {pc.matchScore}% match
+            {talents.map((pt) => {
+              const talent = pt.candidate ?? pt.engineer
+              if (!talent) return null
+              const nextStages = session?.user
+                ? getAllowedTransitions(pt.talentType, pt.stage, session.user)
+                : []
+              return (
+                <div
+                  key={pt.id}
+                  className="flex items-center justify-between rounded-lg border p-3"
+                >
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2">
+                      <Link
+                        href={
+                          pt.talentType === 'ENGINEER'
+                            ? `/engineers/${talent.id}`
+                            : `/candidates/${talent.id}`
+                        }
+                        className="font-medium text-blue-600 hover:underline"
+                      >
+                        {talent.fullName}
+                      </Link>
+                      <Badge className={`text-xs ${talentTypeColors[pt.talentType]}`}>
+                        {talentTypeLabels[pt.talentType]}
                       </Badge>
+                      {pt.matchScore != null && (
+                        <Badge variant="outline" className="text-xs">
+                          {pt.matchScore}% match
+                        </Badge>
+                      )}
+                    </div>
+                    {talent.title && (
+                      <div className="text-sm text-gray-500">{talent.title}</div>
                     )}
-                  </div>
-                  {pc.candidate.title && (
-                    <div className="text-sm text-gray-500">
-                      {pc.candidate.title}
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {talent.technologies.slice(0, 4).map((tech) => (
+                        <Badge key={tech} variant="secondary" className="text-xs">
+                          {tech}
+                        </Badge>
+                      ))}
                     </div>
-                  )}
-                  <div className="mt-1 flex flex-wrap gap-1">
-                    {pc.candidate.technologies.slice(0, 4).map((tech) => (
-                      <Badge key={tech} variant="secondary" className="text-xs">
-                        {tech}
-                      </Badge>
-                    ))}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {canScheduleInterviews && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setInterviewTalent(pt)}
+                      >
+                        <CalendarPlus className="mr-2 h-4 w-4" />
+                        Interview
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setProfileTalent(pt)}
+                    >
+                      <FileText className="mr-2 h-4 w-4" />
+                      {pt.profileFileUrl ? 'Client Profile' : 'Create Profile'}
+                    </Button>
+                    <Select
+                      value={pt.stage}
+                      onValueChange={(value) =>
+                        handleStageChange(pt, value as TalentStage)
+                      }
+                      disabled={updating === pt.id || nextStages.length === 0}
+                    >
+                      <SelectTrigger className="w-[180px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[pt.stage, ...nextStages].map((stage) => (
+                          <SelectItem key={stage} value={stage}>
+                            {talentStageLabels[stage]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemove(pt.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
                   </div>
                 </div>
-                <div className="flex items-center gap-2">
-                  <Select
-                    value={pc.stage}
-                    onValueChange={(value) => handleStageChange(pc.id, value)}
-                    disabled={updating === pc.id}
-                  >
-                    <SelectTrigger className="w-[180px]">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {stages.map((stage) => (
-                        <SelectItem key={stage} value={stage}>
-                          {candidateStageLabels[stage]}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => handleRemove(pc.id)}
-                  >
-                    <Trash2 className="h-4 w-4 text-red-500" />
-                  </Button>
-                </div>
-              </div>
-            ))}
+              )
+            })}
           </div>
         </CardContent>
       </Card>
+
+      {stageChange && (
+        <TalentStageDialog
+          open={!!stageChange}
+          onOpenChange={(open) => !open && setStageChange(null)}
+          projectTalent={{
+            id: stageChange.talent.id,
+            talentName: (stageChange.talent.candidate ?? stageChange.talent.engineer)?.fullName || '',
+            clientFeedback: stageChange.talent.clientFeedback,
+            submittedAt: stageChange.talent.submittedAt,
+            startDate: stageChange.talent.startDate,
+          }}
+          stage={stageChange.stage}
+          onSuccess={() => {
+            setStageChange(null)
+            onRefresh()
+          }}
+        />
+      )}
+
+      {interviewTalent && (
+        <InterviewDialog
+          open={!!interviewTalent}
+          onOpenChange={(open) => !open && setInterviewTalent(null)}
+          projectTalent={{
+            id: interviewTalent.id,
+            talentName: (interviewTalent.candidate ?? interviewTalent.engineer)?.fullName || '',
+          }}
+          customerContacts={customerContacts}
+          onSuccess={() => {
+            setInterviewTalent(null)
+            onRefresh()
+          }}
+        />
+      )}
+
+      {profileTalent && (
+        <ClientProfileDialog
+          open={!!profileTalent}
+          onOpenChange={(open) => !open && setProfileTalent(null)}
+          projectTalent={{
+            id: profileTalent.id,
+            talentName: (profileTalent.candidate ?? profileTalent.engineer)?.fullName || '',
+            profileFileUrl: profileTalent.profileFileUrl,
+            profileGeneratedAt: profileTalent.profileGeneratedAt,
+          }}
+          onSuccess={() => {
+            setProfileTalent(null)
+            onRefresh()
+          }}
+        />
+      )}
     </div>
   )
 }
@@ -25,7 +25,6 @@ import {
   employmentStatusLabels,
   employmentStatusColors,
 } from '@/types'
-import { roleDisplayNames } from '@/lib/permissions'
 
 interface SearchResultItemProps {
   result: SearchResult
@@ -177,7 +176,7 @@ function UserResultContent({ result }: { result: UserSearchResult }) {
         <div className="truncate text-xs text-muted-foreground">{result.email}</div>
       </div>
       <Badge variant="outline" className="flex-shrink-0 text-[10px]">
-        {roleDisplayNames[result.role]}
+        {result.roleName}
       </Badge>
     </div>
   )
@@ -0,0 +1,43 @@
+'use client'
+
+import { Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+
+interface ExportMenuProps {
+  // Export endpoint, e.g. /api/candidates/export
+  endpoint: string
+  // Current list filters; empty values are left out
+  filters: Record<string, string>
+}
+
+export function ExportMenu({ endpoint, filters }: ExportMenuProps) {
+  const download = (format: 'csv' | 'xlsx') => {
+    const params = new URLSearchParams()
+    Object.keys(filters).forEach((key) => {
+      if (filters[key]) params.set(key, filters[key])
+    })
+    params.set('format', format)
+    window.location.href = `${endpoint}?${params}`
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline">
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => download('csv')}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => download('xlsx')}>Excel (XLSX)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
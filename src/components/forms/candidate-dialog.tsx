@@ -3,7 +3,8 @@
 import { useState, useEffect, useRef } from 'react'
 import { useForm } from 'react-hook-form'
 import { zodResolver } from '@hookform/resolvers/zod'
-import { Upload, FileText, X, Loader2 } from 'lucide-react'
+import Link from 'next/link'
+import { Upload, FileText, X, Loader2, Sparkles, Trash2, AlertTriangle } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
@@ -22,6 +23,11 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { candidateSchema, CandidateInput } from '@/lib/validations'
+import { buildSkillIndex, normalizeSkillInput, SkillIndex } from '@/lib/skills'
+import type { ParsedResume } from '@/lib/resume-parser'
+import type { DuplicateCandidate } from '@/lib/candidate-duplicates'
+import { waitForJob } from '@/lib/job-client'
+import { EmploymentHistoryEntry, RESUME_FILE_EXTENSIONS, TextExtractionStatus } from '@/types'
 
 interface CandidateDialogProps {
   open: boolean
@@ -45,6 +51,7 @@ interface CandidateDialogProps {
     resumeExtractedText: string | null
     resumeFileUrl: string | null
     resumeOriginalName: string | null
+    employmentHistory?: EmploymentHistoryEntry[]
   }
   onSuccess: () => void
 }
@@ -58,11 +65,20 @@ export function CandidateDialog({
   const [loading, setLoading] = useState(false)
   const [uploading, setUploading] = useState(false)
   const [technologies, setTechnologies] = useState('')
+  const [skillIndex, setSkillIndex] = useState<SkillIndex>(new Map())
   const [languages, setLanguages] = useState('')
   const [tags, setTags] = useState('')
+  const [employmentHistory, setEmploymentHistory] = useState<EmploymentHistoryEntry[]>([])
+  const [prefilledFields, setPrefilledFields] = useState<string[]>([])
+  // How well the uploaded CV's text could be read, when it wasn't read well
+  const [extractionStatus, setExtractionStatus] = useState<TextExtractionStatus | null>(null)
+  const [duplicates, setDuplicates] = useState<DuplicateCandidate[]>([])
+  const [allowDuplicate, setAllowDuplicate] = useState(false)
   const [uploadedFile, setUploadedFile] = useState<{
     name: string
     url: string
+    // Files can only be downloaded once they are on a saved candidate
+    saved: boolean
   } | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
@@ -71,6 +87,7 @@ export function CandidateDialog({
     handleSubmit,
     reset,
     setValue,
+    getValues,
     watch,
     formState: { errors },
   } = useForm<CandidateInput>({
@@ -79,6 +96,14 @@ export function CandidateDialog({
 
   const resumeText = watch('resumeExtractedText')
 
+  useEffect(() => {
+    // Taxonomy used to normalize skill aliases as they are typed
+    fetch('/api/skills')
+      .then((res) => res.json())
+      .then((data) => setSkillIndex(buildSkillIndex(data.data || [])))
+      .catch(console.error)
+  }, [])
+
   useEffect(() => {
     if (candidate) {
       setValue('fullName', candidate.fullName)
@@ -96,10 +121,12 @@ export function CandidateDialog({
       setTechnologies(candidate.technologies.join(', '))
       setLanguages(candidate.languages.join(', '))
       setTags(candidate.tags.join(', '))
+      setEmploymentHistory(candidate.employmentHistory || [])
       if (candidate.resumeFileUrl) {
         setUploadedFile({
           name: candidate.resumeOriginalName || candidate.resumeFileUrl.split('/').pop() || 'Resume',
           url: candidate.resumeFileUrl,
+          saved: true,
         })
       }
     } else {
@@ -107,23 +134,96 @@ export function CandidateDialog({
       setTechnologies('')
       setLanguages('')
       setTags('')
+      setEmploymentHistory([])
       setUploadedFile(null)
     }
+    setPrefilledFields([])
+    setExtractionStatus(null)
+    setDuplicates([])
+    setAllowDuplicate(false)
   }, [candidate, setValue, reset])
 
+  const checkDuplicates = async (fields: {
+    fullName?: string | null
+    email?: string | null
+    phone?: string | null
+    resumeExtractedText?: string | null
+  }) => {
+    try {
+      const res = await fetch('/api/candidates/duplicates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...fields, excludeId: candidate?.id }),
+      })
+      if (res.ok) {
+        const data = await res.json()
+        setDuplicates(data.data || [])
+      }
+    } catch (error) {
+      console.error('Error checking for duplicates:', error)
+    }
+  }
+
+  // Fill empty fields with the parser's suggestions; values already entered are kept
+  const applyResumeSuggestions = (parsed: ParsedResume) => {
+    const filled: string[] = []
+    const textFields = [
+      ['fullName', 'Name'],
+      ['email', 'Email'],
+      ['phone', 'Phone'],
+      ['location', 'Location'],
+      ['title', 'Title'],
+    ] as const
+
+    for (const [field, label] of textFields) {
+      const suggestion = parsed[field]
+      if (suggestion && !getValues(field)) {
+        setValue(field, suggestion)
+        filled.push(label)
+      }
+    }
+
+    const years = getValues('yearsExperience')
+    if (parsed.yearsExperience != null && (years == null || Number.isNaN(years))) {
+      setValue('yearsExperience', parsed.yearsExperience)
+      filled.push('Years of Experience')
+    }
+
+    const mergeList = (current: string, suggestions: string[]) => {
+      const existing = current.split(',').map((t) => t.trim()).filter(Boolean)
+      const lower = existing.map((t) => t.toLowerCase())
+      const added = suggestions.filter((t) => !lower.includes(t.toLowerCase()))
+      return { value: [...existing, ...added].join(', '), added: added.length > 0 }
+    }
+
+    const mergedTechnologies = mergeList(technologies, parsed.technologies)
+    if (mergedTechnologies.added) {
+      setTechnologies(normalizeSkillInput(mergedTechnologies.value, skillIndex))
+      filled.push('Technologies')
+    }
+
+    const mergedLanguages = mergeList(languages, parsed.languages)
+    if (mergedLanguages.added) {
+      setLanguages(mergedLanguages.value)
+      filled.push('Languages')
+    }
+
+    if (parsed.employmentHistory.length > 0 && employmentHistory.length === 0) {
+      setEmploymentHistory(parsed.employmentHistory)
+      filled.push('Employment History')
+    }
+
+    setPrefilledFields(filled)
+  }
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file) return
 
     // Validate file type
-    const allowedTypes = [
-      'application/pdf',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'application/msword',
-    ]
-
-    if (!allowedTypes.includes(file.type)) {
-      alert('Please upload a PDF or Word document')
+    const extension = file.name.split('.').pop()?.toLowerCase() || ''
+    if (!RESUME_FILE_EXTENSIONS.includes(extension)) {
+      alert('Please upload a PDF, Word, RTF, ODT, text or HTML document')
       return
     }
 
@@ -148,10 +248,40 @@ export function CandidateDialog({
         setUploadedFile({
           name: data.data.originalName,
           url: data.data.url,
+          saved: false,
         })
+
+        // Text extraction runs as a background job
+        let extraction: {
+          extractedText: string
+          parsed: ParsedResume | null
+          status: TextExtractionStatus
+        }
+        setExtractionStatus(null)
+        try {
+          extraction = await waitForJob(data.data.extractionJobId)
+        } catch (error) {
+          console.error('Resume extraction error:', error)
+          alert('The CV was uploaded, but its text could not be extracted.')
+          return
+        }
+
+        if (extraction.status === 'FAILED' || extraction.status === 'LOW_QUALITY') {
+          setExtractionStatus(extraction.status)
+        }
+
         // Auto-fill the extracted text
-        if (data.data.extractedText) {
-          setValue('resumeExtractedText', data.data.extractedText)
+        if (extraction.extractedText) {
+          setValue('resumeExtractedText', extraction.extractedText)
+        }
+        if (extraction.parsed) {
+          applyResumeSuggestions(extraction.parsed)
+          checkDuplicates({
+            fullName: getValues('fullName') || extraction.parsed.fullName,
+            email: getValues('email') || extraction.parsed.email,
+            phone: getValues('phone') || extraction.parsed.phone,
+            resumeExtractedText: extraction.extractedText,
+          })
         }
       } else {
         alert(data.error || 'Failed to upload file')
@@ -167,8 +297,15 @@ export function CandidateDialog({
     }
   }
 
+  const updateEmployment = (index: number, changes: Partial<EmploymentHistoryEntry>) => {
+    setEmploymentHistory(
+      employmentHistory.map((entry, i) => (i === index ? { ...entry, ...changes } : entry))
+    )
+  }
+
   const removeFile = () => {
     setUploadedFile(null)
+    setExtractionStatus(null)
     if (fileInputRef.current) {
       fileInputRef.current.value = ''
     }
@@ -182,11 +319,14 @@ export function CandidateDialog({
         technologies: technologies.split(',').map((t) => t.trim()).filter(Boolean),
         languages: languages.split(',').map((t) => t.trim()).filter(Boolean),
         tags: tags.split(',').map((t) => t.trim()).filter(Boolean),
+        employmentHistory: employmentHistory.filter((entry) => entry.title.trim()),
         resumeFileUrl: uploadedFile?.url || null,
         resumeOriginalName: uploadedFile?.name || null,
       }
 
-      const url = candidate ? `/api/candidates/${candidate.id}` : '/api/candidates'
+      const url = candidate
+        ? `/api/candidates/${candidate.id}`
+        : `/api/candidates${allowDuplicate ? '?allowDuplicate=true' : ''}`
       const method = candidate ? 'PUT' : 'POST'
 
       const res = await fetch(url, {
@@ -199,6 +339,14 @@ export function CandidateDialog({
         onSuccess()
         reset()
         setUploadedFile(null)
+        setEmploymentHistory([])
+        setPrefilledFields([])
+        setExtractionStatus(null)
+        setDuplicates([])
+        setAllowDuplicate(false)
+      } else if (res.status === 409) {
+        const errorData = await res.json()
+        setDuplicates(errorData.duplicates || [])
       } else {
         const errorData = await res.json()
         alert(errorData.error || 'Failed to save candidate')
@@ -221,6 +369,49 @@ export function CandidateDialog({
         </DialogHeader>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {duplicates.length > 0 && (
+            <div className="rounded border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-900">
+              <div className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="h-4 w-4" />
+                Possible duplicate{duplicates.length > 1 ? 's' : ''} found
+              </div>
+              <ul className="mt-2 space-y-1">
+                {duplicates.map((duplicate) => (
+                  <li key={duplicate.id}>
+                    <Link
+                      href={`/candidates/${duplicate.id}`}
+                      target="_blank"
+                      className="font-medium text-blue-600 hover:underline"
+                    >
+                      {duplicate.fullName}
+                    </Link>
+                    {duplicate.title && <span className="text-gray-600"> - {duplicate.title}</span>}
+                    <span className="text-xs text-yellow-700"> ({duplicate.reasons.join(', ')})</span>
+                  </li>
+                ))}
+              </ul>
+              {!candidate && (
+                <div className="mt-2 flex items-center justify-between gap-2">
+                  <span className="text-xs">
+                    {allowDuplicate
+                      ? 'This candidate will be saved as a separate person.'
+                      : 'Review the existing candidate before creating a new one.'}
+                  </span>
+                  {!allowDuplicate && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setAllowDuplicate(true)}
+                    >
+                      Not a duplicate
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <Label htmlFor="fullName">Full Name *</Label>
@@ -319,6 +510,7 @@ export function CandidateDialog({
               id="technologies"
               value={technologies}
               onChange={(e) => setTechnologies(e.target.value)}
+              onBlur={() => setTechnologies(normalizeSkillInput(technologies, skillIndex))}
               placeholder="React, Node.js, TypeScript, PostgreSQL"
             />
           </div>
@@ -333,6 +525,63 @@ export function CandidateDialog({
             />
           </div>
 
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Employment History</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setEmploymentHistory([
+                    ...employmentHistory,
+                    { title: '', company: '', startDate: '', endDate: null },
+                  ])
+                }
+              >
+                Add Role
+              </Button>
+            </div>
+            {employmentHistory.length === 0 ? (
+              <p className="text-sm text-gray-500">No roles added. Uploading a CV suggests them.</p>
+            ) : (
+              employmentHistory.map((entry, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1fr_6rem_6rem_auto] gap-2">
+                  <Input
+                    value={entry.title}
+                    onChange={(e) => updateEmployment(index, { title: e.target.value })}
+                    placeholder="Title"
+                  />
+                  <Input
+                    value={entry.company}
+                    onChange={(e) => updateEmployment(index, { company: e.target.value })}
+                    placeholder="Company"
+                  />
+                  <Input
+                    value={entry.startDate}
+                    onChange={(e) => updateEmployment(index, { startDate: e.target.value })}
+                    placeholder="From"
+                  />
+                  <Input
+                    value={entry.endDate || ''}
+                    onChange={(e) => updateEmployment(index, { endDate: e.target.value || null })}
+                    placeholder="Present"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() =>
+                      setEmploymentHistory(employmentHistory.filter((_, i) => i !== index))
+                    }
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </div>
+
           <div className="space-y-2">
             <Label htmlFor="summaryPublic">Public Summary</Label>
             <Textarea
@@ -375,7 +624,7 @@ export function CandidateDialog({
 
           {/* CV Upload Section */}
           <div className="space-y-2">
-            <Label>Upload CV (PDF or Word)</Label>
+            <Label>Upload CV (PDF, Word, RTF, ODT, text or HTML)</Label>
             <div className="border-2 border-dashed border-gray-200 rounded-lg p-4">
               {uploadedFile ? (
                 <div className="flex items-center justify-between bg-gray-50 rounded p-3">
@@ -384,14 +633,16 @@ export function CandidateDialog({
                     <span className="text-sm font-medium">{uploadedFile.name}</span>
                   </div>
                   <div className="flex items-center gap-2">
-                    <a
-                      href={uploadedFile.url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-sm text-blue-600 hover:underline"
-                    >
-                      View
-                    </a>
+                    {uploadedFile.saved && (
+                      <a
+                        href={uploadedFile.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-sm text-blue-600 hover:underline"
+                      >
+                        View
+                      </a>
+                    )}
                     <button
                       type="button"
                       onClick={removeFile}
@@ -406,7 +657,7 @@ export function CandidateDialog({
                   <input
                     ref={fileInputRef}
                     type="file"
-                    accept=".pdf,.doc,.docx,application/pdf,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+                    accept={RESUME_FILE_EXTENSIONS.map((extension) => `.${extension}`).join(',')}
                     onChange={handleFileUpload}
                     className="hidden"
                     id="cv-upload"
@@ -426,11 +677,32 @@ export function CandidateDialog({
                     <span className="mt-2 text-sm text-gray-500">
                       {uploading ? 'Uploading & extracting text...' : 'Click to upload CV'}
                     </span>
-                    <span className="text-xs text-gray-400">PDF or Word, max 10MB</span>
+                    <span className="text-xs text-gray-400">
+                      PDF, Word, RTF, ODT, text or HTML, max 10MB
+                    </span>
                   </label>
                 </div>
               )}
             </div>
+            {extractionStatus && (
+              <div className="flex items-start gap-2 rounded border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-900">
+                <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+                <span>
+                  {extractionStatus === 'FAILED'
+                    ? 'No usable text could be read from this CV.'
+                    : 'Only part of this CV could be read, or the text looks garbled.'}{' '}
+                  Check the resume content below, or paste it in, since it is used for matching.
+                </span>
+              </div>
+            )}
+            {prefilledFields.length > 0 && (
+              <div className="flex items-start gap-2 rounded bg-blue-50 p-3 text-sm text-blue-800">
+                <Sparkles className="mt-0.5 h-4 w-4 shrink-0" />
+                <span>
+                  Pre-filled from CV: {prefilledFields.join(', ')}. Please review before saving.
+                </span>
+              </div>
+            )}
           </div>
 
           <div className="space-y-2">
@@ -0,0 +1,259 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { waitForJob } from '@/lib/job-client'
+import {
+  candidateDocumentTypeLabels,
+  documentVisibilityLabels,
+  CandidateDocumentType,
+  DocumentVisibility,
+  RESUME_FILE_EXTENSIONS,
+} from '@/types'
+
+interface CandidateDocumentDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  candidateId: string
+  // Upload a new version of this document, or (with editOnly) rename it or
+  // change its visibility. Without it a new document is uploaded.
+  document?: {
+    id: string
+    type: CandidateDocumentType
+    title: string
+    visibility: DocumentVisibility
+  }
+  editOnly?: boolean
+  onSuccess: () => void
+}
+
+const RESUME_ACCEPT = RESUME_FILE_EXTENSIONS.map((extension) => `.${extension}`).join(',')
+const DOCUMENT_ACCEPT = `${RESUME_ACCEPT},.png,.jpg,.jpeg,image/png,image/jpeg`
+
+export function CandidateDocumentDialog({
+  open,
+  onOpenChange,
+  candidateId,
+  document,
+  editOnly = false,
+  onSuccess,
+}: CandidateDocumentDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [status, setStatus] = useState<string | null>(null)
+  const [file, setFile] = useState<File | null>(null)
+  const [type, setType] = useState<CandidateDocumentType>('RESUME')
+  const [title, setTitle] = useState('')
+  const [visibility, setVisibility] = useState<DocumentVisibility>('FULL_ACCESS')
+  const [useForMatching, setUseForMatching] = useState(true)
+
+  useEffect(() => {
+    if (!open) return
+    setFile(null)
+    setStatus(null)
+    setType(document?.type ?? 'RESUME')
+    setTitle(document?.title ?? '')
+    setVisibility(document?.visibility ?? 'FULL_ACCESS')
+    setUseForMatching(true)
+  }, [open, document])
+
+  const handleEdit = async () => {
+    if (!document) return
+    const res = await fetch(`/api/candidates/${candidateId}/documents/${document.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title, visibility }),
+    })
+
+    if (res.ok) {
+      onSuccess()
+    } else {
+      const errorData = await res.json()
+      alert(errorData.error || 'Failed to update document')
+    }
+  }
+
+  const handleUpload = async () => {
+    if (!file) {
+      alert('Choose a file to upload')
+      return
+    }
+
+    const formData = new FormData()
+    formData.append('file', file)
+    if (document) {
+      formData.append('documentId', document.id)
+    } else {
+      formData.append('type', type)
+      formData.append('visibility', visibility)
+      if (title) formData.append('title', title)
+    }
+    if (type === 'RESUME') {
+      formData.append('useForMatching', String(useForMatching))
+    }
+
+    const res = await fetch(`/api/candidates/${candidateId}/documents`, {
+      method: 'POST',
+      body: formData,
+    })
+    const data = await res.json()
+
+    if (!res.ok) {
+      alert(data.error || 'Failed to upload document')
+      return
+    }
+
+    // Wait for the resume's text so the candidate page shows it straight away
+    if (data.data.extractionJobId) {
+      setStatus('Extracting text...')
+      try {
+        await waitForJob(data.data.extractionJobId)
+      } catch (error) {
+        console.error('Resume extraction error:', error)
+        alert('The CV was uploaded, but its text could not be extracted.')
+      }
+    }
+    onSuccess()
+  }
+
+  const handleSubmit = async () => {
+    setLoading(true)
+    try {
+      await (editOnly ? handleEdit() : handleUpload())
+    } catch (error) {
+      console.error('Error saving document:', error)
+      alert('Failed to save document')
+    } finally {
+      setLoading(false)
+      setStatus(null)
+    }
+  }
+
+  const dialogTitle = editOnly
+    ? `Edit ${document?.title}`
+    : document
+      ? `New Version of ${document.title}`
+      : 'Upload Document'
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{dialogTitle}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!editOnly && (
+            <div className="space-y-2">
+              <Label htmlFor="document-file">File</Label>
+              <Input
+                id="document-file"
+                type="file"
+                accept={type === 'RESUME' ? RESUME_ACCEPT : DOCUMENT_ACCEPT}
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+              />
+              <p className="text-xs text-gray-500">
+                {type === 'RESUME'
+                  ? 'PDF, Word, RTF, ODT, text or HTML, up to 10MB'
+                  : 'PDF, Word, RTF, ODT, text, HTML, PNG or JPEG, up to 10MB'}
+              </p>
+            </div>
+          )}
+
+          {!document && (
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={type}
+                onValueChange={(value) => setType(value as CandidateDocumentType)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(candidateDocumentTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {(editOnly || !document) && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="document-title">Title</Label>
+                <Input
+                  id="document-title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder={type === 'RESUME' ? 'CV' : 'Defaults to the file name'}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Visible To</Label>
+                <Select
+                  value={visibility}
+                  onValueChange={(value) => setVisibility(value as DocumentVisibility)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(documentVisibilityLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          {!editOnly && type === 'RESUME' && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={useForMatching}
+                onChange={(e) => setUseForMatching(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Use this version for matching and search
+            </label>
+          )}
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="button" disabled={loading} onClick={handleSubmit}>
+              {loading ? status || 'Saving...' : editOnly ? 'Save' : 'Upload'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
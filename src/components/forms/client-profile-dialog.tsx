@@ -0,0 +1,159 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { formatDate, formatDateTime } from '@/lib/utils'
+import { InterviewNote } from '@/types'
+
+interface ClientProfileDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  projectTalent: {
+    id: string
+    talentName: string
+    profileFileUrl: string | null
+    profileGeneratedAt: string | null
+  }
+  onSuccess: () => void
+}
+
+export function ClientProfileDialog({
+  open,
+  onOpenChange,
+  projectTalent,
+  onSuccess,
+}: ClientProfileDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [notes, setNotes] = useState<InterviewNote[]>([])
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+
+  // Interview notes live on the candidate (or the candidate an engineer was converted from)
+  useEffect(() => {
+    if (!open) return
+    setSelected(new Set())
+    fetch(`/api/project-talents/${projectTalent.id}`)
+      .then((res) => res.json())
+      .then((data) => {
+        const candidate = data.data?.candidate ?? data.data?.engineer?.linkedCandidate
+        setNotes((candidate?.interviewNotes as InterviewNote[]) || [])
+      })
+      .catch(console.error)
+  }, [open, projectTalent.id])
+
+  const toggleNote = (index: number) => {
+    const next = new Set(selected)
+    if (next.has(index)) {
+      next.delete(index)
+    } else {
+      next.add(index)
+    }
+    setSelected(next)
+  }
+
+  const handleGenerate = async () => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/project-talents/${projectTalent.id}/profile`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ interviewNoteIndexes: Array.from(selected) }),
+      })
+
+      if (res.ok) {
+        onSuccess()
+        window.location.href = `/api/project-talents/${projectTalent.id}/profile`
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to generate client profile')
+      }
+    } catch (error) {
+      console.error('Error generating client profile:', error)
+      alert('Failed to generate client profile')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Client Profile for {projectTalent.talentName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500">
+            The PDF uses the public summary, technologies, seniority and experience. Contact
+            details, the internal summary and salary are never included, and the name is
+            shortened to a last initial.
+          </p>
+
+          {projectTalent.profileFileUrl && (
+            <div className="flex items-center justify-between rounded border p-2 text-sm">
+              <span>Generated {formatDateTime(projectTalent.profileGeneratedAt)}</span>
+              <a href={`/api/project-talents/${projectTalent.id}/profile`}>
+                <Button type="button" variant="outline" size="sm">
+                  <Download className="mr-2 h-4 w-4" />
+                  Download
+                </Button>
+              </a>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Interview Notes to Include</Label>
+            {notes.length === 0 ? (
+              <p className="text-sm text-gray-500">No interview notes recorded</p>
+            ) : (
+              notes.map((note, index) => (
+                <label
+                  key={index}
+                  className="flex cursor-pointer gap-2 rounded border p-2 text-sm hover:bg-gray-50"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selected.has(index)}
+                    onChange={() => toggleNote(index)}
+                    className="mt-1"
+                  />
+                  <div>
+                    <div className="text-xs text-gray-500">
+                      {formatDate(note.date)}
+                      {note.score != null && ` - Score ${note.score}/5`}
+                    </div>
+                    <div className="line-clamp-3">{note.notes}</div>
+                  </div>
+                </label>
+              ))
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="button" disabled={loading} onClick={handleGenerate}>
+              {loading
+                ? 'Generating...'
+                : projectTalent.profileFileUrl
+                  ? 'Regenerate PDF'
+                  : 'Generate PDF'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -20,6 +20,7 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { engineerSchema, EngineerInput } from '@/lib/validations'
+import { buildSkillIndex, normalizeSkillInput, SkillIndex } from '@/lib/skills'
 
 interface EngineerDialogProps {
   open: boolean
@@ -49,6 +50,7 @@ export function EngineerDialog({
 }: EngineerDialogProps) {
   const [loading, setLoading] = useState(false)
   const [technologies, setTechnologies] = useState('')
+  const [skillIndex, setSkillIndex] = useState<SkillIndex>(new Map())
   const [managers, setManagers] = useState<Array<{ id: string; fullName: string }>>([])
 
   const {
@@ -78,6 +80,14 @@ export function EngineerDialog({
       .catch(console.error)
   }, [engineer?.id])
 
+  useEffect(() => {
+    // Taxonomy used to normalize skill aliases as they are typed
+    fetch('/api/skills')
+      .then((res) => res.json())
+      .then((data) => setSkillIndex(buildSkillIndex(data.data || [])))
+      .catch(console.error)
+  }, [])
+
   useEffect(() => {
     if (engineer) {
       setValue('fullName', engineer.fullName)
@@ -286,6 +296,7 @@ export function EngineerDialog({
               id="technologies"
               value={technologies}
               onChange={(e) => setTechnologies(e.target.value)}
+              onBlur={() => setTechnologies(normalizeSkillInput(technologies, skillIndex))}
               placeholder="React, Node.js, TypeScript, PostgreSQL"
             />
           </div>
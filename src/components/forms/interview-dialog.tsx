@@ -0,0 +1,277 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Contact } from '@/types'
+
+interface Interviewer {
+  id: string
+  fullName: string
+  email: string
+}
+
+interface InterviewDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  projectTalent: {
+    id: string
+    talentName: string
+  }
+  customerContacts: Contact[]
+  interview?: {
+    id: string
+    round: number
+    title: string | null
+    scheduledAt: string
+    durationMinutes: number
+    location: string | null
+    meetingUrl: string | null
+    customerContacts: Contact[]
+    interviewers: Interviewer[]
+  } | null
+  onSuccess: () => void
+}
+
+const durations = [30, 45, 60, 90, 120]
+
+// datetime-local inputs work in the browser's local time without a zone
+function toLocalInputValue(iso: string): string {
+  const date = new Date(iso)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+export function InterviewDialog({
+  open,
+  onOpenChange,
+  projectTalent,
+  customerContacts,
+  interview,
+  onSuccess,
+}: InterviewDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [users, setUsers] = useState<Interviewer[]>([])
+  const [title, setTitle] = useState('')
+  const [scheduledAt, setScheduledAt] = useState('')
+  const [durationMinutes, setDurationMinutes] = useState(60)
+  const [location, setLocation] = useState('')
+  const [meetingUrl, setMeetingUrl] = useState('')
+  const [interviewerIds, setInterviewerIds] = useState<string[]>([])
+  const [contactNames, setContactNames] = useState<string[]>([])
+
+  const isEditing = !!interview
+
+  useEffect(() => {
+    if (!open) return
+    fetch('/api/interviews/interviewers')
+      .then((res) => res.json())
+      .then((data) => setUsers(data.data || []))
+      .catch(console.error)
+
+    setTitle(interview?.title || '')
+    setScheduledAt(interview ? toLocalInputValue(interview.scheduledAt) : '')
+    setDurationMinutes(interview?.durationMinutes || 60)
+    setLocation(interview?.location || '')
+    setMeetingUrl(interview?.meetingUrl || '')
+    setInterviewerIds(interview?.interviewers.map((u) => u.id) || [])
+    setContactNames(interview?.customerContacts.map((c) => c.name) || [])
+  }, [open, interview])
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value]
+
+  // Contacts saved on the interview stay selectable even if removed from the customer
+  const availableContacts = [
+    ...customerContacts.filter((c) => c.name),
+    ...(interview?.customerContacts || []).filter(
+      (saved) => !customerContacts.some((c) => c.name === saved.name)
+    ),
+  ]
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (interviewerIds.length === 0) {
+      alert('Select at least one interviewer')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const url = isEditing ? `/api/interviews/${interview.id}` : '/api/interviews'
+      const res = await fetch(url, {
+        method: isEditing ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(!isEditing && { projectTalentId: projectTalent.id }),
+          title: title || null,
+          scheduledAt: new Date(scheduledAt).toISOString(),
+          durationMinutes,
+          location: location || null,
+          meetingUrl: meetingUrl || null,
+          interviewerUserIds: interviewerIds,
+          customerContacts: availableContacts
+            .filter((c) => contactNames.includes(c.name))
+            .map(({ name, title, email }) => ({ name, title, email })),
+        }),
+      })
+
+      if (res.ok) {
+        onSuccess()
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to save interview')
+      }
+    } catch (error) {
+      console.error('Error saving interview:', error)
+      alert('Failed to save interview')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing
+              ? `Edit Round ${interview.round} Interview`
+              : `Schedule Interview with ${projectTalent.talentName}`}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="title">Title</Label>
+            <Input
+              id="title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Technical interview"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="scheduledAt">Date & Time *</Label>
+              <Input
+                id="scheduledAt"
+                type="datetime-local"
+                value={scheduledAt}
+                onChange={(e) => setScheduledAt(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Duration</Label>
+              <Select
+                value={String(durationMinutes)}
+                onValueChange={(value) => setDurationMinutes(parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {durations.map((minutes) => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {minutes} minutes
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="location">Location</Label>
+              <Input
+                id="location"
+                value={location}
+                onChange={(e) => setLocation(e.target.value)}
+                placeholder="Office, room..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="meetingUrl">Meeting Link</Label>
+              <Input
+                id="meetingUrl"
+                type="url"
+                value={meetingUrl}
+                onChange={(e) => setMeetingUrl(e.target.value)}
+                placeholder="https://"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Interviewers *</Label>
+            <div className="max-h-40 space-y-1 overflow-y-auto rounded border p-2">
+              {users.map((user) => (
+                <label key={user.id} className="flex cursor-pointer items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={interviewerIds.includes(user.id)}
+                    onChange={() => setInterviewerIds(toggle(interviewerIds, user.id))}
+                  />
+                  {user.fullName}
+                  <span className="text-gray-500">{user.email}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Customer Contacts</Label>
+            {availableContacts.length === 0 ? (
+              <p className="text-sm text-gray-500">No contacts recorded for this customer</p>
+            ) : (
+              <div className="space-y-1 rounded border p-2">
+                {availableContacts.map((contact) => (
+                  <label key={contact.name} className="flex cursor-pointer items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={contactNames.includes(contact.name)}
+                      onChange={() => setContactNames(toggle(contactNames, contact.name))}
+                    />
+                    {contact.name}
+                    {contact.title && <span className="text-gray-500">{contact.title}</span>}
+                    {!contact.email && <span className="text-xs text-gray-400">(no email, not invited)</span>}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : isEditing ? 'Save' : 'Schedule'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
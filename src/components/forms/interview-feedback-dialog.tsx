@@ -0,0 +1,156 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { interviewRecommendationLabels, InterviewRecommendation } from '@/types'
+
+interface InterviewFeedbackDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  interview: {
+    id: string
+    round: number
+    talentName: string
+  }
+  existingFeedback?: {
+    score: number | null
+    recommendation: InterviewRecommendation | null
+    notes: string
+  } | null
+  onSuccess: () => void
+}
+
+export function InterviewFeedbackDialog({
+  open,
+  onOpenChange,
+  interview,
+  existingFeedback,
+  onSuccess,
+}: InterviewFeedbackDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [score, setScore] = useState('')
+  const [recommendation, setRecommendation] = useState('')
+  const [notes, setNotes] = useState('')
+
+  useEffect(() => {
+    if (!open) return
+    setScore(existingFeedback?.score ? String(existingFeedback.score) : '')
+    setRecommendation(existingFeedback?.recommendation || '')
+    setNotes(existingFeedback?.notes || '')
+  }, [open, existingFeedback])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/interviews/${interview.id}/feedback`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          score: score ? parseInt(score) : null,
+          recommendation: recommendation || null,
+          notes,
+        }),
+      })
+
+      if (res.ok) {
+        onSuccess()
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to save feedback')
+      }
+    } catch (error) {
+      console.error('Error saving feedback:', error)
+      alert('Failed to save feedback')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>
+            Round {interview.round} Feedback for {interview.talentName}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Score (1-5)</Label>
+              <Select value={score} onValueChange={setScore}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select score" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="1">1 - Poor</SelectItem>
+                  <SelectItem value="2">2 - Below Average</SelectItem>
+                  <SelectItem value="3">3 - Average</SelectItem>
+                  <SelectItem value="4">4 - Good</SelectItem>
+                  <SelectItem value="5">5 - Excellent</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Recommendation</Label>
+              <Select value={recommendation} onValueChange={setRecommendation}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select recommendation" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(interviewRecommendationLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="feedbackNotes">Notes *</Label>
+            <Textarea
+              id="feedbackNotes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Technical assessment, communication, cultural fit, etc."
+              rows={6}
+              required
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : 'Save Feedback'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,198 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Search } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import type { DuplicateCandidate } from '@/lib/candidate-duplicates'
+
+interface CandidateOption {
+  id: string
+  fullName: string
+  title: string | null
+  email?: string | null
+  reasons?: string[]
+}
+
+interface MergeCandidateDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  candidate: {
+    id: string
+    fullName: string
+    email: string | null
+    phone: string | null
+    resumeExtractedText: string | null
+  }
+  onSuccess: () => void
+}
+
+export function MergeCandidateDialog({
+  open,
+  onOpenChange,
+  candidate,
+  onSuccess,
+}: MergeCandidateDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [search, setSearch] = useState('')
+  const [suggestions, setSuggestions] = useState<CandidateOption[]>([])
+  const [results, setResults] = useState<CandidateOption[]>([])
+  const [selected, setSelected] = useState<CandidateOption | null>(null)
+
+  // Suggest likely duplicates of this candidate when the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setSelected(null)
+    setSearch('')
+    setResults([])
+    fetch('/api/candidates/duplicates', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        fullName: candidate.fullName,
+        email: candidate.email,
+        phone: candidate.phone,
+        resumeExtractedText: candidate.resumeExtractedText,
+        excludeId: candidate.id,
+      }),
+    })
+      .then((res) => res.json())
+      .then((data) => setSuggestions((data.data || []) as DuplicateCandidate[]))
+      .catch(console.error)
+  }, [open, candidate])
+
+  useEffect(() => {
+    if (!search.trim()) {
+      setResults([])
+      return
+    }
+    const timeout = setTimeout(() => {
+      fetch(`/api/candidates?search=${encodeURIComponent(search)}&pageSize=10`)
+        .then((res) => res.json())
+        .then((data) =>
+          setResults(
+            (data.data || []).filter((c: CandidateOption) => c.id !== candidate.id)
+          )
+        )
+        .catch(console.error)
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [search, candidate.id])
+
+  const handleMerge = async () => {
+    if (!selected) return
+    if (
+      !confirm(
+        `Merge "${selected.fullName}" into "${candidate.fullName}"? ` +
+          'Interview notes, projects, tags and resume are moved over and the duplicate is deleted.'
+      )
+    ) {
+      return
+    }
+
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/candidates/${candidate.id}/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceCandidateId: selected.id }),
+      })
+
+      if (res.ok) {
+        onSuccess()
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to merge candidates')
+      }
+    } catch (error) {
+      console.error('Error merging candidates:', error)
+      alert('Failed to merge candidates')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const renderOption = (option: CandidateOption) => (
+    <button
+      key={option.id}
+      type="button"
+      onClick={() => setSelected(option)}
+      className={`w-full rounded border p-2 text-left text-sm hover:bg-gray-50 ${
+        selected?.id === option.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+      }`}
+    >
+      <div className="font-medium">{option.fullName}</div>
+      <div className="text-xs text-gray-500">
+        {[option.title, option.email].filter(Boolean).join(' - ')}
+      </div>
+      {option.reasons && option.reasons.length > 0 && (
+        <div className="text-xs text-yellow-700">{option.reasons.join(', ')}</div>
+      )}
+    </button>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge Duplicate into {candidate.fullName}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {suggestions.length > 0 && (
+            <div className="space-y-2">
+              <Label>Suggested Duplicates</Label>
+              {suggestions.map(renderOption)}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="merge-search">Find Candidate</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+              <Input
+                id="merge-search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search by name or title..."
+                className="pl-9"
+              />
+            </div>
+            {results.map(renderOption)}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            The selected candidate is deleted. Empty fields here are filled from it, and where
+            both are on the same project this candidate&apos;s pipeline entry is kept, with the
+            other entry&apos;s interviews moved onto it.
+          </p>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              disabled={!selected || loading}
+              onClick={handleMerge}
+            >
+              {loading ? 'Merging...' : 'Merge'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
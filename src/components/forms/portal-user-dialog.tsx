@@ -0,0 +1,154 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { portalUserSchema, PortalUserInput } from '@/lib/validations'
+import { Contact } from '@/types'
+
+interface PortalUserDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  customerId: string
+  // Customer contacts with an email, offered as a quick pick
+  contacts: Contact[]
+  onSuccess: () => void
+}
+
+export function PortalUserDialog({
+  open,
+  onOpenChange,
+  customerId,
+  contacts,
+  onSuccess,
+}: PortalUserDialogProps) {
+  const [loading, setLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    formState: { errors },
+  } = useForm<PortalUserInput>({
+    resolver: zodResolver(portalUserSchema),
+    defaultValues: { sendInvite: true },
+  })
+
+  useEffect(() => {
+    if (open) reset({ fullName: '', email: '', sendInvite: true })
+  }, [open, reset])
+
+  const pickContact = (contact: Contact) => {
+    setValue('fullName', contact.name)
+    setValue('email', contact.email || '')
+  }
+
+  const onSubmit = async (data: PortalUserInput) => {
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/customers/${customerId}/portal-users`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      })
+
+      if (res.ok) {
+        const result = await res.json()
+        if (data.sendInvite && !result.inviteSent) {
+          alert('Portal access was granted, but the sign-in link could not be emailed. Try resending it.')
+        }
+        onSuccess()
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to grant portal access')
+      }
+    } catch (error) {
+      console.error('Error granting portal access:', error)
+      alert('Failed to grant portal access')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const emailContacts = contacts.filter((c) => c.email)
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Grant Portal Access</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          {emailContacts.length > 0 && (
+            <div className="space-y-2">
+              <Label>From contacts</Label>
+              <div className="flex flex-wrap gap-2">
+                {emailContacts.map((contact) => (
+                  <Button
+                    key={contact.email}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => pickContact(contact)}
+                  >
+                    {contact.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="portalFullName">Full Name *</Label>
+            <Input id="portalFullName" {...register('fullName')} placeholder="Jane Smith" />
+            {errors.fullName && (
+              <p className="text-sm text-red-500">{errors.fullName.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="portalEmail">Email *</Label>
+            <Input
+              id="portalEmail"
+              type="email"
+              {...register('email')}
+              placeholder="jane@customer.com"
+            />
+            {errors.email && (
+              <p className="text-sm text-red-500">{errors.email.message}</p>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" {...register('sendInvite')} className="rounded border-gray-300" />
+            Email a sign-in link now
+          </label>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : 'Grant Access'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
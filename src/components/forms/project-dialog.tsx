@@ -21,6 +21,7 @@ import {
   SelectValue,
 } from '@/components/ui/select'
 import { projectSchema, ProjectInput } from '@/lib/validations'
+import { buildSkillIndex, normalizeSkillInput, SkillIndex } from '@/lib/skills'
 import { ProjectCategory } from '@/types'
 
 interface Customer {
@@ -33,6 +34,12 @@ interface User {
   fullName: string
 }
 
+interface ScoringProfile {
+  id: string
+  name: string
+  isDefault: boolean
+}
+
 interface ProjectDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
@@ -53,6 +60,7 @@ interface ProjectDialogProps {
     remotePolicy: string | null
     languageRequirements: string[]
     headcount: number | null
+    scoringProfileId?: string | null
     customer: { id: string }
     assignedUsers: Array<{ user: { id: string } }>
   }
@@ -70,6 +78,8 @@ export function ProjectDialog({
   const [loading, setLoading] = useState(false)
   const [customers, setCustomers] = useState<Customer[]>([])
   const [users, setUsers] = useState<User[]>([])
+  const [scoringProfiles, setScoringProfiles] = useState<ScoringProfile[]>([])
+  const [skillIndex, setSkillIndex] = useState<SkillIndex>(new Map())
   const [technologies, setTechnologies] = useState('')
   const [mustHave, setMustHave] = useState('')
   const [niceToHave, setNiceToHave] = useState('')
@@ -90,10 +100,14 @@ export function ProjectDialog({
     Promise.all([
       fetch('/api/customers').then((r) => r.json()),
       fetch('/api/users').then((r) => r.json()),
+      fetch('/api/scoring-profiles').then((r) => r.json()),
+      fetch('/api/skills').then((r) => r.json()),
     ])
-      .then(([customersData, usersData]) => {
+      .then(([customersData, usersData, profilesData, skillsData]) => {
         setCustomers(customersData.data || [])
         setUsers(usersData.data || [])
+        setScoringProfiles(profilesData.data || [])
+        setSkillIndex(buildSkillIndex(skillsData.data || []))
       })
       .catch(console.error)
   }, [])
@@ -113,6 +127,7 @@ export function ProjectDialog({
       setValue('location', project.location || '')
       setValue('remotePolicy', project.remotePolicy as ProjectInput['remotePolicy'])
       setValue('headcount', project.headcount)
+      setValue('scoringProfileId', project.scoringProfileId ?? null)
       setTechnologies(project.technologies.join(', '))
       setMustHave(project.mustHave.join(', '))
       setNiceToHave(project.niceToHave.join(', '))
@@ -310,6 +325,7 @@ export function ProjectDialog({
                   id="technologies"
                   value={technologies}
                   onChange={(e) => setTechnologies(e.target.value)}
+                  onBlur={() => setTechnologies(normalizeSkillInput(technologies, skillIndex))}
                   placeholder="React, Node.js, TypeScript"
                 />
               </div>
@@ -406,6 +422,32 @@ export function ProjectDialog({
                   />
                 </div>
               </div>
+
+              <div className="space-y-2">
+                <Label>Scoring Profile</Label>
+                <Select
+                  onValueChange={(value) =>
+                    setValue('scoringProfileId', value === '_default' ? null : value)
+                  }
+                  defaultValue={project?.scoringProfileId || '_default'}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="_default">Default weights</SelectItem>
+                    {scoringProfiles.map((p) => (
+                      <SelectItem key={p.id} value={p.id}>
+                        {p.name}
+                        {p.isDefault ? ' (default)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">
+                  Controls how candidates and engineers are ranked in Find Matches.
+                </p>
+              </div>
             </>
           )}
 
@@ -417,6 +459,7 @@ export function ProjectDialog({
                 id="technologies"
                 value={technologies}
                 onChange={(e) => setTechnologies(e.target.value)}
+                onBlur={() => setTechnologies(normalizeSkillInput(technologies, skillIndex))}
                 placeholder="React, Node.js, TypeScript"
               />
             </div>
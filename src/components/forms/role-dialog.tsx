@@ -0,0 +1,229 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import type { RecordScope } from '@prisma/client'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { roleSchema } from '@/lib/validations'
+import { ADMIN_ROLE, Permission, permissionGroups, recordScopeLabels } from '@/lib/permissions'
+
+// Permissions are kept outside the form as a set of ticked checkboxes
+const roleFormSchema = roleSchema.omit({ permissions: true })
+type RoleFormInput = z.infer<typeof roleFormSchema>
+
+interface RoleDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  role?: {
+    id: string
+    key: string
+    name: string
+    description: string | null
+    recordScope: RecordScope
+    requireTwoFactor: boolean
+    permissions: string[]
+  }
+  onSuccess: () => void
+}
+
+export function RoleDialog({
+  open,
+  onOpenChange,
+  role,
+  onSuccess,
+}: RoleDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [permissions, setPermissions] = useState<Set<Permission>>(new Set())
+
+  const isAdminRole = role?.key === ADMIN_ROLE
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<RoleFormInput>({
+    resolver: zodResolver(roleFormSchema),
+    defaultValues: { recordScope: 'ALL', requireTwoFactor: false },
+  })
+
+  const recordScope = watch('recordScope')
+
+  useEffect(() => {
+    if (role) {
+      setValue('name', role.name)
+      setValue('description', role.description || '')
+      setValue('recordScope', role.recordScope)
+      setValue('requireTwoFactor', role.requireTwoFactor)
+      setPermissions(new Set(role.permissions as Permission[]))
+    } else {
+      reset({ name: '', description: '', recordScope: 'ALL', requireTwoFactor: false })
+      setPermissions(new Set())
+    }
+  }, [role, setValue, reset])
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    setPermissions((current) => {
+      const next = new Set(current)
+      if (checked) {
+        next.add(permission)
+      } else {
+        next.delete(permission)
+      }
+      return next
+    })
+  }
+
+  const onSubmit = async (data: RoleFormInput) => {
+    setLoading(true)
+    try {
+      const payload = {
+        ...data,
+        permissions: Array.from(permissions),
+      }
+
+      const url = role ? `/api/roles/${role.id}` : '/api/roles'
+      const method = role ? 'PUT' : 'POST'
+
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+
+      if (res.ok) {
+        onSuccess()
+        reset()
+        setPermissions(new Set())
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to save role')
+      }
+    } catch (error) {
+      console.error('Error saving role:', error)
+      alert('Failed to save role')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{role ? 'Edit Role' : 'Add Role'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="name">Name *</Label>
+              <Input id="name" {...register('name')} placeholder="Team Lead" />
+              {errors.name && (
+                <p className="text-sm text-red-500">{errors.name.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Record Access</Label>
+              <Select
+                value={recordScope}
+                onValueChange={(value) => setValue('recordScope', value as RecordScope)}
+                disabled={isAdminRole}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(recordScopeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea id="description" rows={2} {...register('description')} />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="rounded border-gray-300"
+              {...register('requireTwoFactor')}
+            />
+            Require two-factor authentication for password sign-in
+          </label>
+
+          <div className="space-y-3">
+            <Label>Permissions</Label>
+            {isAdminRole && (
+              <p className="text-xs text-gray-500">
+                The administrator role always has every permission.
+              </p>
+            )}
+            <div className="grid gap-4 md:grid-cols-2">
+              {permissionGroups.map((group) => (
+                <div key={group.label} className="space-y-1.5">
+                  <p className="text-sm font-medium">{group.label}</p>
+                  {group.permissions.map((permission) => (
+                    <label
+                      key={permission.key}
+                      className="flex items-center gap-2 text-sm text-gray-700"
+                    >
+                      <input
+                        type="checkbox"
+                        className="rounded border-gray-300"
+                        checked={isAdminRole || permissions.has(permission.key)}
+                        disabled={isAdminRole}
+                        onChange={(e) => togglePermission(permission.key, e.target.checked)}
+                      />
+                      {permission.label}
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : role ? 'Update' : 'Create'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,289 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { engineerPointsTotal, scoringProfileSchema, ScoringProfileInput } from '@/lib/validations'
+import { defaultScoringWeights } from '@/lib/matching'
+import { employmentStatusLabels, EmploymentStatus } from '@/types'
+
+interface ScoringProfileDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  profile?: {
+    id: string
+    name: string
+    description: string | null
+    isDefault: boolean
+    candidateWeights: unknown
+    engineerWeights: unknown
+    availabilityBoost: unknown
+  }
+  onSuccess: () => void
+}
+
+const candidateFields: Array<{ key: keyof ScoringProfileInput['candidateWeights']; label: string }> = [
+  { key: 'technologies', label: 'Technologies' },
+  { key: 'mustHave', label: 'Must Have' },
+  { key: 'seniority', label: 'Seniority' },
+  { key: 'experience', label: 'Experience' },
+  { key: 'niceToHave', label: 'Nice to Have' },
+]
+
+const engineerFields: Array<{ key: keyof ScoringProfileInput['engineerWeights']; label: string }> = [
+  { key: 'technologies', label: 'Technologies' },
+  { key: 'mustHave', label: 'Must Have' },
+  { key: 'seniority', label: 'Seniority' },
+  { key: 'experience', label: 'Experience' },
+  { key: 'pastCustomer', label: 'Past Customer' },
+]
+
+const employmentStatuses: EmploymentStatus[] = ['BENCH', 'ACTIVE', 'ASSIGNED', 'ON_LEAVE', 'INACTIVE']
+
+const defaultValues: ScoringProfileInput = {
+  name: '',
+  description: '',
+  isDefault: false,
+  candidateWeights: defaultScoringWeights.candidate,
+  engineerWeights: defaultScoringWeights.engineer,
+  availabilityBoost: defaultScoringWeights.availabilityBoost,
+}
+
+export function ScoringProfileDialog({
+  open,
+  onOpenChange,
+  profile,
+  onSuccess,
+}: ScoringProfileDialogProps) {
+  const [loading, setLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    watch,
+    formState: { errors },
+  } = useForm<ScoringProfileInput>({
+    resolver: zodResolver(scoringProfileSchema),
+    defaultValues,
+  })
+
+  const candidateWeights = watch('candidateWeights')
+  const candidateTotal = Object.values(candidateWeights || {}).reduce(
+    (sum, value) => sum + (Number(value) || 0),
+    0
+  )
+  const toNumbers = (values: Record<string, unknown> = {}) =>
+    Object.fromEntries(Object.entries(values).map(([key, value]) => [key, Number(value) || 0]))
+  const engineerTotal = engineerPointsTotal(
+    toNumbers(watch('engineerWeights')),
+    toNumbers(watch('availabilityBoost'))
+  )
+
+  useEffect(() => {
+    if (profile) {
+      reset({
+        name: profile.name,
+        description: profile.description || '',
+        isDefault: profile.isDefault,
+        candidateWeights: {
+          ...defaultScoringWeights.candidate,
+          ...(profile.candidateWeights as Partial<ScoringProfileInput['candidateWeights']>),
+        },
+        engineerWeights: {
+          ...defaultScoringWeights.engineer,
+          ...(profile.engineerWeights as Partial<ScoringProfileInput['engineerWeights']>),
+        },
+        availabilityBoost: {
+          ...defaultScoringWeights.availabilityBoost,
+          ...(profile.availabilityBoost as Partial<ScoringProfileInput['availabilityBoost']>),
+        },
+      })
+    } else {
+      reset(defaultValues)
+    }
+  }, [profile, reset])
+
+  const onSubmit = async (data: ScoringProfileInput) => {
+    setLoading(true)
+    try {
+      const url = profile ? `/api/scoring-profiles/${profile.id}` : '/api/scoring-profiles'
+      const method = profile ? 'PUT' : 'POST'
+
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      })
+
+      if (res.ok) {
+        onSuccess()
+        reset(defaultValues)
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to save scoring profile')
+      }
+    } catch (error) {
+      console.error('Error saving scoring profile:', error)
+      alert('Failed to save scoring profile')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {profile ? 'Edit Scoring Profile' : 'Add Scoring Profile'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Name *</Label>
+              <Input id="name" {...register('name')} placeholder="DevOps contract" />
+              {errors.name && (
+                <p className="text-sm text-red-500">{errors.name.message}</p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Default Profile</Label>
+              <Select
+                onValueChange={(value) => setValue('isDefault', value === 'true')}
+                value={watch('isDefault') ? 'true' : 'false'}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="false">No</SelectItem>
+                  <SelectItem value="true">Yes - used when a project has no profile</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea
+              id="description"
+              {...register('description')}
+              placeholder="When to use this profile"
+              rows={2}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Candidate Weights (points)</Label>
+              <span className={`text-xs ${candidateTotal === 100 ? 'text-gray-400' : 'text-orange-600'}`}>
+                Total: {candidateTotal} / 100
+              </span>
+            </div>
+            <div className="grid grid-cols-5 gap-2">
+              {candidateFields.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`candidate-${field.key}`} className="text-xs text-gray-500">
+                    {field.label}
+                  </Label>
+                  <Input
+                    id={`candidate-${field.key}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    {...register(`candidateWeights.${field.key}`, { valueAsNumber: true })}
+                  />
+                </div>
+              ))}
+            </div>
+            {errors.candidateWeights?.message && (
+              <p className="text-sm text-red-500">{errors.candidateWeights.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Engineer Weights (points)</Label>
+              <span className={`text-xs ${engineerTotal === 100 ? 'text-gray-400' : 'text-orange-600'}`}>
+                Total with best availability boost: {engineerTotal} / 100
+              </span>
+            </div>
+            <div className="grid grid-cols-5 gap-2">
+              {engineerFields.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`engineer-${field.key}`} className="text-xs text-gray-500">
+                    {field.label}
+                  </Label>
+                  <Input
+                    id={`engineer-${field.key}`}
+                    type="number"
+                    min={0}
+                    max={100}
+                    {...register(`engineerWeights.${field.key}`, { valueAsNumber: true })}
+                  />
+                </div>
+              ))}
+            </div>
+            {errors.engineerWeights?.message && (
+              <p className="text-sm text-red-500">{errors.engineerWeights.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Engineer Availability Boost (negative values are penalties)</Label>
+            <div className="grid grid-cols-5 gap-2">
+              {employmentStatuses.map((status) => (
+                <div key={status} className="space-y-1">
+                  <Label htmlFor={`boost-${status}`} className="text-xs text-gray-500">
+                    {employmentStatusLabels[status]}
+                  </Label>
+                  <Input
+                    id={`boost-${status}`}
+                    type="number"
+                    min={-100}
+                    max={100}
+                    {...register(`availabilityBoost.${status}`, { valueAsNumber: true })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : profile ? 'Update' : 'Create'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,149 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { skillSchema, SkillInput } from '@/lib/validations'
+
+interface SkillDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  skill?: {
+    id: string
+    name: string
+    aliases: string[]
+    category: string | null
+  }
+  onSuccess: () => void
+}
+
+export function SkillDialog({
+  open,
+  onOpenChange,
+  skill,
+  onSuccess,
+}: SkillDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [aliases, setAliases] = useState('')
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setValue,
+    formState: { errors },
+  } = useForm<SkillInput>({
+    resolver: zodResolver(skillSchema),
+  })
+
+  useEffect(() => {
+    if (skill) {
+      setValue('name', skill.name)
+      setValue('category', skill.category || '')
+      setAliases(skill.aliases.join(', '))
+    } else {
+      reset()
+      setAliases('')
+    }
+  }, [skill, setValue, reset])
+
+  const onSubmit = async (data: SkillInput) => {
+    setLoading(true)
+    try {
+      const payload = {
+        ...data,
+        aliases: aliases
+          .split(',')
+          .map((a) => a.trim())
+          .filter(Boolean),
+      }
+
+      const url = skill ? `/api/skills/${skill.id}` : '/api/skills'
+      const method = skill ? 'PUT' : 'POST'
+
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+
+      if (res.ok) {
+        onSuccess()
+        reset()
+        setAliases('')
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to save skill')
+      }
+    } catch (error) {
+      console.error('Error saving skill:', error)
+      alert('Failed to save skill')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{skill ? 'Edit Skill' : 'Add Skill'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="name">Canonical Name *</Label>
+            <Input id="name" {...register('name')} placeholder="Kubernetes" />
+            {errors.name && (
+              <p className="text-sm text-red-500">{errors.name.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="aliases">Aliases (comma-separated)</Label>
+            <Input
+              id="aliases"
+              value={aliases}
+              onChange={(e) => setAliases(e.target.value)}
+              placeholder="K8s, k8s.io"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category">Category</Label>
+            <Input
+              id="category"
+              {...register('category')}
+              placeholder="Containers"
+            />
+            <p className="text-xs text-gray-500">
+              Skills in the same category earn partial credit for each other when matching.
+            </p>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : skill ? 'Update' : 'Create'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import type { SsoSettingsInput } from '@/lib/validations'
+
+// Select value for "no default role"; Radix selects can't hold an empty string
+const NO_ROLE = '__none__'
+
+interface SsoSettingsDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  settings: SsoSettingsInput & { providers: Array<{ id: string; name: string }> }
+  roles: Array<{ key: string; name: string }>
+  onSuccess: () => void
+}
+
+export function SsoSettingsDialog({
+  open,
+  onOpenChange,
+  settings,
+  roles,
+  onSuccess,
+}: SsoSettingsDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [passwordLoginEnabled, setPasswordLoginEnabled] = useState(true)
+  const [jitProvisioning, setJitProvisioning] = useState(true)
+  const [syncRoleOnLogin, setSyncRoleOnLogin] = useState(true)
+  const [allowedDomains, setAllowedDomains] = useState('')
+  const [defaultRole, setDefaultRole] = useState(NO_ROLE)
+  const [mappings, setMappings] = useState<SsoSettingsInput['groupRoleMappings']>([])
+
+  useEffect(() => {
+    if (!open) return
+    setPasswordLoginEnabled(settings.passwordLoginEnabled)
+    setJitProvisioning(settings.jitProvisioning)
+    setSyncRoleOnLogin(settings.syncRoleOnLogin)
+    setAllowedDomains(settings.allowedDomains.join(', '))
+    setDefaultRole(settings.defaultRole || NO_ROLE)
+    setMappings(settings.groupRoleMappings)
+  }, [open, settings])
+
+  const updateMapping = (index: number, field: 'group' | 'role', value: string) => {
+    setMappings((current) =>
+      current.map((mapping, i) => (i === index ? { ...mapping, [field]: value } : mapping))
+    )
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    try {
+      const payload: SsoSettingsInput = {
+        passwordLoginEnabled,
+        jitProvisioning,
+        syncRoleOnLogin,
+        allowedDomains: allowedDomains
+          .split(',')
+          .map((d) => d.trim())
+          .filter(Boolean),
+        defaultRole: defaultRole === NO_ROLE ? null : defaultRole,
+        groupRoleMappings: mappings.filter((m) => m.group.trim() || m.role),
+      }
+
+      const res = await fetch('/api/sso/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      })
+
+      if (res.ok) {
+        onSuccess()
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to save SSO settings')
+      }
+    } catch (error) {
+      console.error('Error saving SSO settings:', error)
+      alert('Failed to save SSO settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Single Sign-On</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="rounded border-gray-300"
+                checked={passwordLoginEnabled}
+                disabled={settings.providers.length === 0}
+                onChange={(e) => setPasswordLoginEnabled(e.target.checked)}
+              />
+              Allow email and password sign-in
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="rounded border-gray-300"
+                checked={jitProvisioning}
+                onChange={(e) => setJitProvisioning(e.target.checked)}
+              />
+              Create accounts for new users on their first SSO sign-in
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="rounded border-gray-300"
+                checked={syncRoleOnLogin}
+                onChange={(e) => setSyncRoleOnLogin(e.target.checked)}
+              />
+              Update existing users&apos; roles from their groups on every sign-in
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="allowedDomains">Allowed Email Domains (comma-separated)</Label>
+            <Input
+              id="allowedDomains"
+              value={allowedDomains}
+              onChange={(e) => setAllowedDomains(e.target.value)}
+              placeholder="naviteq.com"
+            />
+            <p className="text-xs text-gray-500">Leave empty to accept any domain.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Default Role</Label>
+            <Select value={defaultRole} onValueChange={setDefaultRole}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ROLE}>None (refuse users without a mapped group)</SelectItem>
+                {roles.map((role) => (
+                  <SelectItem key={role.key} value={role.key}>
+                    {role.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Group to Role Mappings</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setMappings((current) => [...current, { group: '', role: '' }])}
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add Mapping
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Checked top to bottom; the first group the user belongs to decides their role.
+            </p>
+            {mappings.map((mapping, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  value={mapping.group}
+                  onChange={(e) => updateMapping(index, 'group', e.target.value)}
+                  placeholder="IdP group, e.g. naviteq-recruiters"
+                />
+                <Select
+                  value={mapping.role || undefined}
+                  onValueChange={(value) => updateMapping(index, 'role', value)}
+                >
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Role" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {roles.map((role) => (
+                      <SelectItem key={role.key} value={role.key}>
+                        {role.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setMappings((current) => current.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,149 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { stageRequirements, stageRequirementLabels } from '@/lib/talent-stages'
+import { talentStageLabels, TalentStage } from '@/types'
+
+interface TalentStageDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  projectTalent: {
+    id: string
+    talentName: string
+    clientFeedback: string | null
+    submittedAt: string | null
+    startDate: string | null
+  }
+  stage: TalentStage
+  onSuccess: () => void
+}
+
+const today = () => new Date().toISOString().split('T')[0]
+
+export function TalentStageDialog({
+  open,
+  onOpenChange,
+  projectTalent,
+  stage,
+  onSuccess,
+}: TalentStageDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [submittedAt, setSubmittedAt] = useState('')
+  const [startDate, setStartDate] = useState('')
+  const [clientFeedback, setClientFeedback] = useState('')
+
+  const required = stageRequirements[stage] || []
+
+  useEffect(() => {
+    if (!open) return
+    setSubmittedAt(projectTalent.submittedAt?.split('T')[0] || today())
+    setStartDate(projectTalent.startDate?.split('T')[0] || today())
+    setClientFeedback(projectTalent.clientFeedback || '')
+  }, [open, projectTalent])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/project-talents/${projectTalent.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          stage,
+          ...(required.includes('submittedAt') && { submittedAt }),
+          ...(required.includes('startDate') && { startDate }),
+          ...(required.includes('clientFeedback') && { clientFeedback }),
+        }),
+      })
+
+      if (res.ok) {
+        onSuccess()
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to update stage')
+      }
+    } catch (error) {
+      console.error('Error updating stage:', error)
+      alert('Failed to update stage')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            Move {projectTalent.talentName} to {talentStageLabels[stage]}
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {required.includes('submittedAt') && (
+            <div className="space-y-2">
+              <Label htmlFor="submittedAt">{stageRequirementLabels.submittedAt} *</Label>
+              <Input
+                id="submittedAt"
+                type="date"
+                value={submittedAt}
+                onChange={(e) => setSubmittedAt(e.target.value)}
+                required
+              />
+            </div>
+          )}
+
+          {required.includes('startDate') && (
+            <div className="space-y-2">
+              <Label htmlFor="startDate">{stageRequirementLabels.startDate} *</Label>
+              <Input
+                id="startDate"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                required
+              />
+            </div>
+          )}
+
+          {required.includes('clientFeedback') && (
+            <div className="space-y-2">
+              <Label htmlFor="clientFeedback">{stageRequirementLabels.clientFeedback} *</Label>
+              <Textarea
+                id="clientFeedback"
+                value={clientFeedback}
+                onChange={(e) => setClientFeedback(e.target.value)}
+                placeholder="Why was this talent rejected?"
+                rows={4}
+                required
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : 'Move'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
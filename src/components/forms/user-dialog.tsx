@@ -30,10 +30,16 @@ interface UserDialogProps {
     email: string
     role: string
     isActive: boolean
+    mustChangePassword: boolean
   }
   onSuccess: () => void
 }
 
+interface RoleOption {
+  key: string
+  name: string
+}
+
 export function UserDialog({
   open,
   onOpenChange,
@@ -41,6 +47,7 @@ export function UserDialog({
   onSuccess,
 }: UserDialogProps) {
   const [loading, setLoading] = useState(false)
+  const [roles, setRoles] = useState<RoleOption[]>([])
 
   const {
     register,
@@ -51,16 +58,28 @@ export function UserDialog({
     formState: { errors },
   } = useForm<CreateUserInput | UpdateUserInput>({
     resolver: zodResolver(user ? updateUserSchema : createUserSchema),
+    defaultValues: { sendInvite: true, mustChangePassword: false },
   })
 
+  const sendInvite = !user && !!watch('sendInvite')
+
+  useEffect(() => {
+    if (!open) return
+    fetch('/api/roles')
+      .then((res) => (res.ok ? res.json() : { data: [] }))
+      .then((data) => setRoles(data.data || []))
+      .catch((error) => console.error('Error fetching roles:', error))
+  }, [open])
+
   useEffect(() => {
     if (user) {
       setValue('fullName', user.fullName)
       setValue('email', user.email)
-      setValue('role', user.role as CreateUserInput['role'])
+      setValue('role', user.role)
       setValue('isActive', user.isActive)
+      setValue('mustChangePassword', user.mustChangePassword)
     } else {
-      reset()
+      reset({ sendInvite: true, mustChangePassword: false })
     }
   }, [user, setValue, reset])
 
@@ -77,8 +96,12 @@ export function UserDialog({
       })
 
       if (res.ok) {
+        const result = await res.json()
+        if (result.invitationSent === false) {
+          alert('The user was created, but the invitation email could not be sent. Try "Resend invite" from the users list.')
+        }
         onSuccess()
-        reset()
+        reset({ sendInvite: true, mustChangePassword: false })
       } else {
         const errorData = await res.json()
         alert(errorData.error || 'Failed to save user')
@@ -124,35 +147,60 @@ export function UserDialog({
             )}
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="password">
-              Password {user ? '(leave empty to keep current)' : '*'}
-            </Label>
-            <Input
-              id="password"
-              type="password"
-              {...register('password')}
-              placeholder={user ? '••••••••' : 'Min 8 characters'}
-            />
-            {errors.password && (
-              <p className="text-sm text-red-500">{errors.password.message}</p>
-            )}
-          </div>
+          {!user && (
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                className="rounded border-gray-300"
+                {...register('sendInvite')}
+              />
+              Email an invitation so they choose their own password
+            </label>
+          )}
+
+          {!sendInvite && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="password">
+                  Password {user ? '(leave empty to keep current)' : '*'}
+                </Label>
+                <Input
+                  id="password"
+                  type="password"
+                  {...register('password')}
+                  placeholder={user ? '••••••••' : 'Min 8 characters'}
+                />
+                {errors.password && (
+                  <p className="text-sm text-red-500">{errors.password.message}</p>
+                )}
+              </div>
+
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300"
+                  {...register('mustChangePassword')}
+                />
+                Require a new password at next sign-in
+              </label>
+            </>
+          )}
 
           <div className="space-y-2">
             <Label>Role *</Label>
             <Select
-              onValueChange={(value) => setValue('role', value as CreateUserInput['role'])}
+              onValueChange={(value) => setValue('role', value)}
               defaultValue={user?.role}
             >
               <SelectTrigger>
                 <SelectValue placeholder="Select role" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="ADMIN">Administrator</SelectItem>
-                <SelectItem value="SALES">Sales</SelectItem>
-                <SelectItem value="RECRUITER">Recruiter</SelectItem>
-                <SelectItem value="CLIENT_MANAGER">Client Manager</SelectItem>
+                {roles.map((role) => (
+                  <SelectItem key={role.key} value={role.key}>
+                    {role.name}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
             {errors.role && (
@@ -0,0 +1,209 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { formatActionLabel } from '@/lib/activity'
+import { WEBHOOK_ACTIONS, WEBHOOK_ENTITY_TYPES } from '@/lib/validations'
+
+export interface WebhookEndpoint {
+  id: string
+  name: string
+  url: string
+  // Only the end of the signing secret; the whole secret is returned once
+  secretHint: string
+  entityTypes: string[]
+  actions: string[]
+  isActive: boolean
+}
+
+interface WebhookDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  webhook?: WebhookEndpoint
+  // Receives the signing secret when the webhook was created or its secret rotated
+  onSuccess: (secret?: string) => void
+}
+
+// "ProjectTalent" -> "Project Talent"
+export function entityTypeLabel(entityType: string): string {
+  return entityType.replace(/([a-z])([A-Z])/g, '$1 $2')
+}
+
+export function WebhookDialog({ open, onOpenChange, webhook, onSuccess }: WebhookDialogProps) {
+  const [loading, setLoading] = useState(false)
+  const [name, setName] = useState('')
+  const [url, setUrl] = useState('')
+  const [isActive, setIsActive] = useState(true)
+  const [entityTypes, setEntityTypes] = useState<Set<string>>(new Set())
+  const [actions, setActions] = useState<Set<string>>(new Set())
+  const [rotateSecret, setRotateSecret] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setName(webhook?.name || '')
+    setUrl(webhook?.url || '')
+    setIsActive(webhook?.isActive ?? true)
+    setEntityTypes(new Set(webhook?.entityTypes || []))
+    setActions(new Set(webhook?.actions || []))
+    setRotateSecret(false)
+  }, [open, webhook])
+
+  const toggle = (
+    setter: React.Dispatch<React.SetStateAction<Set<string>>>,
+    value: string,
+    checked: boolean
+  ) => {
+    setter((current) => {
+      const next = new Set(current)
+      if (checked) {
+        next.add(value)
+      } else {
+        next.delete(value)
+      }
+      return next
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    try {
+      const res = await fetch(webhook ? `/api/webhooks/${webhook.id}` : '/api/webhooks', {
+        method: webhook ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          url,
+          isActive,
+          entityTypes: Array.from(entityTypes),
+          actions: Array.from(actions),
+          ...(webhook && rotateSecret && { rotateSecret: true }),
+        }),
+      })
+
+      const data = await res.json()
+      if (res.ok) {
+        onSuccess(data.data.secret)
+      } else {
+        alert(data.details?.[0]?.message || data.error || 'Failed to save webhook')
+      }
+    } catch (error) {
+      console.error('Error saving webhook:', error)
+      alert('Failed to save webhook')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{webhook ? 'Edit Webhook' : 'New Webhook'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="webhookName">Name *</Label>
+              <Input
+                id="webhookName"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Payroll sync"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhookUrl">Payload URL *</Label>
+              <Input
+                id="webhookUrl"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/hooks/naviteq"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Entity types</Label>
+            <p className="text-xs text-gray-500">Leave all unchecked to receive every type.</p>
+            <div className="grid grid-cols-2 gap-1.5 md:grid-cols-3">
+              {WEBHOOK_ENTITY_TYPES.map((entityType) => (
+                <label key={entityType} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="rounded border-gray-300"
+                    checked={entityTypes.has(entityType)}
+                    onChange={(e) => toggle(setEntityTypes, entityType, e.target.checked)}
+                  />
+                  {entityTypeLabel(entityType)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Actions</Label>
+            <p className="text-xs text-gray-500">Leave all unchecked to receive every action.</p>
+            <div className="grid grid-cols-2 gap-1.5 md:grid-cols-3">
+              {WEBHOOK_ACTIONS.map((action) => (
+                <label key={action} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="rounded border-gray-300"
+                    checked={actions.has(action)}
+                    onChange={(e) => toggle(setActions, action, e.target.checked)}
+                  />
+                  {formatActionLabel(action)}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="rounded border-gray-300"
+                checked={isActive}
+                onChange={(e) => setIsActive(e.target.checked)}
+              />
+              Active
+            </label>
+            {webhook && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300"
+                  checked={rotateSecret}
+                  onChange={(e) => setRotateSecret(e.target.checked)}
+                />
+                Generate a new signing secret (the receiver must be updated)
+              </label>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? 'Saving...' : webhook ? 'Update' : 'Create'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,341 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useSession } from 'next-auth/react'
+import { CalendarPlus, Edit, MessageSquare, Trash2, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { InterviewDialog } from '@/components/forms/interview-dialog'
+import { InterviewFeedbackDialog } from '@/components/forms/interview-feedback-dialog'
+import { formatDateTime } from '@/lib/utils'
+import { hasPermission } from '@/lib/permissions'
+import {
+  interviewStatusLabels,
+  interviewStatusColors,
+  interviewRecommendationLabels,
+  interviewRecommendationColors,
+  Contact,
+  InterviewStatus,
+  InterviewRecommendation,
+  TalentType,
+} from '@/types'
+
+interface InterviewFeedback {
+  id: string
+  score: number | null
+  recommendation: InterviewRecommendation | null
+  notes: string
+  author: { id: string; fullName: string }
+}
+
+interface Interview {
+  id: string
+  round: number
+  title: string | null
+  scheduledAt: string
+  durationMinutes: number
+  location: string | null
+  meetingUrl: string | null
+  customerContacts: Contact[]
+  status: InterviewStatus
+  projectTalent: {
+    id: string
+    talentType: TalentType
+    project: { id: string; title: string; customer: { id: string; name: string } }
+    candidate: { id: string; fullName: string } | null
+    engineer: { id: string; fullName: string } | null
+  }
+  interviewers: Array<{ id: string; fullName: string; email: string }>
+  feedback: InterviewFeedback[]
+}
+
+interface InterviewListProps {
+  projectId?: string
+  candidateId?: string
+  engineerId?: string
+  customerContacts?: Contact[]
+  // Show the feedback roll-up across all listed interviews
+  showSummary?: boolean
+}
+
+function talentName(interview: Interview): string {
+  return (interview.projectTalent.candidate ?? interview.projectTalent.engineer)?.fullName || ''
+}
+
+export function InterviewList({
+  projectId,
+  candidateId,
+  engineerId,
+  customerContacts = [],
+  showSummary = false,
+}: InterviewListProps) {
+  const [interviews, setInterviews] = useState<Interview[]>([])
+  const [loading, setLoading] = useState(true)
+  const [editing, setEditing] = useState<Interview | null>(null)
+  const [feedbackFor, setFeedbackFor] = useState<Interview | null>(null)
+  const { data: session } = useSession()
+
+  const canWrite = session?.user ? hasPermission(session.user, 'interviews:write') : false
+  const canDelete = session?.user ? hasPermission(session.user, 'interviews:delete') : false
+
+  const fetchInterviews = async () => {
+    const query = new URLSearchParams()
+    if (projectId) query.set('projectId', projectId)
+    if (candidateId) query.set('candidateId', candidateId)
+    if (engineerId) query.set('engineerId', engineerId)
+
+    try {
+      const res = await fetch(`/api/interviews?${query.toString()}`)
+      const data = await res.json()
+      setInterviews(data.data || [])
+    } catch (error) {
+      console.error('Error fetching interviews:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchInterviews()
+  }, [projectId, candidateId, engineerId])
+
+  const handleCancel = async (interview: Interview) => {
+    if (!confirm('Cancel this interview? Download the invite again to send the cancellation.')) return
+
+    try {
+      const res = await fetch(`/api/interviews/${interview.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'CANCELLED' }),
+      })
+
+      if (res.ok) {
+        fetchInterviews()
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to cancel interview')
+      }
+    } catch (error) {
+      console.error('Error cancelling interview:', error)
+    }
+  }
+
+  const handleDelete = async (interviewId: string) => {
+    if (!confirm('Delete this interview and its feedback?')) return
+
+    try {
+      const res = await fetch(`/api/interviews/${interviewId}`, { method: 'DELETE' })
+      if (res.ok) {
+        fetchInterviews()
+      }
+    } catch (error) {
+      console.error('Error deleting interview:', error)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-gray-500">Loading interviews...</div>
+  }
+
+  if (interviews.length === 0) {
+    return <div className="text-gray-500">No interviews scheduled</div>
+  }
+
+  const allFeedback = interviews.flatMap((interview) => interview.feedback)
+  const scores = allFeedback.map((f) => f.score).filter((s): s is number => s != null)
+  const averageScore = scores.length > 0
+    ? (scores.reduce((sum, s) => sum + s, 0) / scores.length).toFixed(1)
+    : null
+  const recommendationCounts = allFeedback.reduce(
+    (acc, f) => {
+      if (f.recommendation) acc[f.recommendation] = (acc[f.recommendation] || 0) + 1
+      return acc
+    },
+    {} as Partial<Record<InterviewRecommendation, number>>
+  )
+
+  return (
+    <div className="space-y-4">
+      {showSummary && (
+        <div className="flex flex-wrap items-center gap-4 rounded-lg bg-gray-50 p-3 text-sm">
+          <div>
+            <span className="font-medium">{interviews.filter((i) => i.status === 'COMPLETED').length}</span>{' '}
+            of {interviews.length} completed
+          </div>
+          <div>
+            Average score:{' '}
+            <span className="font-medium">{averageScore ? `${averageScore}/5` : '-'}</span>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {(Object.keys(interviewRecommendationLabels) as InterviewRecommendation[])
+              .filter((rec) => recommendationCounts[rec])
+              .map((rec) => (
+                <Badge key={rec} className={interviewRecommendationColors[rec]}>
+                  {interviewRecommendationLabels[rec]}: {recommendationCounts[rec]}
+                </Badge>
+              ))}
+          </div>
+        </div>
+      )}
+
+      {interviews.map((interview) => {
+        const isInterviewer = interview.interviewers.some((u) => u.id === session?.user?.id)
+        const ownFeedback = interview.feedback.find((f) => f.author.id === session?.user?.id)
+        const talent = interview.projectTalent.candidate ?? interview.projectTalent.engineer
+
+        return (
+          <div key={interview.id} className="rounded-lg border p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">
+                    {interview.title || `Round ${interview.round} Interview`}
+                  </span>
+                  <Badge className={interviewStatusColors[interview.status]}>
+                    {interviewStatusLabels[interview.status]}
+                  </Badge>
+                </div>
+                <div className="text-sm text-gray-500">
+                  {formatDateTime(interview.scheduledAt)} ({interview.durationMinutes} min)
+                  {interview.title && ` - Round ${interview.round}`}
+                </div>
+                {!projectId && (
+                  <Link
+                    href={`/projects/${interview.projectTalent.project.id}`}
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    {interview.projectTalent.project.title} ({interview.projectTalent.project.customer.name})
+                  </Link>
+                )}
+                {projectId && talent && (
+                  <Link
+                    href={
+                      interview.projectTalent.talentType === 'ENGINEER'
+                        ? `/engineers/${talent.id}`
+                        : `/candidates/${talent.id}`
+                    }
+                    className="text-sm text-blue-600 hover:underline"
+                  >
+                    {talent.fullName}
+                  </Link>
+                )}
+              </div>
+
+              <div className="flex items-center gap-1">
+                <a href={`/api/interviews/${interview.id}/ics`}>
+                  <Button variant="outline" size="sm">
+                    <CalendarPlus className="mr-2 h-4 w-4" />
+                    {interview.status === 'CANCELLED' ? 'Cancellation' : 'Invite'}
+                  </Button>
+                </a>
+                {(isInterviewer || canWrite) && interview.status !== 'CANCELLED' && (
+                  <Button variant="outline" size="sm" onClick={() => setFeedbackFor(interview)}>
+                    <MessageSquare className="mr-2 h-4 w-4" />
+                    {ownFeedback ? 'Edit Feedback' : 'Feedback'}
+                  </Button>
+                )}
+                {canWrite && interview.status === 'SCHEDULED' && (
+                  <>
+                    <Button variant="ghost" size="icon" onClick={() => setEditing(interview)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => handleCancel(interview)}>
+                      <XCircle className="h-4 w-4 text-orange-500" />
+                    </Button>
+                  </>
+                )}
+                {canDelete && (
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(interview.id)}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            <div className="mt-2 space-y-1 text-sm">
+              <div>
+                <span className="text-gray-500">Interviewers: </span>
+                {interview.interviewers.map((u) => u.fullName).join(', ')}
+              </div>
+              {interview.customerContacts.length > 0 && (
+                <div>
+                  <span className="text-gray-500">Customer: </span>
+                  {interview.customerContacts.map((c) => c.name).join(', ')}
+                </div>
+              )}
+              {interview.location && (
+                <div>
+                  <span className="text-gray-500">Location: </span>
+                  {interview.location}
+                </div>
+              )}
+              {interview.meetingUrl && (
+                <a
+                  href={interview.meetingUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-600 hover:underline"
+                >
+                  Join meeting
+                </a>
+              )}
+            </div>
+
+            {interview.feedback.length > 0 && (
+              <div className="mt-3 space-y-2 border-t pt-3">
+                {interview.feedback.map((feedback) => (
+                  <div key={feedback.id} className="text-sm">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{feedback.author.fullName}</span>
+                      {feedback.score != null && (
+                        <Badge variant="outline">Score: {feedback.score}/5</Badge>
+                      )}
+                      {feedback.recommendation && (
+                        <Badge className={interviewRecommendationColors[feedback.recommendation]}>
+                          {interviewRecommendationLabels[feedback.recommendation]}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="mt-1 whitespace-pre-wrap">{feedback.notes}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+
+      {editing && (
+        <InterviewDialog
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+          projectTalent={{ id: editing.projectTalent.id, talentName: talentName(editing) }}
+          customerContacts={customerContacts}
+          interview={editing}
+          onSuccess={() => {
+            setEditing(null)
+            fetchInterviews()
+          }}
+        />
+      )}
+
+      {feedbackFor && (
+        <InterviewFeedbackDialog
+          open={!!feedbackFor}
+          onOpenChange={(open) => !open && setFeedbackFor(null)}
+          interview={{
+            id: feedbackFor.id,
+            round: feedbackFor.round,
+            talentName: talentName(feedbackFor),
+          }}
+          existingFeedback={feedbackFor.feedback.find((f) => f.author.id === session?.user?.id)}
+          onSuccess={() => {
+            setFeedbackFor(null)
+            fetchInterviews()
+          }}
+        />
+      )}
+    </div>
+  )
+}
@@ -14,7 +14,6 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { getInitials } from '@/lib/utils'
-import { roleDisplayNames } from '@/lib/permissions'
 import { useCommandPalette, CommandPalette } from '@/components/command-palette'
 import { NotificationBell } from '@/components/notifications'
 
@@ -58,9 +57,7 @@ export function Header() {
                   {session?.user?.fullName || 'User'}
                 </div>
                 <div className="text-xs text-gray-500">
-                  {session?.user?.role
-                    ? roleDisplayNames[session.user.role]
-                    : ''}
+                  {session?.user?.roleName || ''}
                 </div>
               </div>
               <ChevronDown className="h-4 w-4 text-gray-400" />
@@ -75,8 +75,8 @@ export function Sidebar() {
 
   const hasItemPermission = (permission: string | null) => {
     if (!permission) return true
-    if (!session?.user?.role) return false
-    return hasPermission(session.user.role, permission as Parameters<typeof hasPermission>[1])
+    if (!session?.user) return false
+    return hasPermission(session.user, permission as Parameters<typeof hasPermission>[1])
   }
 
   const isProjectsPath = pathname.startsWith('/projects')
@@ -1 +1,2 @@
 export { NotificationBell } from './notification-bell'
+export { NotificationPreferences } from './notification-preferences'
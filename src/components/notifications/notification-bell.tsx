@@ -13,6 +13,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 import { formatDateTime } from '@/lib/utils'
+import { useRealtimeEvent } from '@/lib/realtime-client'
 import { NotificationWithRelations } from '@/types'
 
 export function NotificationBell() {
@@ -46,11 +47,9 @@ export function NotificationBell() {
     }
   }, [open, fetchNotifications])
 
-  // Poll for new notifications every 30 seconds
-  useEffect(() => {
-    const interval = setInterval(fetchNotifications, 30000)
-    return () => clearInterval(interval)
-  }, [fetchNotifications])
+  // New notifications are pushed over the realtime stream
+  useRealtimeEvent('notification', fetchNotifications)
+  useRealtimeEvent('reconnected', fetchNotifications)
 
   const markAsRead = async (notificationId: string) => {
     try {
@@ -0,0 +1,138 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  notificationDeliveryLabels,
+  notificationTypeLabels,
+  NotificationDelivery,
+  NotificationType,
+} from '@/types'
+
+interface Preference {
+  type: NotificationType
+  delivery: NotificationDelivery
+}
+
+export function NotificationPreferences() {
+  const [preferences, setPreferences] = useState<Preference[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState('')
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      try {
+        const res = await fetch('/api/notifications/preferences')
+        const data = await res.json()
+        setPreferences(data.data || [])
+      } catch (error) {
+        console.error('Error fetching notification preferences:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchPreferences()
+  }, [])
+
+  const setDelivery = (type: NotificationType, delivery: NotificationDelivery) => {
+    setMessage('')
+    setPreferences((current) =>
+      current.map((pref) => (pref.type === type ? { ...pref, delivery } : pref))
+    )
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setMessage('')
+
+    try {
+      const res = await fetch('/api/notifications/preferences', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ preferences }),
+      })
+
+      if (res.ok) {
+        const data = await res.json()
+        setPreferences(data.data)
+        setMessage('Preferences saved successfully')
+      } else {
+        const error = await res.json()
+        setMessage(error.error || 'Failed to save preferences')
+      }
+    } catch (error) {
+      console.error('Error saving notification preferences:', error)
+      setMessage('Failed to save preferences')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>
+          Choose how you hear about each kind of event. Daily digests summarize unread
+          notifications and activity on your projects.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-gray-500">Loading preferences...</div>
+        ) : (
+          <div className="space-y-4">
+            {message && (
+              <div
+                className={`rounded-md p-3 text-sm ${
+                  message.includes('success')
+                    ? 'bg-green-50 text-green-600'
+                    : 'bg-red-50 text-red-600'
+                }`}
+              >
+                {message}
+              </div>
+            )}
+
+            <div className="divide-y">
+              {preferences.map((pref) => (
+                <div key={pref.type} className="flex items-center justify-between gap-4 py-2">
+                  <span className="text-sm">{notificationTypeLabels[pref.type]}</span>
+                  <Select
+                    value={pref.delivery}
+                    onValueChange={(value) => setDelivery(pref.type, value as NotificationDelivery)}
+                  >
+                    <SelectTrigger className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(notificationDeliveryLabels).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Preferences'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
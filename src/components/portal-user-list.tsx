@@ -0,0 +1,169 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { Mail, Plus, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { PortalUserDialog } from '@/components/forms/portal-user-dialog'
+import { formatDateTime } from '@/lib/utils'
+import { hasPermission } from '@/lib/permissions'
+import { Contact } from '@/types'
+
+interface PortalUser {
+  id: string
+  fullName: string
+  email: string
+  isActive: boolean
+  lastLoginAt: string | null
+}
+
+interface PortalUserListProps {
+  customerId: string
+  contacts: Contact[]
+}
+
+export function PortalUserList({ customerId, contacts }: PortalUserListProps) {
+  const [portalUsers, setPortalUsers] = useState<PortalUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const { data: session } = useSession()
+
+  const canWrite = session?.user ? hasPermission(session.user, 'customers:write') : false
+
+  const fetchPortalUsers = async () => {
+    try {
+      const res = await fetch(`/api/customers/${customerId}/portal-users`)
+      const data = await res.json()
+      setPortalUsers(data.data || [])
+    } catch (error) {
+      console.error('Error fetching portal users:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPortalUsers()
+  }, [customerId])
+
+  const handleResend = async (portalUser: PortalUser) => {
+    try {
+      const res = await fetch(
+        `/api/customers/${customerId}/portal-users/${portalUser.id}/invite`,
+        { method: 'POST' }
+      )
+      const data = await res.json()
+      alert(res.ok ? `Sign-in link sent to ${portalUser.email}` : data.error || 'Failed to send link')
+    } catch (error) {
+      console.error('Error sending portal invite:', error)
+    }
+  }
+
+  const handleToggle = async (portalUser: PortalUser) => {
+    try {
+      const res = await fetch(`/api/customers/${customerId}/portal-users/${portalUser.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isActive: !portalUser.isActive }),
+      })
+      if (res.ok) {
+        fetchPortalUsers()
+      } else {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to update portal access')
+      }
+    } catch (error) {
+      console.error('Error updating portal user:', error)
+    }
+  }
+
+  const handleDelete = async (portalUser: PortalUser) => {
+    if (!confirm(`Revoke portal access for ${portalUser.fullName}?`)) return
+
+    try {
+      const res = await fetch(`/api/customers/${customerId}/portal-users/${portalUser.id}`, {
+        method: 'DELETE',
+      })
+      if (res.ok) {
+        fetchPortalUsers()
+      }
+    } catch (error) {
+      console.error('Error deleting portal user:', error)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-gray-500">Loading portal access...</div>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          Portal users sign in at <span className="font-mono">/portal</span> with an emailed link
+          and see this customer&apos;s projects, customer-facing updates and submitted candidates.
+        </p>
+        {canWrite && (
+          <Button size="sm" onClick={() => setDialogOpen(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Grant Access
+          </Button>
+        )}
+      </div>
+
+      {portalUsers.length === 0 ? (
+        <p className="text-gray-500">No portal users yet</p>
+      ) : (
+        <div className="space-y-3">
+          {portalUsers.map((portalUser) => (
+            <div
+              key={portalUser.id}
+              className="flex items-center justify-between rounded-lg border p-3"
+            >
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{portalUser.fullName}</span>
+                  {!portalUser.isActive && <Badge variant="secondary">Disabled</Badge>}
+                </div>
+                <div className="text-sm text-gray-500">
+                  {portalUser.email} -{' '}
+                  {portalUser.lastLoginAt
+                    ? `last signed in ${formatDateTime(portalUser.lastLoginAt)}`
+                    : 'never signed in'}
+                </div>
+              </div>
+              {canWrite && (
+                <div className="flex items-center gap-1">
+                  {portalUser.isActive && (
+                    <Button variant="outline" size="sm" onClick={() => handleResend(portalUser)}>
+                      <Mail className="mr-2 h-4 w-4" />
+                      Send Link
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={() => handleToggle(portalUser)}>
+                    {portalUser.isActive ? 'Disable' : 'Enable'}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(portalUser)}>
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <PortalUserDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        customerId={customerId}
+        contacts={contacts}
+        onSuccess={() => {
+          setDialogOpen(false)
+          fetchPortalUsers()
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { LogOut } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+interface PortalUser {
+  id: string
+  fullName: string
+  email: string
+  customer: { id: string; name: string }
+}
+
+/**
+ * Header and session check for signed-in portal pages. Sends visitors
+ * without a portal session to the sign-in page.
+ */
+export function PortalShell({ children }: { children: React.ReactNode }) {
+  const router = useRouter()
+  const [portalUser, setPortalUser] = useState<PortalUser | null>(null)
+
+  useEffect(() => {
+    const fetchMe = async () => {
+      try {
+        const res = await fetch('/api/portal/me')
+        if (res.status === 401) {
+          router.replace('/portal/login')
+          return
+        }
+        const data = await res.json()
+        setPortalUser(data.data)
+      } catch (error) {
+        console.error('Error fetching portal user:', error)
+      }
+    }
+
+    fetchMe()
+  }, [router])
+
+  const handleLogout = async () => {
+    await fetch('/api/portal/auth/logout', { method: 'POST' })
+    router.replace('/portal/login')
+  }
+
+  if (!portalUser) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <header className="border-b bg-white">
+        <div className="mx-auto flex h-16 max-w-5xl items-center justify-between px-6">
+          <Link href="/portal" className="flex items-center gap-3">
+            <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-indigo-600">
+              <span className="font-bold text-white">N</span>
+            </div>
+            <span className="font-semibold">{portalUser.customer.name}</span>
+          </Link>
+          <div className="flex items-center gap-3">
+            <span className="hidden text-sm text-gray-500 sm:inline">{portalUser.fullName}</span>
+            <Button variant="ghost" size="sm" onClick={handleLogout}>
+              <LogOut className="mr-2 h-4 w-4" />
+              Sign out
+            </Button>
+          </div>
+        </div>
+      </header>
+      <main className="mx-auto max-w-5xl p-6">{children}</main>
+    </div>
+  )
+}
@@ -0,0 +1,277 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { KeySquare, Plus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { Permission, permissionGroups } from '@/lib/permissions'
+import { formatDate } from '@/lib/utils'
+
+interface ApiToken {
+  id: string
+  name: string
+  prefix: string
+  scopes: string[]
+  expiresAt: string
+  lastUsedAt: string | null
+  createdAt: string
+}
+
+const EXPIRY_OPTIONS = [7, 30, 90, 365]
+
+export function ApiTokens() {
+  const { data: session } = useSession()
+  const [tokens, setTokens] = useState<ApiToken[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [name, setName] = useState('')
+  const [expiresInDays, setExpiresInDays] = useState('90')
+  const [scopes, setScopes] = useState<Set<Permission>>(new Set())
+  const [saving, setSaving] = useState(false)
+  const [newToken, setNewToken] = useState<string | null>(null)
+
+  const userPermissions = new Set(session?.user.permissions || [])
+  // Only offer what the user's role can do; a token can't exceed it
+  const groups = permissionGroups
+    .map((group) => ({
+      ...group,
+      permissions: group.permissions.filter((p) => userPermissions.has(p.key)),
+    }))
+    .filter((group) => group.permissions.length > 0)
+
+  const fetchTokens = async () => {
+    try {
+      const res = await fetch('/api/tokens')
+      const data = await res.json()
+      setTokens(data.data || [])
+    } catch (error) {
+      console.error('Error fetching API tokens:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchTokens()
+  }, [])
+
+  const openDialog = () => {
+    setName('')
+    setExpiresInDays('90')
+    setScopes(new Set())
+    setNewToken(null)
+    setDialogOpen(true)
+  }
+
+  const toggleScope = (permission: Permission, checked: boolean) => {
+    setScopes((current) => {
+      const next = new Set(current)
+      if (checked) {
+        next.add(permission)
+      } else {
+        next.delete(permission)
+      }
+      return next
+    })
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      const res = await fetch('/api/tokens', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          scopes: Array.from(scopes),
+          expiresInDays: parseInt(expiresInDays),
+        }),
+      })
+      const data = await res.json()
+      if (res.ok) {
+        setNewToken(data.data.token)
+        fetchTokens()
+      } else {
+        alert(data.details?.[0]?.message || data.error || 'Failed to create token')
+      }
+    } catch (error) {
+      console.error('Error creating API token:', error)
+      alert('Failed to create token')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Revoke "${token.name}"? Anything using it will stop working.`)) return
+    try {
+      const res = await fetch(`/api/tokens/${token.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to revoke token')
+      }
+      fetchTokens()
+    } catch (error) {
+      console.error('Error revoking API token:', error)
+    }
+  }
+
+  const isExpired = (token: ApiToken) => new Date(token.expiresAt) <= new Date()
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeySquare className="h-5 w-5" />
+              API Tokens
+            </CardTitle>
+            <CardDescription>
+              Personal access tokens for scripts and tools, sent as{' '}
+              <code className="text-xs">Authorization: Bearer &lt;token&gt;</code>. The API is
+              described at <code className="text-xs">/api/openapi</code>.
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={openDialog}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Token
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-gray-500">Loading...</div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-gray-500">No API tokens.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {tokens.map((token) => (
+              <li key={token.id} className="flex items-center gap-3 p-3">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {token.name}
+                    <code className="text-xs text-gray-500">{token.prefix}…</code>
+                    {isExpired(token) && <Badge variant="secondary">Expired</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {token.scopes.length} permission(s) · Expires {formatDate(token.expiresAt)} ·{' '}
+                    {token.lastUsedAt ? `Last used ${formatDate(token.lastUsedAt)}` : 'Never used'}
+                  </div>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => handleRevoke(token)}>
+                  Revoke
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New API Token</DialogTitle>
+          </DialogHeader>
+
+          {newToken ? (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-600">
+                Copy the token now. It won&apos;t be shown again.
+              </p>
+              <div className="rounded-md bg-gray-50 p-3 font-mono text-sm break-all">{newToken}</div>
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" onClick={() => navigator.clipboard?.writeText(newToken)}>
+                  Copy
+                </Button>
+                <Button onClick={() => setDialogOpen(false)}>Done</Button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="tokenName">Name *</Label>
+                  <Input
+                    id="tokenName"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Reporting script"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Expires In</Label>
+                  <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EXPIRY_OPTIONS.map((days) => (
+                        <SelectItem key={days} value={String(days)}>
+                          {days} days
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-3">
+                <Label>Permissions</Label>
+                <div className="grid gap-4 md:grid-cols-2">
+                  {groups.map((group) => (
+                    <div key={group.label} className="space-y-1.5">
+                      <p className="text-sm font-medium">{group.label}</p>
+                      {group.permissions.map((permission) => (
+                        <label
+                          key={permission.key}
+                          className="flex items-center gap-2 text-sm text-gray-700"
+                        >
+                          <input
+                            type="checkbox"
+                            className="rounded border-gray-300"
+                            checked={scopes.has(permission.key)}
+                            onChange={(e) => toggleScope(permission.key, e.target.checked)}
+                          />
+                          {permission.label}
+                        </label>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end gap-2 pt-4">
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving || scopes.size === 0}>
+                  {saving ? 'Creating...' : 'Create Token'}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  )
+}
@@ -0,0 +1,3 @@
+export { TwoFactorSettings } from './two-factor-settings'
+export { SessionList } from './session-list'
+export { ApiTokens } from './api-tokens'
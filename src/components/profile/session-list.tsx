@@ -0,0 +1,146 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Monitor } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { formatDateTime } from '@/lib/utils'
+
+interface ActiveSession {
+  id: string
+  authMethod: string
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: string
+  lastSeenAt: string
+  current: boolean
+}
+
+// "Chrome on macOS" from a user agent string; good enough to recognise a device
+function describeDevice(userAgent: string | null): string {
+  if (!userAgent) return 'Unknown device'
+
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /Firefox\//.test(userAgent)
+      ? 'Firefox'
+      : /Chrome\//.test(userAgent)
+        ? 'Chrome'
+        : /Safari\//.test(userAgent)
+          ? 'Safari'
+          : 'Browser'
+  const os = /iPhone|iPad/.test(userAgent)
+    ? 'iOS'
+    : /Android/.test(userAgent)
+      ? 'Android'
+      : /Mac OS X/.test(userAgent)
+        ? 'macOS'
+        : /Windows/.test(userAgent)
+          ? 'Windows'
+          : /Linux/.test(userAgent)
+            ? 'Linux'
+            : null
+
+  return os ? `${browser} on ${os}` : browser
+}
+
+interface SessionListProps {
+  // Another user's sessions (admin); defaults to the signed-in user's own
+  userId?: string
+}
+
+export function SessionList({ userId }: SessionListProps) {
+  const [sessions, setSessions] = useState<ActiveSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [working, setWorking] = useState(false)
+
+  const listUrl = userId ? `/api/users/${userId}/sessions` : '/api/sessions'
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const res = await fetch(listUrl)
+      const data = await res.json()
+      setSessions(data.data || [])
+    } catch (error) {
+      console.error('Error fetching sessions:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [listUrl])
+
+  useEffect(() => {
+    fetchSessions()
+  }, [fetchSessions])
+
+  const revoke = async (url: string) => {
+    setWorking(true)
+    try {
+      const res = await fetch(url, { method: 'DELETE' })
+      if (!res.ok) {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to revoke session')
+      }
+      fetchSessions()
+    } catch (error) {
+      console.error('Error revoking session:', error)
+      alert('Failed to revoke session')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleRevokeOthers = () => {
+    const message = userId
+      ? 'Sign this user out on every device?'
+      : 'Sign out on every other device?'
+    if (confirm(message)) revoke(listUrl)
+  }
+
+  if (loading) {
+    return <div className="text-gray-500">Loading...</div>
+  }
+
+  const others = sessions.filter((s) => !s.current)
+
+  return (
+    <div className="space-y-3">
+      {sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">No active sessions.</p>
+      ) : (
+        <ul className="divide-y rounded-md border">
+          {sessions.map((s) => (
+            <li key={s.id} className="flex items-center gap-3 p-3">
+              <Monitor className="h-5 w-5 shrink-0 text-gray-400" />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  {describeDevice(s.userAgent)}
+                  {s.current && <Badge variant="success">This device</Badge>}
+                  {s.authMethod === 'sso' && <Badge variant="outline">SSO</Badge>}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {s.ipAddress || 'Unknown IP'} · Signed in {formatDateTime(s.createdAt)} · Last
+                  active {formatDateTime(s.lastSeenAt)}
+                </div>
+              </div>
+              {!s.current && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={working}
+                  onClick={() => revoke(`/api/sessions/${s.id}`)}
+                >
+                  Revoke
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {others.length > 0 && (
+        <Button variant="outline" onClick={handleRevokeOthers} disabled={working}>
+          {userId ? 'Sign out everywhere' : 'Sign out other devices'}
+        </Button>
+      )}
+    </div>
+  )
+}
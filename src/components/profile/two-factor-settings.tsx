@@ -0,0 +1,212 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { ShieldCheck } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { formatDate } from '@/lib/utils'
+
+interface TwoFactorStatus {
+  enabled: boolean
+  enabledAt: string | null
+  recoveryCodesRemaining: number
+  requiredByRole: boolean
+}
+
+interface PendingSetup {
+  secret: string
+  uri: string
+}
+
+export function TwoFactorSettings() {
+  const { update } = useSession()
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null)
+  const [setup, setSetup] = useState<PendingSetup | null>(null)
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null)
+  const [code, setCode] = useState('')
+  const [working, setWorking] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const fetchStatus = async () => {
+    try {
+      const res = await fetch('/api/profile/two-factor')
+      const data = await res.json()
+      setStatus(data.data || null)
+    } catch (error) {
+      console.error('Error fetching two-factor status:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchStatus()
+  }, [])
+
+  const post = async (path: string, body?: Record<string, string>) => {
+    setWorking(true)
+    setMessage('')
+    try {
+      const res = await fetch(`/api/profile/two-factor${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body || {}),
+      })
+      const data = await res.json()
+      if (!res.ok) {
+        setMessage(data.error || 'Something went wrong')
+        return null
+      }
+      return data
+    } catch (error) {
+      console.error('Error updating two-factor authentication:', error)
+      setMessage('Something went wrong')
+      return null
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleStartSetup = async () => {
+    const data = await post('/setup')
+    if (data) setSetup(data.data)
+  }
+
+  const handleEnable = async () => {
+    const data = await post('/enable', { code })
+    if (data) {
+      setSetup(null)
+      setCode('')
+      setRecoveryCodes(data.data.recoveryCodes)
+      fetchStatus()
+      // Refresh the session so a role's 2FA requirement stops blocking access
+      await update()
+    }
+  }
+
+  const handleRegenerate = async () => {
+    const data = await post('/recovery-codes', { code })
+    if (data) {
+      setCode('')
+      setRecoveryCodes(data.data.recoveryCodes)
+      fetchStatus()
+    }
+  }
+
+  const handleDisable = async () => {
+    if (!confirm('Turn off two-factor authentication?')) return
+    const data = await post('/disable', { code })
+    if (data) {
+      setCode('')
+      fetchStatus()
+      await update()
+    }
+  }
+
+  const codeInput = (
+    <div className="space-y-2">
+      <Label htmlFor="twoFactorCode">Authentication code</Label>
+      <Input
+        id="twoFactorCode"
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        placeholder="123456"
+        autoComplete="one-time-code"
+        className="max-w-xs"
+      />
+    </div>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="success">On</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app when you sign in with your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {message && (
+          <div className="rounded-md bg-red-50 p-3 text-sm text-red-600">{message}</div>
+        )}
+
+        {!status ? (
+          <div className="text-gray-500">Loading...</div>
+        ) : recoveryCodes ? (
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Save these recovery codes somewhere safe. Each one signs you in once if you lose
+              your device. They won&apos;t be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 rounded-md bg-gray-50 p-3 font-mono text-sm">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <Button onClick={() => setRecoveryCodes(null)}>I&apos;ve saved them</Button>
+          </div>
+        ) : status.enabled ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Enabled {status.enabledAt ? `on ${formatDate(status.enabledAt)}` : ''}.{' '}
+              {status.recoveryCodesRemaining} recovery code(s) left.
+            </p>
+            {codeInput}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={handleRegenerate} disabled={working || !code}>
+                New recovery codes
+              </Button>
+              {!status.requiredByRole && (
+                <Button variant="outline" onClick={handleDisable} disabled={working || !code}>
+                  Turn off
+                </Button>
+              )}
+            </div>
+            {status.requiredByRole && (
+              <p className="text-xs text-gray-500">Your role requires two-factor authentication.</p>
+            )}
+          </div>
+        ) : setup ? (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Add this key to your authenticator app (or{' '}
+              <a href={setup.uri} className="text-indigo-600 underline">
+                open it in the app
+              </a>{' '}
+              on this device), then enter the code it shows.
+            </p>
+            <div className="rounded-md bg-gray-50 p-3 font-mono text-sm break-all">
+              {setup.secret.replace(/(.{4})/g, '$1 ').trim()}
+            </div>
+            {codeInput}
+            <div className="flex gap-2">
+              <Button onClick={handleEnable} disabled={working || !code}>
+                {working ? 'Verifying...' : 'Verify and turn on'}
+              </Button>
+              <Button variant="outline" onClick={() => setSetup(null)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {status.requiredByRole && (
+              <div className="rounded-md bg-yellow-50 p-3 text-sm text-yellow-800">
+                Your role requires two-factor authentication. Set it up to continue using the app.
+              </div>
+            )}
+            <Button onClick={handleStartSetup} disabled={working}>
+              Set up two-factor authentication
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
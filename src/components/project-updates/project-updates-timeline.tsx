@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react'
 import { Loader2 } from 'lucide-react'
 import { ProjectUpdateWithRelations } from '@/types'
+import { useRealtimeEvent } from '@/lib/realtime-client'
 import { ProjectUpdateItem } from './project-update-item'
 import { ProjectUpdateForm } from './project-update-form'
 
@@ -56,6 +57,12 @@ export function ProjectUpdatesTimeline({ projectId }: ProjectUpdatesTimelineProp
     fetchUpdates(1)
   }
 
+  // New entries from other users (and this user's other tabs) arrive live
+  useRealtimeEvent('project_update', (event) => {
+    if (event.projectId === projectId) handleUpdateCreated()
+  })
+  useRealtimeEvent('reconnected', handleUpdateCreated)
+
   const loadMore = () => {
     const nextPage = page + 1
     setPage(nextPage)
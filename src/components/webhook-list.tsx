@@ -0,0 +1,370 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Pencil, Plus, Send, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { WebhookDialog, WebhookEndpoint, entityTypeLabel } from '@/components/forms/webhook-dialog'
+import { formatActionLabel } from '@/lib/activity'
+import { formatDateTime } from '@/lib/utils'
+import type { ActivityAction } from '@prisma/client'
+
+type DeliveryStatus = 'PENDING' | 'SUCCEEDED' | 'FAILED'
+
+interface Webhook extends WebhookEndpoint {
+  lastDelivery: {
+    id: string
+    event: string
+    status: DeliveryStatus
+    responseStatus: number | null
+    createdAt: string
+  } | null
+}
+
+interface WebhookDelivery {
+  id: string
+  event: string
+  payload: unknown
+  status: DeliveryStatus
+  attempts: number
+  nextAttemptAt: string
+  lastAttemptAt: string | null
+  responseStatus: number | null
+  responseBody: string | null
+  error: string | null
+  durationMs: number | null
+  createdAt: string
+}
+
+const statusVariants: Record<DeliveryStatus, 'warning' | 'success' | 'destructive'> = {
+  PENDING: 'warning',
+  SUCCEEDED: 'success',
+  FAILED: 'destructive',
+}
+
+function subscriptionSummary(webhook: WebhookEndpoint): string {
+  const types = webhook.entityTypes.length
+    ? webhook.entityTypes.map(entityTypeLabel).join(', ')
+    : 'All types'
+  const actions = webhook.actions.length
+    ? webhook.actions.map((a) => formatActionLabel(a as ActivityAction)).join(', ')
+    : 'all actions'
+  return `${types} · ${actions}`
+}
+
+export function WebhookList() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dialogOpen, setDialogOpen] = useState(false)
+  const [editingWebhook, setEditingWebhook] = useState<Webhook | null>(null)
+  const [newSecret, setNewSecret] = useState<string | null>(null)
+  const [logWebhook, setLogWebhook] = useState<Webhook | null>(null)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [loadingDeliveries, setLoadingDeliveries] = useState(false)
+  const [expandedDelivery, setExpandedDelivery] = useState<string | null>(null)
+
+  const fetchWebhooks = async () => {
+    try {
+      const res = await fetch('/api/webhooks')
+      const data = await res.json()
+      setWebhooks(data.data || [])
+    } catch (error) {
+      console.error('Error fetching webhooks:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchDeliveries = async (webhook: Webhook) => {
+    setLoadingDeliveries(true)
+    try {
+      const res = await fetch(`/api/webhooks/${webhook.id}/deliveries`)
+      const data = await res.json()
+      setDeliveries(data.data || [])
+    } catch (error) {
+      console.error('Error fetching webhook deliveries:', error)
+    } finally {
+      setLoadingDeliveries(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchWebhooks()
+  }, [])
+
+  const openLog = (webhook: Webhook) => {
+    setLogWebhook(webhook)
+    setDeliveries([])
+    setExpandedDelivery(null)
+    fetchDeliveries(webhook)
+  }
+
+  const handleSaved = (secret?: string) => {
+    setDialogOpen(false)
+    setEditingWebhook(null)
+    if (secret) setNewSecret(secret)
+    fetchWebhooks()
+  }
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Delete "${webhook.name}" and its delivery log?`)) return
+    try {
+      const res = await fetch(`/api/webhooks/${webhook.id}`, { method: 'DELETE' })
+      if (!res.ok) {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to delete webhook')
+      }
+      fetchWebhooks()
+    } catch (error) {
+      console.error('Error deleting webhook:', error)
+    }
+  }
+
+  const handleTest = async (webhook: Webhook) => {
+    try {
+      const res = await fetch(`/api/webhooks/${webhook.id}/test`, { method: 'POST' })
+      const data = await res.json()
+      if (!res.ok) {
+        alert(data.error || 'Failed to send test webhook')
+      } else if (data.data.status === 'SUCCEEDED') {
+        alert(`Ping delivered (HTTP ${data.data.responseStatus})`)
+      } else {
+        alert(`Ping failed: ${data.data.error || 'no response'}. It will be retried.`)
+      }
+      fetchWebhooks()
+    } catch (error) {
+      console.error('Error sending test webhook:', error)
+    }
+  }
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    if (!logWebhook) return
+    try {
+      const res = await fetch(`/api/webhooks/${logWebhook.id}/deliveries/${delivery.id}`, {
+        method: 'POST',
+      })
+      if (!res.ok) {
+        const errorData = await res.json()
+        alert(errorData.error || 'Failed to redeliver webhook')
+      }
+      fetchDeliveries(logWebhook)
+      fetchWebhooks()
+    } catch (error) {
+      console.error('Error redelivering webhook:', error)
+    }
+  }
+
+  if (loading) {
+    return <div className="text-gray-500">Loading...</div>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          onClick={() => {
+            setEditingWebhook(null)
+            setDialogOpen(true)
+          }}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          New Webhook
+        </Button>
+      </div>
+
+      {webhooks.length === 0 ? (
+        <p className="text-sm text-gray-500">No webhooks configured.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Endpoint</TableHead>
+              <TableHead>Events</TableHead>
+              <TableHead>Last delivery</TableHead>
+              <TableHead className="w-[220px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {webhooks.map((webhook) => (
+              <TableRow key={webhook.id}>
+                <TableCell>
+                  <div className="flex items-center gap-2 font-medium">
+                    {webhook.name}
+                    {!webhook.isActive && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <div className="text-xs text-gray-500 break-all">{webhook.url}</div>
+                  <div className="mt-1 text-xs text-gray-500">
+                    Secret: <code>{webhook.secretHint}</code>
+                  </div>
+                </TableCell>
+                <TableCell className="text-sm text-gray-600">
+                  {subscriptionSummary(webhook)}
+                </TableCell>
+                <TableCell>
+                  {webhook.lastDelivery ? (
+                    <button
+                      type="button"
+                      className="text-left"
+                      onClick={() => openLog(webhook)}
+                    >
+                      <Badge variant={statusVariants[webhook.lastDelivery.status]}>
+                        {webhook.lastDelivery.status.toLowerCase()}
+                      </Badge>
+                      <div className="text-xs text-gray-500">
+                        {formatDateTime(webhook.lastDelivery.createdAt)}
+                      </div>
+                    </button>
+                  ) : (
+                    <span className="text-sm text-gray-400">Never</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => openLog(webhook)}>
+                      Deliveries
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleTest(webhook)}
+                      title="Send a ping"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingWebhook(webhook)
+                        setDialogOpen(true)
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(webhook)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <WebhookDialog
+        open={dialogOpen}
+        onOpenChange={(open) => {
+          setDialogOpen(open)
+          if (!open) setEditingWebhook(null)
+        }}
+        webhook={editingWebhook || undefined}
+        onSuccess={handleSaved}
+      />
+
+      <Dialog open={!!newSecret} onOpenChange={(open) => !open && setNewSecret(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Signing Secret</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            <p className="text-sm text-gray-600">
+              Copy the secret to the receiving system now. It won&apos;t be shown again; rotate it
+              from Edit if it is lost.
+            </p>
+            <div className="rounded-md bg-gray-50 p-3 font-mono text-sm break-all">{newSecret}</div>
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => newSecret && navigator.clipboard?.writeText(newSecret)}
+              >
+                Copy
+              </Button>
+              <Button onClick={() => setNewSecret(null)}>Done</Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!logWebhook} onOpenChange={(open) => !open && setLogWebhook(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Deliveries · {logWebhook?.name}</DialogTitle>
+          </DialogHeader>
+
+          {loadingDeliveries ? (
+            <div className="text-gray-500">Loading...</div>
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing has been sent to this webhook yet.</p>
+          ) : (
+            <ul className="divide-y rounded-md border">
+              {deliveries.map((delivery) => (
+                <li key={delivery.id} className="p-3">
+                  <div className="flex items-center gap-3">
+                    <Badge variant={statusVariants[delivery.status]}>
+                      {delivery.status.toLowerCase()}
+                    </Badge>
+                    <button
+                      type="button"
+                      className="min-w-0 flex-1 text-left"
+                      onClick={() =>
+                        setExpandedDelivery(expandedDelivery === delivery.id ? null : delivery.id)
+                      }
+                    >
+                      <div className="text-sm font-medium">{delivery.event}</div>
+                      <div className="text-xs text-gray-500">
+                        {formatDateTime(delivery.createdAt)} · {delivery.attempts} attempt(s)
+                        {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+                        {delivery.durationMs !== null && ` · ${delivery.durationMs} ms`}
+                        {delivery.status === 'PENDING' &&
+                          delivery.attempts > 0 &&
+                          ` · Next retry ${formatDateTime(delivery.nextAttemptAt)}`}
+                      </div>
+                    </button>
+                    <Button variant="ghost" size="sm" onClick={() => handleRedeliver(delivery)}>
+                      Redeliver
+                    </Button>
+                  </div>
+                  {expandedDelivery === delivery.id && (
+                    <div className="mt-3 space-y-2 text-xs">
+                      {delivery.error && <p className="text-red-600">{delivery.error}</p>}
+                      <div>
+                        <p className="font-medium text-gray-700">Payload</p>
+                        <pre className="mt-1 max-h-60 overflow-auto rounded bg-gray-50 p-2">
+                          {JSON.stringify(delivery.payload, null, 2)}
+                        </pre>
+                      </div>
+                      {delivery.responseBody && (
+                        <div>
+                          <p className="font-medium text-gray-700">Response</p>
+                          <pre className="mt-1 max-h-40 overflow-auto rounded bg-gray-50 p-2 whitespace-pre-wrap">
+                            {delivery.responseBody}
+                          </pre>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
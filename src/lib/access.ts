@@ -0,0 +1,206 @@
+import type { Prisma, RecordScope } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { canAccessFullCandidateInfo, hasPermission, Permission } from '@/lib/permissions'
+
+// Row-level access on top of role permissions, driven by the role's record
+// scope. ASSIGNED_PROJECTS roles (client managers) work only on projects
+// they're assigned to. OWN_ACCOUNTS roles (sales) see the customers they own,
+// those customers' projects and any project they're assigned to. ALL roles
+// see everything their permissions allow.
+
+export interface SessionUser {
+  id: string
+  permissions: Permission[]
+  recordScope: RecordScope
+}
+
+/**
+ * Projects the user may see. Empty for unrestricted roles.
+ */
+export function projectScope(user: SessionUser): Prisma.ProjectWhereInput {
+  const assigned: Prisma.ProjectWhereInput = {
+    assignedUsers: { some: { userId: user.id } },
+  }
+
+  switch (user.recordScope) {
+    case 'ASSIGNED_PROJECTS':
+      return assigned
+    case 'OWN_ACCOUNTS':
+      return { OR: [assigned, { customer: { ownerUserId: user.id } }] }
+    default:
+      return {}
+  }
+}
+
+/**
+ * Customers the user may see: those they own (own-accounts scope) or with a
+ * project they're assigned to
+ */
+export function customerScope(user: SessionUser): Prisma.CustomerWhereInput {
+  const withAssignedProject: Prisma.CustomerWhereInput = {
+    projects: { some: { assignedUsers: { some: { userId: user.id } } } },
+  }
+
+  switch (user.recordScope) {
+    case 'ASSIGNED_PROJECTS':
+      return withAssignedProject
+    case 'OWN_ACCOUNTS':
+      return { OR: [{ ownerUserId: user.id }, withAssignedProject] }
+    default:
+      return {}
+  }
+}
+
+/**
+ * Customers the user may edit. Own-accounts roles only edit accounts they own.
+ */
+export function customerWriteScope(user: SessionUser): Prisma.CustomerWhereInput {
+  return user.recordScope === 'OWN_ACCOUNTS' ? { ownerUserId: user.id } : customerScope(user)
+}
+
+export function isProjectScoped(user: SessionUser): boolean {
+  return user.recordScope !== 'ALL'
+}
+
+export async function canAccessProject(user: SessionUser, projectId: string): Promise<boolean> {
+  if (!isProjectScoped(user)) return true
+  const count = await prisma.project.count({
+    where: { AND: [{ id: projectId }, projectScope(user)] },
+  })
+  return count > 0
+}
+
+export async function canAccessCustomer(
+  user: SessionUser,
+  customerId: string,
+  access: 'read' | 'write' = 'read'
+): Promise<boolean> {
+  if (!isProjectScoped(user)) return true
+  const scope = access === 'write' ? customerWriteScope(user) : customerScope(user)
+  const count = await prisma.customer.count({
+    where: { AND: [{ id: customerId }, scope] },
+  })
+  return count > 0
+}
+
+/**
+ * Of the given candidates, the ones the user may see full details for.
+ * Scoped roles only get full details for candidates on their projects.
+ */
+export async function getFullCandidateIds(
+  user: SessionUser,
+  candidateIds: string[]
+): Promise<Set<string>> {
+  if (!canAccessFullCandidateInfo(user) || candidateIds.length === 0) {
+    return new Set()
+  }
+  if (!isProjectScoped(user)) return new Set(candidateIds)
+
+  const candidates = await prisma.candidate.findMany({
+    where: {
+      id: { in: candidateIds },
+      projectTalents: { some: { project: projectScope(user) } },
+    },
+    select: { id: true },
+  })
+  return new Set(candidates.map((c) => c.id))
+}
+
+export async function canViewFullCandidate(user: SessionUser, candidateId: string): Promise<boolean> {
+  const ids = await getFullCandidateIds(user, [candidateId])
+  return ids.has(candidateId)
+}
+
+// Candidate fields only shown to users with full access to the candidate
+const RESTRICTED_CANDIDATE_FIELDS = [
+  'email',
+  'phone',
+  'summaryInternal',
+  'availability',
+  'salaryExpectation',
+  'resumeFileUrl',
+  'resumeOriginalName',
+  'resumeExtractedText',
+  'activeResumeVersionId',
+  'interviewNotes',
+]
+
+/**
+ * Copy of the candidate without contact details, internal notes or resume
+ */
+export function redactCandidate<T extends object>(candidate: T): T {
+  const redacted = { ...candidate } as Record<string, unknown>
+  for (const field of RESTRICTED_CANDIDATE_FIELDS) {
+    delete redacted[field]
+  }
+  return redacted as T
+}
+
+// Project fields open to users with projects:update_status but not projects:write
+const STATUS_ONLY_PROJECT_FIELDS = ['status', 'devOpsStatus']
+
+// Pipeline fields open to users with project_candidates:feedback but not full
+// pipeline write access: feedback and what the stage workflow needs
+const FEEDBACK_ONLY_TALENT_FIELDS = [
+  'stage',
+  'clientFeedback',
+  'submittedAt',
+  'startDate',
+  'interviewNoteIndexes',
+]
+
+function sameValue(a: unknown, b: unknown): boolean {
+  const empty = (v: unknown) => v === null || v === undefined || v === ''
+  if (empty(a) && empty(b)) return true
+  if (a instanceof Date || b instanceof Date) {
+    return !!a && !!b && new Date(a as string).getTime() === new Date(b as string).getTime()
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false
+    const sortedA = a.map(String).sort()
+    const sortedB = b.map(String).sort()
+    return sortedA.every((value, i) => value === sortedB[i])
+  }
+  return a === b
+}
+
+function restrictedFieldError(
+  allowed: string[],
+  data: Record<string, unknown>,
+  current: Record<string, unknown>
+): string | null {
+  const changed = Object.keys(data).filter(
+    (field) => data[field] !== undefined && !allowed.includes(field) && !sameValue(data[field], current[field])
+  )
+  if (changed.length === 0) return null
+  return `You can only change ${allowed.join(', ')} (not ${changed.join(', ')})`
+}
+
+/**
+ * Error message if the user's project update touches fields their
+ * permissions don't cover, otherwise null. `current` should include
+ * `assignedUserIds`.
+ */
+export function projectWriteError(
+  user: SessionUser,
+  data: Record<string, unknown>,
+  current: Record<string, unknown>
+): string | null {
+  if (hasPermission(user, 'projects:write')) return null
+  return restrictedFieldError(STATUS_ONLY_PROJECT_FIELDS, data, current)
+}
+
+/**
+ * Error message if the user's pipeline update touches fields their
+ * permissions don't cover, otherwise null
+ */
+export function projectTalentWriteError(
+  user: SessionUser,
+  data: Record<string, unknown>,
+  current: Record<string, unknown>
+): string | null {
+  if (hasPermission(user, 'project_candidates:write') || hasPermission(user, 'projects:write')) {
+    return null
+  }
+  return restrictedFieldError(FEEDBACK_ONLY_TALENT_FIELDS, data, current)
+}
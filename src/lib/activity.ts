@@ -1,8 +1,9 @@
 import prisma from './prisma'
 import { ActivityAction } from '@prisma/client'
+import { queueWebhookDeliveries } from './webhooks'
 
 interface LogActivityParams {
-  entityType: 'Customer' | 'Project' | 'Candidate' | 'ProjectCandidate' | 'User' | 'Engineer' | 'EngineerAssignment' | 'EngineerUpdate' | 'ProjectTalent'
+  entityType: 'Customer' | 'Project' | 'Candidate' | 'ProjectCandidate' | 'User' | 'Engineer' | 'EngineerAssignment' | 'EngineerUpdate' | 'ProjectTalent' | 'ScoringProfile' | 'Skill' | 'Interview' | 'Role' | 'Webhook' | 'SsoSettings'
   entityId: string
   action: ActivityAction
   performedByUserId?: string
@@ -17,7 +18,7 @@ export async function logActivity({
   diff,
 }: LogActivityParams) {
   try {
-    await prisma.activityLog.create({
+    const activity = await prisma.activityLog.create({
       data: {
         entityType,
         entityId,
@@ -26,6 +27,8 @@ export async function logActivity({
         diff: diff ? JSON.parse(JSON.stringify(diff)) : undefined,
       },
     })
+
+    await queueWebhookDeliveries(activity)
   } catch (error) {
     console.error('Failed to log activity:', error)
     // Don't throw - activity logging shouldn't break main operations
@@ -66,8 +69,10 @@ export function formatActionLabel(action: ActivityAction): string {
     ASSIGNED: 'Assigned',
     UNASSIGNED: 'Unassigned',
     LOGIN: 'Logged In',
+    LOGIN_FAILED: 'Failed Login',
     CONVERTED: 'Converted to Engineer',
     UPDATE_ADDED: 'Added Update',
+    MERGED: 'Merged Duplicate',
   }
   return labels[action] || action
 }
@@ -0,0 +1,90 @@
+import crypto from 'crypto'
+import { headers } from 'next/headers'
+import { getServerSession, type Session } from 'next-auth'
+import prisma from '@/lib/prisma'
+import { authOptions } from '@/lib/auth'
+import type { Permission } from '@/lib/permissions'
+import { getRoleConfig } from '@/lib/roles'
+
+// Personal access tokens for scripts and internal tooling. A request with
+// "Authorization: Bearer <token>" is treated as the token's owner, with only
+// the permissions both the token's scopes and the owner's current role allow.
+
+export const API_TOKEN_PREFIX = 'nvt_'
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6
+// Don't write lastUsedAt on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * A fresh token, the hash to store and the prefix to show in lists
+ */
+export function generateApiToken(): { token: string; tokenHash: string; prefix: string } {
+  const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    prefix: token.slice(0, DISPLAY_PREFIX_LENGTH),
+  }
+}
+
+/**
+ * The session a bearer token acts as, or null if it is unknown, expired,
+ * revoked or its owner has been deactivated
+ */
+export async function sessionForApiToken(token: string): Promise<Session | null> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) return null
+
+  const apiToken = await prisma.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: { user: true },
+  })
+
+  const now = new Date()
+  if (!apiToken || apiToken.revokedAt || apiToken.expiresAt <= now || !apiToken.user.isActive) {
+    return null
+  }
+
+  if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: now },
+    })
+  }
+
+  const roleConfig = await getRoleConfig(apiToken.user.role)
+  const scopes = new Set(apiToken.scopes)
+
+  return {
+    user: {
+      id: apiToken.user.id,
+      email: apiToken.user.email,
+      fullName: apiToken.user.fullName,
+      role: apiToken.user.role,
+      roleName: roleConfig.name,
+      permissions: roleConfig.permissions.filter((p: Permission) => scopes.has(p)),
+      recordScope: roleConfig.recordScope,
+      twoFactorSetupRequired: false,
+      passwordChangeRequired: false,
+      sessionId: '',
+    },
+    expires: apiToken.expiresAt.toISOString(),
+    apiTokenId: apiToken.id,
+  }
+}
+
+/**
+ * The caller of an API route: a bearer token if the request sends one,
+ * otherwise the browser session. An invalid token is never retried as a
+ * browser session.
+ */
+export async function getRequestSession(): Promise<Session | null> {
+  const authorization = headers().get('authorization')
+  if (authorization && /^bearer\s/i.test(authorization)) {
+    return sessionForApiToken(authorization.slice(7).trim())
+  }
+  return getServerSession(authOptions)
+}
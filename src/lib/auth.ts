@@ -1,15 +1,41 @@
 import { NextAuthOptions } from 'next-auth'
 import CredentialsProvider from 'next-auth/providers/credentials'
 import bcrypt from 'bcryptjs'
+import type { RecordScope } from '@prisma/client'
 import prisma from './prisma'
-import { Role } from '@prisma/client'
+import { logActivity } from './activity'
+import type { Permission } from './permissions'
+import { getRoleConfig } from './roles'
+import {
+  extractGroups,
+  isEmailVerified,
+  isPasswordLoginEnabled,
+  resolveSsoUser,
+  ssoProviders,
+} from './sso'
+import {
+  clearFailedLogins,
+  clientIp,
+  isLockedOut,
+  recordFailedLogin,
+  takeLoginAttempt,
+  verifySecondFactor,
+} from './login-security'
+import {
+  SESSION_MAX_AGE_SECONDS,
+  createUserSession,
+  isUserSessionActive,
+  revokeUserSession,
+} from './user-sessions'
 
 declare module 'next-auth' {
   interface User {
     id: string
     email: string
     fullName: string
-    role: Role
+    role: string
+    twoFactorEnabled?: boolean
+    mustChangePassword?: boolean
   }
 
   interface Session {
@@ -17,8 +43,21 @@ declare module 'next-auth' {
       id: string
       email: string
       fullName: string
-      role: Role
+      role: string
+      roleName: string
+      // Resolved from the role's stored configuration on every request
+      permissions: Permission[]
+      recordScope: RecordScope
+      // The role requires 2FA and this password login hasn't enrolled yet.
+      // Until they do, the user has no permissions.
+      twoFactorSetupRequired: boolean
+      // An admin asked for a new password on this login; same effect as above
+      passwordChangeRequired: boolean
+      // The user_sessions row behind this login
+      sessionId: string
     }
+    // Set when the request authenticated with an API token instead
+    apiTokenId?: string
   }
 }
 
@@ -27,10 +66,17 @@ declare module 'next-auth/jwt' {
     id: string
     email: string
     fullName: string
-    role: Role
+    role: string
+    authMethod: 'password' | 'sso'
+    twoFactorEnabled: boolean
+    mustChangePassword: boolean
+    sid: string
   }
 }
 
+// bcrypt hash of a random string, compared against when the email is unknown
+const DUMMY_PASSWORD_HASH = '$2b$12$ZOo6bR7zmFncXZK0b57jQ.2zqjKDVyrfZEO/.5bwgnCw2xYxyatQ2'
+
 export const authOptions: NextAuthOptions = {
   providers: [
     CredentialsProvider({
@@ -38,102 +84,201 @@ export const authOptions: NextAuthOptions = {
       credentials: {
         email: { label: 'Email', type: 'email' },
         password: { label: 'Password', type: 'password' },
+        code: { label: 'Authentication code', type: 'text' },
       },
-      async authorize(credentials) {
-        try {
-          console.error('[Auth] Login attempt for:', credentials?.email)
+      // Every failure the user could learn about an account from is reported
+      // as InvalidCredentials; the specific reason goes to the activity log
+      async authorize(credentials, req) {
+        if (!credentials?.email || !credentials?.password) {
+          throw new Error('InvalidCredentials')
+        }
 
-          if (!credentials?.email || !credentials?.password) {
-            console.error('[Auth] Missing credentials')
-            throw new Error('Missing credentials')
-          }
+        if (!(await isPasswordLoginEnabled())) {
+          throw new Error('PasswordLoginDisabled')
+        }
 
-          console.error('[Auth] Querying database...')
-          const user = await prisma.user.findUnique({
-            where: { email: credentials.email },
-          })
+        const email = credentials.email.trim()
+        const ip = clientIp(req?.headers)
 
-          console.error('[Auth] User found:', !!user, user?.email)
+        const user = await prisma.user.findFirst({
+          where: { email: { equals: email, mode: 'insensitive' } },
+        })
 
-          if (!user || !user.isActive) {
-            console.error('[Auth] User not found or inactive')
-            throw new Error('User not found')
-          }
+        if (!takeLoginAttempt(ip)) {
+          await recordFailedLogin({ user, email, ip, reason: 'throttled' })
+          throw new Error('TooManyAttempts')
+        }
 
-          console.error('[Auth] Comparing password...')
-          const isValidPassword = await bcrypt.compare(
-            credentials.password,
-            user.passwordHash
-          )
+        // Compare against a dummy hash for unknown users so timing doesn't tell
+        const isValidPassword = await bcrypt.compare(
+          credentials.password,
+          user?.passwordHash || DUMMY_PASSWORD_HASH
+        )
 
-          console.error('[Auth] Password valid:', isValidPassword)
+        // Reported like a wrong password, since only registered emails can be
+        // locked; the activity log keeps the real reason
+        if (user && isLockedOut(user)) {
+          await recordFailedLogin({ user, email, ip, reason: 'locked' })
+          throw new Error('InvalidCredentials')
+        }
 
-          if (!isValidPassword) {
-            console.error('[Auth] Invalid password')
-            throw new Error('Wrong password')
+        if (!user || !user.isActive || !user.passwordHash || !isValidPassword) {
+          const reason = !user
+            ? 'unknown_user'
+            : !user.isActive
+              ? 'inactive'
+              : !user.passwordHash
+                ? 'no_password'
+                : 'wrong_password'
+          await recordFailedLogin({ user: user?.isActive ? user : null, email, ip, reason })
+          throw new Error('InvalidCredentials')
+        }
+
+        if (user.totpEnabledAt) {
+          if (!credentials.code) {
+            // Not a failure: the login form asks for the code and resubmits
+            throw new Error('TwoFactorRequired')
+          }
+          if (!(await verifySecondFactor(user, credentials.code))) {
+            await recordFailedLogin({ user, email, ip, reason: 'invalid_code' })
+            throw new Error('InvalidTwoFactorCode')
           }
+        }
 
-          // Update last login
-          await prisma.user.update({
-            where: { id: user.id },
-            data: { lastLoginAt: new Date() },
-          })
-
-          // Log the login
-          await prisma.activityLog.create({
-            data: {
-              entityType: 'User',
-              entityId: user.id,
-              action: 'LOGIN',
-              performedByUserId: user.id,
-            },
-          })
+        await clearFailedLogins(user)
+        await prisma.user.update({
+          where: { id: user.id },
+          data: { lastLoginAt: new Date() },
+        })
 
-          console.error('[Auth] Login successful for:', user.email)
+        await logActivity({
+          entityType: 'User',
+          entityId: user.id,
+          action: 'LOGIN',
+          performedByUserId: user.id,
+        })
 
-          return {
-            id: user.id,
-            email: user.email,
-            fullName: user.fullName,
-            role: user.role,
-          }
-        } catch (error) {
-          console.error('[Auth] Error during login:', error instanceof Error ? error.message : error)
-          console.error('[Auth] Error stack:', error instanceof Error ? error.stack : 'no stack')
-          // Re-throw with original message for debugging
-          throw error
+        return {
+          id: user.id,
+          email: user.email,
+          fullName: user.fullName,
+          role: user.role,
+          twoFactorEnabled: !!user.totpEnabledAt,
+          mustChangePassword: user.mustChangePassword,
         }
       },
     }),
+    ...ssoProviders(),
   ],
   callbacks: {
-    async jwt({ token, user }) {
-      if (user) {
+    async signIn({ user, account, profile }) {
+      if (!account || account.type === 'credentials') return true
+
+      // SSO: link or provision the local user, or send them back with the reason
+      const result = await resolveSsoUser({
+        provider: account.provider,
+        subject: account.providerAccountId,
+        email: user.email,
+        emailVerified: isEmailVerified(
+          account.provider,
+          profile as Record<string, unknown> | undefined
+        ),
+        fullName: user.fullName,
+        groups: extractGroups(profile as Record<string, unknown> | undefined),
+      })
+
+      if ('error' in result) {
+        console.error('[Auth] SSO login refused:', user.email, result.error)
+        return `/login?error=${result.error}`
+      }
+      return true
+    },
+    async jwt({ token, user, account, trigger }) {
+      // Outside of sign-in, make sure the session hasn't been revoked. Throwing
+      // makes next-auth drop the session cookie and treat the request as
+      // signed out; tokens from before session tracking have no sid.
+      if (!user && (!token.sid || !(await isUserSessionActive(token.sid)))) {
+        throw new Error('SessionRevoked')
+      }
+
+      if (trigger === 'update') {
+        // Re-read rather than trust client data, e.g. after enrolling in 2FA
+        const current = await prisma.user.findUnique({ where: { id: token.id } })
+        if (current) {
+          token.fullName = current.fullName
+          token.role = current.role
+          token.twoFactorEnabled = !!current.totpEnabledAt
+          token.mustChangePassword = current.mustChangePassword
+        }
+      } else if (account && account.type !== 'credentials') {
+        // `user` is the IdP profile here; the token carries the local user
+        const localUser = await prisma.user.findUnique({
+          where: {
+            authProvider_externalId: {
+              authProvider: account.provider,
+              externalId: account.providerAccountId,
+            },
+          },
+        })
+        if (localUser) {
+          token.id = localUser.id
+          token.email = localUser.email
+          token.fullName = localUser.fullName
+          token.role = localUser.role
+          // Second factors for SSO logins are the identity provider's job
+          token.authMethod = 'sso'
+          token.twoFactorEnabled = !!localUser.totpEnabledAt
+          token.mustChangePassword = false
+          token.sid = await createUserSession(localUser.id, 'sso')
+        }
+      } else if (user) {
         token.id = user.id
         token.email = user.email
         token.fullName = user.fullName
         token.role = user.role
+        token.authMethod = 'password'
+        token.twoFactorEnabled = !!user.twoFactorEnabled
+        token.mustChangePassword = !!user.mustChangePassword
+        token.sid = await createUserSession(user.id, 'password')
       }
       return token
     },
     async session({ session, token }) {
       if (token) {
+        const roleConfig = await getRoleConfig(token.role)
+        const twoFactorSetupRequired =
+          roleConfig.requireTwoFactor && token.authMethod !== 'sso' && !token.twoFactorEnabled
+        const passwordChangeRequired = token.authMethod !== 'sso' && !!token.mustChangePassword
         session.user = {
           id: token.id,
           email: token.email,
           fullName: token.fullName,
           role: token.role,
+          roleName: roleConfig.name,
+          permissions:
+            twoFactorSetupRequired || passwordChangeRequired ? [] : roleConfig.permissions,
+          recordScope: roleConfig.recordScope,
+          twoFactorSetupRequired,
+          passwordChangeRequired,
+          sessionId: token.sid,
         }
       }
       return session
     },
   },
+  events: {
+    async signOut({ token }) {
+      if (token?.sid) {
+        await revokeUserSession(token.id, token.sid)
+      }
+    },
+  },
   pages: {
     signIn: '/login',
   },
   session: {
     strategy: 'jwt',
-    maxAge: 30 * 24 * 60 * 60, // 30 days
+    maxAge: SESSION_MAX_AGE_SECONDS,
   },
   secret: process.env.NEXTAUTH_SECRET,
 }
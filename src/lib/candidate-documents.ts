@@ -0,0 +1,232 @@
+import type { CandidateDocumentType, DocumentVisibility, TextExtractionStatus } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { SessionUser, canViewFullCandidate } from '@/lib/access'
+import { hasPermission } from '@/lib/permissions'
+import { assessExtractedText, getResumeMimeType } from '@/lib/resume-extraction'
+import { deleteUpload } from '@/lib/uploads'
+
+// Files kept on a candidate (CV versions, certificates, portfolio, NDA).
+// Every upload is a new version of a document; one resume version is the
+// candidate's active resume, whose file and text are copied onto the
+// candidate (resumeFileUrl, resumeExtractedText, ...) for matching, search
+// and everything else that reads the candidate's resume.
+
+export interface DocumentFile {
+  url: string
+  originalName: string
+  mimeType: string
+  size?: number | null
+}
+
+// How a resume version's text was read (see src/lib/resume-extraction.ts)
+export interface TextExtraction {
+  status: TextExtractionStatus
+  ocr?: boolean
+}
+
+/**
+ * Visibilities of the documents the user may see on a candidate
+ */
+export function visibleDocumentLevels(user: SessionUser, fullAccess: boolean): DocumentVisibility[] {
+  if (!fullAccess) return ['ALL_USERS']
+  return hasPermission(user, 'candidates:write')
+    ? ['ALL_USERS', 'FULL_ACCESS', 'EDITORS']
+    : ['ALL_USERS', 'FULL_ACCESS']
+}
+
+export async function canSeeDocument(
+  user: SessionUser,
+  document: { candidateId: string; visibility: DocumentVisibility }
+): Promise<boolean> {
+  if (!hasPermission(user, 'candidates:read')) return false
+  if (document.visibility === 'ALL_USERS') return true
+  const fullAccess = await canViewFullCandidate(user, document.candidateId)
+  return visibleDocumentLevels(user, fullAccess).includes(document.visibility)
+}
+
+/**
+ * Add a file to a candidate: a new version of `documentId`, or version 1 of
+ * a new document
+ */
+export async function addDocumentVersion({
+  candidateId,
+  documentId,
+  document: newDocument,
+  file,
+  extractedText,
+  extraction,
+  userId,
+}: {
+  candidateId: string
+  documentId?: string
+  document?: { type: CandidateDocumentType; title: string; visibility?: DocumentVisibility }
+  file: DocumentFile
+  extractedText?: string | null
+  extraction?: TextExtraction
+  userId?: string
+}) {
+  return prisma.$transaction(async (tx) => {
+    const document = documentId
+      ? await tx.candidateDocument.update({
+          where: { id: documentId, candidateId },
+          data: { updatedAt: new Date() },
+        })
+      : await tx.candidateDocument.create({
+          data: {
+            candidateId,
+            type: newDocument?.type ?? 'OTHER',
+            title: newDocument?.title ?? file.originalName,
+            visibility: newDocument?.visibility,
+            createdByUserId: userId,
+          },
+        })
+
+    const latest = await tx.candidateDocumentVersion.aggregate({
+      where: { documentId: document.id },
+      _max: { version: true },
+    })
+
+    const version = await tx.candidateDocumentVersion.create({
+      data: {
+        documentId: document.id,
+        version: (latest._max.version ?? 0) + 1,
+        fileUrl: file.url,
+        originalName: file.originalName,
+        mimeType: file.mimeType,
+        size: file.size ?? null,
+        extractedText: extractedText || null,
+        extractionStatus: extraction?.status ?? null,
+        extractedWithOcr: extraction?.ocr ?? false,
+        uploadedByUserId: userId,
+      },
+    })
+
+    return { document, version }
+  })
+}
+
+/**
+ * Make a resume version the one used for matching and search (or, with
+ * null, leave the candidate without a resume). Returns the updated candidate.
+ */
+export async function setActiveResume(candidateId: string, versionId: string | null) {
+  const version = versionId
+    ? await prisma.candidateDocumentVersion.findUniqueOrThrow({ where: { id: versionId } })
+    : null
+
+  return prisma.candidate.update({
+    where: { id: candidateId },
+    data: {
+      activeResumeVersionId: version?.id ?? null,
+      resumeFileUrl: version?.fileUrl ?? null,
+      resumeOriginalName: version?.originalName ?? null,
+      resumeUploadedAt: version?.createdAt ?? null,
+      resumeExtractedText: version?.extractedText ?? null,
+    },
+  })
+}
+
+/**
+ * How the text of an uploaded resume was read, from its extraction job (see
+ * POST /api/upload): still pending, or the job's rating if the text saved is
+ * the text it extracted. Otherwise the text is rated as it stands.
+ */
+async function uploadExtraction(fileUrl: string, text: string | null): Promise<TextExtraction> {
+  const job = await prisma.job.findFirst({
+    where: { type: 'resume.extract', payload: { path: ['url'], equals: fileUrl } },
+    orderBy: { createdAt: 'desc' },
+  })
+  if (job?.status === 'PENDING' || job?.status === 'RUNNING') {
+    return { status: 'PENDING' }
+  }
+
+  const result = job?.status === 'SUCCEEDED' ? (job.result as Record<string, unknown> | null) : null
+  if (result?.status && result.extractedText === (text || '')) {
+    return { status: result.status as TextExtractionStatus, ocr: !!result.ocr }
+  }
+  return { status: assessExtractedText(text || '') }
+}
+
+/**
+ * Keep the candidate's documents in step with the resume fields saved from
+ * the candidate form: a newly uploaded file becomes a new version of the
+ * active resume document (or a new "CV" document) and the active resume;
+ * edits to the extracted text go to the active version; removing the file
+ * leaves the candidate without an active resume, keeping the versions.
+ * `extraction` describes how a new file's text was read; without it that
+ * comes from the file's upload.
+ */
+export async function syncResumeFromCandidate(
+  candidate: {
+    id: string
+    resumeFileUrl: string | null
+    resumeOriginalName: string | null
+    resumeExtractedText: string | null
+    activeResumeVersionId: string | null
+  },
+  userId: string,
+  extraction?: TextExtraction
+) {
+  const active = candidate.activeResumeVersionId
+    ? await prisma.candidateDocumentVersion.findUnique({
+        where: { id: candidate.activeResumeVersionId },
+      })
+    : null
+
+  if (!candidate.resumeFileUrl) {
+    if (active) {
+      await prisma.candidate.update({
+        where: { id: candidate.id },
+        data: { activeResumeVersionId: null },
+      })
+    }
+    return
+  }
+
+  if (active?.fileUrl === candidate.resumeFileUrl) {
+    if (active.extractedText !== candidate.resumeExtractedText) {
+      await prisma.candidateDocumentVersion.update({
+        where: { id: active.id },
+        data: {
+          extractedText: candidate.resumeExtractedText,
+          extractionStatus: assessExtractedText(candidate.resumeExtractedText || ''),
+        },
+      })
+    }
+    return
+  }
+
+  const { version } = await addDocumentVersion({
+    candidateId: candidate.id,
+    documentId: active?.documentId,
+    document: { type: 'RESUME', title: 'CV' },
+    file: {
+      url: candidate.resumeFileUrl,
+      originalName: candidate.resumeOriginalName || candidate.resumeFileUrl.split('/').pop() || 'Resume',
+      mimeType: getResumeMimeType(candidate.resumeFileUrl) || 'application/octet-stream',
+    },
+    extractedText: candidate.resumeExtractedText,
+    extraction:
+      extraction ?? (await uploadExtraction(candidate.resumeFileUrl, candidate.resumeExtractedText)),
+    userId,
+  })
+  await prisma.candidate.update({
+    where: { id: candidate.id },
+    data: { activeResumeVersionId: version.id, resumeUploadedAt: version.createdAt },
+  })
+}
+
+/**
+ * Delete stored files that no candidate or document version uses any more
+ */
+export async function deleteUnusedFiles(urls: string[]) {
+  for (const url of Array.from(new Set(urls))) {
+    const [candidates, versions] = await Promise.all([
+      prisma.candidate.count({ where: { resumeFileUrl: url } }),
+      prisma.candidateDocumentVersion.count({ where: { fileUrl: url } }),
+    ])
+    if (candidates === 0 && versions === 0) {
+      await deleteUpload(url)
+    }
+  }
+}
@@ -0,0 +1,180 @@
+import prisma from './prisma'
+
+export interface DuplicateCheckFields {
+  fullName?: string | null
+  email?: string | null
+  phone?: string | null
+  resumeExtractedText?: string | null
+}
+
+export interface DuplicateCandidate {
+  id: string
+  fullName: string
+  email: string | null
+  phone: string | null
+  title: string | null
+  reasons: string[]
+}
+
+// Names at or above this similarity count as near-identical
+const NAME_SIMILARITY_THRESHOLD = 0.85
+// Resume word-set overlap needed to back up a near-identical name
+const RESUME_SIMILARITY_THRESHOLD = 0.6
+// Phones are compared on their trailing digits so country/trunk prefixes don't matter
+const PHONE_SUFFIX_LENGTH = 9
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase()
+}
+
+function normalizePhone(phone: string): string {
+  return phone.replace(/\D/g, '').slice(-PHONE_SUFFIX_LENGTH)
+}
+
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0590-\u05ff\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .sort()
+    .join(' ')
+}
+
+function levenshtein(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]
+    previous[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1)
+      )
+      diagonal = above
+    }
+  }
+  return previous[b.length]
+}
+
+/**
+ * Similarity of two names from 0 to 1 (word order and accents are ignored)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a)
+  const right = normalizeName(b)
+  if (!left || !right) return 0
+  const longest = Math.max(left.length, right.length)
+  return 1 - levenshtein(left, right) / longest
+}
+
+const WORD_SEPARATOR = new RegExp('[^\\p{L}\\p{N}+#.]+', 'u')
+
+function resumeWords(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(WORD_SEPARATOR)
+      .filter((word) => word.length > 2)
+  )
+}
+
+/**
+ * Jaccard overlap of the distinct words in two resumes, from 0 to 1
+ */
+export function resumeSimilarity(a: string, b: string): number {
+  const left = resumeWords(a)
+  const right = resumeWords(b)
+  if (left.size === 0 || right.size === 0) return 0
+  let shared = 0
+  left.forEach((word) => {
+    if (right.has(word)) shared++
+  })
+  return shared / (left.size + right.size - shared)
+}
+
+/**
+ * Find existing candidates that look like the same person:
+ * same email, same phone, or a near-identical name backed by a similar resume
+ * (an exactly matching name without a resume to compare is also flagged).
+ */
+export async function findDuplicateCandidates(
+  input: DuplicateCheckFields,
+  excludeId?: string
+): Promise<DuplicateCandidate[]> {
+  const email = input.email ? normalizeEmail(input.email) : ''
+  const phone = input.phone ? normalizePhone(input.phone) : ''
+  const nameTokens = (input.fullName || '')
+    .split(/\s+/)
+    .filter((token) => token.length >= 3)
+
+  const or: Record<string, unknown>[] = []
+  if (email) or.push({ email: { equals: email, mode: 'insensitive' } })
+  // Narrow by the last digits in SQL, then compare normalized numbers below
+  if (phone.length >= 7) or.push({ phone: { contains: phone.slice(-4) } })
+  for (const token of nameTokens) {
+    or.push({ fullName: { contains: token, mode: 'insensitive' } })
+  }
+  if (or.length === 0) return []
+
+  const candidates = await prisma.candidate.findMany({
+    where: {
+      OR: or,
+      ...(excludeId ? { id: { not: excludeId } } : {}),
+    },
+    select: {
+      id: true,
+      fullName: true,
+      email: true,
+      phone: true,
+      title: true,
+      resumeExtractedText: true,
+    },
+    take: 50,
+  })
+
+  const duplicates: DuplicateCandidate[] = []
+
+  for (const candidate of candidates) {
+    const reasons: string[] = []
+
+    if (email && candidate.email && normalizeEmail(candidate.email) === email) {
+      reasons.push('Same email')
+    }
+
+    if (phone.length >= 7 && candidate.phone && normalizePhone(candidate.phone) === phone) {
+      reasons.push('Same phone')
+    }
+
+    if (input.fullName) {
+      const similarity = nameSimilarity(input.fullName, candidate.fullName)
+      if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+        if (input.resumeExtractedText && candidate.resumeExtractedText) {
+          const overlap = resumeSimilarity(input.resumeExtractedText, candidate.resumeExtractedText)
+          if (overlap >= RESUME_SIMILARITY_THRESHOLD) {
+            reasons.push(`Similar name and resume (${Math.round(overlap * 100)}% overlap)`)
+          }
+        } else if (similarity === 1) {
+          reasons.push('Same name')
+        }
+      }
+    }
+
+    if (reasons.length > 0) {
+      duplicates.push({
+        id: candidate.id,
+        fullName: candidate.fullName,
+        email: candidate.email,
+        phone: candidate.phone,
+        title: candidate.title,
+        reasons,
+      })
+    }
+  }
+
+  return duplicates
+}
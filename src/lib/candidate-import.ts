@@ -0,0 +1,527 @@
+import JSZip from 'jszip'
+import { Prisma } from '@prisma/client'
+import prisma from './prisma'
+import { candidateSchema, CandidateInput } from './validations'
+import { parseCsv } from './csv'
+import { parseResume } from './resume-parser'
+import { normalizeSkills, SkillIndex } from './skills'
+import { getSkillIndex } from './skill-taxonomy'
+import { findDuplicateCandidates } from './candidate-duplicates'
+import {
+  extractResumeText,
+  cleanExtractedText,
+  getResumeMimeType,
+  ResumeExtraction,
+} from './resume-extraction'
+import { isOcrEnabled } from './ocr'
+import { enqueueJob } from './jobs'
+import { saveUpload } from './uploads'
+import { syncResumeFromCandidate } from './candidate-documents'
+import { inspectResumeFile } from './file-inspection'
+import { logActivity } from './activity'
+import {
+  CandidateImportField,
+  CandidateImportMapping,
+  CandidateImportRow,
+  CandidateImportResult,
+  EmploymentHistoryEntry,
+  candidateImportFieldLabels,
+} from '@/types'
+
+export const MAX_IMPORT_ROWS = 500
+
+// What a resumes ZIP may expand to, since its files are read into memory
+const MAX_ZIP_ENTRIES = 2000
+const MAX_RESUME_SIZE = 10 * 1024 * 1024
+const MAX_ZIP_UNCOMPRESSED_SIZE = 200 * 1024 * 1024
+
+const LIST_FIELDS: CandidateImportField[] = ['technologies', 'languages', 'tags']
+
+interface ResumeFile {
+  name: string
+  buffer: Buffer
+  mimeType: string
+  // Why the file failed inspection, if it did (see src/lib/file-inspection.ts)
+  rejection?: string
+  extraction?: ResumeExtraction
+}
+
+interface PreparedRow extends CandidateImportRow {
+  input: Record<string, unknown>
+  resume: ResumeFile | null
+  employmentHistory: EmploymentHistoryEntry[]
+}
+
+export interface ImportPreview {
+  headers: string[]
+  mapping: CandidateImportMapping
+  rows: PreparedRow[]
+}
+
+function toKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function basename(path: string): string {
+  return path.split('/').pop() || path
+}
+
+/**
+ * Guess the candidate field for each CSV header by comparing against field keys and labels
+ */
+export function suggestImportMapping(headers: string[]): CandidateImportMapping {
+  const fields = Object.keys(candidateImportFieldLabels) as CandidateImportField[]
+  const aliases: Record<string, CandidateImportField> = {
+    name: 'fullName',
+    mobile: 'phone',
+    city: 'location',
+    skills: 'technologies',
+    experience: 'yearsExperience',
+    years: 'yearsExperience',
+    seniority: 'seniorityLevel',
+    level: 'seniorityLevel',
+    salary: 'salaryExpectation',
+    resume: 'resumeFile',
+    cv: 'resumeFile',
+  }
+
+  const mapping: CandidateImportMapping = {}
+  for (const header of headers) {
+    const key = toKey(header)
+    mapping[header] =
+      fields.find(
+        (field) => toKey(field) === key || toKey(candidateImportFieldLabels[field]) === key
+      ) ||
+      aliases[key] ||
+      ''
+  }
+  return mapping
+}
+
+function toFieldValue(field: CandidateImportField, raw: string): unknown {
+  const value = raw.trim()
+  if (LIST_FIELDS.includes(field)) {
+    return value.split(/[,;|]/).map((item) => item.trim()).filter(Boolean)
+  }
+  if (field === 'yearsExperience') {
+    if (!value) return null
+    const years = parseInt(value, 10)
+    return Number.isNaN(years) ? value : years
+  }
+  if (field === 'seniorityLevel') {
+    // Accept "Senior", "senior engineer", "MID-level" etc.
+    return value ? value.toUpperCase().split(/[^A-Z]/)[0] : null
+  }
+  return value
+}
+
+// OCR is too slow to run inside the import request; scanned PDFs are read
+// in the background once their candidates are created
+function readResume(file: ResumeFile): Promise<ResumeExtraction> {
+  return extractResumeText(file.buffer, file.mimeType, { ocr: false })
+}
+
+function needsOcr(file: ResumeFile | null): boolean {
+  return (
+    !!file?.extraction &&
+    file.extraction.status !== 'OK' &&
+    file.mimeType === 'application/pdf' &&
+    isOcrEnabled()
+  )
+}
+
+// Fill fields the CSV left empty with suggestions parsed from the resume
+function applyResume(input: Record<string, unknown>, rawText: string, skillIndex: SkillIndex) {
+  const parsed = parseResume(rawText, skillIndex)
+  const scalarFields = ['fullName', 'email', 'phone', 'location', 'title', 'yearsExperience'] as const
+  for (const field of scalarFields) {
+    const missing = input[field] === undefined || input[field] === '' || input[field] === null
+    if (missing && parsed[field] != null) {
+      input[field] = parsed[field]
+    }
+  }
+  for (const field of ['technologies', 'languages'] as const) {
+    const current = (input[field] as string[] | undefined) || []
+    if (current.length === 0) input[field] = parsed[field]
+  }
+  input.resumeExtractedText = cleanExtractedText(rawText)
+  return parsed.employmentHistory
+}
+
+// The size a ZIP entry's header says it expands to (JSZip keeps it private)
+function declaredSize(entry: JSZip.JSZipObject): number {
+  const data = (entry as unknown as { _data?: { uncompressedSize?: number } })._data
+  return data?.uncompressedSize ?? 0
+}
+
+/**
+ * Decompress a ZIP entry, or null once it passes `maxBytes`: the header's
+ * size can't be trusted, so the output is counted as it comes
+ */
+function readZipEntry(entry: JSZip.JSZipObject, maxBytes: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    const stream = entry.nodeStream('nodebuffer')
+    const onData = (chunk: Buffer) => {
+      size += chunk.length
+      if (size > maxBytes) {
+        stream.removeListener('data', onData)
+        stream.pause()
+        resolve(null)
+      } else {
+        chunks.push(chunk)
+      }
+    }
+    stream.on('data', onData)
+    stream.on('error', reject)
+    stream.on('end', () => resolve(Buffer.concat(chunks)))
+  })
+}
+
+async function readZip(buffer: Buffer): Promise<{ files: Map<string, ResumeFile> } | { error: string }> {
+  const zip = await JSZip.loadAsync(buffer)
+  if (Object.keys(zip.files).length > MAX_ZIP_ENTRIES) {
+    return { error: `The ZIP has more than ${MAX_ZIP_ENTRIES} files.` }
+  }
+
+  const files = new Map<string, ResumeFile>()
+  let totalSize = 0
+
+  for (const entry of Object.values(zip.files)) {
+    // No more rows than can be imported
+    if (files.size >= MAX_IMPORT_ROWS) break
+
+    const name = basename(entry.name)
+    // Skip folders and macOS metadata (__MACOSX/, ._file.pdf)
+    if (entry.dir || entry.name.startsWith('__MACOSX/') || name.startsWith('.')) continue
+    if (!getResumeMimeType(name)) continue
+
+    const tooLarge: ResumeFile = {
+      name,
+      buffer: Buffer.alloc(0),
+      mimeType: '',
+      rejection: `The file is larger than ${MAX_RESUME_SIZE / (1024 * 1024)}MB.`,
+    }
+    if (declaredSize(entry) > MAX_RESUME_SIZE) {
+      files.set(name.toLowerCase(), tooLarge)
+      continue
+    }
+    if (totalSize + declaredSize(entry) > MAX_ZIP_UNCOMPRESSED_SIZE) {
+      return { error: `The ZIP's files add up to more than ${MAX_ZIP_UNCOMPRESSED_SIZE / (1024 * 1024)}MB.` }
+    }
+
+    const buffer = await readZipEntry(entry, MAX_RESUME_SIZE)
+    if (!buffer) {
+      files.set(name.toLowerCase(), tooLarge)
+      continue
+    }
+    totalSize += buffer.length
+    if (totalSize > MAX_ZIP_UNCOMPRESSED_SIZE) {
+      return { error: `The ZIP's files add up to more than ${MAX_ZIP_UNCOMPRESSED_SIZE / (1024 * 1024)}MB.` }
+    }
+
+    const inspection = await inspectResumeFile(buffer)
+    files.set(
+      name.toLowerCase(),
+      inspection.ok
+        ? { name, buffer, mimeType: inspection.mimeType }
+        : { name, buffer, mimeType: '', rejection: inspection.error }
+    )
+  }
+
+  return { files }
+}
+
+function validationErrors(input: Record<string, unknown>): { data?: CandidateInput; errors: string[] } {
+  const result = candidateSchema.safeParse(input)
+  if (result.success) return { data: result.data, errors: [] }
+  return {
+    errors: result.error.errors.map((issue) => {
+      const field = issue.path[0] as CandidateImportField | undefined
+      const label = field && candidateImportFieldLabels[field]
+        ? candidateImportFieldLabels[field]
+        : issue.path.join('.')
+      return label ? `${label}: ${issue.message}` : issue.message
+    }),
+  }
+}
+
+/**
+ * Build a preview of an import from a CSV and/or a ZIP of resumes.
+ * CSV rows may reference a resume in the ZIP through the "Resume File" column;
+ * resumes no row references become rows of their own.
+ */
+export async function buildImportPreview({
+  csvText,
+  zipBuffer,
+  mapping: requestedMapping,
+}: {
+  csvText?: string
+  zipBuffer?: Buffer
+  mapping?: CandidateImportMapping
+}): Promise<ImportPreview | { error: string }> {
+  const skillIndex = await getSkillIndex()
+  const zip = zipBuffer ? await readZip(zipBuffer) : { files: new Map<string, ResumeFile>() }
+  if ('error' in zip) return zip
+  const resumes = zip.files
+  const usedResumes = new Set<string>()
+
+  const csvRows = csvText ? parseCsv(csvText) : []
+  const headers = csvRows[0]?.map((header) => header.trim()) || []
+  const mapping = requestedMapping || suggestImportMapping(headers)
+
+  const rows: PreparedRow[] = []
+
+  // CSV rows (row numbers match spreadsheet lines, the header being line 1)
+  for (const [index, values] of Array.from(csvRows.slice(1).entries())) {
+    const input: Record<string, unknown> = {}
+    const errors: string[] = []
+    let resume: ResumeFile | null = null
+    let employmentHistory: EmploymentHistoryEntry[] = []
+
+    for (const [column, header] of Array.from(headers.entries())) {
+      const field = mapping[header]
+      const raw = (values[column] || '').trim()
+      if (!field) continue
+      if (field !== 'resumeFile') {
+        input[field] = toFieldValue(field, raw)
+      } else if (raw) {
+        resume = resumes.get(basename(raw).toLowerCase()) || null
+        if (resume) {
+          usedResumes.add(resume.name.toLowerCase())
+        } else {
+          errors.push(`Resume file "${raw}" not found in the ZIP`)
+        }
+        if (resume?.rejection) {
+          errors.push(`Resume file "${raw}" was rejected: ${resume.rejection}`)
+          resume = null
+        }
+      }
+    }
+
+    // Rows past the limit are refused below, so their resumes aren't read
+    if (resume && rows.length < MAX_IMPORT_ROWS) {
+      resume.extraction = await readResume(resume)
+      if (resume.extraction.status !== 'FAILED') {
+        employmentHistory = applyResume(input, resume.extraction.text, skillIndex)
+      }
+    }
+
+    rows.push({
+      rowNumber: index + 2,
+      source: 'csv',
+      resumeFileName: resume?.name || null,
+      fullName: '',
+      email: null,
+      technologies: [],
+      errors,
+      duplicates: [],
+      batchDuplicateOf: null,
+      input,
+      resume,
+      employmentHistory,
+    })
+  }
+
+  // Resumes not referenced by the CSV
+  for (const [key, file] of Array.from(resumes.entries())) {
+    if (usedResumes.has(key)) continue
+    const input: Record<string, unknown> = {}
+    const errors: string[] = []
+    let employmentHistory: EmploymentHistoryEntry[] = []
+
+    if (file.rejection) {
+      errors.push(`The resume was rejected: ${file.rejection}`)
+    } else if (rows.length < MAX_IMPORT_ROWS) {
+      file.extraction = await readResume(file)
+      if (file.extraction.status !== 'FAILED') {
+        employmentHistory = applyResume(input, file.extraction.text, skillIndex)
+      } else {
+        errors.push('No text could be extracted from the resume')
+      }
+    }
+
+    rows.push({
+      rowNumber: rows.length + 2,
+      source: 'zip',
+      resumeFileName: file.name,
+      fullName: '',
+      email: null,
+      technologies: [],
+      errors,
+      duplicates: [],
+      batchDuplicateOf: null,
+      input,
+      resume: file.rejection ? null : file,
+      employmentHistory,
+    })
+  }
+
+  // Validate, normalize and check each row for duplicates (in the database and within the batch)
+  const seenEmails = new Map<string, number>()
+  const seenPhones = new Map<string, number>()
+
+  for (const row of rows.slice(0, MAX_IMPORT_ROWS)) {
+    if (Array.isArray(row.input.technologies)) {
+      row.input.technologies = normalizeSkills(row.input.technologies as string[], skillIndex)
+    }
+
+    const { data, errors } = validationErrors(row.input)
+    row.errors.push(...errors)
+
+    row.fullName = String(row.input.fullName || row.resumeFileName || '')
+    row.email = (row.input.email as string) || null
+    row.technologies = (row.input.technologies as string[]) || []
+
+    if (!data) continue
+
+    const emailKey = data.email?.trim().toLowerCase() || ''
+    const phoneDigits = data.phone?.replace(/\D/g, '') || ''
+    const phoneKey = phoneDigits.length >= 7 ? phoneDigits.slice(-9) : ''
+    row.batchDuplicateOf =
+      (emailKey && seenEmails.get(emailKey)) || (phoneKey && seenPhones.get(phoneKey)) || null
+    if (emailKey && !seenEmails.has(emailKey)) seenEmails.set(emailKey, row.rowNumber)
+    if (phoneKey && !seenPhones.has(phoneKey)) seenPhones.set(phoneKey, row.rowNumber)
+
+    row.duplicates = (await findDuplicateCandidates(data)).map((d) => ({
+      id: d.id,
+      fullName: d.fullName,
+      reasons: d.reasons,
+    }))
+  }
+
+  if (rows.length > MAX_IMPORT_ROWS) {
+    for (const row of rows.slice(MAX_IMPORT_ROWS)) {
+      row.errors.push(`Only ${MAX_IMPORT_ROWS} rows can be imported at once`)
+    }
+  }
+
+  return { headers, mapping, rows }
+}
+
+/**
+ * Strip server-only data (resume buffers, raw input) before returning a preview
+ */
+export function toPublicRow(row: PreparedRow): CandidateImportRow {
+  return {
+    rowNumber: row.rowNumber,
+    source: row.source,
+    resumeFileName: row.resumeFileName,
+    fullName: row.fullName,
+    email: row.email,
+    technologies: row.technologies,
+    errors: row.errors,
+    duplicates: row.duplicates,
+    batchDuplicateOf: row.batchDuplicateOf,
+  }
+}
+
+/**
+ * Create the selected valid rows in a single transaction and report the outcome of every row
+ */
+export async function commitImport(
+  preview: ImportPreview,
+  includeRowNumbers: number[],
+  performedByUserId: string
+): Promise<CandidateImportResult[]> {
+  const include = new Set(includeRowNumbers)
+  const results: CandidateImportResult[] = []
+  const toCreate: Array<{ row: PreparedRow; data: CandidateInput }> = []
+
+  for (const row of preview.rows) {
+    if (row.errors.length > 0) {
+      results.push({
+        rowNumber: row.rowNumber,
+        fullName: row.fullName,
+        status: 'invalid',
+        message: row.errors.join('; '),
+      })
+      continue
+    }
+    if (!include.has(row.rowNumber)) {
+      results.push({
+        rowNumber: row.rowNumber,
+        fullName: row.fullName,
+        status: 'skipped',
+        message: 'Not selected for import',
+      })
+      continue
+    }
+    const { data } = validationErrors(row.input)
+    if (data) toCreate.push({ row, data })
+  }
+
+  // Files are written first so the transaction only has to create rows
+  const uploads = await Promise.all(
+    toCreate.map(({ row }) =>
+      row.resume
+        ? saveUpload(row.resume.buffer, row.resume.name, {
+            folder: 'resumes',
+            contentType: row.resume.mimeType,
+          })
+        : null
+    )
+  )
+
+  const created = await prisma.$transaction(
+    toCreate.map(({ row, data }, index) =>
+      prisma.candidate.create({
+        data: {
+          fullName: data.fullName,
+          email: data.email || null,
+          phone: data.phone || null,
+          location: data.location || null,
+          title: data.title || null,
+          summaryPublic: data.summaryPublic || null,
+          summaryInternal: data.summaryInternal || null,
+          technologies: data.technologies || [],
+          yearsExperience: data.yearsExperience ?? null,
+          seniorityLevel: data.seniorityLevel || null,
+          languages: data.languages || [],
+          availability: data.availability || null,
+          salaryExpectation: data.salaryExpectation || null,
+          tags: data.tags || [],
+          resumeExtractedText: data.resumeExtractedText || null,
+          resumeFileUrl: uploads[index]?.url || null,
+          resumeOriginalName: row.resume?.name || null,
+          resumeUploadedAt: uploads[index] ? new Date() : null,
+          employmentHistory: row.employmentHistory as unknown as Prisma.InputJsonValue,
+        },
+      })
+    )
+  )
+
+  for (const [index, candidate] of Array.from(created.entries())) {
+    const { row } = toCreate[index]
+    const extraction = row.resume?.extraction
+    const ocrLater = needsOcr(row.resume)
+    await syncResumeFromCandidate(
+      candidate,
+      performedByUserId,
+      extraction && { status: ocrLater ? 'PENDING' : extraction.status, ocr: extraction.ocr }
+    )
+    if (ocrLater && candidate.resumeFileUrl && row.resume) {
+      await enqueueJob(
+        'resume.extract',
+        { url: candidate.resumeFileUrl, mimeType: row.resume.mimeType },
+        { maxAttempts: 2, createdByUserId: performedByUserId }
+      )
+    }
+    await logActivity({
+      entityType: 'Candidate',
+      entityId: candidate.id,
+      action: 'CREATED',
+      performedByUserId,
+      diff: { importedFrom: row.source, rowNumber: row.rowNumber, resumeFile: row.resumeFileName },
+    })
+    results.push({
+      rowNumber: row.rowNumber,
+      fullName: candidate.fullName,
+      status: 'created',
+      candidateId: candidate.id,
+    })
+  }
+
+  return results.sort((a, b) => a.rowNumber - b.rowNumber)
+}
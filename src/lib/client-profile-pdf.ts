@@ -0,0 +1,233 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib'
+
+export interface ClientProfileNote {
+  date: string
+  notes: string
+  score?: number
+}
+
+// Everything that may appear on a client-facing profile. Contact details,
+// internal summary and salary are deliberately not part of this shape.
+export interface ClientProfileData {
+  displayName: string
+  title: string | null
+  seniority: string | null
+  yearsExperience: number | null
+  location: string | null
+  summary: string | null
+  technologies: string[]
+  languages: string[]
+  interviewNotes: ClientProfileNote[]
+  projectTitle: string
+  customerName: string
+}
+
+const PAGE_WIDTH = 595.28
+const PAGE_HEIGHT = 841.89
+const MARGIN = 50
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const HEADER_HEIGHT = 70
+const FOOTER_HEIGHT = 40
+
+const BRAND_COLOR = rgb(0.31, 0.27, 0.9)
+const TEXT_COLOR = rgb(0.12, 0.12, 0.14)
+const MUTED_COLOR = rgb(0.42, 0.42, 0.46)
+
+const REPLACEMENTS: Record<string, string> = {
+  '\u2018': "'",
+  '\u2019': "'",
+  '\u201C': '"',
+  '\u201D': '"',
+  '\u2013': '-',
+  '\u2014': '-',
+  '\u2022': '-',
+  '\u2026': '...',
+  '\u00A0': ' ',
+}
+
+/**
+ * The standard PDF fonts only cover Latin-1, so fold accents and
+ * replace anything else rather than failing the whole document.
+ */
+function toPdfText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split('')
+    .map((char) => {
+      if (REPLACEMENTS[char]) return REPLACEMENTS[char]
+      const code = char.charCodeAt(0)
+      if (code === 9) return ' '
+      if (code === 10) return char
+      return (code >= 32 && code < 127) || (code >= 160 && code <= 255) ? char : '?'
+    })
+    .join('')
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+
+  for (const paragraph of toPdfText(text).split('\n')) {
+    const words = paragraph.split(/\s+/).filter(Boolean)
+    let line = ''
+    for (const word of words) {
+      const candidate = line ? `${line} ${word}` : word
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        line = candidate
+      } else {
+        if (line) lines.push(line)
+        line = word
+      }
+    }
+    lines.push(line)
+  }
+
+  return lines
+}
+
+/**
+ * Render a branded, single-column profile PDF suitable for sending to a customer
+ */
+export async function renderClientProfilePdf(profile: ClientProfileData): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  doc.setTitle(`${toPdfText(profile.displayName)} - Candidate Profile`)
+  doc.setAuthor('Naviteq')
+  doc.setCreator('Naviteq')
+
+  const regular = await doc.embedFont(StandardFonts.Helvetica)
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold)
+  const generatedOn = new Date().toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+
+  let page: PDFPage
+  let y = 0
+
+  const addPage = () => {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+    page.drawRectangle({
+      x: 0,
+      y: PAGE_HEIGHT - HEADER_HEIGHT,
+      width: PAGE_WIDTH,
+      height: HEADER_HEIGHT,
+      color: BRAND_COLOR,
+    })
+    page.drawText('Naviteq', {
+      x: MARGIN,
+      y: PAGE_HEIGHT - 42,
+      size: 22,
+      font: bold,
+      color: rgb(1, 1, 1),
+    })
+    const label = 'Candidate Profile'
+    page.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(label, 11),
+      y: PAGE_HEIGHT - 40,
+      size: 11,
+      font: regular,
+      color: rgb(1, 1, 1),
+    })
+    const footer = toPdfText(
+      `Prepared for ${profile.customerName} - ${profile.projectTitle} - ${generatedOn} - Confidential`
+    )
+    page.drawText(footer, {
+      x: MARGIN,
+      y: FOOTER_HEIGHT - 15,
+      size: 8,
+      font: regular,
+      color: MUTED_COLOR,
+    })
+    y = PAGE_HEIGHT - HEADER_HEIGHT - 40
+  }
+
+  const ensureSpace = (height: number) => {
+    if (y - height < FOOTER_HEIGHT + 10) addPage()
+  }
+
+  const drawLines = (
+    text: string,
+    options: { font?: PDFFont; size?: number; color?: ReturnType<typeof rgb>; indent?: number } = {}
+  ) => {
+    const font = options.font || regular
+    const size = options.size || 10
+    const indent = options.indent || 0
+    const lineHeight = size * 1.4
+    for (const line of wrapText(text, font, size, CONTENT_WIDTH - indent)) {
+      ensureSpace(lineHeight)
+      page.drawText(line, {
+        x: MARGIN + indent,
+        y,
+        size,
+        font,
+        color: options.color || TEXT_COLOR,
+      })
+      y -= lineHeight
+    }
+  }
+
+  const drawSection = (heading: string) => {
+    y -= 10
+    ensureSpace(40)
+    page.drawText(heading.toUpperCase(), { x: MARGIN, y, size: 10, font: bold, color: BRAND_COLOR })
+    y -= 6
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: BRAND_COLOR,
+    })
+    y -= 16
+  }
+
+  addPage()
+
+  drawLines(profile.displayName, { font: bold, size: 20 })
+  if (profile.title) {
+    drawLines(profile.title, { size: 13, color: MUTED_COLOR })
+  }
+
+  const facts = [
+    profile.seniority,
+    profile.yearsExperience != null ? `${profile.yearsExperience} years experience` : null,
+    profile.location,
+  ].filter(Boolean)
+  if (facts.length > 0) {
+    y -= 4
+    drawLines(facts.join('  |  '), { size: 10, color: MUTED_COLOR })
+  }
+
+  if (profile.summary) {
+    drawSection('Summary')
+    drawLines(profile.summary)
+  }
+
+  if (profile.technologies.length > 0) {
+    drawSection('Technologies')
+    drawLines(profile.technologies.join(', '))
+  }
+
+  if (profile.languages.length > 0) {
+    drawSection('Languages')
+    drawLines(profile.languages.join(', '))
+  }
+
+  if (profile.interviewNotes.length > 0) {
+    drawSection('Interview Feedback')
+    profile.interviewNotes.forEach((note, index) => {
+      if (index > 0) y -= 6
+      const date = new Date(note.date)
+      const heading = [
+        isNaN(date.getTime())
+          ? note.date
+          : date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' }),
+        note.score != null ? `Score ${note.score}/5` : null,
+      ].filter(Boolean).join('  |  ')
+      drawLines(heading, { font: bold, size: 10 })
+      drawLines(note.notes, { indent: 8 })
+    })
+  }
+
+  return doc.save()
+}
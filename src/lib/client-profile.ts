@@ -0,0 +1,74 @@
+import prisma from '@/lib/prisma'
+import { saveUpload } from '@/lib/uploads'
+import { renderClientProfilePdf, ClientProfileData } from '@/lib/client-profile-pdf'
+import { seniorityLabels, InterviewNote } from '@/types'
+
+/**
+ * First name and last initial, so the profile isn't directly identifiable
+ */
+export function blindName(fullName: string): string {
+  const parts = fullName.trim().split(/\s+/)
+  if (parts.length < 2) return parts[0] || 'Candidate'
+  return `${parts[0]} ${parts[parts.length - 1][0].toUpperCase()}.`
+}
+
+/**
+ * Render the client-facing profile for a project talent, store it with the
+ * submission and return the updated record. Only the interview notes at
+ * `interviewNoteIndexes` are included; interviewer names are never shown.
+ */
+export async function generateClientProfile(projectTalentId: string, interviewNoteIndexes: number[]) {
+  const talent = await prisma.projectTalent.findUnique({
+    where: { id: projectTalentId },
+    include: {
+      project: {
+        select: { title: true, customer: { select: { name: true } } },
+      },
+      candidate: true,
+      engineer: {
+        include: { linkedCandidate: true },
+      },
+    },
+  })
+
+  if (!talent) return null
+
+  // Engineers fall back to the candidate record they were converted from
+  const candidate = talent.candidate ?? talent.engineer?.linkedCandidate ?? null
+  const person = talent.engineer ?? talent.candidate
+  if (!person) return null
+
+  const notes = ((candidate?.interviewNotes as unknown as InterviewNote[]) || [])
+  const selected = new Set(interviewNoteIndexes)
+
+  const profile: ClientProfileData = {
+    displayName: blindName(person.fullName),
+    title: person.title,
+    seniority: person.seniorityLevel ? seniorityLabels[person.seniorityLevel] : null,
+    yearsExperience: person.yearsExperience,
+    location: person.location,
+    summary: candidate?.summaryPublic ?? null,
+    technologies: person.technologies,
+    languages: candidate?.languages ?? [],
+    interviewNotes: notes
+      .filter((_, index) => selected.has(index))
+      .map((note) => ({ date: note.date, notes: note.notes, score: note.score })),
+    projectTitle: talent.project.title,
+    customerName: talent.project.customer.name,
+  }
+
+  const pdf = await renderClientProfilePdf(profile)
+  const { url } = await saveUpload(
+    Buffer.from(pdf),
+    `profile-${profile.displayName.replace(/\s+/g, '-')}.pdf`,
+    { folder: 'profiles', contentType: 'application/pdf' }
+  )
+
+  return prisma.projectTalent.update({
+    where: { id: projectTalentId },
+    data: {
+      profileFileUrl: url,
+      profileGeneratedAt: new Date(),
+    },
+  })
+}
@@ -0,0 +1,210 @@
+import JSZip from 'jszip'
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+export type ExportValue = string | number | boolean | Date | string[] | null | undefined
+
+export interface ExportColumn<T> {
+  header: string
+  value: (row: T) => ExportValue
+}
+
+interface ExportOptions<T> {
+  format: ExportFormat
+  filename: string
+  columns: ExportColumn<T>[]
+  // Fetch one page of rows; called until it returns fewer than `take`
+  fetchBatch: (skip: number, take: number) => Promise<T[]>
+}
+
+const BATCH_SIZE = 500
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+}
+
+/**
+ * Read the requested export format, or null if it isn't supported
+ */
+export function parseExportFormat(value: string | null): ExportFormat | null {
+  const format = (value || 'csv').toLowerCase()
+  return format === 'csv' || format === 'xlsx' ? format : null
+}
+
+function formatValue(value: ExportValue): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (Array.isArray(value)) return value.join(', ')
+  return String(value)
+}
+
+/**
+ * Escape a cell for CSV. Values that a spreadsheet would run as a formula
+ * are prefixed with a quote so exported data can't execute on open.
+ */
+function escapeCsvCell(value: ExportValue): string {
+  let text = formatValue(value)
+  // Everything but numbers (e.g. negative amounts), including joined lists
+  if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`
+  }
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`
+  }
+  return text
+}
+
+export function toCsvLine(values: ExportValue[]): string {
+  return values.map(escapeCsvCell).join(',') + '\r\n'
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function columnName(index: number): string {
+  let name = ''
+  let n = index + 1
+  while (n > 0) {
+    const remainder = (n - 1) % 26
+    name = String.fromCharCode(65 + remainder) + name
+    n = Math.floor((n - 1) / 26)
+  }
+  return name
+}
+
+function xlsxCell(value: ExportValue, ref: string): string {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`
+  }
+  const text = formatValue(value)
+  if (!text) return ''
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`
+}
+
+function xlsxRow(values: ExportValue[], rowNumber: number): string {
+  const cells = values
+    .map((value, index) => xlsxCell(value, `${columnName(index)}${rowNumber}`))
+    .join('')
+  return `<row r="${rowNumber}">${cells}</row>`
+}
+
+/**
+ * Build a single-sheet workbook using inline strings, which keeps the
+ * package to the handful of parts Excel and LibreOffice require.
+ */
+async function buildXlsx(rows: ExportValue[][]): Promise<Buffer> {
+  const zip = new JSZip()
+
+  zip.file(
+    '[Content_Types].xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>'
+  )
+  zip.file(
+    '_rels/.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>'
+  )
+  zip.file(
+    'xl/workbook.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" ' +
+      'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+      '<sheets><sheet name="Export" sheetId="1" r:id="rId1"/></sheets>' +
+      '</workbook>'
+  )
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+      '</Relationships>'
+  )
+  zip.file(
+    'xl/worksheets/sheet1.xml',
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+      '<sheetData>' +
+      rows.map((row, index) => xlsxRow(row, index + 1)).join('') +
+      '</sheetData>' +
+      '</worksheet>'
+  )
+
+  return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+}
+
+/**
+ * Export rows as a CSV or XLSX download. CSV is streamed batch by batch;
+ * XLSX has to be assembled in memory because the sheet is a single zip entry.
+ */
+export async function createExportResponse<T>({
+  format,
+  filename,
+  columns,
+  fetchBatch,
+}: ExportOptions<T>): Promise<Response> {
+  const date = new Date().toISOString().slice(0, 10)
+  const headers = {
+    'Content-Type': CONTENT_TYPES[format],
+    'Content-Disposition': `attachment; filename="${filename}-${date}.${format}"`,
+    'Cache-Control': 'no-store',
+  }
+  const toValues = (row: T) => columns.map((column) => column.value(row))
+
+  if (format === 'xlsx') {
+    const rows: ExportValue[][] = [columns.map((column) => column.header)]
+    for (let skip = 0; ; skip += BATCH_SIZE) {
+      const batch = await fetchBatch(skip, BATCH_SIZE)
+      rows.push(...batch.map(toValues))
+      if (batch.length < BATCH_SIZE) break
+    }
+    const buffer = await buildXlsx(rows)
+    return new Response(new Uint8Array(buffer), { headers })
+  }
+
+  const encoder = new TextEncoder()
+  let skip = 0
+  let done = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Byte order mark so Excel opens the file as UTF-8
+      controller.enqueue(encoder.encode('\uFEFF' + toCsvLine(columns.map((column) => column.header))))
+    },
+    async pull(controller) {
+      if (done) {
+        controller.close()
+        return
+      }
+      try {
+        const batch = await fetchBatch(skip, BATCH_SIZE)
+        skip += batch.length
+        done = batch.length < BATCH_SIZE
+        if (batch.length > 0) {
+          controller.enqueue(encoder.encode(batch.map((row) => toCsvLine(toValues(row))).join('')))
+        }
+        if (done) controller.close()
+      } catch (error) {
+        console.error('Error streaming export:', error)
+        controller.error(error)
+      }
+    },
+  })
+
+  return new Response(stream, { headers })
+}
@@ -0,0 +1,244 @@
+import net from 'net'
+import JSZip from 'jszip'
+
+// Checks run on every uploaded resume and candidate document before it is
+// stored. The type comes from the file's contents rather than the browser's
+// MIME type or the file name (plain text excepted, which has no signature);
+// documents carrying scripts or macros are refused; and when CLAMAV_HOST is
+// set the file is also scanned by a clamd daemon.
+
+export type FileInspection =
+  | { ok: true; mimeType: string; extension: string }
+  | { ok: false; error: string }
+
+const PDF = { mimeType: 'application/pdf', extension: 'pdf' }
+const DOCX = {
+  mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  extension: 'docx',
+}
+const DOC = { mimeType: 'application/msword', extension: 'doc' }
+const RTF = { mimeType: 'application/rtf', extension: 'rtf' }
+const ODT = { mimeType: 'application/vnd.oasis.opendocument.text', extension: 'odt' }
+const TXT = { mimeType: 'text/plain', extension: 'txt' }
+const HTML = { mimeType: 'text/html', extension: 'html' }
+const PNG = { mimeType: 'image/png', extension: 'png' }
+const JPEG = { mimeType: 'image/jpeg', extension: 'jpg' }
+
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04])
+const OLE_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+const PNG_MAGIC = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+const JPEG_MAGIC = Buffer.from([0xff, 0xd8, 0xff])
+const RTF_MAGIC = Buffer.from('{\\rtf')
+
+const UNSUPPORTED_DOCUMENT = 'Only PDF, Word, RTF, OpenDocument, text and HTML files are allowed.'
+
+// PDF names that run code or carry other files. Names may hex-escape
+// characters (/#4Aava#53cript), so those are decoded before matching.
+const PDF_ACTIVE_CONTENT = /\/(JavaScript|JS|Launch|EmbeddedFile|RichMedia)\b/
+
+// OLE stream names (stored as UTF-16) present when a Word document has macros
+const OLE_MACRO_STREAMS = ['_VBA_PROJECT', 'Macros'].map((name) => Buffer.from(name, 'utf16le'))
+
+// RTF control words that embed OLE objects (which may run code when opened)
+const RTF_ACTIVE_CONTENT = /\\(object|objdata|objemb|objlink|objautlink)\b/
+
+// HTML that runs code: script-like elements, event handler attributes and
+// javascript: URLs
+const HTML_ACTIVE_CONTENT =
+  /<(script|iframe|object|embed|applet|frame|frameset)\b|\son[a-z]+\s*=|javascript\s*:/i
+const HTML_START = /^\s*(<!--[\s\S]*?-->\s*)*<(!doctype\s+html|html|head|body)\b/i
+
+function inspectPdf(buffer: Buffer): FileInspection {
+  const text = buffer
+    .toString('latin1')
+    .replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+  if (PDF_ACTIVE_CONTENT.test(text)) {
+    return { ok: false, error: 'PDFs with scripts, actions or attachments are not accepted.' }
+  }
+  return { ok: true, ...PDF }
+}
+
+/**
+ * ZIP-based documents: Word (.docx) and OpenDocument text (.odt)
+ */
+async function inspectZip(buffer: Buffer): Promise<FileInspection> {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(buffer)
+  } catch {
+    return { ok: false, error: 'The file is damaged or not a document.' }
+  }
+
+  if (zip.file('word/document.xml')) {
+    if (zip.file(/vbaProject\.bin$/i).length > 0) {
+      return { ok: false, error: 'Word documents with macros are not accepted.' }
+    }
+    return { ok: true, ...DOCX }
+  }
+
+  const mimetype = await zip.file('mimetype')?.async('string')
+  if (mimetype?.trim() === ODT.mimeType && zip.file('content.xml')) {
+    if (zip.file(/^(Basic|Scripts)\//).length > 0) {
+      return { ok: false, error: 'OpenDocument files with macros are not accepted.' }
+    }
+    return { ok: true, ...ODT }
+  }
+
+  return { ok: false, error: UNSUPPORTED_DOCUMENT }
+}
+
+function inspectDoc(buffer: Buffer): FileInspection {
+  if (!buffer.includes(Buffer.from('WordDocument', 'utf16le'))) {
+    return { ok: false, error: UNSUPPORTED_DOCUMENT }
+  }
+  if (OLE_MACRO_STREAMS.some((name) => buffer.includes(name))) {
+    return { ok: false, error: 'Word documents with macros are not accepted.' }
+  }
+  return { ok: true, ...DOC }
+}
+
+function inspectRtf(buffer: Buffer): FileInspection {
+  if (RTF_ACTIVE_CONTENT.test(buffer.toString('latin1'))) {
+    return { ok: false, error: 'RTF documents with embedded objects are not accepted.' }
+  }
+  return { ok: true, ...RTF }
+}
+
+/**
+ * Text without a signature: HTML if it starts like a page, otherwise plain
+ * text as long as it has no binary content. UTF-16 needs a byte order mark.
+ */
+function inspectText(buffer: Buffer): FileInspection | null {
+  if (buffer.length === 0) return null
+
+  let text: string
+  if (
+    (buffer[0] === 0xff && buffer[1] === 0xfe) ||
+    (buffer[0] === 0xfe && buffer[1] === 0xff)
+  ) {
+    text = new TextDecoder(buffer[0] === 0xff ? 'utf-16le' : 'utf-16be').decode(buffer.subarray(2))
+  } else {
+    text = buffer.toString('latin1')
+  }
+  // Control characters other than tabs, line breaks and form feeds mean binary
+  if (/[\x00-\x08\x0e-\x1f\x7f]/.test(text)) return null
+
+  if (HTML_START.test(text.replace(/^\ufeff|^\xef\xbb\xbf/, ''))) {
+    if (HTML_ACTIVE_CONTENT.test(text)) {
+      return { ok: false, error: 'HTML files with scripts are not accepted.' }
+    }
+    return { ok: true, ...HTML }
+  }
+  return { ok: true, ...TXT }
+}
+
+const CLAMD_TIMEOUT_MS = 30 * 1000
+const CLAMD_CHUNK_SIZE = 64 * 1024
+
+/**
+ * Scan a file with clamd's INSTREAM command. Returns the signature name if
+ * the file is infected, null if it is clean. Throws if clamd can't be
+ * reached, so uploads fail closed while the scanner is down.
+ */
+export function scanWithClamd(buffer: Buffer, host: string, port: number): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const socket = net.createConnection({ host, port })
+    const chunks: Buffer[] = []
+
+    socket.setTimeout(CLAMD_TIMEOUT_MS, () => {
+      socket.destroy(new Error('Virus scan timed out'))
+    })
+    socket.on('error', (error) => reject(new Error(`Virus scan failed: ${error.message}`)))
+    socket.on('data', (chunk: Buffer) => chunks.push(chunk))
+    socket.on('end', () => {
+      // "stream: OK" or "stream: <signature> FOUND"
+      const reply = Buffer.concat(chunks).toString('utf8').replace(/\0/g, '').trim()
+      const found = reply.match(/^stream: (.+) FOUND$/)
+      if (found) {
+        resolve(found[1])
+      } else if (reply.endsWith('OK')) {
+        resolve(null)
+      } else {
+        reject(new Error(`Virus scan failed: ${reply || 'no reply'}`))
+      }
+    })
+
+    socket.on('connect', () => {
+      socket.write('zINSTREAM\0')
+      for (let offset = 0; offset < buffer.length; offset += CLAMD_CHUNK_SIZE) {
+        const chunk = buffer.subarray(offset, offset + CLAMD_CHUNK_SIZE)
+        const length = Buffer.alloc(4)
+        length.writeUInt32BE(chunk.length)
+        socket.write(length)
+        socket.write(chunk)
+      }
+      socket.end(Buffer.alloc(4))
+    })
+  })
+}
+
+/**
+ * Work out what a file really is from its contents and check it is safe to
+ * store. PDF, Word (.docx, .doc), RTF, OpenDocument text, plain text and
+ * HTML documents pass, and PNG and JPEG images with `allowImages`.
+ */
+async function inspectFile(
+  buffer: Buffer,
+  { allowImages }: { allowImages: boolean }
+): Promise<FileInspection> {
+  const unsupported: FileInspection = {
+    ok: false,
+    error: allowImages
+      ? 'Only PDF, Word, RTF, OpenDocument, text and HTML files and PNG or JPEG images are allowed.'
+      : UNSUPPORTED_DOCUMENT,
+  }
+
+  let inspection: FileInspection
+  // The PDF header may follow a few bytes of junk
+  if (buffer.subarray(0, 1024).includes('%PDF-')) {
+    inspection = inspectPdf(buffer)
+  } else if (buffer.subarray(0, 4).equals(ZIP_MAGIC)) {
+    inspection = await inspectZip(buffer)
+  } else if (buffer.subarray(0, 8).equals(OLE_MAGIC)) {
+    inspection = inspectDoc(buffer)
+  } else if (buffer.subarray(0, 5).equals(RTF_MAGIC)) {
+    inspection = inspectRtf(buffer)
+  } else if (allowImages && buffer.subarray(0, 8).equals(PNG_MAGIC)) {
+    inspection = { ok: true, ...PNG }
+  } else if (allowImages && buffer.subarray(0, 3).equals(JPEG_MAGIC)) {
+    inspection = { ok: true, ...JPEG }
+  } else {
+    inspection = inspectText(buffer) ?? unsupported
+  }
+  if (!inspection.ok) return inspection
+
+  const clamavHost = process.env.CLAMAV_HOST
+  if (clamavHost) {
+    const signature = await scanWithClamd(
+      buffer,
+      clamavHost,
+      parseInt(process.env.CLAMAV_PORT || '3310')
+    )
+    if (signature) {
+      console.warn(`Rejected upload infected with ${signature}`)
+      return { ok: false, error: 'The file failed the virus scan.' }
+    }
+  }
+
+  return inspection
+}
+
+/**
+ * Checks for a resume: documents only
+ */
+export function inspectResumeFile(buffer: Buffer): Promise<FileInspection> {
+  return inspectFile(buffer, { allowImages: false })
+}
+
+/**
+ * Checks for other candidate documents (certificates, portfolios, NDAs),
+ * which may also be scans or photos
+ */
+export function inspectDocumentFile(buffer: Buffer): Promise<FileInspection> {
+  return inspectFile(buffer, { allowImages: true })
+}
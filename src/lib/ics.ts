@@ -0,0 +1,109 @@
+// Minimal iCalendar (RFC 5545) writer for interview invites. Only the
+// properties calendar clients need to show, update and cancel a single event.
+
+export interface IcsAttendee {
+  name: string
+  email: string
+}
+
+export interface IcsEvent {
+  uid: string
+  // Must increase on every change so clients replace their copy
+  sequence: number
+  start: Date
+  durationMinutes: number
+  summary: string
+  description?: string | null
+  location?: string | null
+  url?: string | null
+  organizer?: IcsAttendee | null
+  attendees: IcsAttendee[]
+  cancelled?: boolean
+}
+
+const PRODUCT_ID = '-//Naviteq//Interview Scheduling//EN'
+const MAX_LINE_OCTETS = 75
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// A line break (even a lone CR) would start a new property
+function stripControlChars(value: string): string {
+  return value.replace(/[\x00-\x1f\x7f]/g, '')
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n')
+    .replace(/[\x00-\x08\x0b-\x1f\x7f]/g, '')
+}
+
+// Parameter values (e.g. CN) can't be escaped, only quoted
+function quoteParam(value: string): string {
+  return `"${stripControlChars(value).replace(/"/g, "'")}"`
+}
+
+/**
+ * Fold a content line at 75 octets; continuation lines start with a space
+ */
+function foldLine(line: string): string {
+  const parts: string[] = []
+  let current = ''
+  let currentOctets = 0
+
+  for (const char of Array.from(line)) {
+    const octets = Buffer.byteLength(char, 'utf8')
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (currentOctets + octets > limit) {
+      parts.push(current)
+      current = ''
+      currentOctets = 0
+    }
+    current += char
+    currentOctets += octets
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+function attendeeLine(name: string, attendee: IcsAttendee, extra = ''): string {
+  return `${name};CN=${quoteParam(attendee.name)}${extra}:mailto:${stripControlChars(attendee.email)}`
+}
+
+export function buildIcsEvent(event: IcsEvent): string {
+  const end = new Date(event.start.getTime() + event.durationMinutes * 60 * 1000)
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${event.cancelled ? 'CANCEL' : 'REQUEST'}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+  ]
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.url) lines.push(`URL:${stripControlChars(event.url)}`)
+  if (event.organizer) lines.push(attendeeLine('ORGANIZER', event.organizer))
+
+  for (const attendee of event.attendees) {
+    lines.push(attendeeLine('ATTENDEE', attendee, ';ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE'))
+  }
+
+  lines.push('END:VEVENT', 'END:VCALENDAR')
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
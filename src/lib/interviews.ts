@@ -0,0 +1,152 @@
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { buildIcsEvent, IcsAttendee } from '@/lib/ics'
+import { createNotifications } from '@/lib/notifications'
+import { formatDateTime } from '@/lib/utils'
+import { Contact, NotificationType } from '@/types'
+
+// Reminders go out once, this many hours before the interview starts
+export const INTERVIEW_REMINDER_HOURS = 24
+
+export const interviewInclude = {
+  projectTalent: {
+    select: {
+      id: true,
+      talentType: true,
+      stage: true,
+      ownerUserId: true,
+      project: {
+        select: { id: true, title: true, customer: { select: { id: true, name: true } } },
+      },
+      candidate: { select: { id: true, fullName: true } },
+      engineer: { select: { id: true, fullName: true } },
+    },
+  },
+  interviewers: {
+    select: { id: true, fullName: true, email: true },
+  },
+  createdBy: {
+    select: { id: true, fullName: true, email: true },
+  },
+  feedback: {
+    include: { author: { select: { id: true, fullName: true } } },
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.InterviewInclude
+
+export type InterviewDetails = Prisma.InterviewGetPayload<{ include: typeof interviewInclude }>
+
+export function interviewTalentName(interview: InterviewDetails): string {
+  const talent = interview.projectTalent.candidate ?? interview.projectTalent.engineer
+  return talent?.fullName || 'Talent'
+}
+
+export function interviewSummary(interview: InterviewDetails): string {
+  const title = interview.title || `Round ${interview.round} interview`
+  return `${title}: ${interviewTalentName(interview)} - ${interview.projectTalent.project.title}`
+}
+
+/**
+ * Calendar invite for an interview. Interviewers and customer contacts with an
+ * email are attendees; the candidate is left off so their contact details
+ * aren't shared with the customer before placement.
+ */
+export function buildInterviewIcs(interview: InterviewDetails): string {
+  const appUrl = process.env.NEXTAUTH_URL || ''
+  const projectUrl = `${appUrl}/projects/${interview.projectTalent.project.id}`
+  const contacts = (interview.customerContacts as unknown as Contact[]) || []
+
+  const attendees: IcsAttendee[] = [
+    ...interview.interviewers.map((user) => ({ name: user.fullName, email: user.email })),
+    ...contacts
+      .filter((contact) => contact.email)
+      .map((contact) => ({ name: contact.name, email: contact.email as string })),
+  ]
+
+  const description = [
+    `Project: ${interview.projectTalent.project.title} (${interview.projectTalent.project.customer.name})`,
+    `Round: ${interview.round}`,
+    interview.meetingUrl && `Join: ${interview.meetingUrl}`,
+    `Details: ${projectUrl}`,
+  ]
+    .filter(Boolean)
+    .join('\n')
+
+  return buildIcsEvent({
+    uid: `interview-${interview.id}@naviteq`,
+    sequence: interview.icsSequence,
+    start: interview.scheduledAt,
+    durationMinutes: interview.durationMinutes,
+    summary: interviewSummary(interview),
+    description,
+    location: interview.location || interview.meetingUrl,
+    url: interview.meetingUrl,
+    organizer: interview.createdBy
+      ? { name: interview.createdBy.fullName, email: interview.createdBy.email }
+      : null,
+    attendees,
+    cancelled: interview.status === 'CANCELLED',
+  })
+}
+
+/**
+ * In-app notification for everyone taking part in the interview: the
+ * interviewers and the talent owner. The acting user is skipped.
+ */
+export async function notifyInterviewParticipants(
+  interview: InterviewDetails,
+  notification: { type: NotificationType; title: string; message: string },
+  actingUserId?: string
+) {
+  const recipientIds = new Set(interview.interviewers.map((user) => user.id))
+  if (interview.projectTalent.ownerUserId) {
+    recipientIds.add(interview.projectTalent.ownerUserId)
+  }
+  if (actingUserId) {
+    recipientIds.delete(actingUserId)
+  }
+
+  await createNotifications(
+    Array.from(recipientIds).map((userId) => ({
+      userId,
+      ...notification,
+      linkUrl: `/projects/${interview.projectTalent.project.id}`,
+    }))
+  )
+}
+
+/**
+ * Send reminders for scheduled interviews starting within the reminder window.
+ * Each interview is claimed before notifying so overlapping runs don't send twice.
+ * Returns the number of interviews reminded.
+ */
+export async function sendInterviewReminders(now = new Date()): Promise<number> {
+  const windowEnd = new Date(now.getTime() + INTERVIEW_REMINDER_HOURS * 60 * 60 * 1000)
+
+  const due = await prisma.interview.findMany({
+    where: {
+      status: 'SCHEDULED',
+      reminderSentAt: null,
+      scheduledAt: { gt: now, lte: windowEnd },
+    },
+    include: interviewInclude,
+  })
+
+  let sent = 0
+  for (const interview of due) {
+    const claimed = await prisma.interview.updateMany({
+      where: { id: interview.id, reminderSentAt: null },
+      data: { reminderSentAt: now },
+    })
+    if (claimed.count === 0) continue
+
+    await notifyInterviewParticipants(interview, {
+      type: 'INTERVIEW_REMINDER',
+      title: 'Upcoming interview',
+      message: `${interviewSummary(interview)} starts ${formatDateTime(interview.scheduledAt)}`,
+    })
+    sent++
+  }
+
+  return sent
+}
@@ -0,0 +1,34 @@
+'use client'
+
+// Waiting on a background job queued by an API route (see src/lib/jobs.ts),
+// e.g. the text extraction started by /api/upload.
+
+/**
+ * Poll a job until it finishes and return its result. Throws if the job
+ * failed or is still unfinished after `timeoutMs`.
+ */
+export async function waitForJob<T>(
+  jobId: string,
+  { intervalMs = 1000, timeoutMs = 90 * 1000 }: { intervalMs?: number; timeoutMs?: number } = {}
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs
+
+  while (Date.now() < deadline) {
+    const res = await fetch(`/api/jobs/${jobId}`)
+    const data = await res.json()
+
+    if (!res.ok) {
+      throw new Error(data.error || 'Failed to check job status')
+    }
+    if (data.data.status === 'SUCCEEDED') {
+      return data.data.result as T
+    }
+    if (data.data.status === 'FAILED') {
+      throw new Error(data.data.lastError || 'Job failed')
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, intervalMs))
+  }
+
+  throw new Error('Timed out waiting for the job to finish')
+}
@@ -0,0 +1,258 @@
+import type { Job } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import {
+  JobPayloads,
+  JobType,
+  claimNextJob,
+  completeJob,
+  failJob,
+  requeueStaleJobs,
+} from '@/lib/jobs'
+import { cleanExtractedText, extractResumeText } from '@/lib/resume-extraction'
+import { parseResume } from '@/lib/resume-parser'
+import { getSkillIndex } from '@/lib/skill-taxonomy'
+import { readUpload } from '@/lib/uploads'
+import { sendDailyDigests, sendNotificationEmails } from '@/lib/notification-mail'
+import { sendInterviewReminders } from '@/lib/interviews'
+import { attemptDelivery } from '@/lib/webhooks'
+import { queueRescoreIfNeeded, rescoreProjectTalents } from '@/lib/scoring-profiles'
+
+// What each job type does, and the jobs queued on a schedule. runJobs works
+// through whatever is due; it is called by `npm run worker`, by the
+// /api/cron/jobs scheduler, and in the background after enqueueJob.
+
+// How long one runJobs call keeps claiming jobs
+const RUN_BUDGET_MS = 50 * 1000
+// Finished jobs are kept this long for the status page
+const SUCCEEDED_RETENTION_DAYS = 7
+const FAILED_RETENTION_DAYS = 30
+
+type JobHandler<T extends JobType> = (payload: JobPayloads[T], job: Job) => Promise<unknown>
+
+const jobHandlers: { [T in JobType]: JobHandler<T> } = {
+  // Text and suggested fields for an uploaded resume. The uploader polls the
+  // job for the result; document versions and candidates saved before it
+  // finished get the text too, and those candidates are rescored. Versions
+  // of the file record how well it was read.
+  'resume.extract': async ({ url, mimeType }) => {
+    let file: Buffer
+    try {
+      file = await readUpload(url)
+    } catch (error) {
+      await prisma.candidateDocumentVersion.updateMany({
+        where: { fileUrl: url },
+        data: { extractionStatus: 'FAILED' },
+      })
+      throw error
+    }
+
+    const extraction = await extractResumeText(file, mimeType)
+    const extractedText = cleanExtractedText(extraction.text)
+    const parsed = extraction.text ? parseResume(extraction.text, await getSkillIndex()) : null
+
+    await prisma.candidateDocumentVersion.updateMany({
+      where: { fileUrl: url },
+      data: { extractionStatus: extraction.status, extractedWithOcr: extraction.ocr },
+    })
+
+    if (extractedText) {
+      await prisma.candidateDocumentVersion.updateMany({
+        where: { fileUrl: url, OR: [{ extractedText: null }, { extractedText: '' }] },
+        data: { extractedText },
+      })
+
+      const candidates = await prisma.candidate.findMany({
+        where: {
+          resumeFileUrl: url,
+          OR: [{ resumeExtractedText: null }, { resumeExtractedText: '' }],
+        },
+        select: { id: true },
+      })
+      for (const { id } of candidates) {
+        await prisma.candidate.update({
+          where: { id },
+          data: { resumeExtractedText: extractedText },
+        })
+        await queueRescoreIfNeeded('candidate', id, { resumeExtractedText: extractedText })
+      }
+    }
+
+    return { extractedText, parsed, status: extraction.status, ocr: extraction.ocr }
+  },
+
+  'notifications.email': async ({ notifications }) => {
+    await sendNotificationEmails(notifications)
+    return { sent: notifications.length }
+  },
+
+  // The delivery keeps its own retry schedule (see src/lib/webhooks.ts)
+  'webhooks.deliver': async ({ deliveryId }) => {
+    return { delivered: await attemptDelivery(deliveryId) }
+  },
+
+  'matching.rescore': async (filter) => {
+    return { changed: await rescoreProjectTalents(filter) }
+  },
+
+  'interviews.reminders': async () => {
+    return { sent: await sendInterviewReminders() }
+  },
+
+  'notifications.digest': async () => {
+    return { sent: await sendDailyDigests() }
+  },
+
+  'jobs.cleanup': async () => {
+    const day = 24 * 60 * 60 * 1000
+    const { count } = await prisma.job.deleteMany({
+      where: {
+        OR: [
+          {
+            status: 'SUCCEEDED',
+            finishedAt: { lt: new Date(Date.now() - SUCCEEDED_RETENTION_DAYS * day) },
+          },
+          {
+            status: 'FAILED',
+            finishedAt: { lt: new Date(Date.now() - FAILED_RETENTION_DAYS * day) },
+          },
+        ],
+      },
+    })
+    return { deleted: count }
+  },
+}
+
+export const JOB_TYPES = Object.keys(jobHandlers) as JobType[]
+
+export interface RecurringJob {
+  type: JobType
+  description: string
+  everyMinutes?: number
+  dailyAtHourUtc?: number
+}
+
+export const recurringJobs: RecurringJob[] = [
+  {
+    type: 'interviews.reminders',
+    description: 'Remind participants of interviews starting within 24 hours',
+    everyMinutes: 60,
+  },
+  {
+    type: 'notifications.digest',
+    description: 'Email the daily notification digest',
+    dailyAtHourUtc: 7,
+  },
+  {
+    type: 'jobs.cleanup',
+    description: `Delete jobs finished over ${SUCCEEDED_RETENTION_DAYS} days ago (failed: ${FAILED_RETENTION_DAYS})`,
+    dailyAtHourUtc: 3,
+  },
+]
+
+/**
+ * Start of the schedule slot `now` falls in
+ */
+function currentSlot(recurring: RecurringJob, now: Date): Date {
+  if (recurring.everyMinutes) {
+    const interval = recurring.everyMinutes * 60 * 1000
+    return new Date(Math.floor(now.getTime() / interval) * interval)
+  }
+
+  const slot = new Date(now)
+  slot.setUTCHours(recurring.dailyAtHourUtc ?? 0, 0, 0, 0)
+  if (slot > now) {
+    slot.setUTCDate(slot.getUTCDate() - 1)
+  }
+  return slot
+}
+
+export function nextRecurringRun(recurring: RecurringJob, now = new Date()): Date {
+  const slot = currentSlot(recurring, now)
+  const interval = (recurring.everyMinutes ?? 24 * 60) * 60 * 1000
+  return new Date(slot.getTime() + interval)
+}
+
+/**
+ * Queue each recurring job for the current slot. A slot's unique key means
+ * it is queued once however many workers call this.
+ */
+export async function scheduleRecurringJobs(now = new Date()): Promise<number> {
+  const { count } = await prisma.job.createMany({
+    data: recurringJobs.map((recurring) => {
+      const slot = currentSlot(recurring, now)
+      return {
+        type: recurring.type,
+        runAt: slot,
+        uniqueKey: `${recurring.type}@${slot.toISOString()}`,
+        maxAttempts: 3,
+      }
+    }),
+    skipDuplicates: true,
+  })
+  return count
+}
+
+/**
+ * Run due jobs one at a time until the queue is empty, `limit` jobs have run
+ * or the deadline passes
+ */
+export async function runJobs({
+  deadline = Date.now() + RUN_BUDGET_MS,
+  limit = 100,
+}: { deadline?: number; limit?: number } = {}): Promise<{ succeeded: number; failed: number }> {
+  await requeueStaleJobs()
+
+  const summary = { succeeded: 0, failed: 0 }
+  while (summary.succeeded + summary.failed < limit && Date.now() < deadline) {
+    const job = await claimNextJob()
+    if (!job) break
+
+    const handler = jobHandlers[job.type as JobType] as JobHandler<JobType> | undefined
+    try {
+      if (!handler) {
+        throw new Error(`Unknown job type "${job.type}"`)
+      }
+      await completeJob(job, await handler(job.payload as never, job))
+      summary.succeeded++
+    } catch (error) {
+      console.error(`Job ${job.type} (${job.id}) failed:`, error)
+      await failJob(job, error)
+      summary.failed++
+    }
+  }
+
+  return summary
+}
+
+const globalForJobRunner = globalThis as unknown as {
+  jobRunnerActive: boolean | undefined
+  jobRunnerWokenAgain: boolean | undefined
+}
+
+/**
+ * Work through the queue in the background of this process, unless a
+ * separate worker does that (JOB_WORKER=external). A wake-up while the
+ * runner is busy makes it check the queue once more before stopping.
+ */
+export function wakeJobRunner() {
+  if (process.env.JOB_WORKER === 'external') return
+
+  if (globalForJobRunner.jobRunnerActive) {
+    globalForJobRunner.jobRunnerWokenAgain = true
+    return
+  }
+
+  globalForJobRunner.jobRunnerActive = true
+  void (async () => {
+    try {
+      do {
+        globalForJobRunner.jobRunnerWokenAgain = false
+        await runJobs()
+      } while (globalForJobRunner.jobRunnerWokenAgain)
+    } catch (error) {
+      console.error('Job runner failed:', error)
+    } finally {
+      globalForJobRunner.jobRunnerActive = false
+    }
+  })()
+}
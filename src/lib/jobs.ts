@@ -0,0 +1,172 @@
+import os from 'os'
+import type { Job, Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import type { EmailableNotification } from '@/lib/notification-mail'
+
+// Postgres-backed job queue. Anything slow or retryable is queued here with
+// enqueueJob and run by src/lib/job-runner.ts, either in the web server right
+// after it is queued (the default), in a separate `npm run worker` process
+// (JOB_WORKER=external), or by the /api/cron/jobs scheduler.
+
+// Payload for each job type
+export interface JobPayloads {
+  'resume.extract': { url: string; mimeType: string }
+  'notifications.email': { notifications: EmailableNotification[] }
+  'webhooks.deliver': { deliveryId: string }
+  'matching.rescore': {
+    projectId?: string
+    candidateId?: string
+    engineerId?: string
+    scoringProfileId?: string
+  }
+  'interviews.reminders': Record<string, never>
+  'notifications.digest': Record<string, never>
+  'jobs.cleanup': Record<string, never>
+}
+
+export type JobType = keyof JobPayloads
+
+export interface EnqueueJobOptions {
+  runAt?: Date
+  maxAttempts?: number
+  uniqueKey?: string
+  createdByUserId?: string
+}
+
+// A running job is assumed dead after this long and goes back in the queue
+export const JOB_LOCK_TIMEOUT_MS = 10 * 60 * 1000
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000
+const ERROR_LIMIT = 2000
+
+export const workerId = `${os.hostname()}:${process.pid}`
+
+/**
+ * Queue a job. Unless JOB_WORKER=external, this process starts working
+ * through the queue in the background straight away.
+ */
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options: EnqueueJobOptions = {}
+): Promise<Job> {
+  const job = await prisma.job.create({
+    data: {
+      type,
+      payload: payload as Prisma.InputJsonObject,
+      runAt: options.runAt,
+      maxAttempts: options.maxAttempts,
+      uniqueKey: options.uniqueKey,
+      createdByUserId: options.createdByUserId,
+    },
+  })
+
+  if (!options.runAt || options.runAt <= new Date()) {
+    wakeRunner()
+  }
+
+  return job
+}
+
+function wakeRunner() {
+  // Imported lazily: the runner imports the libraries that queue jobs
+  import('@/lib/job-runner')
+    .then(({ wakeJobRunner }) => wakeJobRunner())
+    .catch((error) => console.error('Failed to start job runner:', error))
+}
+
+/**
+ * Take the next due job, marking it as running. Safe to call from any number
+ * of workers at once: each job is handed to exactly one of them.
+ */
+export async function claimNextJob(now = new Date()): Promise<Job | null> {
+  const rows = await prisma.$queryRaw<Job[]>`
+    UPDATE jobs
+    SET status = 'RUNNING'::"JobStatus",
+        attempts = attempts + 1,
+        "lockedAt" = ${now},
+        "lockedBy" = ${workerId},
+        "startedAt" = COALESCE("startedAt", ${now})
+    WHERE id = (
+      SELECT id FROM jobs
+      WHERE status = 'PENDING'::"JobStatus" AND "runAt" <= ${now}
+      ORDER BY "runAt"
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `
+  return rows[0] ?? null
+}
+
+export async function completeJob(job: Job, result: unknown) {
+  await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: 'SUCCEEDED',
+      result:
+        result === undefined
+          ? undefined
+          : (JSON.parse(JSON.stringify(result)) as Prisma.InputJsonValue),
+      lastError: null,
+      lockedAt: null,
+      lockedBy: null,
+      finishedAt: new Date(),
+    },
+  })
+}
+
+/**
+ * Record a failed run: retry with exponential backoff (30s, 1m, 2m, ... up to
+ * an hour) until the job runs out of attempts
+ */
+export async function failJob(job: Job, error: unknown) {
+  const message = (error instanceof Error ? error.message : String(error)).slice(0, ERROR_LIMIT)
+  const exhausted = job.attempts >= job.maxAttempts
+  const delay = Math.min(30 * 1000 * Math.pow(2, job.attempts - 1), MAX_RETRY_DELAY_MS)
+
+  await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: exhausted ? 'FAILED' : 'PENDING',
+      lastError: message,
+      lockedAt: null,
+      lockedBy: null,
+      ...(exhausted ? { finishedAt: new Date() } : { runAt: new Date(Date.now() + delay) }),
+    },
+  })
+}
+
+/**
+ * Put jobs whose worker died mid-run back in the queue, or fail them if that
+ * was their last attempt. Returns how many were recovered.
+ */
+export async function requeueStaleJobs(now = new Date()): Promise<number> {
+  const staleBefore = new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS)
+  const stale = { status: 'RUNNING' as const, lockedAt: { lt: staleBefore } }
+  const lastError = 'Worker stopped responding'
+
+  const [requeued, failed] = await prisma.$transaction([
+    prisma.job.updateMany({
+      where: { ...stale, attempts: { lt: prisma.job.fields.maxAttempts } },
+      data: { status: 'PENDING', lockedAt: null, lockedBy: null, runAt: now, lastError },
+    }),
+    prisma.job.updateMany({
+      where: stale,
+      data: { status: 'FAILED', lockedAt: null, lockedBy: null, finishedAt: now, lastError },
+    }),
+  ])
+
+  return requeued.count + failed.count
+}
+
+/**
+ * Send a failed job round again with a fresh set of attempts
+ */
+export async function retryJob(jobId: string) {
+  const job = await prisma.job.update({
+    where: { id: jobId },
+    data: { status: 'PENDING', attempts: 0, runAt: new Date(), finishedAt: null },
+  })
+  wakeRunner()
+  return job
+}
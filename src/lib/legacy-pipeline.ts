@@ -0,0 +1,139 @@
+import { Prisma, ProjectTalent, User } from '@prisma/client'
+import prisma from '@/lib/prisma'
+
+// Legacy ProjectCandidate rows are copied into ProjectTalent under the same id,
+// so old links, activity history and /api/project-candidates/[id] calls keep
+// resolving after the switch.
+
+export interface LegacyPipelineConflict {
+  projectCandidateId: string
+  projectTalentId: string
+  projectId: string
+  candidateId: string
+  // Fields where the legacy row and the existing talent disagree
+  differences: string[]
+}
+
+export interface LegacyPipelineReport {
+  total: number
+  migrated: number
+  alreadyMigrated: number
+  activityLogsUpdated: number
+  conflicts: LegacyPipelineConflict[]
+}
+
+const COMPARED_FIELDS = [
+  'stage',
+  'matchScore',
+  'notes',
+  'clientFeedback',
+  'submittedAt',
+] as const
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
+  return (a ?? null) === (b ?? null)
+}
+
+/**
+ * Copy every legacy ProjectCandidate into ProjectTalent. Rows whose project and
+ * candidate already have a talent entry are left alone and reported as conflicts.
+ * Safe to run repeatedly; legacy rows are kept as a backup.
+ */
+export async function migrateProjectCandidates(
+  options: { dryRun?: boolean } = {}
+): Promise<LegacyPipelineReport> {
+  const legacyRows = await prisma.projectCandidate.findMany({
+    orderBy: { createdAt: 'asc' },
+  })
+
+  const report: LegacyPipelineReport = {
+    total: legacyRows.length,
+    migrated: 0,
+    alreadyMigrated: 0,
+    activityLogsUpdated: 0,
+    conflicts: [],
+  }
+
+  const migratedIds: string[] = []
+
+  for (const row of legacyRows) {
+    const existing = await prisma.projectTalent.findUnique({
+      where: {
+        projectId_candidateId: { projectId: row.projectId, candidateId: row.candidateId },
+      },
+    })
+
+    if (existing?.id === row.id) {
+      report.alreadyMigrated++
+      migratedIds.push(row.id)
+      continue
+    }
+
+    if (existing) {
+      report.conflicts.push({
+        projectCandidateId: row.id,
+        projectTalentId: existing.id,
+        projectId: row.projectId,
+        candidateId: row.candidateId,
+        differences: COMPARED_FIELDS.filter((field) => !sameValue(row[field], existing[field])),
+      })
+      continue
+    }
+
+    if (!options.dryRun) {
+      await prisma.projectTalent.create({
+        data: {
+          id: row.id,
+          projectId: row.projectId,
+          talentType: 'CANDIDATE',
+          candidateId: row.candidateId,
+          // Every CandidateStage has a TalentStage of the same name
+          stage: row.stage,
+          matchScore: row.matchScore,
+          matchReasons: row.matchReasons ?? Prisma.JsonNull,
+          ownerUserId: row.recruiterOwnerUserId,
+          submittedAt: row.submittedAt,
+          lastStageChangeAt: row.lastStageChangeAt,
+          notes: row.notes,
+          clientFeedback: row.clientFeedback,
+          createdAt: row.createdAt,
+          updatedAt: row.updatedAt,
+        },
+      })
+    }
+    report.migrated++
+    migratedIds.push(row.id)
+  }
+
+  // Keep the history of migrated rows visible on the talent entry
+  if (migratedIds.length > 0) {
+    const where = { entityType: 'ProjectCandidate', entityId: { in: migratedIds } }
+    report.activityLogsUpdated = options.dryRun
+      ? await prisma.activityLog.count({ where })
+      : (await prisma.activityLog.updateMany({ where, data: { entityType: 'ProjectTalent' } })).count
+  }
+
+  return report
+}
+
+/**
+ * Shape a candidate talent entry like the legacy ProjectCandidate for
+ * clients still calling /api/project-candidates
+ */
+export function toLegacyProjectCandidate<
+  T extends ProjectTalent & { owner?: Pick<User, 'id' | 'fullName'> | null }
+>(talent: T) {
+  const { owner, ownerUserId, talentType, engineerId, ...rest } = talent
+  return {
+    ...rest,
+    recruiterOwnerUserId: ownerUserId,
+    ...(owner !== undefined && { recruiterOwner: owner }),
+  }
+}
+
+// Sent on every /api/project-candidates response so callers know to move on
+export const LEGACY_ENDPOINT_HEADERS = {
+  Deprecation: 'true',
+  Link: '</api/project-talents>; rel="successor-version"',
+}
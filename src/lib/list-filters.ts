@@ -0,0 +1,179 @@
+import { customerScope, projectScope, SessionUser } from '@/lib/access'
+
+// Where-clause builders shared by the list routes and their exports,
+// so an export always contains exactly what the list page shows.
+
+/**
+ * Build the candidate where clause from list query params
+ */
+export function buildCandidateWhere(searchParams: URLSearchParams): Record<string, unknown> {
+  const search = searchParams.get('search') || ''
+  const technologies = searchParams.get('technologies')?.split(',').filter(Boolean) || []
+  const seniorityLevel = searchParams.get('seniorityLevel') || ''
+  const minYears = searchParams.get('minYearsExperience')
+  const maxYears = searchParams.get('maxYearsExperience')
+  const location = searchParams.get('location') || ''
+
+  const where: Record<string, unknown> = {}
+
+  if (search) {
+    where.OR = [
+      { fullName: { contains: search, mode: 'insensitive' } },
+      { title: { contains: search, mode: 'insensitive' } },
+      { summaryPublic: { contains: search, mode: 'insensitive' } },
+    ]
+  }
+
+  if (technologies.length > 0) {
+    where.technologies = { hasSome: technologies }
+  }
+
+  if (seniorityLevel) {
+    where.seniorityLevel = seniorityLevel
+  }
+
+  if (minYears) {
+    where.yearsExperience = {
+      ...(where.yearsExperience as Record<string, unknown> || {}),
+      gte: parseInt(minYears),
+    }
+  }
+
+  if (maxYears) {
+    where.yearsExperience = {
+      ...(where.yearsExperience as Record<string, unknown> || {}),
+      lte: parseInt(maxYears),
+    }
+  }
+
+  if (location) {
+    where.location = { contains: location, mode: 'insensitive' }
+  }
+
+  return where
+}
+
+/**
+ * Build the engineer where clause from list query params
+ */
+export function buildEngineerWhere(searchParams: URLSearchParams): Record<string, unknown> {
+  const search = searchParams.get('search') || ''
+  const technologies = searchParams.get('technologies')?.split(',').filter(Boolean) || []
+  const seniorityLevel = searchParams.get('seniorityLevel') || ''
+  const employmentStatus = searchParams.get('employmentStatus') || ''
+
+  const where: Record<string, unknown> = {}
+
+  if (search) {
+    where.OR = [
+      { fullName: { contains: search, mode: 'insensitive' } },
+      { title: { contains: search, mode: 'insensitive' } },
+      { email: { contains: search, mode: 'insensitive' } },
+    ]
+  }
+
+  if (technologies.length > 0) {
+    where.technologies = { hasSome: technologies }
+  }
+
+  if (seniorityLevel) {
+    where.seniorityLevel = seniorityLevel
+  }
+
+  if (employmentStatus) {
+    where.employmentStatus = employmentStatus
+  }
+
+  return where
+}
+
+/**
+ * Build the project where clause from list query params, limited to the
+ * projects the user may see
+ */
+export function buildProjectWhere(
+  searchParams: URLSearchParams,
+  user: SessionUser
+): Record<string, unknown> {
+  const search = searchParams.get('search') || ''
+  const customerId = searchParams.get('customerId') || ''
+  const category = searchParams.get('category') || ''
+  const status = searchParams.get('status') || ''
+  const devOpsStatus = searchParams.get('devOpsStatus') || ''
+  const priority = searchParams.get('priority') || ''
+  const assignedUserId = searchParams.get('assignedUserId') || ''
+
+  const where: Record<string, unknown> = {}
+
+  if (search) {
+    where.OR = [
+      { title: { contains: search, mode: 'insensitive' } },
+      { description: { contains: search, mode: 'insensitive' } },
+    ]
+  }
+
+  if (customerId) {
+    where.customerId = customerId
+  }
+
+  // Filter by project category
+  if (category) {
+    where.projectCategory = category
+  }
+
+  if (status) {
+    where.status = status
+  }
+
+  if (devOpsStatus) {
+    where.devOpsStatus = devOpsStatus
+  }
+
+  if (priority) {
+    where.priority = priority
+  }
+
+  if (assignedUserId) {
+    where.assignedUsers = {
+      some: { userId: assignedUserId },
+    }
+  }
+
+  where.AND = [projectScope(user)]
+
+  return where
+}
+
+/**
+ * Build the customer where clause from list query params, limited to the
+ * customers the user may see
+ */
+export function buildCustomerWhere(
+  searchParams: URLSearchParams,
+  user: SessionUser
+): Record<string, unknown> {
+  const search = searchParams.get('search') || ''
+  const industry = searchParams.get('industry') || ''
+  const ownerUserId = searchParams.get('ownerUserId') || ''
+
+  const where: Record<string, unknown> = {}
+
+  if (search) {
+    where.OR = [
+      { name: { contains: search, mode: 'insensitive' } },
+      { description: { contains: search, mode: 'insensitive' } },
+    ]
+  }
+
+  if (industry) {
+    where.industry = industry
+  }
+
+  if (ownerUserId) {
+    where.ownerUserId = ownerUserId
+  }
+
+  where.AND = [customerScope(user)]
+
+  return where
+}
@@ -0,0 +1,200 @@
+import type { User } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logActivity } from '@/lib/activity'
+import { decryptTotpSecret, findRecoveryCode, verifyTotp } from '@/lib/totp'
+
+// Password login hardening: per-account lockout after repeated failures,
+// per-IP throttling, failed attempts recorded in the activity log, and the
+// second-factor check for users with 2FA.
+
+export const MAX_FAILED_LOGINS = 5
+export const LOCKOUT_MINUTES = 15
+
+// Attempts allowed per client IP within the window, across all accounts
+const IP_ATTEMPT_LIMIT = 20
+const IP_WINDOW_MS = 15 * 60 * 1000
+
+export type LoginFailureReason =
+  | 'unknown_user'
+  | 'inactive'
+  | 'wrong_password'
+  | 'no_password'
+  | 'locked'
+  | 'invalid_code'
+  | 'throttled'
+
+const globalForThrottle = globalThis as unknown as {
+  loginAttempts: Map<string, number[]> | undefined
+}
+
+function attemptsByIp(): Map<string, number[]> {
+  if (!globalForThrottle.loginAttempts) {
+    globalForThrottle.loginAttempts = new Map()
+  }
+  return globalForThrottle.loginAttempts
+}
+
+type HeaderSource = Record<string, string | string[] | undefined> | Headers | undefined
+
+function trustedProxyCount(): number {
+  const count = parseInt(process.env.TRUSTED_PROXY_COUNT || '', 10)
+  return Number.isNaN(count) || count < 0 ? 1 : count
+}
+
+/**
+ * The client's IP as seen by the nearest trusted proxy. Clients can send any
+ * x-forwarded-for they like and each proxy appends the address it got the
+ * request from, so only the entry added by the outermost of the
+ * TRUSTED_PROXY_COUNT proxies (counted from the right) can be relied on.
+ */
+export function clientIp(headers: HeaderSource): string {
+  const get = (name: string): string | undefined => {
+    if (!headers) return undefined
+    if (headers instanceof Headers) return headers.get(name) ?? undefined
+    const value = headers[name]
+    return Array.isArray(value) ? value.join(',') : value
+  }
+
+  const proxies = trustedProxyCount()
+  if (proxies === 0) return 'unknown'
+
+  const hops = (get('x-forwarded-for') || '')
+    .split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean)
+  if (hops.length > 0) {
+    return hops[Math.max(hops.length - proxies, 0)]
+  }
+  return get('x-real-ip')?.trim() || 'unknown'
+}
+
+/**
+ * Count an attempt from this IP; false once it is over the limit. Kept in
+ * memory, so each server instance throttles on its own.
+ */
+export function takeLoginAttempt(ip: string, now = Date.now()): boolean {
+  const attempts = attemptsByIp()
+  const recent = (attempts.get(ip) || []).filter((t) => now - t < IP_WINDOW_MS)
+
+  if (recent.length >= IP_ATTEMPT_LIMIT) {
+    attempts.set(ip, recent)
+    return false
+  }
+  recent.push(now)
+  attempts.set(ip, recent)
+
+  // Drop idle IPs now and then so the map doesn't grow without bound
+  if (attempts.size > 10000) {
+    Array.from(attempts.entries()).forEach(([key, times]) => {
+      if (times.every((t) => now - t >= IP_WINDOW_MS)) attempts.delete(key)
+    })
+  }
+  return true
+}
+
+export function isLockedOut(user: Pick<User, 'lockedUntil'>, now = new Date()): boolean {
+  return !!user.lockedUntil && user.lockedUntil > now
+}
+
+/**
+ * Record a failed login in the activity log and, for a known account, count
+ * it towards the lockout
+ */
+export async function recordFailedLogin({
+  user,
+  email,
+  ip,
+  reason,
+}: {
+  user: Pick<User, 'id'> | null
+  email: string
+  ip: string
+  reason: LoginFailureReason
+}) {
+  let lockedUntil: Date | null = null
+
+  // Attempts against a locked account don't extend the lock. The count is
+  // incremented in the database so concurrent attempts can't each read the
+  // same value and slip under the limit.
+  if (user && reason !== 'locked' && reason !== 'throttled') {
+    const { failedLoginCount } = await prisma.user.update({
+      where: { id: user.id },
+      data: { failedLoginCount: { increment: 1 } },
+      select: { failedLoginCount: true },
+    })
+
+    if (failedLoginCount >= MAX_FAILED_LOGINS) {
+      const until = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000)
+      // Only one of several concurrent attempts over the limit sets the lock
+      const { count } = await prisma.user.updateMany({
+        where: { id: user.id, failedLoginCount: { gte: MAX_FAILED_LOGINS } },
+        data: { failedLoginCount: 0, lockedUntil: until },
+      })
+      if (count > 0) lockedUntil = until
+    }
+  }
+
+  await logActivity({
+    entityType: 'User',
+    entityId: user?.id ?? 'unknown',
+    action: 'LOGIN_FAILED',
+    diff: {
+      email,
+      ip,
+      reason,
+      ...(lockedUntil ? { lockedUntil: lockedUntil.toISOString() } : {}),
+    },
+  })
+}
+
+export async function clearFailedLogins(user: Pick<User, 'id' | 'failedLoginCount' | 'lockedUntil'>) {
+  if (user.failedLoginCount === 0 && !user.lockedUntil) return
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { failedLoginCount: 0, lockedUntil: null },
+  })
+}
+
+/**
+ * Check a TOTP or recovery code for a user with 2FA enabled. A valid code is
+ * used up: TOTP steps can't be replayed and recovery codes are removed.
+ */
+export async function verifySecondFactor(
+  user: Pick<User, 'id' | 'totpSecret' | 'totpLastUsedStep' | 'recoveryCodeHashes'>,
+  code: string
+): Promise<boolean> {
+  if (!user.totpSecret) return false
+
+  let secret: string | null = null
+  try {
+    secret = decryptTotpSecret(user.totpSecret)
+  } catch {
+    // NEXTAUTH_SECRET changed since enrollment; recovery codes still work
+    console.error('Could not decrypt TOTP secret for user', user.id)
+  }
+
+  const step = secret ? verifyTotp(secret, code, user.totpLastUsedStep) : null
+  // Both updates only apply if nothing used a code since the user was read,
+  // so the same code can't succeed for two concurrent logins
+  if (step !== null) {
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ totpLastUsedStep: null }, { totpLastUsedStep: { lt: step } }],
+      },
+      data: { totpLastUsedStep: step },
+    })
+    return count > 0
+  }
+
+  const index = findRecoveryCode(user.recoveryCodeHashes, code)
+  if (index >= 0) {
+    const { count } = await prisma.user.updateMany({
+      where: { id: user.id, recoveryCodeHashes: { equals: user.recoveryCodeHashes } },
+      data: { recoveryCodeHashes: user.recoveryCodeHashes.filter((_, i) => i !== index) },
+    })
+    return count > 0
+  }
+
+  return false
+}
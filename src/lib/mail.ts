@@ -0,0 +1,117 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import nodemailer from 'nodemailer'
+
+// Outgoing email. MAIL_TRANSPORT picks the delivery: "smtp" for real mail,
+// "file" to write .eml files for inspection, "console" (default) to log them.
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>
+}
+
+function mailFrom(): string {
+  return process.env.MAIL_FROM || 'Naviteq <no-reply@naviteq.local>'
+}
+
+class SmtpTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  })
+
+  async send(message: MailMessage) {
+    await this.transporter.sendMail({ from: mailFrom(), ...message })
+  }
+}
+
+/**
+ * Writes each message as an .eml file (openable in any mail client) under
+ * MAIL_FILE_DIR, for local development without an SMTP server.
+ */
+class FileTransport implements MailTransport {
+  private transporter = nodemailer.createTransport({ streamTransport: true, buffer: true })
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage) {
+    const info = await this.transporter.sendMail({ from: mailFrom(), ...message })
+    const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${safeTo}.eml`
+
+    await fs.mkdir(this.directory, { recursive: true })
+    await fs.writeFile(path.join(this.directory, fileName), info.message as Buffer)
+  }
+}
+
+class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage) {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`)
+  }
+}
+
+function createTransport(): MailTransport {
+  switch (process.env.MAIL_TRANSPORT) {
+    case 'smtp':
+      if (process.env.SMTP_HOST) {
+        return new SmtpTransport()
+      }
+      console.warn('MAIL_TRANSPORT=smtp needs SMTP_HOST; logging mail to the console')
+      return new ConsoleTransport()
+    case 'file':
+      return new FileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'mail'))
+    default:
+      return new ConsoleTransport()
+  }
+}
+
+const globalForMail = globalThis as unknown as {
+  mailTransport: MailTransport | undefined
+}
+
+export const mailTransport = globalForMail.mailTransport ?? createTransport()
+globalForMail.mailTransport = mailTransport
+
+/**
+ * Send an email, returning whether it went out. Failures are logged rather
+ * than thrown so mail problems never fail the request that triggered them.
+ */
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  try {
+    await mailTransport.send(message)
+    return true
+  } catch (error) {
+    console.error('Failed to send email:', error)
+    return false
+  }
+}
+
+/**
+ * Absolute URL for an in-app path, for links in emails
+ */
+export function appUrl(pathname: string): string {
+  const base = (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/$/, '')
+  return `${base}${pathname}`
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+}
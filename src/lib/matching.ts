@@ -1,4 +1,5 @@
 import { Candidate, Project, Engineer, SeniorityLevel, EmploymentStatus, EngineerAssignment } from '@prisma/client'
+import { normalizeSkill, getSkillCategory, SkillIndex } from './skills'
 
 // Legacy match result for backward compatibility
 interface CandidateMatchResult {
@@ -43,13 +44,163 @@ const seniorityOrder: Record<SeniorityLevel, number> = {
   LEAD: 4,
 }
 
-// Availability boost for bench engineers
-const availabilityBoost: Record<EmploymentStatus, number> = {
-  BENCH: 15,       // Strong boost - immediately available
-  ACTIVE: 10,      // Good - available
-  ASSIGNED: 0,     // No boost - currently assigned
-  ON_LEAVE: -5,    // Penalty - not available
-  INACTIVE: -10,   // Strong penalty - not active
+// Point split for candidate scoring (sums to 100)
+interface CandidateWeights {
+  technologies: number
+  mustHave: number
+  seniority: number
+  experience: number
+  niceToHave: number
+}
+
+// Point split for engineer scoring (availability comes from availabilityBoost)
+interface EngineerWeights {
+  technologies: number
+  mustHave: number
+  seniority: number
+  experience: number
+  pastCustomer: number
+}
+
+// Full set of weights a scoring profile can tune
+interface ScoringWeights {
+  candidate: CandidateWeights
+  engineer: EngineerWeights
+  availabilityBoost: Record<EmploymentStatus, number>
+}
+
+// Built-in weights, used when a project has no scoring profile and no default profile exists
+export const defaultScoringWeights: ScoringWeights = {
+  candidate: {
+    technologies: 40,
+    mustHave: 25,
+    seniority: 15,
+    experience: 10,
+    niceToHave: 10,
+  },
+  engineer: {
+    technologies: 35,
+    mustHave: 20,
+    seniority: 15,
+    experience: 10,
+    pastCustomer: 5,
+  },
+  // Availability boost for bench engineers
+  availabilityBoost: {
+    BENCH: 15,       // Strong boost - immediately available
+    ACTIVE: 10,      // Good - available
+    ASSIGNED: 0,     // No boost - currently assigned
+    ON_LEAVE: -5,    // Penalty - not available
+    INACTIVE: -10,   // Strong penalty - not active
+  },
+}
+
+/**
+ * Merge stored scoring profile weights over the built-in defaults.
+ * Profiles are stored as JSON, so any missing or non-numeric value falls back.
+ */
+export function resolveScoringWeights(profile?: {
+  candidateWeights: unknown
+  engineerWeights: unknown
+  availabilityBoost: unknown
+} | null): ScoringWeights {
+  if (!profile) return defaultScoringWeights
+
+  const merge = <T extends { [K in keyof T]: number }>(defaults: T, stored: unknown): T => {
+    const result = { ...defaults }
+    if (stored && typeof stored === 'object') {
+      for (const key of Object.keys(defaults) as Array<keyof T>) {
+        const value = (stored as Record<keyof T, unknown>)[key]
+        if (typeof value === 'number' && Number.isFinite(value)) {
+          result[key] = value as T[keyof T]
+        }
+      }
+    }
+    return result
+  }
+
+  return {
+    candidate: merge(defaultScoringWeights.candidate, profile.candidateWeights),
+    engineer: merge(defaultScoringWeights.engineer, profile.engineerWeights),
+    availabilityBoost: merge(defaultScoringWeights.availabilityBoost, profile.availabilityBoost),
+  }
+}
+
+// Share of a technology's points awarded for a related skill in the same taxonomy family
+const RELATED_SKILL_CREDIT = 0.5
+
+// Shares of the seniority points when levels don't match exactly. With the
+// default 15 points these come to 12, 8, 3 and 10.
+const SENIORITY_CREDIT = {
+  overqualified: 0.8,
+  oneLevelBelow: 8 / 15,
+  furtherBelow: 0.2,
+  notRequired: 2 / 3,
+}
+
+// Share of the experience points when the project sets no minimum
+const EXPERIENCE_NOT_REQUIRED_CREDIT = 0.7
+
+// Share of an engineer's technology points when the project lists none
+// (20 of the default 35)
+const ENGINEER_NO_TECHNOLOGIES_CREDIT = 4 / 7
+
+interface TechnologyOverlap {
+  required: number
+  matched: number
+  related: number
+}
+
+/**
+ * Resolve a skill to the lowercased key used for comparisons.
+ * Without a taxonomy this is plain lowercase equality.
+ */
+function toSkillKey(value: string, skillIndex?: SkillIndex): string {
+  return (skillIndex ? normalizeSkill(value, skillIndex) : value.trim()).toLowerCase()
+}
+
+/**
+ * Compare required technologies with a talent's technologies.
+ * Exact (alias-aware) matches count fully; unmatched requirements with a
+ * talent skill in the same taxonomy category count as related.
+ */
+function compareTechnologies(
+  required: string[],
+  offered: string[],
+  skillIndex?: SkillIndex
+): TechnologyOverlap {
+  const requiredKeys = Array.from(new Set(required.map((t) => toSkillKey(t, skillIndex))))
+  const offeredKeys = new Set(offered.map((t) => toSkillKey(t, skillIndex)))
+  const offeredCategories = new Set(
+    skillIndex
+      ? offered.map((t) => getSkillCategory(t, skillIndex)).filter(Boolean)
+      : []
+  )
+
+  let matched = 0
+  let related = 0
+  for (const key of requiredKeys) {
+    if (offeredKeys.has(key)) {
+      matched++
+    } else if (skillIndex) {
+      const category = getSkillCategory(key, skillIndex)
+      if (category && offeredCategories.has(category)) related++
+    }
+  }
+
+  return { required: requiredKeys.length, matched, related }
+}
+
+function technologyReason(overlap: TechnologyOverlap): string | null {
+  if (overlap.matched > 0) {
+    return `Matches ${overlap.matched}/${overlap.required} required technologies${
+      overlap.related > 0 ? ` (+${overlap.related} related)` : ''
+    }`
+  }
+  if (overlap.related > 0) {
+    return `Related experience for ${overlap.related}/${overlap.required} required technologies`
+  }
+  return null
 }
 
 /**
@@ -58,31 +209,33 @@ const availabilityBoost: Record<EmploymentStatus, number> = {
  */
 export function calculateMatchScore(
   candidate: Candidate,
-  project: Project
+  project: Project,
+  weights: ScoringWeights = defaultScoringWeights,
+  skillIndex?: SkillIndex
 ): CandidateMatchResult {
+  const w = weights.candidate
   let score = 0
   const reasons: string[] = []
   const maxScore = 100
 
-  // 1. Technology overlap (40 points max)
-  const projectTechs = project.technologies.map((t) => t.toLowerCase())
-  const candidateTechs = candidate.technologies.map((t) => t.toLowerCase())
-  const techOverlap = candidateTechs.filter((t) => projectTechs.includes(t))
+  // 1. Technology overlap (40 points max by default, partial credit for related skills)
+  const candidateTechs = candidate.technologies.map((t) => toSkillKey(t, skillIndex))
+  const techOverlap = compareTechnologies(project.technologies, candidate.technologies, skillIndex)
 
-  if (projectTechs.length > 0) {
+  if (techOverlap.required > 0) {
     const techScore = Math.min(
-      40,
-      (techOverlap.length / projectTechs.length) * 40
+      w.technologies,
+      ((techOverlap.matched + techOverlap.related * RELATED_SKILL_CREDIT) / techOverlap.required) *
+        w.technologies
     )
     score += techScore
-    if (techOverlap.length > 0) {
-      reasons.push(
-        `Matches ${techOverlap.length}/${projectTechs.length} required technologies`
-      )
+    const techReason = technologyReason(techOverlap)
+    if (techReason) {
+      reasons.push(techReason)
     }
   }
 
-  // 2. Must-have requirements (25 points max, penalty for missing)
+  // 2. Must-have requirements (25 points max by default, penalty for missing)
   const mustHave = project.mustHave.map((m) => m.toLowerCase())
   if (mustHave.length > 0) {
     const candidateText = [
@@ -94,17 +247,14 @@ export function calculateMatchScore(
       .join(' ')
       .toLowerCase()
 
-    const mustHaveMatches = mustHave.filter(
-      (req) =>
-        candidateText.includes(req) || candidateTechs.includes(req)
-    )
-    const mustHaveScore = (mustHaveMatches.length / mustHave.length) * 25
+    const hasRequirement = (req: string) =>
+      candidateText.includes(req) || candidateTechs.includes(toSkillKey(req, skillIndex))
+
+    const mustHaveMatches = mustHave.filter(hasRequirement)
+    const mustHaveScore = (mustHaveMatches.length / mustHave.length) * w.mustHave
     score += mustHaveScore
 
-    const missingMustHave = mustHave.filter(
-      (req) =>
-        !candidateText.includes(req) && !candidateTechs.includes(req)
-    )
+    const missingMustHave = mustHave.filter((req) => !hasRequirement(req))
 
     if (mustHaveMatches.length === mustHave.length) {
       reasons.push('Has all must-have requirements')
@@ -114,51 +264,51 @@ export function calculateMatchScore(
       )
     }
   } else {
-    score += 25 // No must-haves = full points
+    score += w.mustHave // No must-haves = full points
   }
 
-  // 3. Seniority alignment (15 points max)
+  // 3. Seniority alignment (15 points max by default)
   if (project.seniorityLevel && candidate.seniorityLevel) {
     const projectLevel = seniorityOrder[project.seniorityLevel]
     const candidateLevel = seniorityOrder[candidate.seniorityLevel]
 
     if (candidateLevel === projectLevel) {
-      score += 15
+      score += w.seniority
       reasons.push(`Seniority level matches: ${candidate.seniorityLevel}`)
     } else if (candidateLevel > projectLevel) {
-      score += 12 // Overqualified is still good
+      score += w.seniority * SENIORITY_CREDIT.overqualified // Overqualified is still good
       reasons.push(`Seniority: ${candidate.seniorityLevel} (exceeds requirement)`)
     } else if (candidateLevel === projectLevel - 1) {
-      score += 8 // One level below
+      score += w.seniority * SENIORITY_CREDIT.oneLevelBelow // One level below
       reasons.push(
         `Seniority: ${candidate.seniorityLevel} (below ${project.seniorityLevel} requirement)`
       )
     } else {
-      score += 3 // Significantly under-qualified
+      score += w.seniority * SENIORITY_CREDIT.furtherBelow // Significantly under-qualified
     }
   } else {
-    score += 10 // No seniority requirement = partial points
+    score += w.seniority * SENIORITY_CREDIT.notRequired // No seniority requirement = partial points
   }
 
-  // 4. Years of experience (10 points max)
+  // 4. Years of experience (10 points max by default)
   if (project.yearsExperienceMin != null && candidate.yearsExperience != null) {
     if (candidate.yearsExperience >= project.yearsExperienceMin) {
-      score += 10
+      score += w.experience
       reasons.push(
         `Has ${candidate.yearsExperience}+ years experience (required: ${project.yearsExperienceMin}+)`
       )
     } else {
       const expRatio = candidate.yearsExperience / project.yearsExperienceMin
-      score += Math.round(expRatio * 10)
+      score += Math.round(expRatio * w.experience)
       reasons.push(
         `Has ${candidate.yearsExperience} years experience (below ${project.yearsExperienceMin} required)`
       )
     }
   } else {
-    score += 7 // No experience requirement
+    score += w.experience * EXPERIENCE_NOT_REQUIRED_CREDIT // No experience requirement
   }
 
-  // 5. Nice-to-have bonus (10 points max)
+  // 5. Nice-to-have bonus (10 points max by default)
   const niceToHave = project.niceToHave.map((n) => n.toLowerCase())
   if (niceToHave.length > 0) {
     const candidateText = [
@@ -172,12 +322,12 @@ export function calculateMatchScore(
 
     const niceToHaveMatches = niceToHave.filter(
       (req) =>
-        candidateText.includes(req) || candidateTechs.includes(req)
+        candidateText.includes(req) || candidateTechs.includes(toSkillKey(req, skillIndex))
     )
 
     const niceScore = Math.min(
-      10,
-      (niceToHaveMatches.length / niceToHave.length) * 10
+      w.niceToHave,
+      (niceToHaveMatches.length / niceToHave.length) * w.niceToHave
     )
     score += niceScore
 
@@ -204,40 +354,44 @@ export function calculateMatchScore(
  */
 export function calculateEngineerMatchScore(
   engineer: EngineerWithAssignments,
-  project: Project
+  project: Project,
+  weights: ScoringWeights = defaultScoringWeights,
+  skillIndex?: SkillIndex
 ): EngineerMatchResult {
+  const w = weights.engineer
   let score = 0
   const reasons: string[] = []
   const maxScore = 100
 
-  // 1. Technology overlap (35 points max - slightly less than candidates because engineers are known quantities)
-  const projectTechs = project.technologies.map((t) => t.toLowerCase())
-  const engineerTechs = engineer.technologies.map((t) => t.toLowerCase())
-  const techOverlap = engineerTechs.filter((t) => projectTechs.includes(t))
+  // 1. Technology overlap (35 points max by default - slightly less than candidates because engineers are known quantities)
+  const engineerTechs = engineer.technologies.map((t) => toSkillKey(t, skillIndex))
+  const techOverlap = compareTechnologies(project.technologies, engineer.technologies, skillIndex)
 
-  if (projectTechs.length > 0) {
+  if (techOverlap.required > 0) {
     const techScore = Math.min(
-      35,
-      (techOverlap.length / projectTechs.length) * 35
+      w.technologies,
+      ((techOverlap.matched + techOverlap.related * RELATED_SKILL_CREDIT) / techOverlap.required) *
+        w.technologies
     )
     score += techScore
-    if (techOverlap.length > 0) {
-      reasons.push(
-        `Matches ${techOverlap.length}/${projectTechs.length} required technologies`
-      )
+    const techReason = technologyReason(techOverlap)
+    if (techReason) {
+      reasons.push(techReason)
     }
   } else {
-    score += 20 // No tech requirements = partial points
+    score += w.technologies * ENGINEER_NO_TECHNOLOGIES_CREDIT // No tech requirements = partial points
   }
 
-  // 2. Must-have requirements (20 points max)
+  // 2. Must-have requirements (20 points max by default)
   const mustHave = project.mustHave.map((m) => m.toLowerCase())
   if (mustHave.length > 0) {
-    const mustHaveMatches = mustHave.filter((req) => engineerTechs.includes(req))
-    const mustHaveScore = (mustHaveMatches.length / mustHave.length) * 20
+    const hasRequirement = (req: string) => engineerTechs.includes(toSkillKey(req, skillIndex))
+
+    const mustHaveMatches = mustHave.filter(hasRequirement)
+    const mustHaveScore = (mustHaveMatches.length / mustHave.length) * w.mustHave
     score += mustHaveScore
 
-    const missingMustHave = mustHave.filter((req) => !engineerTechs.includes(req))
+    const missingMustHave = mustHave.filter((req) => !hasRequirement(req))
 
     if (mustHaveMatches.length === mustHave.length) {
       reasons.push('Has all must-have requirements')
@@ -247,52 +401,52 @@ export function calculateEngineerMatchScore(
       )
     }
   } else {
-    score += 20 // No must-haves = full points
+    score += w.mustHave // No must-haves = full points
   }
 
-  // 3. Seniority alignment (15 points max)
+  // 3. Seniority alignment (15 points max by default)
   if (project.seniorityLevel && engineer.seniorityLevel) {
     const projectLevel = seniorityOrder[project.seniorityLevel]
     const engineerLevel = seniorityOrder[engineer.seniorityLevel]
 
     if (engineerLevel === projectLevel) {
-      score += 15
+      score += w.seniority
       reasons.push(`Seniority level matches: ${engineer.seniorityLevel}`)
     } else if (engineerLevel > projectLevel) {
-      score += 12 // Overqualified is still good
+      score += w.seniority * SENIORITY_CREDIT.overqualified // Overqualified is still good
       reasons.push(`Seniority: ${engineer.seniorityLevel} (exceeds requirement)`)
     } else if (engineerLevel === projectLevel - 1) {
-      score += 8 // One level below
+      score += w.seniority * SENIORITY_CREDIT.oneLevelBelow // One level below
       reasons.push(
         `Seniority: ${engineer.seniorityLevel} (below ${project.seniorityLevel} requirement)`
       )
     } else {
-      score += 3 // Significantly under-qualified
+      score += w.seniority * SENIORITY_CREDIT.furtherBelow // Significantly under-qualified
     }
   } else {
-    score += 10 // No seniority requirement = partial points
+    score += w.seniority * SENIORITY_CREDIT.notRequired // No seniority requirement = partial points
   }
 
-  // 4. Years of experience (10 points max)
+  // 4. Years of experience (10 points max by default)
   if (project.yearsExperienceMin != null && engineer.yearsExperience != null) {
     if (engineer.yearsExperience >= project.yearsExperienceMin) {
-      score += 10
+      score += w.experience
       reasons.push(
         `Has ${engineer.yearsExperience}+ years experience (required: ${project.yearsExperienceMin}+)`
       )
     } else {
       const expRatio = engineer.yearsExperience / project.yearsExperienceMin
-      score += Math.round(expRatio * 10)
+      score += Math.round(expRatio * w.experience)
       reasons.push(
         `Has ${engineer.yearsExperience} years experience (below ${project.yearsExperienceMin} required)`
       )
     }
   } else {
-    score += 7 // No experience requirement
+    score += w.experience * EXPERIENCE_NOT_REQUIRED_CREDIT // No experience requirement
   }
 
-  // 5. Availability boost (15 points max - unique to engineers)
-  const availBoost = availabilityBoost[engineer.employmentStatus]
+  // 5. Availability boost (15 points max by default - unique to engineers)
+  const availBoost = weights.availabilityBoost[engineer.employmentStatus]
   score += Math.max(0, availBoost) // Only add positive boost to base score
 
   if (engineer.employmentStatus === 'BENCH') {
@@ -305,14 +459,14 @@ export function calculateEngineerMatchScore(
     reasons.push('Currently on leave')
   }
 
-  // 6. Past assignment history bonus (5 points max)
+  // 6. Past assignment history bonus (5 points max by default)
   if (engineer.assignments && engineer.assignments.length > 0) {
     // Check if engineer worked with the same customer before
     const workedWithCustomer = engineer.assignments.some(
       (a) => a.customerId === project.customerId
     )
     if (workedWithCustomer) {
-      score += 5
+      score += w.pastCustomer
       reasons.push('Previously worked with this customer')
     }
   }
@@ -335,10 +489,12 @@ export function calculateEngineerMatchScore(
  */
 export function rankCandidates(
   candidates: Candidate[],
-  project: Project
+  project: Project,
+  weights: ScoringWeights = defaultScoringWeights,
+  skillIndex?: SkillIndex
 ): CandidateMatchResult[] {
   const results = candidates.map((candidate) =>
-    calculateMatchScore(candidate, project)
+    calculateMatchScore(candidate, project, weights, skillIndex)
   )
 
   // Sort by score descending
@@ -350,10 +506,12 @@ export function rankCandidates(
  */
 export function rankEngineers(
   engineers: EngineerWithAssignments[],
-  project: Project
+  project: Project,
+  weights: ScoringWeights = defaultScoringWeights,
+  skillIndex?: SkillIndex
 ): EngineerMatchResult[] {
   const results = engineers.map((engineer) =>
-    calculateEngineerMatchScore(engineer, project)
+    calculateEngineerMatchScore(engineer, project, weights, skillIndex)
   )
 
   // Sort by score descending
@@ -367,13 +525,15 @@ export function rankEngineers(
 export function rankAllTalent(
   candidates: Candidate[],
   engineers: EngineerWithAssignments[],
-  project: Project
+  project: Project,
+  weights: ScoringWeights = defaultScoringWeights,
+  skillIndex?: SkillIndex
 ): UnifiedMatchResult[] {
   const results: UnifiedMatchResult[] = []
 
   // Score candidates
   for (const candidate of candidates) {
-    const matchResult = calculateMatchScore(candidate, project)
+    const matchResult = calculateMatchScore(candidate, project, weights, skillIndex)
     results.push({
       id: candidate.id,
       talentType: 'CANDIDATE',
@@ -391,7 +551,7 @@ export function rankAllTalent(
 
   // Score engineers
   for (const engineer of engineers) {
-    const matchResult = calculateEngineerMatchScore(engineer, project)
+    const matchResult = calculateEngineerMatchScore(engineer, project, weights, skillIndex)
     results.push({
       id: engineer.id,
       talentType: 'ENGINEER',
@@ -427,4 +587,12 @@ export function getScoreLabel(score: number): string {
 }
 
 // Export types
-export type { CandidateMatchResult, EngineerMatchResult, UnifiedMatchResult, EngineerWithAssignments }
+export type {
+  CandidateMatchResult,
+  EngineerMatchResult,
+  UnifiedMatchResult,
+  EngineerWithAssignments,
+  CandidateWeights,
+  EngineerWeights,
+  ScoringWeights,
+}
@@ -0,0 +1,234 @@
+import prisma from '@/lib/prisma'
+import { appUrl, escapeHtml, sendMail } from '@/lib/mail'
+import { formatDateTime } from '@/lib/utils'
+import type { NotificationType } from '@/types'
+
+// Email delivery for notifications: one message per notification for users
+// who chose "email immediately", and a daily digest for "daily digest".
+
+// A user gets at most one digest in this window, even if the job runs twice
+const DIGEST_MIN_INTERVAL_HOURS = 20
+// How far back the first digest looks
+const DIGEST_DEFAULT_LOOKBACK_HOURS = 24
+
+export interface EmailableNotification {
+  userId: string
+  type: NotificationType
+  title: string
+  message: string
+  linkUrl?: string | null
+}
+
+/**
+ * Email each notification to its recipient straight away
+ */
+export async function sendNotificationEmails(notifications: EmailableNotification[]) {
+  if (notifications.length === 0) return
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: Array.from(new Set(notifications.map((n) => n.userId))) } },
+    select: { id: true, email: true, fullName: true },
+  })
+  const usersById = new Map(users.map((user) => [user.id, user]))
+
+  for (const notification of notifications) {
+    const user = usersById.get(notification.userId)
+    if (!user) continue
+
+    const link = notification.linkUrl ? appUrl(notification.linkUrl) : null
+
+    await sendMail({
+      to: user.email,
+      subject: notification.title,
+      text: [
+        `Hi ${user.fullName},`,
+        '',
+        notification.message,
+        link ? `\nOpen: ${link}` : '',
+        '',
+        `Change how you receive these on your profile: ${appUrl('/profile')}`,
+      ].join('\n'),
+      html: [
+        `<p>Hi ${escapeHtml(user.fullName)},</p>`,
+        `<p>${escapeHtml(notification.message)}</p>`,
+        link ? `<p><a href="${escapeHtml(link)}">Open in Naviteq</a></p>` : '',
+        `<p style="color:#6b7280;font-size:12px">Change how you receive these on your <a href="${escapeHtml(appUrl('/profile'))}">profile</a>.</p>`,
+      ].join(''),
+    })
+  }
+}
+
+interface DigestProjectActivity {
+  projectId: string
+  title: string
+  updates: number
+  changes: number
+}
+
+/**
+ * Timeline entries and logged changes on the user's assigned projects since
+ * `since`, leaving out the user's own activity
+ */
+async function getProjectActivity(userId: string, since: Date): Promise<DigestProjectActivity[]> {
+  const assignments = await prisma.projectAssignment.findMany({
+    where: { userId },
+    select: { project: { select: { id: true, title: true } } },
+  })
+  if (assignments.length === 0) return []
+
+  const projectIds = assignments.map((a) => a.project.id)
+
+  const [updates, changes] = await Promise.all([
+    prisma.projectUpdate.groupBy({
+      by: ['projectId'],
+      where: { projectId: { in: projectIds }, createdAt: { gte: since }, authorUserId: { not: userId } },
+      _count: { _all: true },
+    }),
+    prisma.activityLog.groupBy({
+      by: ['entityId'],
+      where: {
+        entityType: 'Project',
+        entityId: { in: projectIds },
+        createdAt: { gte: since },
+        OR: [{ performedByUserId: null }, { performedByUserId: { not: userId } }],
+      },
+      _count: { _all: true },
+    }),
+  ])
+
+  const updateCounts = new Map(updates.map((u) => [u.projectId, u._count._all]))
+  const changeCounts = new Map(changes.map((c) => [c.entityId, c._count._all]))
+
+  return assignments
+    .map(({ project }) => ({
+      projectId: project.id,
+      title: project.title,
+      updates: updateCounts.get(project.id) || 0,
+      changes: changeCounts.get(project.id) || 0,
+    }))
+    .filter((activity) => activity.updates > 0 || activity.changes > 0)
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+/**
+ * Send the daily digest to every user with at least one type set to
+ * "daily digest": their unread digest-type notifications plus activity on
+ * their projects since the previous digest. Each user is claimed before
+ * sending so overlapping runs don't send twice. Returns the number sent.
+ */
+export async function sendDailyDigests(now = new Date()): Promise<number> {
+  const claimBefore = new Date(now.getTime() - DIGEST_MIN_INTERVAL_HOURS * 60 * 60 * 1000)
+
+  const users = await prisma.user.findMany({
+    where: {
+      isActive: true,
+      notificationPreferences: { some: { delivery: 'DIGEST' } },
+      OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lt: claimBefore } }],
+    },
+    select: {
+      id: true,
+      email: true,
+      fullName: true,
+      lastDigestSentAt: true,
+      notificationPreferences: {
+        where: { delivery: 'DIGEST' },
+        select: { type: true },
+      },
+    },
+  })
+
+  let sent = 0
+
+  for (const user of users) {
+    const claimed = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        OR: [{ lastDigestSentAt: null }, { lastDigestSentAt: { lt: claimBefore } }],
+      },
+      data: { lastDigestSentAt: now },
+    })
+    if (claimed.count === 0) continue
+
+    const since =
+      user.lastDigestSentAt ??
+      new Date(now.getTime() - DIGEST_DEFAULT_LOOKBACK_HOURS * 60 * 60 * 1000)
+
+    const [notifications, activity] = await Promise.all([
+      prisma.notification.findMany({
+        where: {
+          userId: user.id,
+          isRead: false,
+          createdAt: { gte: since },
+          type: { in: user.notificationPreferences.map((p) => p.type) },
+        },
+        orderBy: { createdAt: 'asc' },
+      }),
+      getProjectActivity(user.id, since),
+    ])
+
+    if (notifications.length === 0 && activity.length === 0) continue
+
+    const notificationLines = notifications.map((n) => ({
+      text: `- ${n.message} (${formatDateTime(n.createdAt)})`,
+      html: `<li>${escapeHtml(n.message)}${
+        n.linkUrl ? ` - <a href="${escapeHtml(appUrl(n.linkUrl))}">open</a>` : ''
+      } <span style="color:#6b7280">(${escapeHtml(formatDateTime(n.createdAt))})</span></li>`,
+    }))
+    const activityLines = activity.map((a) => {
+      const summary = [
+        a.updates ? plural(a.updates, 'timeline update') : null,
+        a.changes ? plural(a.changes, 'change') : null,
+      ]
+        .filter(Boolean)
+        .join(', ')
+      const link = appUrl(`/projects/${a.projectId}`)
+      return {
+        text: `- ${a.title}: ${summary} (${link})`,
+        html: `<li><a href="${escapeHtml(link)}">${escapeHtml(a.title)}</a>: ${escapeHtml(summary)}</li>`,
+      }
+    })
+
+    const textSections: string[] = [`Hi ${user.fullName}, here's what happened since your last digest.`]
+    const htmlSections: string[] = [
+      `<p>Hi ${escapeHtml(user.fullName)}, here's what happened since your last digest.</p>`,
+    ]
+
+    if (notificationLines.length > 0) {
+      textSections.push(`\nUnread notifications\n${notificationLines.map((l) => l.text).join('\n')}`)
+      htmlSections.push(
+        `<h3>Unread notifications</h3><ul>${notificationLines.map((l) => l.html).join('')}</ul>`
+      )
+    }
+    if (activityLines.length > 0) {
+      textSections.push(`\nProject activity\n${activityLines.map((l) => l.text).join('\n')}`)
+      htmlSections.push(`<h3>Project activity</h3><ul>${activityLines.map((l) => l.html).join('')}</ul>`)
+    }
+
+    textSections.push(`\nChange which notifications are included on your profile: ${appUrl('/profile')}`)
+    htmlSections.push(
+      `<p style="color:#6b7280;font-size:12px">Change which notifications are included on your <a href="${escapeHtml(appUrl('/profile'))}">profile</a>.</p>`
+    )
+
+    const delivered = await sendMail({
+      to: user.email,
+      subject: `Your daily digest: ${plural(notifications.length, 'notification')}, ${plural(activity.length, 'active project')}`,
+      text: textSections.join('\n'),
+      html: htmlSections.join(''),
+    })
+
+    if (delivered) {
+      sent++
+    } else {
+      // Release the claim so the next run covers the same period
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { lastDigestSentAt: user.lastDigestSentAt },
+      })
+    }
+  }
+
+  return sent
+}
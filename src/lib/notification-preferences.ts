@@ -0,0 +1,52 @@
+import type { NotificationDelivery } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { notificationTypeLabels, NotificationType } from '@/types'
+
+export const NOTIFICATION_TYPES = Object.keys(notificationTypeLabels) as NotificationType[]
+
+// Used for any type a user hasn't chosen a delivery for
+export const DEFAULT_NOTIFICATION_DELIVERY: NotificationDelivery = 'IN_APP'
+
+export interface NotificationPreferenceEntry {
+  type: NotificationType
+  delivery: NotificationDelivery
+}
+
+/**
+ * Effective delivery for every type in the catalog for one user
+ */
+export async function getUserNotificationPreferences(
+  userId: string
+): Promise<NotificationPreferenceEntry[]> {
+  const saved = await prisma.notificationPreference.findMany({
+    where: { userId },
+    select: { type: true, delivery: true },
+  })
+  const byType = new Map(saved.map((p) => [p.type, p.delivery]))
+
+  return NOTIFICATION_TYPES.map((type) => ({
+    type,
+    delivery: byType.get(type) ?? DEFAULT_NOTIFICATION_DELIVERY,
+  }))
+}
+
+/**
+ * Look up delivery choices for many (user, type) pairs in one query.
+ * Returns a resolver that falls back to the default.
+ */
+export async function loadDeliveryResolver(
+  pairs: Array<{ userId: string; type: NotificationType }>
+): Promise<(userId: string, type: NotificationType) => NotificationDelivery> {
+  const saved = pairs.length
+    ? await prisma.notificationPreference.findMany({
+        where: {
+          userId: { in: Array.from(new Set(pairs.map((p) => p.userId))) },
+          type: { in: Array.from(new Set(pairs.map((p) => p.type))) },
+        },
+        select: { userId: true, type: true, delivery: true },
+      })
+    : []
+  const byKey = new Map(saved.map((p) => [`${p.userId}:${p.type}`, p.delivery]))
+
+  return (userId, type) => byKey.get(`${userId}:${type}`) ?? DEFAULT_NOTIFICATION_DELIVERY
+}
@@ -0,0 +1,307 @@
+import type { DevOpsStatus, TalentStage } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { publishEvent } from '@/lib/realtime'
+import { loadDeliveryResolver } from '@/lib/notification-preferences'
+import { enqueueJob } from '@/lib/jobs'
+import { devOpsStatusLabels, talentStageLabels, NotificationType } from '@/types'
+
+// In-app notifications. Each type in the catalog (NotificationType) has a
+// notify* helper that works out who should hear about it: users assigned to
+// the project (ProjectAssignment) and/or the customer's owner. The user who
+// caused the event is never notified. Each recipient's preference for the
+// type then decides whether it is stored, emailed or left for the digest.
+
+export interface NotificationInput {
+  userId: string
+  type: NotificationType
+  title: string
+  message: string
+  linkUrl?: string | null
+  projectUpdateId?: string | null
+}
+
+type NotificationContent = Omit<NotificationInput, 'userId'>
+
+/**
+ * Store in-app notifications, push a refresh to the recipients' open sessions
+ * and queue emails for those who asked for it. Types a recipient turned off
+ * are dropped.
+ */
+export async function createNotifications(data: NotificationInput[]) {
+  if (data.length === 0) return
+
+  const deliveryFor = await loadDeliveryResolver(data)
+  const delivered = data.filter((n) => deliveryFor(n.userId, n.type) !== 'OFF')
+  if (delivered.length === 0) return
+
+  await prisma.notification.createMany({ data: delivered })
+
+  await publishEvent({
+    type: 'notification',
+    userIds: Array.from(new Set(delivered.map((n) => n.userId))),
+  })
+
+  const emailed = delivered.filter((n) => deliveryFor(n.userId, n.type) === 'EMAIL')
+  if (emailed.length > 0) {
+    await enqueueJob('notifications.email', {
+      notifications: emailed.map(({ userId, type, title, message, linkUrl }) => ({
+        userId,
+        type,
+        title,
+        message,
+        linkUrl,
+      })),
+    })
+  }
+}
+
+/**
+ * Send the same notification to each (active) recipient once
+ */
+export async function notifyUsers(
+  userIds: Array<string | null | undefined>,
+  notification: NotificationContent,
+  actingUserId?: string
+) {
+  const candidates = Array.from(new Set(userIds.filter((id): id is string => !!id)))
+    .filter((id) => id !== actingUserId)
+  if (candidates.length === 0) return
+
+  const active = await prisma.user.findMany({
+    where: { id: { in: candidates }, isActive: true },
+    select: { id: true },
+  })
+
+  await createNotifications(active.map((user) => ({ userId: user.id, ...notification })))
+}
+
+/**
+ * Users assigned to the project, plus the owner of its customer
+ */
+async function getProjectAudience(projectId: string) {
+  const project = await prisma.project.findUnique({
+    where: { id: projectId },
+    select: {
+      id: true,
+      title: true,
+      customer: { select: { id: true, name: true, ownerUserId: true } },
+      assignedUsers: { select: { userId: true } },
+    },
+  })
+  if (!project) return null
+
+  return {
+    project,
+    assignedUserIds: project.assignedUsers.map((a) => a.userId),
+    customerOwnerId: project.customer.ownerUserId,
+  }
+}
+
+// Talent stage changed on a project I'm assigned to (or a talent I own)
+export async function notifyTalentStageChanged(params: {
+  projectTalentId: string
+  from: TalentStage
+  to: TalentStage
+  actingUserId?: string
+}) {
+  const talent = await prisma.projectTalent.findUnique({
+    where: { id: params.projectTalentId },
+    select: {
+      projectId: true,
+      ownerUserId: true,
+      candidate: { select: { fullName: true } },
+      engineer: { select: { fullName: true } },
+    },
+  })
+  if (!talent) return
+
+  const audience = await getProjectAudience(talent.projectId)
+  if (!audience) return
+
+  const name = (talent.candidate ?? talent.engineer)?.fullName || 'A talent'
+
+  await notifyUsers(
+    [...audience.assignedUserIds, talent.ownerUserId],
+    {
+      type: 'TALENT_STAGE_CHANGED',
+      title: `Moved to ${talentStageLabels[params.to]}`,
+      message: `${name} moved from ${talentStageLabels[params.from]} to ${talentStageLabels[params.to]} on "${audience.project.title}"`,
+      linkUrl: `/projects/${talent.projectId}`,
+    },
+    params.actingUserId
+  )
+}
+
+// Customer left feedback on a submission through the portal
+export async function notifyClientFeedback(params: {
+  projectTalentId: string
+  portalUserName: string
+}) {
+  const talent = await prisma.projectTalent.findUnique({
+    where: { id: params.projectTalentId },
+    select: {
+      projectId: true,
+      ownerUserId: true,
+      candidate: { select: { fullName: true } },
+      engineer: { select: { fullName: true } },
+    },
+  })
+  if (!talent) return
+
+  const audience = await getProjectAudience(talent.projectId)
+  if (!audience) return
+
+  const name = (talent.candidate ?? talent.engineer)?.fullName || 'a talent'
+
+  await notifyUsers([...audience.assignedUserIds, audience.customerOwnerId, talent.ownerUserId], {
+    type: 'CLIENT_FEEDBACK_RECEIVED',
+    title: 'Customer feedback received',
+    message: `${params.portalUserName} (${audience.project.customer.name}) left feedback on ${name} for "${audience.project.title}"`,
+    linkUrl: `/projects/${talent.projectId}`,
+  })
+}
+
+// Engineer assigned to / released from a project or customer
+export async function notifyEngineerAssignment(params: {
+  engineerId: string
+  projectId?: string | null
+  customerId?: string | null
+  assigned: boolean
+  actingUserId?: string
+}) {
+  const engineer = await prisma.engineer.findUnique({
+    where: { id: params.engineerId },
+    select: { fullName: true },
+  })
+  if (!engineer) return
+
+  const recipients: Array<string | null> = []
+  let target: string | null = null
+
+  if (params.projectId) {
+    const audience = await getProjectAudience(params.projectId)
+    if (audience) {
+      recipients.push(...audience.assignedUserIds, audience.customerOwnerId)
+      target = `"${audience.project.title}"`
+    }
+  }
+  if (!target && params.customerId) {
+    const customer = await prisma.customer.findUnique({
+      where: { id: params.customerId },
+      select: { name: true, ownerUserId: true },
+    })
+    if (customer) {
+      recipients.push(customer.ownerUserId)
+      target = customer.name
+    }
+  }
+  if (!target) return
+
+  await notifyUsers(
+    recipients,
+    params.assigned
+      ? {
+          type: 'ENGINEER_ASSIGNED',
+          title: 'Engineer assigned',
+          message: `${engineer.fullName} was assigned to ${target}`,
+          linkUrl: `/engineers/${params.engineerId}`,
+        }
+      : {
+          type: 'ENGINEER_UNASSIGNED',
+          title: 'Engineer unassigned',
+          message: `${engineer.fullName} is no longer assigned to ${target}`,
+          linkUrl: `/engineers/${params.engineerId}`,
+        },
+    params.actingUserId
+  )
+}
+
+/**
+ * Engineer returned to BENCH. Goes to the people behind their most recent
+ * assignment, who are best placed to find them the next one.
+ */
+export async function notifyEngineerOnBench(params: { engineerId: string; actingUserId?: string }) {
+  const engineer = await prisma.engineer.findUnique({
+    where: { id: params.engineerId },
+    select: {
+      fullName: true,
+      assignments: {
+        orderBy: { startDate: 'desc' },
+        take: 1,
+        select: {
+          projectId: true,
+          customer: { select: { ownerUserId: true } },
+          project: {
+            select: {
+              assignedUsers: { select: { userId: true } },
+              customer: { select: { ownerUserId: true } },
+            },
+          },
+        },
+      },
+    },
+  })
+  const lastAssignment = engineer?.assignments[0]
+  if (!engineer || !lastAssignment) return
+
+  await notifyUsers(
+    [
+      ...(lastAssignment.project?.assignedUsers.map((a) => a.userId) || []),
+      lastAssignment.customer?.ownerUserId,
+      lastAssignment.project?.customer.ownerUserId,
+    ],
+    {
+      type: 'ENGINEER_ON_BENCH',
+      title: 'Engineer back on bench',
+      message: `${engineer.fullName} is back on the bench and available for a new assignment`,
+      linkUrl: `/engineers/${params.engineerId}`,
+    },
+    params.actingUserId
+  )
+}
+
+const ALERT_STATUSES: DevOpsStatus[] = ['AT_RISK', 'BLOCKED']
+
+// DevOps project moved to AT_RISK or BLOCKED
+export async function notifyProjectStatusAlert(params: {
+  projectId: string
+  from: DevOpsStatus | null
+  to: DevOpsStatus | null
+  actingUserId?: string
+}) {
+  if (!params.to || !ALERT_STATUSES.includes(params.to) || params.from === params.to) return
+
+  const audience = await getProjectAudience(params.projectId)
+  if (!audience) return
+
+  await notifyUsers(
+    [...audience.assignedUserIds, audience.customerOwnerId],
+    {
+      type: 'PROJECT_STATUS_ALERT',
+      title: `Project ${devOpsStatusLabels[params.to].toLowerCase()}`,
+      message: `"${audience.project.title}" (${audience.project.customer.name}) was marked ${devOpsStatusLabels[params.to]}`,
+      linkUrl: `/projects/${params.projectId}`,
+    },
+    params.actingUserId
+  )
+}
+
+// New project for a customer I own
+export async function notifyCustomerProjectCreated(params: {
+  projectId: string
+  actingUserId?: string
+}) {
+  const audience = await getProjectAudience(params.projectId)
+  if (!audience) return
+
+  await notifyUsers(
+    [audience.customerOwnerId],
+    {
+      type: 'CUSTOMER_PROJECT_CREATED',
+      title: 'New project for your customer',
+      message: `"${audience.project.title}" was created for ${audience.project.customer.name}`,
+      linkUrl: `/projects/${params.projectId}`,
+    },
+    params.actingUserId
+  )
+}
@@ -0,0 +1,58 @@
+import { spawn } from 'child_process'
+
+// Optical character recognition for scanned resumes, with a locally
+// installed Tesseract (https://github.com/tesseract-ocr/tesseract). OCR is
+// on when TESSERACT_PATH is set (e.g. "tesseract" or /usr/bin/tesseract);
+// OCR_LANGUAGES picks the trained languages to use (default "eng"), each of
+// which must be installed.
+
+const OCR_TIMEOUT_MS = 60 * 1000
+
+export function isOcrEnabled(): boolean {
+  return !!process.env.TESSERACT_PATH
+}
+
+/**
+ * Read the text in an image (PNG or JPEG). Throws if Tesseract fails or
+ * takes longer than a minute.
+ */
+export function recognizeText(image: Buffer): Promise<string> {
+  const tesseract = process.env.TESSERACT_PATH
+  if (!tesseract) {
+    return Promise.reject(new Error('OCR is not configured (TESSERACT_PATH)'))
+  }
+
+  return new Promise((resolve, reject) => {
+    // "stdin stdout": read the image from stdin and print the text
+    const child = spawn(tesseract, ['stdin', 'stdout', '-l', process.env.OCR_LANGUAGES || 'eng'], {
+      stdio: ['pipe', 'pipe', 'pipe'],
+    })
+    const output: Buffer[] = []
+    const errors: Buffer[] = []
+
+    const timer = setTimeout(() => {
+      child.kill()
+      reject(new Error('OCR timed out'))
+    }, OCR_TIMEOUT_MS)
+
+    child.stdout.on('data', (chunk: Buffer) => output.push(chunk))
+    child.stderr.on('data', (chunk: Buffer) => errors.push(chunk))
+    child.on('error', (error) => {
+      clearTimeout(timer)
+      reject(new Error(`OCR failed: ${error.message}`))
+    })
+    child.on('close', (code) => {
+      clearTimeout(timer)
+      if (code === 0) {
+        resolve(Buffer.concat(output).toString('utf8'))
+      } else {
+        const message = Buffer.concat(errors).toString('utf8').trim().split('\n').pop()
+        reject(new Error(`OCR failed: ${message || `exit code ${code}`}`))
+      }
+    })
+
+    // A closed stdin (e.g. Tesseract exiting early) is reported by 'close'
+    child.stdin.on('error', () => {})
+    child.stdin.end(image)
+  })
+}
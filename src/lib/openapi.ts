@@ -0,0 +1,410 @@
+import { ZodFirstPartyTypeKind, type ZodTypeAny } from 'zod'
+import type { Permission } from '@/lib/permissions'
+import {
+  activeResumeSchema,
+  candidateSchema,
+  clientProfileSchema,
+  convertToEngineerSchema,
+  createUserSchema,
+  customerSchema,
+  duplicateCheckSchema,
+  engineerAssignmentSchema,
+  engineerSchema,
+  engineerUpdateSchema,
+  interviewFeedbackSchema,
+  interviewSchema,
+  mergeCandidateSchema,
+  notificationPreferencesSchema,
+  portalUserSchema,
+  projectCandidateSchema,
+  projectSchema,
+  projectTalentSchema,
+  projectUpdateSchema,
+  roleSchema,
+  scoringProfileSchema,
+  skillSchema,
+  ssoSettingsSchema,
+  updateCandidateDocumentSchema,
+  updateInterviewSchema,
+  updatePortalUserSchema,
+  updateProjectTalentSchema,
+  updateUserSchema,
+  updateWebhookEndpointSchema,
+  webhookEndpointSchema,
+} from '@/lib/validations'
+
+// OpenAPI 3.0 description of the REST API. Request bodies are generated from
+// the zod schemas the routes validate with, so they can't drift; the list of
+// operations below is kept by hand next to the routes it describes.
+
+type JsonSchema = Record<string, unknown>
+
+/**
+ * JSON Schema (OpenAPI 3.0 dialect) for the zod types used in validations.ts
+ */
+export function zodToJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const def = schema._def
+
+  switch (def.typeName) {
+    case ZodFirstPartyTypeKind.ZodString: {
+      const result: JsonSchema = { type: 'string' }
+      for (const check of def.checks) {
+        if (check.kind === 'min') result.minLength = check.value
+        else if (check.kind === 'max') result.maxLength = check.value
+        else if (check.kind === 'email') result.format = 'email'
+        else if (check.kind === 'url') result.format = 'uri'
+        else if (check.kind === 'datetime') result.format = 'date-time'
+        else if (check.kind === 'uuid') result.format = 'uuid'
+        else if (check.kind === 'regex') result.pattern = check.regex.source
+      }
+      return result
+    }
+    case ZodFirstPartyTypeKind.ZodNumber: {
+      const result: JsonSchema = { type: 'number' }
+      for (const check of def.checks) {
+        if (check.kind === 'int') result.type = 'integer'
+        else if (check.kind === 'min') {
+          result.minimum = check.value
+          if (!check.inclusive) result.exclusiveMinimum = true
+        } else if (check.kind === 'max') {
+          result.maximum = check.value
+          if (!check.inclusive) result.exclusiveMaximum = true
+        }
+      }
+      return result
+    }
+    case ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: 'boolean' }
+    case ZodFirstPartyTypeKind.ZodDate:
+      return { type: 'string', format: 'date-time' }
+    case ZodFirstPartyTypeKind.ZodEnum:
+      return { type: 'string', enum: def.values }
+    case ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values(def.values).filter((v) => typeof v === 'string') }
+    case ZodFirstPartyTypeKind.ZodLiteral:
+      return { type: typeof def.value, enum: [def.value] }
+    case ZodFirstPartyTypeKind.ZodArray: {
+      const result: JsonSchema = { type: 'array', items: zodToJsonSchema(def.type) }
+      if (def.minLength) result.minItems = def.minLength.value
+      if (def.maxLength) result.maxItems = def.maxLength.value
+      return result
+    }
+    case ZodFirstPartyTypeKind.ZodObject: {
+      const shape: Record<string, ZodTypeAny> = def.shape()
+      const required = Object.keys(shape).filter((key) => !shape[key].isOptional())
+      return {
+        type: 'object',
+        properties: Object.fromEntries(
+          Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])
+        ),
+        ...(required.length > 0 ? { required } : {}),
+      }
+    }
+    case ZodFirstPartyTypeKind.ZodRecord:
+      return { type: 'object', additionalProperties: zodToJsonSchema(def.valueType) }
+    case ZodFirstPartyTypeKind.ZodOptional:
+      return zodToJsonSchema(def.innerType)
+    case ZodFirstPartyTypeKind.ZodNullable:
+      return { ...zodToJsonSchema(def.innerType), nullable: true }
+    case ZodFirstPartyTypeKind.ZodDefault:
+      return { ...zodToJsonSchema(def.innerType), default: def.defaultValue() }
+    case ZodFirstPartyTypeKind.ZodEffects:
+      // refine/transform: the input shape is the wrapped schema's
+      return zodToJsonSchema(def.schema)
+    case ZodFirstPartyTypeKind.ZodPipeline:
+      return zodToJsonSchema(def.in)
+    case ZodFirstPartyTypeKind.ZodUnion: {
+      const options: ZodTypeAny[] = def.options
+      // `x.or(z.literal(''))` is how forms send "cleared"; describe it as x
+      const meaningful = options.filter(
+        (option) => !(option._def.typeName === ZodFirstPartyTypeKind.ZodLiteral && option._def.value === '')
+      )
+      if (meaningful.length === 1) return zodToJsonSchema(meaningful[0])
+      return { anyOf: options.map(zodToJsonSchema) }
+    }
+    default:
+      return {}
+  }
+}
+
+// Request bodies, published under components/schemas
+const requestSchemas = {
+  ActiveResumeInput: activeResumeSchema,
+  CandidateInput: candidateSchema,
+  ClientProfileInput: clientProfileSchema,
+  ConvertToEngineerInput: convertToEngineerSchema,
+  CreateUserInput: createUserSchema,
+  CustomerInput: customerSchema,
+  DuplicateCheckInput: duplicateCheckSchema,
+  EngineerAssignmentInput: engineerAssignmentSchema,
+  EngineerInput: engineerSchema,
+  EngineerUpdateInput: engineerUpdateSchema,
+  InterviewFeedbackInput: interviewFeedbackSchema,
+  InterviewInput: interviewSchema,
+  MergeCandidateInput: mergeCandidateSchema,
+  NotificationPreferencesInput: notificationPreferencesSchema,
+  PortalUserInput: portalUserSchema,
+  ProjectCandidateInput: projectCandidateSchema,
+  ProjectInput: projectSchema,
+  ProjectTalentInput: projectTalentSchema,
+  ProjectUpdateInput: projectUpdateSchema,
+  RoleInput: roleSchema,
+  ScoringProfileInput: scoringProfileSchema,
+  SkillInput: skillSchema,
+  SsoSettingsInput: ssoSettingsSchema,
+  UpdateCandidateDocumentInput: updateCandidateDocumentSchema,
+  UpdateInterviewInput: updateInterviewSchema,
+  UpdatePortalUserInput: updatePortalUserSchema,
+  UpdateProjectTalentInput: updateProjectTalentSchema,
+  UpdateUserInput: updateUserSchema,
+  UpdateWebhookInput: updateWebhookEndpointSchema,
+  WebhookInput: webhookEndpointSchema,
+}
+
+type RequestSchemaName = keyof typeof requestSchemas
+
+interface ApiOperation {
+  method: 'get' | 'post' | 'put' | 'patch' | 'delete'
+  path: string
+  tag: string
+  summary: string
+  permission?: Permission
+  query?: string[]
+  body?: RequestSchemaName
+  created?: boolean
+  // Non-JSON download, e.g. 'text/csv'
+  produces?: string[]
+}
+
+const PAGINATION = ['page', 'pageSize']
+const EXPORT_TYPES = ['text/csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet']
+
+const operations: ApiOperation[] = [
+  // Customers
+  { method: 'get', path: '/customers', tag: 'Customers', summary: 'List customers', permission: 'customers:read', query: [...PAGINATION, 'search', 'industry', 'ownerUserId'] },
+  { method: 'post', path: '/customers', tag: 'Customers', summary: 'Create a customer', permission: 'customers:write', body: 'CustomerInput', created: true },
+  { method: 'get', path: '/customers/export', tag: 'Customers', summary: 'Download the filtered customer list', permission: 'customers:read', query: ['format', 'search', 'industry', 'ownerUserId'], produces: EXPORT_TYPES },
+  { method: 'get', path: '/customers/{id}', tag: 'Customers', summary: 'Get a customer', permission: 'customers:read' },
+  { method: 'put', path: '/customers/{id}', tag: 'Customers', summary: 'Update a customer', permission: 'customers:write', body: 'CustomerInput' },
+  { method: 'delete', path: '/customers/{id}', tag: 'Customers', summary: 'Delete a customer', permission: 'customers:delete' },
+  { method: 'get', path: '/customers/{id}/portal-users', tag: 'Customers', summary: "List portal accounts for a customer's contacts", permission: 'customers:read' },
+  { method: 'post', path: '/customers/{id}/portal-users', tag: 'Customers', summary: 'Give a customer contact portal access', permission: 'customers:write', body: 'PortalUserInput', created: true },
+  { method: 'put', path: '/customers/{id}/portal-users/{portalUserId}', tag: 'Customers', summary: 'Rename or enable/disable a portal account', permission: 'customers:write', body: 'UpdatePortalUserInput' },
+  { method: 'delete', path: '/customers/{id}/portal-users/{portalUserId}', tag: 'Customers', summary: 'Revoke portal access', permission: 'customers:write' },
+  { method: 'post', path: '/customers/{id}/portal-users/{portalUserId}/invite', tag: 'Customers', summary: 'Email a fresh portal sign-in link', permission: 'customers:write' },
+
+  // Projects
+  { method: 'get', path: '/projects', tag: 'Projects', summary: 'List projects', permission: 'projects:read', query: [...PAGINATION, 'search', 'customerId', 'category', 'status', 'devOpsStatus', 'priority', 'assignedUserId'] },
+  { method: 'post', path: '/projects', tag: 'Projects', summary: 'Create a project', permission: 'projects:write', body: 'ProjectInput', created: true },
+  { method: 'get', path: '/projects/export', tag: 'Projects', summary: 'Download the filtered project list', permission: 'projects:read', query: ['format', 'search', 'customerId', 'category', 'status', 'devOpsStatus', 'priority', 'assignedUserId'], produces: EXPORT_TYPES },
+  { method: 'get', path: '/projects/{id}', tag: 'Projects', summary: 'Get a project', permission: 'projects:read' },
+  { method: 'put', path: '/projects/{id}', tag: 'Projects', summary: 'Update a project (or only its status, with projects:update_status)', permission: 'projects:write', body: 'ProjectInput' },
+  { method: 'delete', path: '/projects/{id}', tag: 'Projects', summary: 'Delete a project', permission: 'projects:delete' },
+  { method: 'post', path: '/projects/{id}/convert', tag: 'Projects', summary: 'Convert a project to another category', permission: 'projects:write' },
+  { method: 'get', path: '/projects/{id}/updates', tag: 'Projects', summary: "List a project's timeline updates", permission: 'project_updates:read', query: PAGINATION },
+  { method: 'post', path: '/projects/{id}/updates', tag: 'Projects', summary: "Post to a project's timeline", permission: 'project_updates:write', body: 'ProjectUpdateInput', created: true },
+
+  // Candidates
+  { method: 'get', path: '/candidates', tag: 'Candidates', summary: 'List candidates', permission: 'candidates:read', query: [...PAGINATION, 'search', 'technologies', 'seniorityLevel', 'minYearsExperience', 'maxYearsExperience', 'location'] },
+  { method: 'post', path: '/candidates', tag: 'Candidates', summary: 'Create a candidate', permission: 'candidates:write', body: 'CandidateInput', query: ['allowDuplicate'], created: true },
+  { method: 'get', path: '/candidates/export', tag: 'Candidates', summary: 'Download the filtered candidate list', permission: 'candidates:read', query: ['format', 'search', 'technologies', 'seniorityLevel', 'minYearsExperience', 'maxYearsExperience', 'location'], produces: EXPORT_TYPES },
+  { method: 'post', path: '/candidates/duplicates', tag: 'Candidates', summary: 'Find existing candidates that look like the same person', permission: 'candidates:write', body: 'DuplicateCheckInput' },
+  { method: 'post', path: '/candidates/import', tag: 'Candidates', summary: 'Preview or commit a bulk import (multipart file upload)', permission: 'candidates:write' },
+  { method: 'post', path: '/upload', tag: 'Candidates', summary: 'Upload a resume: PDF, Word (.docx, .doc), RTF, ODT, text or HTML (multipart; the type is read from the contents) and queue text extraction; poll /jobs/{extractionJobId} for the result', permission: 'candidates:write' },
+  { method: 'get', path: '/candidates/{id}', tag: 'Candidates', summary: 'Get a candidate', permission: 'candidates:read' },
+  { method: 'put', path: '/candidates/{id}', tag: 'Candidates', summary: 'Update a candidate', permission: 'candidates:write', body: 'CandidateInput' },
+  { method: 'delete', path: '/candidates/{id}', tag: 'Candidates', summary: 'Delete a candidate', permission: 'candidates:delete' },
+  { method: 'post', path: '/candidates/{id}/convert', tag: 'Candidates', summary: 'Convert a candidate to an engineer', permission: 'candidates:write', body: 'ConvertToEngineerInput', created: true },
+  { method: 'get', path: '/candidates/{id}/documents', tag: 'Candidates', summary: "A candidate's documents with their versions, limited to those the caller may see", permission: 'candidates:read' },
+  { method: 'post', path: '/candidates/{id}/documents', tag: 'Candidates', summary: 'Upload a document or a new version of one (multipart: file, type, title, visibility, documentId, useForMatching); resumes queue text extraction', permission: 'candidates:write', created: true },
+  { method: 'put', path: '/candidates/{id}/documents/{documentId}', tag: 'Candidates', summary: 'Rename a document or change its visibility', permission: 'candidates:write', body: 'UpdateCandidateDocumentInput' },
+  { method: 'delete', path: '/candidates/{id}/documents/{documentId}', tag: 'Candidates', summary: 'Delete a document with all its versions', permission: 'candidates:write' },
+  { method: 'put', path: '/candidates/{id}/active-resume', tag: 'Candidates', summary: 'Choose the resume version used for matching and search', permission: 'candidates:write', body: 'ActiveResumeInput' },
+  { method: 'post', path: '/candidates/{id}/merge', tag: 'Candidates', summary: 'Fold a duplicate candidate into this one and delete it', permission: 'candidates:merge', body: 'MergeCandidateInput' },
+
+  // Engineers
+  { method: 'get', path: '/engineers', tag: 'Engineers', summary: 'List engineers', permission: 'candidates:read', query: [...PAGINATION, 'search', 'technologies', 'seniorityLevel', 'employmentStatus'] },
+  { method: 'post', path: '/engineers', tag: 'Engineers', summary: 'Create an engineer', permission: 'candidates:write', body: 'EngineerInput', created: true },
+  { method: 'get', path: '/engineers/export', tag: 'Engineers', summary: 'Download the filtered engineer list', permission: 'candidates:read', query: ['format', 'search', 'technologies', 'seniorityLevel', 'employmentStatus'], produces: EXPORT_TYPES },
+  { method: 'get', path: '/engineers/{id}', tag: 'Engineers', summary: 'Get an engineer', permission: 'candidates:read' },
+  { method: 'put', path: '/engineers/{id}', tag: 'Engineers', summary: 'Update an engineer', permission: 'candidates:write', body: 'EngineerInput' },
+  { method: 'delete', path: '/engineers/{id}', tag: 'Engineers', summary: 'Delete an engineer', permission: 'candidates:delete' },
+  { method: 'get', path: '/engineers/{id}/assignments', tag: 'Engineers', summary: "List an engineer's assignments", permission: 'candidates:read' },
+  { method: 'post', path: '/engineers/{id}/assignments', tag: 'Engineers', summary: 'Assign an engineer to a project', permission: 'candidates:write', body: 'EngineerAssignmentInput', created: true },
+  { method: 'put', path: '/engineers/{id}/assignments', tag: 'Engineers', summary: 'End an assignment', permission: 'candidates:write', query: ['assignmentId'] },
+  { method: 'get', path: '/engineers/{id}/updates', tag: 'Engineers', summary: "List an engineer's updates", permission: 'candidates:read', query: PAGINATION },
+  { method: 'post', path: '/engineers/{id}/updates', tag: 'Engineers', summary: 'Add an engineer update', permission: 'candidates:write', body: 'EngineerUpdateInput', created: true },
+  { method: 'delete', path: '/engineers/{id}/updates', tag: 'Engineers', summary: 'Delete an engineer update', permission: 'engineers:delete', query: ['updateId'] },
+
+  // Pipelines
+  { method: 'get', path: '/project-candidates', tag: 'Pipelines', summary: 'List candidates in project pipelines', permission: 'project_candidates:read', query: [...PAGINATION, 'projectId', 'candidateId', 'stage'] },
+  { method: 'post', path: '/project-candidates', tag: 'Pipelines', summary: 'Add a candidate to a project pipeline', permission: 'project_candidates:write', body: 'ProjectCandidateInput', created: true },
+  { method: 'get', path: '/project-candidates/{id}', tag: 'Pipelines', summary: 'Get a pipeline entry', permission: 'project_candidates:read' },
+  { method: 'put', path: '/project-candidates/{id}', tag: 'Pipelines', summary: 'Move a pipeline entry or record feedback', permission: 'project_candidates:write' },
+  { method: 'delete', path: '/project-candidates/{id}', tag: 'Pipelines', summary: 'Remove a pipeline entry', permission: 'project_candidates:delete' },
+  { method: 'get', path: '/project-talents', tag: 'Pipelines', summary: 'List talent on projects', permission: 'projects:read', query: ['projectId', 'talentType', 'stage'] },
+  { method: 'post', path: '/project-talents', tag: 'Pipelines', summary: 'Add a candidate or engineer to a project', permission: 'projects:write', body: 'ProjectTalentInput', created: true },
+  { method: 'get', path: '/project-talents/{id}', tag: 'Pipelines', summary: 'Get a project talent', permission: 'projects:read' },
+  { method: 'put', path: '/project-talents/{id}', tag: 'Pipelines', summary: 'Change stage or details of a project talent', permission: 'projects:write', body: 'UpdateProjectTalentInput' },
+  { method: 'delete', path: '/project-talents/{id}', tag: 'Pipelines', summary: 'Remove talent from a project', permission: 'projects:write' },
+  { method: 'get', path: '/project-talents/{id}/profile', tag: 'Pipelines', summary: 'Download the stored client profile PDF', permission: 'projects:read', produces: ['application/pdf'] },
+  { method: 'post', path: '/project-talents/{id}/profile', tag: 'Pipelines', summary: 'Generate (or regenerate) the client profile PDF', permission: 'projects:write', body: 'ClientProfileInput' },
+  { method: 'get', path: '/matching', tag: 'Pipelines', summary: 'Rank candidates and engineers for a project', permission: 'projects:read', query: ['projectId', 'minScore', 'technologies', 'seniorityLevel', 'talentType', 'limit', 'scoringProfileId'] },
+
+  // Interviews
+  { method: 'get', path: '/interviews', tag: 'Interviews', summary: 'List interviews for a project, talent, candidate or engineer', permission: 'interviews:read', query: ['projectId', 'projectTalentId', 'candidateId', 'engineerId', 'upcoming', 'mine'] },
+  { method: 'post', path: '/interviews', tag: 'Interviews', summary: 'Schedule an interview for a project talent', permission: 'interviews:write', body: 'InterviewInput', created: true },
+  { method: 'get', path: '/interviews/interviewers', tag: 'Interviews', summary: 'Active users that can be assigned as interviewers', permission: 'interviews:write' },
+  { method: 'get', path: '/interviews/{id}', tag: 'Interviews', summary: 'Get an interview with its feedback', permission: 'interviews:read' },
+  { method: 'put', path: '/interviews/{id}', tag: 'Interviews', summary: 'Reschedule, reassign or change the status of an interview', permission: 'interviews:write', body: 'UpdateInterviewInput' },
+  { method: 'delete', path: '/interviews/{id}', tag: 'Interviews', summary: 'Delete an interview and its feedback', permission: 'interviews:delete' },
+  { method: 'put', path: '/interviews/{id}/feedback', tag: 'Interviews', summary: "Record (or replace) the caller's feedback", permission: 'interviews:read', body: 'InterviewFeedbackInput' },
+  { method: 'get', path: '/interviews/{id}/ics', tag: 'Interviews', summary: 'Download the calendar invite for an interview', permission: 'interviews:read', produces: ['text/calendar'] },
+
+  // Other
+  { method: 'get', path: '/files/{folder}/{filename}', tag: 'Files', summary: 'Download a stored file by the URL on its record (resumeFileUrl, a document version fileUrl, profileFileUrl); candidate documents follow their visibility', produces: ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'application/msword', 'application/rtf', 'application/vnd.oasis.opendocument.text', 'text/plain', 'text/html', 'image/png', 'image/jpeg'] },
+  { method: 'get', path: '/search', tag: 'Search', summary: 'Search across customers, projects, candidates and engineers', query: ['q', 'limit'] },
+  { method: 'get', path: '/activity', tag: 'Activity', summary: 'Activity log entries', query: ['entityType', 'entityId', ...PAGINATION] },
+  { method: 'get', path: '/notifications', tag: 'Notifications', summary: "The caller's notifications", permission: 'notifications:read', query: ['unreadOnly', ...PAGINATION] },
+  { method: 'patch', path: '/notifications', tag: 'Notifications', summary: 'Mark notifications as read' },
+  { method: 'get', path: '/notifications/preferences', tag: 'Notifications', summary: 'Delivery choice per notification type', permission: 'notifications:read' },
+  { method: 'put', path: '/notifications/preferences', tag: 'Notifications', summary: 'Save delivery choices', permission: 'notifications:read', body: 'NotificationPreferencesInput' },
+
+  // Administration
+  { method: 'get', path: '/users', tag: 'Users', summary: 'List users', permission: 'users:read', query: ['search', 'role', 'isActive'] },
+  { method: 'post', path: '/users', tag: 'Users', summary: 'Create a user, optionally emailing an invitation', permission: 'users:write', body: 'CreateUserInput', created: true },
+  { method: 'get', path: '/users/{id}', tag: 'Users', summary: 'Get a user', permission: 'users:read' },
+  { method: 'put', path: '/users/{id}', tag: 'Users', summary: 'Update a user', permission: 'users:write', body: 'UpdateUserInput' },
+  { method: 'delete', path: '/users/{id}', tag: 'Users', summary: 'Deactivate a user', permission: 'users:delete' },
+  { method: 'post', path: '/users/{id}/invite', tag: 'Users', summary: 'Resend the set-password invitation', permission: 'users:write' },
+  { method: 'get', path: '/users/{id}/sessions', tag: 'Users', summary: "A user's active sessions", permission: 'users:write' },
+  { method: 'delete', path: '/users/{id}/sessions', tag: 'Users', summary: 'Sign a user out everywhere', permission: 'users:write' },
+  { method: 'get', path: '/roles', tag: 'Settings', summary: 'List roles with their permissions', permission: 'users:read' },
+  { method: 'post', path: '/roles', tag: 'Settings', summary: 'Add a custom role', permission: 'roles:write', body: 'RoleInput', created: true },
+  { method: 'put', path: '/roles/{id}', tag: 'Settings', summary: "Change a role's name, permissions or record scope", permission: 'roles:write', body: 'RoleInput' },
+  { method: 'delete', path: '/roles/{id}', tag: 'Settings', summary: 'Remove a custom role that no user holds', permission: 'roles:write' },
+  { method: 'get', path: '/skills', tag: 'Settings', summary: 'List the skill taxonomy', permission: 'candidates:read', query: ['search', 'category'] },
+  { method: 'post', path: '/skills', tag: 'Settings', summary: 'Add a canonical skill', permission: 'settings:write', body: 'SkillInput', created: true },
+  { method: 'put', path: '/skills/{id}', tag: 'Settings', summary: 'Update a skill', permission: 'settings:write', body: 'SkillInput' },
+  { method: 'delete', path: '/skills/{id}', tag: 'Settings', summary: 'Delete a skill', permission: 'settings:write' },
+  { method: 'get', path: '/scoring-profiles', tag: 'Settings', summary: 'List scoring profiles', permission: 'projects:read' },
+  { method: 'post', path: '/scoring-profiles', tag: 'Settings', summary: 'Create a scoring profile', permission: 'settings:write', body: 'ScoringProfileInput', created: true },
+  { method: 'get', path: '/scoring-profiles/{id}', tag: 'Settings', summary: 'Get a scoring profile', permission: 'projects:read' },
+  { method: 'put', path: '/scoring-profiles/{id}', tag: 'Settings', summary: 'Update a scoring profile', permission: 'settings:write', body: 'ScoringProfileInput' },
+  { method: 'delete', path: '/scoring-profiles/{id}', tag: 'Settings', summary: 'Delete a scoring profile', permission: 'settings:write' },
+  { method: 'get', path: '/sso/settings', tag: 'Settings', summary: 'Single sign-on behaviour and configured providers', permission: 'settings:read' },
+  { method: 'put', path: '/sso/settings', tag: 'Settings', summary: 'Update single sign-on behaviour', permission: 'settings:write', body: 'SsoSettingsInput' },
+  { method: 'get', path: '/jobs', tag: 'Jobs', summary: 'Background jobs with counts per status and the recurring schedule', permission: 'settings:write', query: ['status', 'type', 'page', 'pageSize'] },
+  { method: 'get', path: '/jobs/{id}', tag: 'Jobs', summary: 'A job and its result, for whoever queued it or an admin' },
+  { method: 'post', path: '/jobs/{id}/retry', tag: 'Jobs', summary: 'Queue a failed job again', permission: 'settings:write' },
+  { method: 'get', path: '/webhooks', tag: 'Webhooks', summary: 'List webhooks with their latest delivery', permission: 'settings:write' },
+  { method: 'post', path: '/webhooks', tag: 'Webhooks', summary: 'Add a webhook; its signing secret is generated', permission: 'settings:write', body: 'WebhookInput', created: true },
+  { method: 'put', path: '/webhooks/{id}', tag: 'Webhooks', summary: 'Update a webhook, optionally rotating its secret', permission: 'settings:write', body: 'UpdateWebhookInput' },
+  { method: 'delete', path: '/webhooks/{id}', tag: 'Webhooks', summary: 'Delete a webhook and its delivery log', permission: 'settings:write' },
+  { method: 'post', path: '/webhooks/{id}/test', tag: 'Webhooks', summary: 'Send a ping and return the delivery', permission: 'settings:write' },
+  { method: 'get', path: '/webhooks/{id}/deliveries', tag: 'Webhooks', summary: 'Delivery log, newest first', permission: 'settings:write', query: ['status', 'page', 'pageSize'] },
+  { method: 'post', path: '/webhooks/{id}/deliveries/{deliveryId}', tag: 'Webhooks', summary: 'Send a delivery again', permission: 'settings:write' },
+]
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+})
+
+function buildOperation(operation: ApiOperation) {
+  const pathParams = (operation.path.match(/\{\w+\}/g) || []).map((param) => param.slice(1, -1))
+
+  const parameters = [
+    ...pathParams.map((name) => ({ name, in: 'path', required: true, schema: { type: 'string' } })),
+    ...(operation.query || []).map((name) => ({ name, in: 'query', required: false, schema: { type: 'string' } })),
+  ]
+
+  const success = operation.produces
+    ? {
+        description: 'File download',
+        content: Object.fromEntries(
+          operation.produces.map((type) => [type, { schema: { type: 'string', format: 'binary' } }])
+        ),
+      }
+    : {
+        description: 'Success',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/DataResponse' } } },
+      }
+
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    ...(operation.permission ? { description: `Requires the \`${operation.permission}\` permission.` } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(operation.body
+      ? {
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': { schema: { $ref: `#/components/schemas/${operation.body}` } },
+            },
+          },
+        }
+      : {}),
+    responses: {
+      [operation.created ? '201' : '200']: success,
+      ...(operation.body ? { '400': errorResponse('Validation failed') } : {}),
+      '401': errorResponse('Missing or invalid credentials'),
+      '403': errorResponse('The caller lacks the required permission'),
+    },
+  }
+}
+
+/**
+ * The OpenAPI document served at /api/openapi
+ */
+export function buildOpenApiDocument(serverUrl: string) {
+  const paths: Record<string, Record<string, unknown>> = {}
+  for (const operation of operations) {
+    paths[operation.path] = paths[operation.path] || {}
+    paths[operation.path][operation.method] = buildOperation(operation)
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Naviteq API',
+      version: '1.0.0',
+      description:
+        'Authenticate with a personal access token created on your profile: `Authorization: Bearer nvt_...`. ' +
+        "A token can do what both its scopes and its owner's role allow.",
+    },
+    servers: [{ url: `${serverUrl.replace(/\/$/, '')}/api` }],
+    security: [{ bearerAuth: [] }],
+    tags: Array.from(new Set(operations.map((operation) => operation.tag))).map((name) => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Personal access token' },
+      },
+      schemas: {
+        DataResponse: {
+          type: 'object',
+          properties: {
+            data: {},
+            total: { type: 'integer' },
+            page: { type: 'integer' },
+            pageSize: { type: 'integer' },
+            totalPages: { type: 'integer' },
+          },
+        },
+        Error: {
+          type: 'object',
+          properties: {
+            error: { type: 'string' },
+            details: { type: 'array', items: { type: 'object' } },
+          },
+          required: ['error'],
+        },
+        ...Object.fromEntries(
+          Object.entries(requestSchemas).map(([name, schema]) => [name, zodToJsonSchema(schema)])
+        ),
+      },
+    },
+  }
+}
@@ -0,0 +1,128 @@
+import crypto from 'crypto'
+import type { PasswordTokenPurpose } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { appUrl, escapeHtml, sendMail } from '@/lib/mail'
+
+// Emailed links for setting a password: invitations for new users and
+// self-service resets. Tokens are single-use and only their hash is stored.
+
+const INVITE_DAYS = 7
+const RESET_MINUTES = 60
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+async function createPasswordToken(userId: string, purpose: PasswordTokenPurpose): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url')
+  const lifetimeMs = purpose === 'INVITE' ? INVITE_DAYS * 24 * 60 * 60 * 1000 : RESET_MINUTES * 60 * 1000
+
+  // A new link replaces any earlier one for the same purpose
+  await prisma.passwordToken.deleteMany({ where: { userId, purpose, usedAt: null } })
+  await prisma.passwordToken.create({
+    data: {
+      userId,
+      purpose,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + lifetimeMs),
+    },
+  })
+  return token
+}
+
+/**
+ * Email a new user a link to choose their password. Returns whether the
+ * email went out.
+ */
+export async function sendInvitation(
+  user: { id: string; email: string; fullName: string },
+  invitedBy: string
+): Promise<boolean> {
+  const token = await createPasswordToken(user.id, 'INVITE')
+  const link = appUrl(`/reset-password?token=${encodeURIComponent(token)}`)
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { invitedAt: new Date() },
+  })
+
+  return sendMail({
+    to: user.email,
+    subject: 'You have been invited to Naviteq',
+    text: [
+      `Hi ${user.fullName},`,
+      '',
+      `${invitedBy} has created a Naviteq account for you. Use this link to choose your password. It works once and expires in ${INVITE_DAYS} days.`,
+      '',
+      link,
+    ].join('\n'),
+    html: [
+      `<p>Hi ${escapeHtml(user.fullName)},</p>`,
+      `<p>${escapeHtml(invitedBy)} has created a Naviteq account for you. Use this link to choose your password. It works once and expires in ${INVITE_DAYS} days.</p>`,
+      `<p><a href="${escapeHtml(link)}">Set your password</a></p>`,
+    ].join(''),
+  })
+}
+
+/**
+ * Email a password reset link. Returns whether the email went out.
+ */
+export async function sendPasswordReset(user: { id: string; email: string; fullName: string }): Promise<boolean> {
+  const token = await createPasswordToken(user.id, 'RESET')
+  const link = appUrl(`/reset-password?token=${encodeURIComponent(token)}`)
+
+  return sendMail({
+    to: user.email,
+    subject: 'Reset your Naviteq password',
+    text: [
+      `Hi ${user.fullName},`,
+      '',
+      `Use this link to choose a new password. It works once and expires in ${RESET_MINUTES} minutes.`,
+      '',
+      link,
+      '',
+      "If you didn't ask for this, you can ignore this email; your password stays the same.",
+    ].join('\n'),
+    html: [
+      `<p>Hi ${escapeHtml(user.fullName)},</p>`,
+      `<p>Use this link to choose a new password. It works once and expires in ${RESET_MINUTES} minutes.</p>`,
+      `<p><a href="${escapeHtml(link)}">Reset your password</a></p>`,
+      `<p style="color:#6b7280;font-size:12px">If you didn't ask for this, you can ignore this email; your password stays the same.</p>`,
+    ].join(''),
+  })
+}
+
+/**
+ * Look up an unused, unexpired token for an active user without using it up
+ */
+export async function findPasswordToken(token: string) {
+  const passwordToken = await prisma.passwordToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { id: true, email: true, fullName: true, isActive: true } } },
+  })
+
+  if (
+    !passwordToken ||
+    passwordToken.usedAt ||
+    passwordToken.expiresAt < new Date() ||
+    !passwordToken.user.isActive
+  ) {
+    return null
+  }
+  return passwordToken
+}
+
+/**
+ * Use up a token. Returns it, or null if it isn't valid or was claimed
+ * first by a concurrent request.
+ */
+export async function consumePasswordToken(token: string) {
+  const passwordToken = await findPasswordToken(token)
+  if (!passwordToken) return null
+
+  const claimed = await prisma.passwordToken.updateMany({
+    where: { id: passwordToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  })
+  return claimed.count === 0 ? null : passwordToken
+}
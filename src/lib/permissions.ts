@@ -1,4 +1,4 @@
-import { Role } from '@prisma/client'
+import type { RecordScope } from '@prisma/client'
 
 export type Permission =
   | 'customers:read'
@@ -6,6 +6,7 @@ export type Permission =
   | 'customers:delete'
   | 'projects:read'
   | 'projects:write'
+  | 'projects:update_status'
   | 'projects:delete'
   | 'project_updates:read'
   | 'project_updates:write'
@@ -13,112 +14,215 @@ export type Permission =
   | 'candidates:read:full'
   | 'candidates:write'
   | 'candidates:delete'
+  | 'candidates:merge'
   | 'engineers:read'
   | 'engineers:write'
   | 'engineers:delete'
   | 'project_candidates:read'
   | 'project_candidates:write'
+  | 'project_candidates:feedback'
   | 'project_candidates:delete'
+  | 'pipeline:source'
+  | 'pipeline:submit'
+  | 'pipeline:decide'
+  | 'interviews:read'
+  | 'interviews:write'
+  | 'interviews:delete'
   | 'notifications:read'
   | 'users:read'
   | 'users:write'
   | 'users:delete'
+  | 'roles:write'
   | 'settings:read'
   | 'settings:write'
 
-const rolePermissions: Record<Role, Permission[]> = {
-  ADMIN: [
-    'customers:read',
-    'customers:write',
-    'customers:delete',
-    'projects:read',
-    'projects:write',
-    'projects:delete',
-    'project_updates:read',
-    'project_updates:write',
-    'candidates:read',
-    'candidates:read:full',
-    'candidates:write',
-    'candidates:delete',
-    'engineers:read',
-    'engineers:write',
-    'engineers:delete',
-    'project_candidates:read',
-    'project_candidates:write',
-    'project_candidates:delete',
-    'notifications:read',
-    'users:read',
-    'users:write',
-    'users:delete',
-    'settings:read',
-    'settings:write',
-  ],
-  SALES: [
-    'customers:read',
-    'customers:write',
-    'projects:read',
-    'projects:write',
-    'project_updates:read',
-    'project_updates:write',
-    'candidates:read', // Limited view only
-    'engineers:read',
-    'project_candidates:read',
-    'notifications:read',
-  ],
-  RECRUITER: [
-    'customers:read',
-    'projects:read',
-    'project_updates:read',
-    'project_updates:write',
-    'candidates:read',
-    'candidates:read:full',
-    'candidates:write',
-    'engineers:read',
-    'engineers:write',
-    'project_candidates:read',
-    'project_candidates:write',
-    'notifications:read',
-  ],
-  CLIENT_MANAGER: [
-    'customers:read',
-    'projects:read',
-    'projects:write', // Limited to status updates
-    'project_updates:read',
-    'project_updates:write',
-    'candidates:read',
-    'candidates:read:full', // Only for assigned projects
-    'engineers:read',
-    'project_candidates:read',
-    'project_candidates:write', // Limited to feedback
-    'notifications:read',
-  ],
+export interface PermissionGroup {
+  label: string
+  permissions: Array<{ key: Permission; label: string }>
 }
 
-export function hasPermission(role: Role, permission: Permission): boolean {
-  return rolePermissions[role]?.includes(permission) ?? false
-}
+// Every permission, grouped for the role editor in Settings
+export const permissionGroups: PermissionGroup[] = [
+  {
+    label: 'Customers',
+    permissions: [
+      { key: 'customers:read', label: 'View' },
+      { key: 'customers:write', label: 'Create and edit' },
+      { key: 'customers:delete', label: 'Delete' },
+    ],
+  },
+  {
+    label: 'Projects',
+    permissions: [
+      { key: 'projects:read', label: 'View' },
+      { key: 'projects:write', label: 'Create and edit' },
+      { key: 'projects:update_status', label: 'Update status only' },
+      { key: 'projects:delete', label: 'Delete' },
+      { key: 'project_updates:read', label: 'View timeline' },
+      { key: 'project_updates:write', label: 'Post to timeline' },
+    ],
+  },
+  {
+    label: 'Candidates',
+    permissions: [
+      { key: 'candidates:read', label: 'View (limited)' },
+      { key: 'candidates:read:full', label: 'View contact details, resumes and notes' },
+      { key: 'candidates:write', label: 'Create and edit' },
+      { key: 'candidates:delete', label: 'Delete' },
+      { key: 'candidates:merge', label: 'Merge duplicates' },
+    ],
+  },
+  {
+    label: 'Engineers',
+    permissions: [
+      { key: 'engineers:read', label: 'View' },
+      { key: 'engineers:write', label: 'Create and edit' },
+      { key: 'engineers:delete', label: 'Delete' },
+    ],
+  },
+  {
+    label: 'Pipeline',
+    permissions: [
+      { key: 'project_candidates:read', label: 'View' },
+      { key: 'project_candidates:write', label: 'Add and edit talent' },
+      { key: 'project_candidates:feedback', label: 'Client feedback and stage moves only' },
+      { key: 'project_candidates:delete', label: 'Remove talent' },
+      { key: 'pipeline:source', label: 'Sourcing moves (shortlist, contact, reject early)' },
+      { key: 'pipeline:submit', label: 'Submit to client' },
+      { key: 'pipeline:decide', label: 'Client decisions (hire, assign)' },
+    ],
+  },
+  {
+    label: 'Interviews',
+    permissions: [
+      { key: 'interviews:read', label: 'View' },
+      { key: 'interviews:write', label: 'Schedule and edit' },
+      { key: 'interviews:delete', label: 'Delete' },
+    ],
+  },
+  {
+    label: 'Administration',
+    permissions: [
+      { key: 'notifications:read', label: 'Receive notifications' },
+      { key: 'users:read', label: 'View users' },
+      { key: 'users:write', label: 'Create and edit users' },
+      { key: 'users:delete', label: 'Delete users' },
+      { key: 'roles:write', label: 'Edit roles and permissions' },
+      { key: 'settings:read', label: 'View settings' },
+      { key: 'settings:write', label: 'Edit settings' },
+    ],
+  },
+]
+
+export const ALL_PERMISSIONS: Permission[] = permissionGroups.flatMap((group) =>
+  group.permissions.map((p) => p.key)
+)
 
-export function getPermissions(role: Role): Permission[] {
-  return rolePermissions[role] ?? []
+export const recordScopeLabels: Record<RecordScope, string> = {
+  ALL: 'All records',
+  ASSIGNED_PROJECTS: 'Assigned projects only',
+  OWN_ACCOUNTS: 'Own customers and assigned projects',
 }
 
-export function canAccessFullCandidateInfo(role: Role): boolean {
-  return hasPermission(role, 'candidates:read:full')
+// The role every permission check is made against; always has every permission
+export const ADMIN_ROLE = 'ADMIN'
+
+export interface DefaultRole {
+  key: string
+  name: string
+  description: string
+  recordScope: RecordScope
+  permissions: Permission[]
 }
 
-export function canManageUsers(role: Role): boolean {
-  return hasPermission(role, 'users:write')
+// Built-in roles, seeded into the roles table. Admins can change their
+// permissions from Settings; these are only the starting point.
+export const defaultRoles: DefaultRole[] = [
+  {
+    key: ADMIN_ROLE,
+    name: 'Administrator',
+    description: 'Full access to all modules and settings',
+    recordScope: 'ALL',
+    permissions: ALL_PERMISSIONS,
+  },
+  {
+    key: 'SALES',
+    name: 'Sales',
+    description: 'Manages their customers and those customers\' projects',
+    recordScope: 'OWN_ACCOUNTS',
+    permissions: [
+      'customers:read',
+      'customers:write',
+      'projects:read',
+      'projects:write',
+      'project_updates:read',
+      'project_updates:write',
+      'candidates:read', // Limited view only
+      'engineers:read',
+      'project_candidates:read',
+      'pipeline:submit',
+      'pipeline:decide',
+      'interviews:read',
+      'notifications:read',
+    ],
+  },
+  {
+    key: 'RECRUITER',
+    name: 'Recruiter',
+    description: 'Sources candidates and works the pipeline',
+    recordScope: 'ALL',
+    permissions: [
+      'customers:read',
+      'projects:read',
+      'project_updates:read',
+      'project_updates:write',
+      'candidates:read',
+      'candidates:read:full',
+      'candidates:write',
+      'engineers:read',
+      'engineers:write',
+      'project_candidates:read',
+      'project_candidates:write',
+      'pipeline:source',
+      'pipeline:submit',
+      'interviews:read',
+      'interviews:write',
+      'notifications:read',
+    ],
+  },
+  {
+    key: 'CLIENT_MANAGER',
+    name: 'Client Manager',
+    description: 'Runs the client relationship on assigned projects',
+    recordScope: 'ASSIGNED_PROJECTS',
+    permissions: [
+      'customers:read',
+      'projects:read',
+      'projects:update_status',
+      'project_updates:read',
+      'project_updates:write',
+      'candidates:read',
+      'candidates:read:full', // Only for assigned projects, via the record scope
+      'engineers:read',
+      'project_candidates:read',
+      'project_candidates:feedback',
+      'pipeline:decide',
+      'interviews:read',
+      'interviews:write',
+      'notifications:read',
+    ],
+  },
+]
+
+// Anything carrying resolved permissions, normally the session user
+export interface PermissionHolder {
+  permissions: Permission[]
 }
 
-export function canDeleteEntity(role: Role, entityType: string): boolean {
-  const permission = `${entityType}:delete` as Permission
-  return hasPermission(role, permission)
+export function hasPermission(user: PermissionHolder, permission: Permission): boolean {
+  return user.permissions?.includes(permission) ?? false
 }
 
-// Role display names
-export const roleDisplayNames: Record<Role, string> = {
-  ADMIN: 'Administrator',
-  SALES: 'Sales',
-  RECRUITER: 'Recruiter',
-  CLIENT_MANAGER: 'Client Manager',
+export function canAccessFullCandidateInfo(user: PermissionHolder): boolean {
+  return hasPermission(user, 'candidates:read:full')
 }
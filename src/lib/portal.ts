@@ -0,0 +1,206 @@
+import crypto from 'crypto'
+import jwt from 'jsonwebtoken'
+import { cookies } from 'next/headers'
+import type { Prisma, TalentStage } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { appUrl, escapeHtml, sendMail } from '@/lib/mail'
+import { blindName } from '@/lib/client-profile'
+import { seniorityLabels } from '@/types'
+
+// Customer portal authentication. Portal users are customer contacts, kept
+// apart from staff accounts: they sign in with single-use emailed links and
+// hold a signed session cookie that only the /api/portal routes accept.
+
+export const PORTAL_SESSION_COOKIE = 'naviteq_portal'
+const PORTAL_SESSION_DAYS = 7
+const PORTAL_LINK_MINUTES = 30
+
+// Talent stages a customer can review in the portal
+export const PORTAL_VISIBLE_STAGES: TalentStage[] = ['SUBMITTED_TO_CLIENT', 'INTERVIEWING']
+
+function sessionSecret(): string {
+  const secret = process.env.JWT_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('JWT_SECRET is not configured')
+  }
+  return secret
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Create a magic link for the portal user and email it. Returns whether the
+ * email went out.
+ */
+export async function sendPortalLoginLink(portalUser: {
+  id: string
+  email: string
+  fullName: string
+  customer: { name: string }
+}): Promise<boolean> {
+  const token = crypto.randomBytes(32).toString('base64url')
+
+  await prisma.portalLoginToken.create({
+    data: {
+      portalUserId: portalUser.id,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + PORTAL_LINK_MINUTES * 60 * 1000),
+    },
+  })
+
+  const link = appUrl(`/api/portal/auth/verify?token=${encodeURIComponent(token)}`)
+
+  return sendMail({
+    to: portalUser.email,
+    subject: `Your Naviteq portal sign-in link`,
+    text: [
+      `Hi ${portalUser.fullName},`,
+      '',
+      `Use this link to sign in to the ${portalUser.customer.name} portal. It works once and expires in ${PORTAL_LINK_MINUTES} minutes.`,
+      '',
+      link,
+      '',
+      "If you didn't ask for this, you can ignore this email.",
+    ].join('\n'),
+    html: [
+      `<p>Hi ${escapeHtml(portalUser.fullName)},</p>`,
+      `<p>Use this link to sign in to the ${escapeHtml(portalUser.customer.name)} portal. It works once and expires in ${PORTAL_LINK_MINUTES} minutes.</p>`,
+      `<p><a href="${escapeHtml(link)}">Sign in to the portal</a></p>`,
+      `<p style="color:#6b7280;font-size:12px">If you didn't ask for this, you can ignore this email.</p>`,
+    ].join(''),
+  })
+}
+
+/**
+ * Redeem a magic link token. Returns the portal user it belongs to, or null
+ * if the token is unknown, expired, already used or the account is disabled.
+ */
+export async function consumePortalLoginToken(token: string) {
+  const loginToken = await prisma.portalLoginToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { portalUser: true },
+  })
+
+  if (!loginToken || loginToken.expiresAt < new Date() || !loginToken.portalUser.isActive) {
+    return null
+  }
+
+  // Claim the token so a link can't be used twice, even concurrently
+  const claimed = await prisma.portalLoginToken.updateMany({
+    where: { id: loginToken.id, usedAt: null },
+    data: { usedAt: new Date() },
+  })
+  if (claimed.count === 0) return null
+
+  return prisma.portalUser.update({
+    where: { id: loginToken.portalUserId },
+    data: { lastLoginAt: new Date() },
+  })
+}
+
+export function signPortalSession(portalUserId: string): string {
+  return jwt.sign({ typ: 'portal' }, sessionSecret(), {
+    subject: portalUserId,
+    expiresIn: `${PORTAL_SESSION_DAYS}d`,
+  })
+}
+
+export const portalSessionCookieOptions = {
+  httpOnly: true,
+  sameSite: 'lax' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+  maxAge: PORTAL_SESSION_DAYS * 24 * 60 * 60,
+}
+
+/**
+ * The signed-in portal user for the current request, or null
+ */
+export async function getPortalUser() {
+  const token = cookies().get(PORTAL_SESSION_COOKIE)?.value
+  if (!token) return null
+
+  let portalUserId: string | undefined
+  try {
+    const payload = jwt.verify(token, sessionSecret())
+    if (typeof payload === 'string' || payload.typ !== 'portal') return null
+    portalUserId = payload.sub
+  } catch {
+    return null
+  }
+  if (!portalUserId) return null
+
+  const portalUser = await prisma.portalUser.findUnique({
+    where: { id: portalUserId },
+    include: { customer: { select: { id: true, name: true } } },
+  })
+
+  return portalUser?.isActive ? portalUser : null
+}
+
+// Only what the blind profile shows: no contact details or full names
+const portalTalentPerson = {
+  select: {
+    fullName: true,
+    title: true,
+    seniorityLevel: true,
+    yearsExperience: true,
+    location: true,
+    technologies: true,
+  },
+} as const
+
+export const portalTalentSelect = {
+  id: true,
+  projectId: true,
+  stage: true,
+  submittedAt: true,
+  profileFileUrl: true,
+  clientFeedback: true,
+  clientFeedbackAt: true,
+  candidate: portalTalentPerson,
+  engineer: portalTalentPerson,
+} satisfies Prisma.ProjectTalentSelect
+
+type PortalTalentRecord = Prisma.ProjectTalentGetPayload<{ select: typeof portalTalentSelect }>
+
+/**
+ * Blind view of a submitted talent for the customer
+ */
+export function toPortalTalent(talent: PortalTalentRecord) {
+  const person = talent.engineer ?? talent.candidate
+
+  return {
+    id: talent.id,
+    displayName: blindName(person?.fullName || ''),
+    title: person?.title ?? null,
+    seniority: person?.seniorityLevel ? seniorityLabels[person.seniorityLevel] : null,
+    yearsExperience: person?.yearsExperience ?? null,
+    location: person?.location ?? null,
+    technologies: person?.technologies ?? [],
+    stage: talent.stage,
+    submittedAt: talent.submittedAt,
+    hasProfile: !!talent.profileFileUrl,
+    clientFeedback: talent.clientFeedback,
+    clientFeedbackAt: talent.clientFeedbackAt,
+  }
+}
+
+export type PortalTalent = ReturnType<typeof toPortalTalent>
+
+/**
+ * A talent the portal user may review: on one of their customer's projects
+ * and currently with the customer
+ */
+export async function findPortalTalent(customerId: string, projectTalentId: string) {
+  return prisma.projectTalent.findFirst({
+    where: {
+      id: projectTalentId,
+      stage: { in: PORTAL_VISIBLE_STAGES },
+      project: { customerId },
+    },
+    select: portalTalentSelect,
+  })
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import type { RealtimeEvent } from '@/lib/realtime'
+
+// One EventSource per browser tab, shared by every subscribed component and
+// closed when the last one unmounts. A 'reconnected' event fires when the
+// stream comes back after a drop so subscribers can refetch what they missed.
+
+type RealtimeEventType = RealtimeEvent['type'] | 'reconnected'
+type EventOfType<T extends RealtimeEventType> = T extends 'reconnected'
+  ? { type: 'reconnected' }
+  : Extract<RealtimeEvent, { type: T }>
+
+type Handler = (event: { type: RealtimeEventType }) => void
+
+const handlers = new Map<RealtimeEventType, Set<Handler>>()
+let source: EventSource | null = null
+let hasOpened = false
+
+function dispatch(type: RealtimeEventType, event: { type: RealtimeEventType }) {
+  handlers.get(type)?.forEach((handler) => handler(event))
+}
+
+function connect() {
+  if (source || typeof EventSource === 'undefined') return
+
+  source = new EventSource('/api/events')
+  source.onopen = () => {
+    if (hasOpened) dispatch('reconnected', { type: 'reconnected' })
+    hasOpened = true
+  }
+
+  const types: RealtimeEvent['type'][] = ['notification', 'project_update', 'talent_stage']
+  types.forEach((type) => {
+    source?.addEventListener(type, (message) => {
+      try {
+        dispatch(type, JSON.parse((message as MessageEvent).data))
+      } catch (error) {
+        console.error('Invalid realtime event:', error)
+      }
+    })
+  })
+}
+
+function disconnect() {
+  const listening = Array.from(handlers.values()).some((set) => set.size > 0)
+  if (!listening && source) {
+    source.close()
+    source = null
+    hasOpened = false
+  }
+}
+
+export function subscribeToEvent<T extends RealtimeEventType>(
+  type: T,
+  handler: (event: EventOfType<T>) => void
+): () => void {
+  const set = handlers.get(type) ?? new Set<Handler>()
+  set.add(handler as Handler)
+  handlers.set(type, set)
+  connect()
+
+  return () => {
+    set.delete(handler as Handler)
+    disconnect()
+  }
+}
+
+/**
+ * Run `handler` for each pushed event of `type` while the component is mounted
+ */
+export function useRealtimeEvent<T extends RealtimeEventType>(
+  type: T,
+  handler: (event: EventOfType<T>) => void
+) {
+  // Keep the latest handler without resubscribing on every render
+  const handlerRef = useRef(handler)
+  handlerRef.current = handler
+
+  useEffect(() => {
+    return subscribeToEvent(type, (event) => handlerRef.current(event))
+  }, [type])
+}
@@ -0,0 +1,173 @@
+import { EventEmitter } from 'events'
+import { Client } from 'pg'
+import type { TalentStage } from '@prisma/client'
+
+// Server-push events streamed to browsers over /api/events. Payloads only
+// carry ids; clients refetch what they show so permissions stay with the
+// regular API routes.
+
+export type RealtimeEvent =
+  | { type: 'notification'; userIds: string[] }
+  | { type: 'project_update'; projectId: string; updateId: string }
+  | {
+      type: 'talent_stage'
+      projectId: string
+      projectTalentId: string
+      from: TalentStage
+      to: TalentStage
+    }
+
+export type RealtimeListener = (event: RealtimeEvent) => void
+
+export interface RealtimeBroker {
+  publish(event: RealtimeEvent): Promise<void>
+  subscribe(listener: RealtimeListener): () => void
+}
+
+const EVENT_NAME = 'event'
+
+/**
+ * In-process pub/sub. Only reaches clients connected to the same server
+ * instance, which is enough for a single `next start` process.
+ */
+class LocalBroker implements RealtimeBroker {
+  protected emitter = new EventEmitter()
+
+  constructor() {
+    // One listener per open SSE connection
+    this.emitter.setMaxListeners(0)
+  }
+
+  async publish(event: RealtimeEvent) {
+    this.emitter.emit(EVENT_NAME, event)
+  }
+
+  subscribe(listener: RealtimeListener) {
+    this.emitter.on(EVENT_NAME, listener)
+    return () => {
+      this.emitter.off(EVENT_NAME, listener)
+    }
+  }
+}
+
+const PG_CHANNEL = 'naviteq_realtime'
+const RECONNECT_MIN_MS = 1000
+const RECONNECT_MAX_MS = 30 * 1000
+
+/**
+ * Fans events out across server instances with Postgres LISTEN/NOTIFY.
+ * Every instance (including the publisher) receives events through its
+ * listening connection, which is opened on first use. When it drops, it is
+ * re-opened with backoff for as long as anyone is subscribed, since events
+ * sent while no connection is listening are lost.
+ */
+class PostgresBroker extends LocalBroker {
+  private client: Client | null = null
+  private connecting: Promise<Client> | null = null
+  private reconnectTimer: NodeJS.Timeout | null = null
+  private reconnectDelay = RECONNECT_MIN_MS
+
+  constructor(private connectionString: string) {
+    super()
+  }
+
+  private async connect(): Promise<Client> {
+    if (this.client) return this.client
+    if (!this.connecting) {
+      this.connecting = (async () => {
+        const client = new Client({ connectionString: this.connectionString })
+        client.on('notification', (message) => {
+          if (message.channel !== PG_CHANNEL || !message.payload) return
+          try {
+            this.emitter.emit(EVENT_NAME, JSON.parse(message.payload))
+          } catch (error) {
+            console.error('Invalid realtime payload:', error)
+          }
+        })
+        client.on('error', (error) => {
+          console.error('Realtime listener connection lost:', error)
+          this.disconnected(client)
+          client.end().catch(() => undefined)
+        })
+        client.on('end', () => this.disconnected(client))
+        try {
+          await client.connect()
+          await client.query(`LISTEN ${PG_CHANNEL}`)
+        } catch (error) {
+          client.end().catch(() => undefined)
+          throw error
+        }
+        this.client = client
+        this.reconnectDelay = RECONNECT_MIN_MS
+        return client
+      })().finally(() => {
+        this.connecting = null
+      })
+    }
+    return this.connecting
+  }
+
+  private disconnected(client: Client) {
+    if (this.client === client) this.client = null
+    this.scheduleReconnect()
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectTimer || this.emitter.listenerCount(EVENT_NAME) === 0) return
+    const delay = this.reconnectDelay
+    this.reconnectDelay = Math.min(delay * 2, RECONNECT_MAX_MS)
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      if (this.client || this.emitter.listenerCount(EVENT_NAME) === 0) return
+      this.connect().catch((error) => {
+        console.error('Failed to reconnect realtime listener:', error)
+        this.scheduleReconnect()
+      })
+    }, delay)
+  }
+
+  async publish(event: RealtimeEvent) {
+    const client = await this.connect()
+    await client.query('SELECT pg_notify($1, $2)', [PG_CHANNEL, JSON.stringify(event)])
+  }
+
+  subscribe(listener: RealtimeListener) {
+    const unsubscribe = super.subscribe(listener)
+    this.connect().catch((error) => {
+      console.error('Failed to start realtime listener:', error)
+      this.scheduleReconnect()
+    })
+    return unsubscribe
+  }
+}
+
+function createBroker(): RealtimeBroker {
+  if (process.env.REALTIME_BROKER === 'postgres') {
+    const connectionString = process.env.POSTGRES_URL_NON_POOLING
+    if (connectionString) {
+      return new PostgresBroker(connectionString)
+    }
+    console.warn('REALTIME_BROKER=postgres needs POSTGRES_URL_NON_POOLING; using in-process events')
+  }
+  return new LocalBroker()
+}
+
+const globalForRealtime = globalThis as unknown as {
+  realtimeBroker: RealtimeBroker | undefined
+}
+
+// Shared across hot reloads like the Prisma client
+export const realtime = globalForRealtime.realtimeBroker ?? createBroker()
+globalForRealtime.realtimeBroker = realtime
+
+/**
+ * Publish an event without letting push failures break the request that
+ * caused it; clients catch up on their next refetch.
+ */
+export async function publishEvent(event: RealtimeEvent) {
+  try {
+    await realtime.publish(event)
+  } catch (error) {
+    console.error('Failed to publish realtime event:', error)
+  }
+}
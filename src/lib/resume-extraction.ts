@@ -0,0 +1,370 @@
+import * as mammoth from 'mammoth'
+import JSZip from 'jszip'
+import type { TextExtractionStatus } from '@prisma/client'
+import { extractWordDocText } from './word-doc'
+import { isOcrEnabled, recognizeText } from './ocr'
+
+// Picks out resumes by file name (e.g. entries inside a ZIP) and names downloads
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  doc: 'application/msword',
+  rtf: 'application/rtf',
+  odt: 'application/vnd.oasis.opendocument.text',
+  txt: 'text/plain',
+  html: 'text/html',
+  htm: 'text/html',
+}
+
+export function getResumeMimeType(filename: string): string | null {
+  const extension = filename.split('.').pop()?.toLowerCase() || ''
+  return EXTENSION_MIME_TYPES[extension] || null
+}
+
+export interface ResumeExtraction {
+  // Raw text, line breaks preserved
+  text: string
+  status: Exclude<TextExtractionStatus, 'PENDING'>
+  // The text was read from page images (a scanned PDF)
+  ocr: boolean
+}
+
+// Scanned pages are rendered at about 300 dpi (A4 width), which OCR needs
+const OCR_PAGE_WIDTH = 2480
+const DEFAULT_OCR_MAX_PAGES = 5
+
+const cp1252 = new TextDecoder('windows-1252')
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  bull: '•',
+  middot: '·',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  euro: '€',
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : ''
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity
+  })
+}
+
+async function loadPdf(buffer: Buffer) {
+  const { PDFParse } = await import('pdf-parse')
+  return new PDFParse({ data: buffer })
+}
+
+async function extractTextFromPDF(buffer: Buffer): Promise<string> {
+  const parser = await loadPdf(buffer)
+  try {
+    const result = await parser.getText({ pageJoiner: '' })
+    return result.text
+  } finally {
+    await parser.destroy()
+  }
+}
+
+/**
+ * Render the first pages of a PDF and read them with OCR, one page at a time
+ */
+async function ocrPDF(buffer: Buffer): Promise<string> {
+  const maxPages = parseInt(process.env.OCR_MAX_PAGES || '') || DEFAULT_OCR_MAX_PAGES
+  const parser = await loadPdf(buffer)
+  try {
+    const { total } = await parser.getInfo()
+    const pages: string[] = []
+    for (let page = 1; page <= Math.min(total, maxPages); page++) {
+      const screenshot = await parser.getScreenshot({
+        partial: [page],
+        desiredWidth: OCR_PAGE_WIDTH,
+        imageDataUrl: false,
+        imageBuffer: true,
+      })
+      for (const { data } of screenshot.pages) {
+        pages.push(await recognizeText(Buffer.from(data)))
+      }
+    }
+    return pages.join('\n')
+  } finally {
+    await parser.destroy()
+  }
+}
+
+async function extractTextFromDOCX(buffer: Buffer): Promise<string> {
+  const result = await mammoth.extractRawText({ buffer })
+  return result.value
+}
+
+async function extractTextFromODT(buffer: Buffer): Promise<string> {
+  const zip = await JSZip.loadAsync(buffer)
+  const content = await zip.file('content.xml')?.async('string')
+  if (!content) return ''
+
+  const body = content.replace(/^[\s\S]*?<office:body>|<\/office:body>[\s\S]*$/g, '')
+  return decodeEntities(
+    body
+      .replace(/<text:tab\/>|<\/table:table-cell>/g, '\t')
+      .replace(/<text:line-break\/>|<\/text:[ph]>|<\/table:table-row>/g, '\n')
+      .replace(/<text:s text:c="(\d+)"\/>/g, (_, count: string) => ' '.repeat(Math.min(parseInt(count), 100)))
+      .replace(/<text:s\/>/g, ' ')
+      .replace(/<[^>]+>/g, '')
+  )
+}
+
+// RTF groups whose contents aren't document text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl',
+  'colortbl',
+  'stylesheet',
+  'listtable',
+  'listoverridetable',
+  'info',
+  'pict',
+  'object',
+  'objdata',
+  'fldinst',
+  'themedata',
+  'colorschememapping',
+  'datastore',
+  'latentstyles',
+  'rsidtbl',
+  'generator',
+  'xmlnstbl',
+  'header',
+  'footer',
+])
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n',
+  page: '\n',
+  row: '\n',
+  tab: '\t',
+  cell: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  emspace: ' ',
+  enspace: ' ',
+}
+
+function extractTextFromRTF(buffer: Buffer): string {
+  const rtf = buffer.toString('latin1')
+  const tokens = /\\([a-z]+)(-?\d+)? ?|\\'([0-9a-f]{2})|\\([^a-z])|([{}])|([^\\{}\r\n]+)|[\r\n]+/gi
+  const stack: Array<{ skip: boolean; uc: number }> = []
+  let state = { skip: false, uc: 1 }
+  let decoder = cp1252
+  // Characters still to drop after \uN (its plain-text fallback)
+  let fallback = 0
+  let text = ''
+
+  const append = (value: string) => {
+    if (!state.skip) text += value
+  }
+
+  let match: RegExpExecArray | null
+  while ((match = tokens.exec(rtf))) {
+    const [, word, param, hex, symbol, brace, plain] = match
+    if (brace === '{') {
+      stack.push(state)
+      state = { ...state }
+      fallback = 0
+    } else if (brace === '}') {
+      state = stack.pop() ?? state
+      fallback = 0
+    } else if (hex) {
+      if (fallback > 0) {
+        fallback--
+      } else {
+        append(decoder.decode(Buffer.from(hex, 'hex')))
+      }
+    } else if (plain) {
+      const kept = plain.slice(Math.min(fallback, plain.length))
+      fallback = Math.max(0, fallback - plain.length)
+      append(kept)
+    } else if (symbol) {
+      if (symbol === '*') {
+        // Ignorable destination: skip it, readers that don't know it must
+        state.skip = true
+      } else if (symbol === '~') {
+        append(' ')
+      } else if (symbol === '_') {
+        append('-')
+      } else if (symbol === '\\' || symbol === '{' || symbol === '}') {
+        append(symbol)
+      } else if (symbol === '\n' || symbol === '\r') {
+        append('\n')
+      }
+    } else if (word) {
+      if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+        state.skip = true
+      } else if (word === 'u' && param) {
+        const code = parseInt(param)
+        append(String.fromCharCode(code < 0 ? code + 65536 : code))
+        fallback = state.uc
+      } else if (word === 'uc' && param) {
+        state.uc = parseInt(param)
+      } else if (word === 'ansicpg' && param) {
+        try {
+          decoder = new TextDecoder(`windows-${param}`)
+        } catch {
+          // Unknown code page: keep Windows-1252
+        }
+      } else if (RTF_SYMBOLS[word]) {
+        append(RTF_SYMBOLS[word])
+      }
+    }
+  }
+
+  return text
+}
+
+function extractTextFromHTML(buffer: Buffer): string {
+  const html = decodeText(buffer)
+  return decodeEntities(
+    html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(head|script|style|template|noscript)\b[\s\S]*?<\/\1\s*>/gi, '')
+      .replace(/<\/?(td|th)\b[^>]*>/gi, '\t')
+      .replace(/<(br|hr)\b[^>]*>|<\/?(p|div|li|ul|ol|tr|table|h[1-6]|section|article|header|footer|blockquote|pre|dt|dd)\b[^>]*>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+}
+
+/**
+ * Decode a text file: UTF-8 or UTF-16 with a byte order mark, UTF-8, or
+ * otherwise Windows-1252
+ */
+function decodeText(buffer: Buffer): string {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return new TextDecoder('utf-16le').decode(buffer.subarray(2))
+  }
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    return new TextDecoder('utf-16be').decode(buffer.subarray(2))
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(buffer)
+  } catch {
+    return cp1252.decode(buffer)
+  }
+}
+
+const LETTER = /[A-Za-zÀ-ɏͰ-ϿЀ-ӿ֐-׿؀-ۿ]/g
+// A CV with less text than this was most likely not read properly
+const MIN_LETTERS = 300
+const MIN_LETTERS_READ = 50
+
+/**
+ * How usable extracted text is for matching and search: FAILED when there
+ * is next to none, LOW_QUALITY when it is short or mostly not words
+ * (garbled encoding, OCR noise)
+ */
+export function assessExtractedText(text: string): ResumeExtraction['status'] {
+  const letters = (text.match(LETTER) || []).length
+  if (letters < MIN_LETTERS_READ) return 'FAILED'
+
+  const tokens = text.split(/\s+/).filter(Boolean)
+  const words = tokens.filter((token) => {
+    const tokenLetters = (token.match(LETTER) || []).length
+    return tokenLetters >= 2 && tokenLetters >= token.length * 0.6
+  })
+  const replacementChars = (text.match(/�/g) || []).length
+
+  if (
+    letters < MIN_LETTERS ||
+    words.length < tokens.length * 0.5 ||
+    replacementChars > letters * 0.01
+  ) {
+    return 'LOW_QUALITY'
+  }
+  return 'OK'
+}
+
+async function extractText(buffer: Buffer, mimeType: string): Promise<string> {
+  switch (mimeType) {
+    case 'application/pdf':
+      return extractTextFromPDF(buffer)
+    case 'application/vnd.openxmlformats-officedocument.wordprocessingml.document':
+      return extractTextFromDOCX(buffer)
+    case 'application/msword':
+      return extractWordDocText(buffer)
+    case 'application/rtf':
+      return extractTextFromRTF(buffer)
+    case 'application/vnd.oasis.opendocument.text':
+      return extractTextFromODT(buffer)
+    case 'text/html':
+      return extractTextFromHTML(buffer)
+    case 'text/plain':
+      return decodeText(buffer)
+    default:
+      return ''
+  }
+}
+
+/**
+ * Extract raw text (line breaks preserved) from a resume in any of the
+ * accepted formats, and rate how usable it is. PDFs without a usable text
+ * layer (scans) are read with OCR when it's configured and `ocr` isn't
+ * turned off. Never throws: unreadable files come back as FAILED.
+ */
+export async function extractResumeText(
+  buffer: Buffer,
+  mimeType: string,
+  { ocr = true }: { ocr?: boolean } = {}
+): Promise<ResumeExtraction> {
+  let text = ''
+  try {
+    text = await extractText(buffer, mimeType)
+  } catch (error) {
+    console.error(`Error extracting text (${mimeType}):`, error)
+  }
+  const status = assessExtractedText(text)
+
+  if (status !== 'OK' && ocr && mimeType === 'application/pdf' && isOcrEnabled()) {
+    try {
+      const ocrText = await ocrPDF(buffer)
+      const ocrStatus = assessExtractedText(ocrText)
+      // Keep whichever reads better; a partly scanned PDF may do either way
+      if ((ocrText.match(LETTER) || []).length > (text.match(LETTER) || []).length) {
+        return { text: ocrText, status: ocrStatus, ocr: true }
+      }
+    } catch (error) {
+      console.error('Error reading PDF with OCR:', error)
+    }
+  }
+
+  return { text, status, ocr: false }
+}
+
+/**
+ * Collapse whitespace for storage in resumeExtractedText
+ */
+export function cleanExtractedText(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/\n+/g, '\n')
+    .trim()
+}
@@ -0,0 +1,294 @@
+// Rule-based resume parser: turns extracted CV text into suggested candidate fields.
+// Suggestions are pre-filled in CandidateDialog for the recruiter to review.
+
+import { SkillIndex } from './skills'
+import { EmploymentHistoryEntry } from '@/types'
+
+export interface ParsedResume {
+  fullName: string | null
+  email: string | null
+  phone: string | null
+  location: string | null
+  title: string | null
+  yearsExperience: number | null
+  technologies: string[]
+  languages: string[]
+  employmentHistory: EmploymentHistoryEntry[]
+}
+
+const SPOKEN_LANGUAGES = [
+  'English', 'Hebrew', 'Arabic', 'Russian', 'Ukrainian', 'French', 'German', 'Spanish',
+  'Italian', 'Portuguese', 'Romanian', 'Polish', 'Hungarian', 'Czech', 'Dutch', 'Swedish',
+  'Norwegian', 'Danish', 'Finnish', 'Greek', 'Turkish', 'Amharic', 'Yiddish', 'Persian',
+  'Hindi', 'Chinese', 'Mandarin', 'Cantonese', 'Japanese', 'Korean', 'Vietnamese', 'Thai',
+]
+
+const SECTION_HEADINGS = [
+  'summary', 'profile', 'about', 'about me', 'objective', 'experience', 'work experience',
+  'professional experience', 'employment', 'employment history', 'work history', 'career history',
+  'education', 'skills', 'technical skills', 'technologies', 'projects', 'certifications',
+  'courses', 'languages', 'military service', 'volunteering', 'publications', 'awards',
+  'interests', 'hobbies', 'references', 'contact', 'personal details',
+]
+
+const EXPERIENCE_HEADINGS = [
+  'experience', 'work experience', 'professional experience', 'employment',
+  'employment history', 'work history', 'career history',
+]
+
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?'
+const DATE = `(?:${MONTH}\\s*\\d{4}|\\d{1,2}[/.]\\d{4}|\\d{4})`
+const DATE_RANGE = new RegExp(
+  `(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today)`,
+  'i'
+)
+
+// Unicode property patterns go through RegExp since the compile target (ES5) rejects the u flag on literals
+const NAME_WORD = new RegExp("^\\p{L}[\\p{L}'.-]*$", 'u')
+const NAME_INITIAL = new RegExp('(^|[\\s\'-])(\\p{L})', 'gu')
+const CITY_COUNTRY = new RegExp("^\\p{Lu}[\\p{L} .'-]{1,30},\\s*\\p{Lu}[\\p{L} .'-]{1,30}$", 'u')
+
+const EMAIL = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/
+const PHONE = /\+?\d[\d ().-]{7,}\d/g
+
+function normalizeHeading(line: string): string {
+  return line.replace(/[:\s]+$/, '').trim().toLowerCase()
+}
+
+function isHeading(line: string): boolean {
+  return SECTION_HEADINGS.includes(normalizeHeading(line))
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function toLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+}
+
+// Header lines often pack contact details together: "Tel Aviv, Israel | +972... | me@x.com"
+function toSegments(line: string): string[] {
+  return line
+    .split(/\s*[|•·]\s*/)
+    .map((segment) => segment.trim())
+    .filter(Boolean)
+}
+
+function extractEmail(text: string): string | null {
+  return text.match(EMAIL)?.[0] ?? null
+}
+
+function extractPhone(text: string): string | null {
+  for (const match of Array.from(text.matchAll(PHONE))) {
+    const candidate = match[0].trim()
+    const digits = candidate.replace(/\D/g, '')
+    // Skip date ranges like "2015 - 2020" that look numeric
+    if (digits.length < 9 || digits.length > 15 || DATE_RANGE.test(candidate)) continue
+    return candidate
+  }
+  return null
+}
+
+function looksLikeName(line: string): boolean {
+  if (/[\d@:/]/.test(line) || isHeading(line)) return false
+  if (/^(curriculum vitae|resume|cv)$/i.test(line)) return false
+
+  const words = line.split(' ')
+  if (words.length < 2 || words.length > 4) return false
+
+  // Every word must be letters only and capitalized (caseless scripts such as Hebrew pass)
+  return words.every(
+    (word) => NAME_WORD.test(word) && word[0] === word[0].toUpperCase()
+  )
+}
+
+function toTitleCase(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(NAME_INITIAL, (_, sep: string, letter: string) => sep + letter.toUpperCase())
+}
+
+function extractName(lines: string[]): string | null {
+  for (const line of lines.slice(0, 8)) {
+    for (const segment of toSegments(line)) {
+      if (looksLikeName(segment)) {
+        return segment === segment.toUpperCase() ? toTitleCase(segment) : segment
+      }
+    }
+  }
+  return null
+}
+
+function extractLocation(lines: string[], fullName: string | null): string | null {
+  for (const line of lines) {
+    const labelled = line.match(/^(?:location|address|based in|city)\s*:\s*(.+)$/i)
+    if (labelled) return labelled[1].trim()
+  }
+
+  // Fall back to a "City, Country" segment in the header block
+  for (const line of lines.slice(0, 10)) {
+    for (const segment of toSegments(line)) {
+      if (segment === fullName || EMAIL.test(segment) || /\d/.test(segment)) continue
+      if (CITY_COUNTRY.test(segment)) {
+        return segment
+      }
+    }
+  }
+  return null
+}
+
+function extractTechnologies(text: string, skillIndex: SkillIndex): string[] {
+  const found = new Set<string>()
+
+  for (const [key, skill] of Array.from(skillIndex.entries())) {
+    if (found.has(skill.name)) continue
+    // Very short aliases ("TS", "JS") only count when written in capitals
+    const flags = key.length <= 2 ? 'u' : 'iu'
+    const term = key.length <= 2 ? key.toUpperCase() : key
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, flags)
+    if (pattern.test(text)) found.add(skill.name)
+  }
+
+  return Array.from(found)
+}
+
+function extractLanguages(lines: string[]): string[] {
+  const languagePattern = new RegExp(`\\b(${SPOKEN_LANGUAGES.join('|')})\\b`, 'gi')
+  const sources: string[] = []
+
+  lines.forEach((line, i) => {
+    if (/programming/i.test(line)) return
+    const inline = line.match(/^languages?\s*:\s*(.+)$/i)
+    if (inline) {
+      sources.push(inline[1])
+    } else if (normalizeHeading(line) === 'languages') {
+      for (const next of lines.slice(i + 1, i + 6)) {
+        if (isHeading(next)) break
+        sources.push(next)
+      }
+    }
+  })
+
+  // Without a languages section, only trust mentions paired with a proficiency level
+  if (sources.length === 0) {
+    const proficiency = /native|fluent|mother tongue|proficient|bilingual|conversational/i
+    sources.push(...lines.filter((line) => proficiency.test(line)))
+  }
+
+  const found = new Set<string>()
+  for (const source of sources) {
+    for (const match of Array.from(source.matchAll(languagePattern))) {
+      const canonical = SPOKEN_LANGUAGES.find(
+        (lang) => lang.toLowerCase() === match[1].toLowerCase()
+      )
+      if (canonical) found.add(canonical)
+    }
+  }
+  return Array.from(found)
+}
+
+function splitRole(text: string): { title: string; company: string } {
+  const cleaned = text.replace(/^[\s,|–—-]+|[\s,|–—-]+$/g, '')
+  const match = cleaned.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i) ||
+    cleaned.match(/^(.+?)\s*(?:\||,|\s-\s|\s–\s|\s—\s)\s*(.+)$/)
+  if (match) {
+    return { title: match[1].trim(), company: match[2].trim() }
+  }
+  return { title: cleaned, company: '' }
+}
+
+function extractEmploymentHistory(lines: string[]): EmploymentHistoryEntry[] {
+  // Limit the scan to the experience section when the CV has one
+  let start = lines.findIndex((line) => EXPERIENCE_HEADINGS.includes(normalizeHeading(line)))
+  let end = lines.length
+  if (start >= 0) {
+    start += 1
+    const next = lines.slice(start).findIndex(
+      (line) => isHeading(line) && !EXPERIENCE_HEADINGS.includes(normalizeHeading(line))
+    )
+    if (next >= 0) end = start + next
+  } else {
+    start = 0
+    const education = lines.findIndex((line) => normalizeHeading(line) === 'education')
+    if (education >= 0) end = education
+  }
+
+  const entries: EmploymentHistoryEntry[] = []
+  const section = lines.slice(start, end)
+
+  section.forEach((line, i) => {
+    const range = line.match(DATE_RANGE)
+    if (!range) return
+
+    let role = splitRole(line.replace(range[0], ''))
+    if (!role.title && i > 0 && !DATE_RANGE.test(section[i - 1])) {
+      role = splitRole(section[i - 1])
+      // "Company" on one line and "Title" on the next is also common
+      if (!role.company && i > 1 && !DATE_RANGE.test(section[i - 2]) && !isHeading(section[i - 2])) {
+        role = { title: role.title, company: section[i - 2] }
+      }
+    }
+    if (!role.title) return
+
+    const endDate = /present|current|now|today/i.test(range[2]) ? null : range[2]
+    entries.push({
+      title: role.title,
+      company: role.company,
+      startDate: range[1],
+      endDate,
+    })
+  })
+
+  return entries
+}
+
+function extractYearsExperience(text: string, history: EmploymentHistoryEntry[]): number | null {
+  const stated = text.match(/(\d{1,2})\+?\s*(?:years?|yrs?)\s+(?:of\s+)?(?:professional\s+|industry\s+|hands-on\s+)?experience/i)
+  if (stated) {
+    const years = parseInt(stated[1], 10)
+    if (years > 0 && years <= 50) return years
+  }
+
+  // Otherwise use the span from the earliest start to the latest end
+  const currentYear = new Date().getFullYear()
+  const toYear = (date: string | null) => {
+    if (!date) return currentYear
+    const match = date.match(/\d{4}/)
+    return match ? parseInt(match[0], 10) : null
+  }
+
+  const starts = history.map((entry) => toYear(entry.startDate)).filter((y): y is number => y !== null)
+  const ends = history.map((entry) => toYear(entry.endDate)).filter((y): y is number => y !== null)
+  if (starts.length === 0 || ends.length === 0) return null
+
+  const span = Math.max(...ends) - Math.min(...starts)
+  return span > 0 && span <= 50 ? span : null
+}
+
+/**
+ * Parse extracted resume text into suggested candidate fields.
+ * Expects the raw text with line breaks preserved.
+ */
+export function parseResume(text: string, skillIndex: SkillIndex): ParsedResume {
+  const lines = toLines(text)
+  const flatText = lines.join('\n')
+
+  const fullName = extractName(lines)
+  const employmentHistory = extractEmploymentHistory(lines)
+
+  return {
+    fullName,
+    email: extractEmail(flatText),
+    phone: extractPhone(lines.slice(0, 15).join('\n')) ?? extractPhone(flatText),
+    location: extractLocation(lines, fullName),
+    title: employmentHistory[0]?.title || null,
+    yearsExperience: extractYearsExperience(flatText, employmentHistory),
+    technologies: extractTechnologies(flatText, skillIndex),
+    languages: extractLanguages(lines),
+    employmentHistory,
+  }
+}
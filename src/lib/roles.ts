@@ -0,0 +1,129 @@
+import type { RecordScope } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { ADMIN_ROLE, ALL_PERMISSIONS, Permission, hasPermission } from '@/lib/permissions'
+
+// Role configuration is read on every authenticated request, so it is kept
+// in memory and reloaded after CACHE_TTL_MS. Edits made through this process
+// clear the cache straight away; other instances pick them up within the TTL.
+
+const CACHE_TTL_MS = 60 * 1000
+
+export interface RoleConfig {
+  key: string
+  name: string
+  permissions: Permission[]
+  recordScope: RecordScope
+  requireTwoFactor: boolean
+}
+
+interface RoleCache {
+  roles: Map<string, RoleConfig>
+  loadedAt: number
+}
+
+const globalForRoles = globalThis as unknown as {
+  roleCache: RoleCache | undefined
+  roleCacheLoading: Promise<RoleCache> | undefined
+}
+
+async function loadRoles(): Promise<RoleCache> {
+  const rows = await prisma.role.findMany({
+    select: { key: true, name: true, permissions: true, recordScope: true, requireTwoFactor: true },
+  })
+
+  const known = new Set<string>(ALL_PERMISSIONS)
+  const roles = new Map<string, RoleConfig>(
+    rows.map((row) => [
+      row.key,
+      {
+        key: row.key,
+        name: row.name,
+        // Admins can't lock themselves out; stale keys from removed permissions are dropped
+        permissions:
+          row.key === ADMIN_ROLE
+            ? ALL_PERMISSIONS
+            : (row.permissions.filter((p) => known.has(p)) as Permission[]),
+        recordScope: row.key === ADMIN_ROLE ? 'ALL' : row.recordScope,
+        requireTwoFactor: row.requireTwoFactor,
+      },
+    ])
+  )
+
+  return { roles, loadedAt: Date.now() }
+}
+
+async function getRoleCache(): Promise<RoleCache> {
+  const cache = globalForRoles.roleCache
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache
+  }
+
+  // Share one reload between concurrent requests
+  if (!globalForRoles.roleCacheLoading) {
+    globalForRoles.roleCacheLoading = loadRoles()
+      .then((loaded) => {
+        globalForRoles.roleCache = loaded
+        return loaded
+      })
+      .finally(() => {
+        globalForRoles.roleCacheLoading = undefined
+      })
+  }
+  return globalForRoles.roleCacheLoading
+}
+
+/**
+ * Permissions and record scope for a role key. Unknown roles (e.g. deleted
+ * since the user signed in) get no permissions.
+ */
+export async function getRoleConfig(key: string): Promise<RoleConfig> {
+  const cache = await getRoleCache()
+  return (
+    cache.roles.get(key) ?? {
+      key,
+      name: key,
+      permissions: [],
+      recordScope: 'ASSIGNED_PROJECTS',
+      requireTwoFactor: false,
+    }
+  )
+}
+
+export function invalidateRoleCache() {
+  globalForRoles.roleCache = undefined
+}
+
+// Record scopes from narrowest to widest
+const RECORD_SCOPE_RANK: Record<RecordScope, number> = {
+  ASSIGNED_PROJECTS: 0,
+  OWN_ACCOUNTS: 1,
+  ALL: 2,
+}
+
+/**
+ * Whether the user may give someone (or take away) a role: with roles:write
+ * any role, otherwise only roles granting nothing beyond the user's own
+ * permissions and record scope, so users:write alone can't escalate.
+ */
+export async function canAssignRole(
+  user: { permissions: Permission[]; recordScope: RecordScope },
+  key: string
+): Promise<boolean> {
+  if (hasPermission(user, 'roles:write')) return true
+  const role = await getRoleConfig(key)
+  return (
+    role.permissions.every((permission) => hasPermission(user, permission)) &&
+    RECORD_SCOPE_RANK[role.recordScope] <= RECORD_SCOPE_RANK[user.recordScope]
+  )
+}
+
+/**
+ * Turn a display name into a role key, e.g. "Team Lead" -> "TEAM_LEAD"
+ */
+export function roleKeyFromName(name: string): string {
+  return name
+    .trim()
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
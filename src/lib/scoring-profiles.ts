@@ -0,0 +1,139 @@
+import type { Prisma } from '@prisma/client'
+import prisma from './prisma'
+import {
+  calculateEngineerMatchScore,
+  calculateMatchScore,
+  resolveScoringWeights,
+  ScoringWeights,
+} from './matching'
+import { getSkillIndex } from './skill-taxonomy'
+import { enqueueJob } from './jobs'
+
+// Fields the match score reads. Edits to anything else don't need a re-score.
+const MATCHING_FIELDS = {
+  project: [
+    'technologies',
+    'mustHave',
+    'niceToHave',
+    'seniorityLevel',
+    'yearsExperienceMin',
+    'customerId',
+    'scoringProfileId',
+  ],
+  candidate: [
+    'technologies',
+    'seniorityLevel',
+    'yearsExperience',
+    'location',
+    'title',
+    'summaryPublic',
+    'summaryInternal',
+    'resumeExtractedText',
+  ],
+  engineer: ['technologies', 'seniorityLevel', 'yearsExperience', 'location', 'title', 'employmentStatus'],
+}
+
+/**
+ * Load the matching weights for a project.
+ * Uses the project's own profile, then the default profile, then the built-in weights.
+ */
+export async function getScoringWeights(
+  scoringProfileId?: string | null
+): Promise<ScoringWeights> {
+  const profile = scoringProfileId
+    ? await prisma.scoringProfile.findUnique({ where: { id: scoringProfileId } })
+    : null
+
+  if (profile) {
+    return resolveScoringWeights(profile)
+  }
+
+  const defaultProfile = await prisma.scoringProfile.findFirst({
+    where: { isDefault: true },
+  })
+
+  return resolveScoringWeights(defaultProfile)
+}
+
+/**
+ * Recalculate the stored match score of project talents after a project, a
+ * candidate, an engineer or a scoring profile changed. Runs as the
+ * "matching.rescore" job. Returns the number of scores that moved.
+ */
+export async function rescoreProjectTalents(filter: {
+  projectId?: string
+  candidateId?: string
+  engineerId?: string
+  scoringProfileId?: string
+}): Promise<number> {
+  const where: Prisma.ProjectTalentWhereInput = {}
+  if (filter.projectId) where.projectId = filter.projectId
+  if (filter.candidateId) where.candidateId = filter.candidateId
+  if (filter.engineerId) where.engineerId = filter.engineerId
+  if (filter.scoringProfileId) {
+    const profile = await prisma.scoringProfile.findUnique({
+      where: { id: filter.scoringProfileId },
+      select: { isDefault: true },
+    })
+    // Projects without a profile of their own use the default one
+    where.project = profile?.isDefault
+      ? { OR: [{ scoringProfileId: filter.scoringProfileId }, { scoringProfileId: null }] }
+      : { scoringProfileId: filter.scoringProfileId }
+  }
+
+  const talents = await prisma.projectTalent.findMany({
+    where,
+    include: {
+      project: true,
+      candidate: true,
+      engineer: { include: { assignments: { where: { status: 'ACTIVE' } } } },
+    },
+  })
+  if (talents.length === 0) return 0
+
+  const skillIndex = await getSkillIndex()
+  const weightsByProfile = new Map<string | null, ScoringWeights>()
+  let changed = 0
+
+  for (const talent of talents) {
+    const profileId = talent.project.scoringProfileId
+    let weights = weightsByProfile.get(profileId)
+    if (!weights) {
+      weights = await getScoringWeights(profileId)
+      weightsByProfile.set(profileId, weights)
+    }
+
+    const match = talent.candidate
+      ? calculateMatchScore(talent.candidate, talent.project, weights, skillIndex)
+      : talent.engineer
+        ? calculateEngineerMatchScore(talent.engineer, talent.project, weights, skillIndex)
+        : null
+    if (!match) continue
+
+    if (
+      match.score !== talent.matchScore ||
+      JSON.stringify(match.reasons) !== JSON.stringify(talent.matchReasons)
+    ) {
+      await prisma.projectTalent.update({
+        where: { id: talent.id },
+        data: { matchScore: match.score, matchReasons: match.reasons },
+      })
+      changed++
+    }
+  }
+
+  return changed
+}
+
+/**
+ * Queue a "matching.rescore" job for a record if its diff touched a field the
+ * match score reads
+ */
+export async function queueRescoreIfNeeded(
+  entity: keyof typeof MATCHING_FIELDS,
+  id: string,
+  diff: Record<string, unknown> | null
+) {
+  if (!diff || !MATCHING_FIELDS[entity].some((field) => field in diff)) return
+  await enqueueJob('matching.rescore', { [`${entity}Id`]: id })
+}
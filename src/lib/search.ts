@@ -1,5 +1,7 @@
 import prisma from '@/lib/prisma'
 import { Prisma } from '@prisma/client'
+import { canAccessFullCandidateInfo } from '@/lib/permissions'
+import { customerScope, isProjectScoped, projectScope, SessionUser } from '@/lib/access'
 import {
   CustomerSearchResult,
   ProjectSearchResult,
@@ -9,11 +11,12 @@ import {
 } from '@/types/search'
 
 /**
- * Search customers by name or description using ILIKE
+ * Search the customers the user can see by name or description using ILIKE
  */
 export async function searchCustomers(
   query: string,
-  limit: number
+  limit: number,
+  user: SessionUser
 ): Promise<CustomerSearchResult[]> {
   const customers = await prisma.customer.findMany({
     where: {
@@ -21,6 +24,7 @@ export async function searchCustomers(
         { name: { contains: query, mode: 'insensitive' } },
         { description: { contains: query, mode: 'insensitive' } },
       ],
+      AND: [customerScope(user)],
     },
     select: {
       id: true,
@@ -42,11 +46,12 @@ export async function searchCustomers(
 }
 
 /**
- * Search projects by title or description using ILIKE
+ * Search the projects the user can see by title or description using ILIKE
  */
 export async function searchProjects(
   query: string,
-  limit: number
+  limit: number,
+  user: SessionUser
 ): Promise<ProjectSearchResult[]> {
   const projects = await prisma.project.findMany({
     where: {
@@ -54,6 +59,7 @@ export async function searchProjects(
         { title: { contains: query, mode: 'insensitive' } },
         { description: { contains: query, mode: 'insensitive' } },
       ],
+      AND: [projectScope(user)],
     },
     select: {
       id: true,
@@ -81,50 +87,71 @@ export async function searchProjects(
 
 /**
  * Search candidates using PostgreSQL full-text search for resume content
- * Falls back to ILIKE for name/title/technologies if no full-text matches
+ * Falls back to ILIKE for name/title/technologies if no full-text matches.
+ * Resume text is only searched for candidates the user may see in full.
  */
 export async function searchCandidates(
   query: string,
-  limit: number
+  limit: number,
+  user: SessionUser
 ): Promise<CandidateSearchResult[]> {
+  const canSearchResumes = canAccessFullCandidateInfo(user)
+
+  // Client managers only search the resumes of candidates on their projects
+  const resumeScope: Prisma.CandidateWhereInput = isProjectScoped(user)
+    ? { projectTalents: { some: { project: projectScope(user) } } }
+    : {}
+
   // First, try full-text search on the resume content
   // This will work after the migration adds the resume_search_vector column
   // For now, use a simpler approach that works with the current schema
-  try {
-    // Try full-text search with tsvector (if column exists)
-    const fullTextResults = await prisma.$queryRaw<
-      Array<{
-        id: string
-        fullName: string
-        title: string | null
-        technologies: string[]
-        rank: number
-      }>
-    >`
-      SELECT
-        id,
-        "fullName",
-        title,
-        technologies,
-        ts_rank(resume_search_vector, websearch_to_tsquery('english', ${query})) as rank
-      FROM candidates
-      WHERE resume_search_vector @@ websearch_to_tsquery('english', ${query})
-      ORDER BY rank DESC
-      LIMIT ${limit}
-    `
-
-    if (fullTextResults.length > 0) {
-      return fullTextResults.map((c) => ({
-        id: c.id,
-        type: 'candidate' as const,
-        fullName: c.fullName,
-        title: c.title,
-        technologies: c.technologies || [],
-        resumeMatch: true,
-      }))
+  if (canSearchResumes) {
+    try {
+      const scopedIds = isProjectScoped(user)
+        ? (await prisma.candidate.findMany({ where: resumeScope, select: { id: true } })).map((c) => c.id)
+        : null
+      const idFilter = scopedIds ? Prisma.sql`AND id = ANY(${scopedIds})` : Prisma.empty
+
+      // Try full-text search with tsvector (if column exists)
+      const fullTextResults = await prisma.$queryRaw<
+        Array<{
+          id: string
+          fullName: string
+          title: string | null
+          technologies: string[]
+          rank: number
+        }>
+      >`
+        SELECT
+          id,
+          "fullName",
+          title,
+          technologies,
+          ts_rank(resume_search_vector, websearch_to_tsquery('english', ${query})) as rank
+        FROM candidates
+        WHERE resume_search_vector @@ websearch_to_tsquery('english', ${query})
+        ${idFilter}
+        ORDER BY rank DESC
+        LIMIT ${limit}
+      `
+
+      if (fullTextResults.length > 0) {
+        return fullTextResults.map((c) => ({
+          id: c.id,
+          type: 'candidate' as const,
+          fullName: c.fullName,
+          title: c.title,
+          technologies: c.technologies || [],
+          resumeMatch: true,
+        }))
+      }
+    } catch {
+      // Full-text column doesn't exist yet - fall through to ILIKE search
     }
-  } catch {
-    // Full-text column doesn't exist yet - fall through to ILIKE search
+  }
+
+  const resumeMatch: Prisma.CandidateWhereInput = {
+    resumeExtractedText: { contains: query, mode: 'insensitive' },
   }
 
   // Fall back to ILIKE search
@@ -135,7 +162,7 @@ export async function searchCandidates(
         { title: { contains: query, mode: 'insensitive' } },
         { technologies: { hasSome: [query] } },
         { summaryPublic: { contains: query, mode: 'insensitive' } },
-        { resumeExtractedText: { contains: query, mode: 'insensitive' } },
+        ...(canSearchResumes ? [{ AND: [resumeMatch, resumeScope] }] : []),
       ],
     },
     select: {
@@ -143,7 +170,7 @@ export async function searchCandidates(
       fullName: true,
       title: true,
       technologies: true,
-      resumeExtractedText: true,
+      resumeExtractedText: canSearchResumes,
     },
     take: limit,
     orderBy: { updatedAt: 'desc' },
@@ -215,6 +242,7 @@ export async function searchUsers(
       fullName: true,
       email: true,
       role: true,
+      roleDefinition: { select: { name: true } },
     },
     take: limit,
     orderBy: { fullName: 'asc' },
@@ -226,5 +254,6 @@ export async function searchUsers(
     fullName: u.fullName,
     email: u.email,
     role: u.role,
+    roleName: u.roleDefinition.name,
   }))
 }
@@ -0,0 +1,13 @@
+import prisma from './prisma'
+import { buildSkillIndex, SkillIndex } from './skills'
+
+/**
+ * Load the managed skill taxonomy as a lookup index for normalization and matching
+ */
+export async function getSkillIndex(): Promise<SkillIndex> {
+  const skills = await prisma.skill.findMany({
+    select: { name: true, aliases: true, category: true },
+  })
+
+  return buildSkillIndex(skills)
+}
@@ -0,0 +1,78 @@
+// Skill taxonomy helpers (shared by API routes, forms and the matching engine)
+
+interface TaxonomySkill {
+  name: string
+  aliases: string[]
+  category: string | null
+}
+
+interface SkillIndexEntry {
+  name: string
+  category: string | null
+}
+
+// Lowercased name/alias -> canonical skill
+type SkillIndex = Map<string, SkillIndexEntry>
+
+function toKey(value: string): string {
+  return value.trim().toLowerCase()
+}
+
+/**
+ * Build a lookup of every canonical name and alias to its canonical skill
+ */
+export function buildSkillIndex(skills: TaxonomySkill[]): SkillIndex {
+  const index: SkillIndex = new Map()
+
+  for (const skill of skills) {
+    const entry = { name: skill.name, category: skill.category || null }
+    index.set(toKey(skill.name), entry)
+    for (const alias of skill.aliases) {
+      if (alias.trim()) index.set(toKey(alias), entry)
+    }
+  }
+
+  return index
+}
+
+/**
+ * Resolve a free-text skill to its canonical name (unknown skills are returned trimmed)
+ */
+export function normalizeSkill(value: string, index: SkillIndex): string {
+  return index.get(toKey(value))?.name ?? value.trim()
+}
+
+/**
+ * Normalize a list of skills, dropping blanks and case-insensitive duplicates
+ */
+export function normalizeSkills(values: string[], index: SkillIndex): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+
+  for (const value of values) {
+    if (!value.trim()) continue
+    const normalized = normalizeSkill(value, index)
+    const key = toKey(normalized)
+    if (seen.has(key)) continue
+    seen.add(key)
+    result.push(normalized)
+  }
+
+  return result
+}
+
+/**
+ * Get the taxonomy category (skill family) for a skill, if it is known
+ */
+export function getSkillCategory(value: string, index: SkillIndex): string | null {
+  return index.get(toKey(value))?.category ?? null
+}
+
+/**
+ * Split a comma-separated form field and normalize it against the taxonomy
+ */
+export function normalizeSkillInput(input: string, index: SkillIndex): string {
+  return normalizeSkills(input.split(','), index).join(', ')
+}
+
+export type { TaxonomySkill, SkillIndexEntry, SkillIndex }
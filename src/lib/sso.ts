@@ -0,0 +1,321 @@
+import type { OAuthConfig } from 'next-auth/providers/oauth'
+import BoxyHQSAMLProvider from 'next-auth/providers/boxyhq-saml'
+import type { Prisma, SsoSettings, User } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logActivity } from '@/lib/activity'
+import { revokeAllUserSessions } from '@/lib/user-sessions'
+
+// Single sign-on next to password login. Identity providers come from the
+// environment: OIDC_* for any OpenID Connect provider, SAML_* for SAML through
+// a BoxyHQ SAML Jackson service (which speaks OAuth to us). Who may sign in and
+// with which role is stored in SsoSettings and edited from Settings.
+
+export interface GroupRoleMapping {
+  group: string
+  role: string
+}
+
+export interface SsoProviderInfo {
+  id: string
+  name: string
+}
+
+// Reasons an SSO login is refused; passed to /login as ?error=
+export type SsoErrorCode =
+  | 'SsoMissingEmail'
+  | 'SsoDomainNotAllowed'
+  | 'SsoNotProvisioned'
+  | 'SsoNoRole'
+  | 'SsoAccountMismatch'
+  | 'AccountDisabled'
+
+const SSO_SETTINGS_ID = 'default'
+
+export const OIDC_PROVIDER_ID = 'oidc'
+export const SAML_PROVIDER_ID = 'boxyhq-saml'
+
+type SsoProfile = Record<string, unknown>
+
+function groupsClaim(): string {
+  return process.env.SSO_GROUPS_CLAIM || 'groups'
+}
+
+function oidcProvider(): OAuthConfig<SsoProfile> | null {
+  const issuer = process.env.OIDC_ISSUER
+  if (!issuer || !process.env.OIDC_CLIENT_ID) return null
+
+  return {
+    id: OIDC_PROVIDER_ID,
+    name: process.env.OIDC_NAME || 'Single Sign-On',
+    type: 'oauth',
+    wellKnown: `${issuer.replace(/\/$/, '')}/.well-known/openid-configuration`,
+    clientId: process.env.OIDC_CLIENT_ID,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+    authorization: {
+      params: { scope: process.env.OIDC_SCOPE || 'openid email profile' },
+    },
+    idToken: true,
+    checks: ['pkce', 'state'],
+    profile(profile) {
+      const email = String(profile.email || '')
+      return {
+        id: String(profile.sub),
+        email,
+        fullName: String(profile.name || profile.preferred_username || email),
+        role: '',
+      }
+    },
+  }
+}
+
+function samlProvider(): OAuthConfig<SsoProfile> | null {
+  const issuer = process.env.SAML_JACKSON_URL
+  if (!issuer) return null
+
+  const tenant = process.env.SAML_TENANT || 'naviteq.com'
+  const product = process.env.SAML_PRODUCT || 'naviteq'
+
+  const provider = BoxyHQSAMLProvider({
+    issuer: issuer.replace(/\/$/, ''),
+    // Jackson picks the SAML connection from the tenant and product
+    clientId: `tenant=${tenant}&product=${product}`,
+    clientSecret: 'dummy',
+    authorization: { params: { scope: '' } },
+    profile(profile) {
+      const name = [profile.firstName, profile.lastName].filter(Boolean).join(' ')
+      return {
+        id: String(profile.id),
+        email: String(profile.email || ''),
+        fullName: name || String(profile.email || ''),
+        role: '',
+      }
+    },
+  })
+  return { ...provider, name: process.env.SAML_NAME || 'SAML' } as OAuthConfig<SsoProfile>
+}
+
+/**
+ * next-auth providers for the identity providers configured in the environment
+ */
+export function ssoProviders(): OAuthConfig<SsoProfile>[] {
+  return [oidcProvider(), samlProvider()].filter(
+    (provider): provider is OAuthConfig<SsoProfile> => provider !== null
+  )
+}
+
+export function configuredSsoProviders(): SsoProviderInfo[] {
+  return ssoProviders().map((provider) => ({ id: provider.id, name: provider.name }))
+}
+
+export async function getSsoSettings(): Promise<SsoSettings> {
+  const settings = await prisma.ssoSettings.findUnique({
+    where: { id: SSO_SETTINGS_ID },
+  })
+  return (
+    settings ?? {
+      id: SSO_SETTINGS_ID,
+      passwordLoginEnabled: true,
+      jitProvisioning: true,
+      syncRoleOnLogin: true,
+      allowedDomains: [],
+      defaultRole: null,
+      groupRoleMappings: [],
+      updatedAt: new Date(0),
+    }
+  )
+}
+
+export async function updateSsoSettings(
+  data: Omit<Prisma.SsoSettingsCreateInput, 'id' | 'updatedAt'>
+): Promise<SsoSettings> {
+  return prisma.ssoSettings.upsert({
+    where: { id: SSO_SETTINGS_ID },
+    create: { id: SSO_SETTINGS_ID, ...data },
+    update: data,
+  })
+}
+
+export function parseGroupRoleMappings(value: Prisma.JsonValue): GroupRoleMapping[] {
+  if (!Array.isArray(value)) return []
+  return value.filter(
+    (entry): entry is { group: string; role: string } =>
+      !!entry &&
+      typeof entry === 'object' &&
+      typeof (entry as Record<string, unknown>).group === 'string' &&
+      typeof (entry as Record<string, unknown>).role === 'string'
+  )
+}
+
+/**
+ * Whether the email/password form is accepted. FORCE_PASSWORD_LOGIN=true
+ * re-enables it regardless of the setting, for when the IdP is unreachable.
+ */
+export async function isPasswordLoginEnabled(): Promise<boolean> {
+  if (process.env.FORCE_PASSWORD_LOGIN === 'true') return true
+  if (ssoProviders().length === 0) return true
+  const settings = await getSsoSettings()
+  return settings.passwordLoginEnabled
+}
+
+/**
+ * Group names from the IdP profile. Jackson nests SAML attributes under `raw`.
+ */
+export function extractGroups(profile: SsoProfile | undefined): string[] {
+  if (!profile) return []
+  const claim = groupsClaim()
+  const raw = profile.raw as SsoProfile | undefined
+  const value = profile[claim] ?? raw?.[claim]
+
+  if (Array.isArray(value)) return value.map(String)
+  if (typeof value === 'string') return value.split(',').map((g) => g.trim()).filter(Boolean)
+  return []
+}
+
+/**
+ * Whether the identity provider vouches for the email address. OIDC needs
+ * the email_verified claim (a generic provider may let users set any
+ * address); SAML assertions come from the organization's own directory.
+ */
+export function isEmailVerified(provider: string, profile: SsoProfile | undefined): boolean {
+  if (provider === SAML_PROVIDER_ID) return true
+  if (!profile) return false
+  const raw = profile.raw as SsoProfile | undefined
+  return profile.email_verified === true || raw?.email_verified === true
+}
+
+/**
+ * Role for the first mapping whose group the user is in, or null
+ */
+export function roleForGroups(groups: string[], mappings: GroupRoleMapping[]): string | null {
+  const memberOf = new Set(groups.map((g) => g.toLowerCase()))
+  const match = mappings.find((m) => memberOf.has(m.group.toLowerCase()))
+  return match?.role ?? null
+}
+
+export function emailDomainAllowed(email: string, allowedDomains: string[]): boolean {
+  if (allowedDomains.length === 0) return true
+  const domain = email.split('@')[1]?.toLowerCase()
+  return !!domain && allowedDomains.some((d) => d.toLowerCase() === domain)
+}
+
+interface SsoIdentity {
+  provider: string
+  subject: string
+  email: string
+  // Only a verified email may link an existing account or provision a new one
+  emailVerified: boolean
+  fullName: string
+  groups: string[]
+}
+
+/**
+ * Find, link or provision the user for an SSO login and bring their role in
+ * line with the group mappings. Returns the user, or the reason to refuse.
+ */
+export async function resolveSsoUser(
+  identity: SsoIdentity
+): Promise<{ user: User } | { error: SsoErrorCode }> {
+  const email = identity.email.trim()
+  if (!email) return { error: 'SsoMissingEmail' }
+
+  const settings = await getSsoSettings()
+  if (!emailDomainAllowed(email, settings.allowedDomains)) {
+    return { error: 'SsoDomainNotAllowed' }
+  }
+
+  const mappedRole = roleForGroups(identity.groups, parseGroupRoleMappings(settings.groupRoleMappings))
+  const knownRole = async (key: string | null) =>
+    key ? (await prisma.role.count({ where: { key } })) > 0 : false
+
+  let user = await prisma.user.findUnique({
+    where: {
+      authProvider_externalId: { authProvider: identity.provider, externalId: identity.subject },
+    },
+  })
+
+  if (!user) {
+    const byEmail = await prisma.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+    })
+    // An unverified address could be anyone's, so it never claims an account
+    if (!identity.emailVerified) {
+      return { error: byEmail ? 'SsoAccountMismatch' : 'SsoNotProvisioned' }
+    }
+    user = byEmail
+  }
+
+  if (user) {
+    if (
+      user.authProvider &&
+      (user.authProvider !== identity.provider || user.externalId !== identity.subject)
+    ) {
+      return { error: 'SsoAccountMismatch' }
+    }
+    if (!user.isActive) return { error: 'AccountDisabled' }
+
+    const previousRole = user.role
+    const syncRole =
+      settings.syncRoleOnLogin && mappedRole && mappedRole !== user.role && (await knownRole(mappedRole))
+    user = await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        authProvider: identity.provider,
+        externalId: identity.subject,
+        lastLoginAt: new Date(),
+        ...(syncRole ? { role: mappedRole } : {}),
+      },
+    })
+
+    // Sessions from before the change still carry the old role; the one
+    // being signed in is created afterwards
+    if (syncRole) {
+      const sessionsRevoked = await revokeAllUserSessions(user.id)
+      await logActivity({
+        entityType: 'User',
+        entityId: user.id,
+        action: 'UPDATED',
+        diff: {
+          role: { old: previousRole, new: user.role },
+          syncedBy: identity.provider,
+          ...(sessionsRevoked > 0 ? { sessionsRevoked } : {}),
+        },
+      })
+    }
+  } else {
+    if (!settings.jitProvisioning) return { error: 'SsoNotProvisioned' }
+
+    const role = (await knownRole(mappedRole))
+      ? mappedRole
+      : (await knownRole(settings.defaultRole))
+        ? settings.defaultRole
+        : null
+    if (!role) return { error: 'SsoNoRole' }
+
+    user = await prisma.user.create({
+      data: {
+        fullName: identity.fullName || email,
+        email,
+        role,
+        authProvider: identity.provider,
+        externalId: identity.subject,
+        lastLoginAt: new Date(),
+      },
+    })
+
+    await logActivity({
+      entityType: 'User',
+      entityId: user.id,
+      action: 'CREATED',
+      diff: { provisionedBy: identity.provider, role },
+    })
+  }
+
+  await logActivity({
+    entityType: 'User',
+    entityId: user.id,
+    action: 'LOGIN',
+    performedByUserId: user.id,
+  })
+
+  return { user }
+}
@@ -0,0 +1,230 @@
+import crypto from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+// Where uploaded and generated files live. STORAGE_TYPE picks the backend:
+// "local" (default) keeps them on disk under STORAGE_LOCAL_DIR, outside
+// public/ so they're only reachable through the authenticated routes; "s3"
+// uses any S3-compatible bucket (AWS, MinIO, `npm run storage:s3-local`).
+
+export interface FileStorage {
+  put(key: string, body: Buffer, contentType: string): Promise<void>
+  /** The file's contents, or null if there is no such file */
+  get(key: string): Promise<Buffer | null>
+  delete(key: string): Promise<void>
+}
+
+class LocalStorage implements FileStorage {
+  constructor(private directory: string) {}
+
+  // Keys come from saveUpload, but never let one point outside the directory
+  private filePath(key: string): string {
+    const root = path.resolve(this.directory)
+    const filePath = path.resolve(root, key)
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`)
+    }
+    return filePath
+  }
+
+  async put(key: string, body: Buffer) {
+    const filePath = this.filePath(key)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    await fs.writeFile(filePath, body)
+  }
+
+  async get(key: string) {
+    try {
+      return await fs.readFile(this.filePath(key))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async delete(key: string) {
+    await fs.rm(this.filePath(key), { force: true })
+  }
+}
+
+export interface S3Config {
+  bucket: string
+  region: string
+  accessKeyId: string
+  secretAccessKey: string
+  // e.g. http://localhost:9000 for MinIO; AWS when unset
+  endpoint?: string
+  // Bucket in the path (endpoint/bucket/key) instead of the host name
+  forcePathStyle: boolean
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest()
+}
+
+// RFC 3986 encoding, as Signature Version 4 expects
+export function s3UriEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  )
+}
+
+/**
+ * AWS Signature Version 4 for an S3 request. `headers` are the signed
+ * headers (lower-case names, including host and x-amz-*); `path` is the
+ * already-encoded request path.
+ */
+export function signS3Request({
+  method,
+  path: requestPath,
+  query = '',
+  headers,
+  payloadHash,
+  amzDate,
+  region,
+  secretAccessKey,
+}: {
+  method: string
+  path: string
+  query?: string
+  headers: Record<string, string>
+  payloadHash: string
+  amzDate: string
+  region: string
+  secretAccessKey: string
+}): { signature: string; signedHeaders: string; scope: string } {
+  const names = Object.keys(headers).sort()
+  const signedHeaders = names.join(';')
+  const canonicalRequest = [
+    method,
+    requestPath,
+    query,
+    names.map((name) => `${name}:${headers[name].trim()}\n`).join(''),
+    signedHeaders,
+    payloadHash,
+  ].join('\n')
+
+  const date = amzDate.slice(0, 8)
+  const scope = `${date}/${region}/s3/aws4_request`
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n')
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${secretAccessKey}`, date), region), 's3'), 'aws4_request')
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+  return { signature, signedHeaders, scope }
+}
+
+// Requests that take longer than this are treated as failed
+const S3_TIMEOUT_MS = 30 * 1000
+
+class S3Storage implements FileStorage {
+  constructor(private config: S3Config) {}
+
+  private objectUrl(key: string): URL {
+    const { bucket, region, endpoint, forcePathStyle } = this.config
+    const base = new URL(endpoint || `https://s3.${region}.amazonaws.com`)
+    const encodedKey = key.split('/').map(s3UriEncode).join('/')
+
+    if (forcePathStyle) {
+      base.pathname = `${base.pathname.replace(/\/$/, '')}/${bucket}/${encodedKey}`
+    } else {
+      base.host = `${bucket}.${base.host}`
+      base.pathname = `/${encodedKey}`
+    }
+    return base
+  }
+
+  private async request(method: string, key: string, body?: Buffer, contentType?: string) {
+    const url = this.objectUrl(key)
+    const amzDate = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+    const payloadHash = sha256Hex(body || '')
+
+    // fetch sets Host itself, but it's part of the signature
+    const headers: Record<string, string> = {
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(contentType && { 'content-type': contentType }),
+    }
+    const { signature, signedHeaders, scope } = signS3Request({
+      method,
+      path: url.pathname,
+      headers: { ...headers, host: url.host },
+      payloadHash,
+      amzDate,
+      region: this.config.region,
+      secretAccessKey: this.config.secretAccessKey,
+    })
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...headers,
+        Authorization:
+          `AWS4-HMAC-SHA256 Credential=${this.config.accessKeyId}/${scope}, ` +
+          `SignedHeaders=${signedHeaders}, Signature=${signature}`,
+      },
+      body: body ? new Uint8Array(body) : undefined,
+      signal: AbortSignal.timeout(S3_TIMEOUT_MS),
+    })
+  }
+
+  private async check(response: Response, action: string, key: string) {
+    if (response.ok) return
+    const detail = (await response.text().catch(() => '')).slice(0, 500)
+    throw new Error(`S3 ${action} of "${key}" failed with HTTP ${response.status}: ${detail}`)
+  }
+
+  async put(key: string, body: Buffer, contentType: string) {
+    await this.check(await this.request('PUT', key, body, contentType), 'upload', key)
+  }
+
+  async get(key: string) {
+    const response = await this.request('GET', key)
+    if (response.status === 404) return null
+    await this.check(response, 'download', key)
+    return Buffer.from(await response.arrayBuffer())
+  }
+
+  async delete(key: string) {
+    const response = await this.request('DELETE', key)
+    if (response.status === 404) return
+    await this.check(response, 'delete', key)
+  }
+}
+
+function localStorageDir(): string {
+  return path.resolve(process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'storage'))
+}
+
+function createStorage(): FileStorage {
+  if (process.env.STORAGE_TYPE === 's3') {
+    const { S3_BUCKET, S3_REGION, S3_ACCESS_KEY, S3_SECRET_KEY, S3_ENDPOINT } = process.env
+    if (S3_BUCKET && S3_ACCESS_KEY && S3_SECRET_KEY) {
+      return new S3Storage({
+        bucket: S3_BUCKET,
+        region: S3_REGION || 'us-east-1',
+        accessKeyId: S3_ACCESS_KEY,
+        secretAccessKey: S3_SECRET_KEY,
+        endpoint: S3_ENDPOINT || undefined,
+        // MinIO and most other S3-compatible servers expect path-style URLs
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+          ? process.env.S3_FORCE_PATH_STYLE === 'true'
+          : !!S3_ENDPOINT,
+      })
+    }
+    console.warn('STORAGE_TYPE=s3 needs S3_BUCKET, S3_ACCESS_KEY and S3_SECRET_KEY; storing files locally')
+  }
+  return new LocalStorage(localStorageDir())
+}
+
+const globalForStorage = globalThis as unknown as {
+  fileStorage: FileStorage | undefined
+}
+
+export const fileStorage = globalForStorage.fileStorage ?? createStorage()
+globalForStorage.fileStorage = fileStorage
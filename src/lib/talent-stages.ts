@@ -0,0 +1,173 @@
+import type { TalentStage, TalentType } from '@prisma/client'
+import { hasPermission, Permission, PermissionHolder } from './permissions'
+
+// Pipeline state machine for ProjectTalent. Each talent type lists the
+// stages it can be in and, per stage, the moves allowed and the permission
+// needed to make them. Shared by the API and the pipeline UI so both agree
+// on what is allowed.
+
+export type StageRequirement = 'clientFeedback' | 'submittedAt' | 'startDate'
+
+export interface StageTransition {
+  to: TalentStage
+  // Unset: anyone who may edit the pipeline
+  permission?: Permission
+}
+
+interface TalentWorkflow {
+  initialStage: TalentStage
+  stages: TalentStage[]
+  transitions: Partial<Record<TalentStage, StageTransition[]>>
+}
+
+const SOURCING: Permission = 'pipeline:source'
+const SUBMITTING: Permission = 'pipeline:submit'
+const CLIENT_DECISION: Permission = 'pipeline:decide'
+
+export const talentWorkflows: Record<TalentType, TalentWorkflow> = {
+  CANDIDATE: {
+    initialStage: 'SHORTLISTED',
+    stages: ['SHORTLISTED', 'CONTACTED', 'SUBMITTED_TO_CLIENT', 'INTERVIEWING', 'REJECTED', 'HIRED'],
+    transitions: {
+      SHORTLISTED: [
+        { to: 'CONTACTED', permission: SOURCING },
+        { to: 'REJECTED', permission: SOURCING },
+      ],
+      CONTACTED: [
+        { to: 'SUBMITTED_TO_CLIENT', permission: SUBMITTING },
+        { to: 'SHORTLISTED', permission: SOURCING },
+        { to: 'REJECTED', permission: SOURCING },
+      ],
+      SUBMITTED_TO_CLIENT: [
+        { to: 'INTERVIEWING' },
+        { to: 'CONTACTED', permission: SUBMITTING },
+        { to: 'REJECTED' },
+      ],
+      INTERVIEWING: [
+        { to: 'HIRED', permission: CLIENT_DECISION },
+        { to: 'REJECTED' },
+      ],
+      REJECTED: [
+        { to: 'SHORTLISTED', permission: SOURCING },
+      ],
+    },
+  },
+  ENGINEER: {
+    initialStage: 'SHORTLISTED',
+    stages: ['SHORTLISTED', 'SUBMITTED_TO_CLIENT', 'INTERVIEWING', 'REJECTED', 'HIRED', 'ASSIGNED'],
+    transitions: {
+      SHORTLISTED: [
+        { to: 'SUBMITTED_TO_CLIENT', permission: SUBMITTING },
+        { to: 'REJECTED', permission: SUBMITTING },
+      ],
+      SUBMITTED_TO_CLIENT: [
+        { to: 'INTERVIEWING' },
+        { to: 'ASSIGNED', permission: CLIENT_DECISION },
+        { to: 'SHORTLISTED', permission: SUBMITTING },
+        { to: 'REJECTED' },
+      ],
+      INTERVIEWING: [
+        { to: 'HIRED', permission: CLIENT_DECISION },
+        { to: 'ASSIGNED', permission: CLIENT_DECISION },
+        { to: 'REJECTED' },
+      ],
+      HIRED: [
+        { to: 'ASSIGNED', permission: CLIENT_DECISION },
+      ],
+      REJECTED: [
+        { to: 'SHORTLISTED', permission: SUBMITTING },
+      ],
+    },
+  },
+}
+
+// Data that must be present before a talent can enter a stage
+export const stageRequirements: Partial<Record<TalentStage, StageRequirement[]>> = {
+  SUBMITTED_TO_CLIENT: ['submittedAt'],
+  REJECTED: ['clientFeedback'],
+  HIRED: ['startDate'],
+  ASSIGNED: ['startDate'],
+}
+
+export const stageRequirementLabels: Record<StageRequirement, string> = {
+  clientFeedback: 'Client feedback',
+  submittedAt: 'Submission date',
+  startDate: 'Start date',
+}
+
+export type StageRequirementValues = Partial<Record<StageRequirement, string | Date | null>>
+
+export interface StageTransitionError {
+  status: 400 | 403
+  error: string
+  missingFields?: StageRequirement[]
+}
+
+export function getTalentStages(talentType: TalentType): TalentStage[] {
+  return talentWorkflows[talentType].stages
+}
+
+function canMakeTransition(transition: StageTransition, user: PermissionHolder): boolean {
+  return !transition.permission || hasPermission(user, transition.permission)
+}
+
+/**
+ * Stages the given user may move a talent to from its current stage
+ */
+export function getAllowedTransitions(
+  talentType: TalentType,
+  from: TalentStage,
+  user: PermissionHolder
+): TalentStage[] {
+  return (talentWorkflows[talentType].transitions[from] || [])
+    .filter((transition) => canMakeTransition(transition, user))
+    .map((transition) => transition.to)
+}
+
+export function getMissingRequirements(
+  to: TalentStage,
+  values: StageRequirementValues
+): StageRequirement[] {
+  return (stageRequirements[to] || []).filter((field) => {
+    const value = values[field]
+    return value === null || value === undefined || (typeof value === 'string' && !value.trim())
+  })
+}
+
+/**
+ * Check a stage move against the workflow, the acting user's permissions
+ * and the required data. Returns null when the move is allowed.
+ */
+export function checkStageTransition(
+  talentType: TalentType,
+  from: TalentStage,
+  to: TalentStage,
+  user: PermissionHolder,
+  values: StageRequirementValues
+): StageTransitionError | null {
+  const workflow = talentWorkflows[talentType]
+
+  if (!workflow.stages.includes(to)) {
+    return { status: 400, error: `Stage ${to} does not apply to ${talentType.toLowerCase()}s` }
+  }
+
+  const transition = (workflow.transitions[from] || []).find((t) => t.to === to)
+  if (!transition) {
+    return { status: 400, error: `Cannot move from ${from} to ${to}` }
+  }
+
+  if (!canMakeTransition(transition, user)) {
+    return { status: 403, error: `Your role cannot move talent from ${from} to ${to}` }
+  }
+
+  const missingFields = getMissingRequirements(to, values)
+  if (missingFields.length > 0) {
+    return {
+      status: 400,
+      error: `${missingFields.map((field) => stageRequirementLabels[field]).join(', ')} required for ${to}`,
+      missingFields,
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,161 @@
+import crypto from 'crypto'
+
+// Time-based one-time passwords (RFC 6238) as used by authenticator apps:
+// HMAC-SHA1, 6 digits, 30-second steps. Secrets are stored encrypted with a
+// key derived from NEXTAUTH_SECRET; recovery codes are stored as hashes.
+
+const STEP_SECONDS = 30
+const DIGITS = 6
+// Accept the previous and next step to allow for clock drift
+const DRIFT_STEPS = 1
+const ISSUER = 'Naviteq'
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+export const RECOVERY_CODE_COUNT = 10
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0
+  let value = 0
+  let output = ''
+
+  for (let i = 0; i < buffer.length; i++) {
+    value = (value << 8) | buffer[i]
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31]
+  }
+  return output
+}
+
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[^A-Z2-7]/g, '')
+  let bits = 0
+  let value = 0
+  const bytes: number[] = []
+
+  for (let i = 0; i < clean.length; i++) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(clean[i])
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255)
+      bits -= 8
+    }
+  }
+  return Buffer.from(bytes)
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20))
+}
+
+function codeForStep(secret: string, step: number): string {
+  const counter = Buffer.alloc(8)
+  counter.writeUInt32BE(Math.floor(step / 0x100000000), 0)
+  counter.writeUInt32BE(step % 0x100000000, 4)
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3]
+
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0')
+}
+
+export function currentTotpStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS)
+}
+
+/**
+ * The time step the code is valid for, or null. Steps at or before
+ * `lastUsedStep` are rejected so a code can't be replayed.
+ */
+export function verifyTotp(
+  secret: string,
+  code: string,
+  lastUsedStep?: number | null,
+  now = Date.now()
+): number | null {
+  const normalized = code.replace(/\s/g, '')
+  if (!/^\d{6}$/.test(normalized)) return null
+
+  const current = currentTotpStep(now)
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && lastUsedStep !== undefined && step <= lastUsedStep) continue
+    const expected = codeForStep(secret, step)
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step
+    }
+  }
+  return null
+}
+
+/**
+ * otpauth:// URI for adding the secret to an authenticator app
+ */
+export function totpUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`)
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  })
+  return `otpauth://totp/${label}?${params.toString()}`
+}
+
+function encryptionKey(): Buffer {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('NEXTAUTH_SECRET is not configured')
+  }
+  return crypto.createHash('sha256').update(`totp:${secret}`).digest()
+}
+
+export function encryptTotpSecret(secret: string): string {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', encryptionKey(), iv)
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()])
+  return [iv, cipher.getAuthTag(), encrypted].map((b) => b.toString('base64')).join('.')
+}
+
+export function decryptTotpSecret(stored: string): string {
+  const [iv, tag, encrypted] = stored.split('.').map((part) => Buffer.from(part, 'base64'))
+  const decipher = crypto.createDecipheriv('aes-256-gcm', encryptionKey(), iv)
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8')
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+export function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex')
+}
+
+/**
+ * Fresh single-use recovery codes, e.g. "4f9c-2a7e-b1d0"
+ */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () =>
+    crypto.randomBytes(6).toString('hex').replace(/(.{4})(.{4})(.{4})/, '$1-$2-$3')
+  )
+}
+
+/**
+ * Index of the matching recovery code hash, or -1
+ */
+export function findRecoveryCode(hashes: string[], code: string): number {
+  if (!normalizeRecoveryCode(code)) return -1
+  return hashes.indexOf(hashRecoveryCode(code))
+}
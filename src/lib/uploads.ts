@@ -0,0 +1,70 @@
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import { fileStorage } from '@/lib/storage'
+
+// Uploaded and generated files are kept in file storage (src/lib/storage.ts)
+// and referenced by URL: /api/files/<key>, which checks the reader's access.
+// Files saved before that went to public/uploads (/uploads/<name>) and stay
+// readable until `npm run storage:migrate-uploads` moves them.
+
+export const FILE_URL_PREFIX = '/api/files/'
+const LEGACY_URL_PREFIX = '/uploads/'
+export const LEGACY_UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads')
+
+// Top-level folder of a key, which decides who may download the file
+export type UploadFolder = 'resumes' | 'documents' | 'profiles'
+
+/**
+ * Save a file with a unique, sanitized name under the given folder
+ */
+export async function saveUpload(
+  buffer: Buffer,
+  originalName: string,
+  { folder, contentType }: { folder: UploadFolder; contentType: string }
+): Promise<{ filename: string; key: string; url: string }> {
+  // The random part keeps names unique when a batch is saved within the same millisecond
+  const timestamp = Date.now()
+  const safeName = originalName.replace(/[^a-zA-Z0-9.-]/g, '_')
+  const filename = `${timestamp}-${randomUUID().slice(0, 8)}-${safeName}`
+  const key = `${folder}/${filename}`
+  await fileStorage.put(key, buffer, contentType)
+
+  return { filename, key, url: `${FILE_URL_PREFIX}${key}` }
+}
+
+/**
+ * Storage key of a file URL, or null for legacy /uploads URLs and anything else
+ */
+export function uploadKey(url: string): string | null {
+  if (!url.startsWith(FILE_URL_PREFIX)) return null
+  const key = url.slice(FILE_URL_PREFIX.length)
+  // Keys are always folder/filename (see saveUpload)
+  return /^[a-z]+\/[^/]+$/.test(key) && !key.includes('..') ? key : null
+}
+
+/**
+ * Read a previously saved file by its URL
+ */
+export async function readUpload(url: string): Promise<Buffer> {
+  if (url.startsWith(LEGACY_URL_PREFIX)) {
+    return readFile(path.join(LEGACY_UPLOAD_DIR, path.basename(url)))
+  }
+
+  const key = uploadKey(url)
+  const file = key ? await fileStorage.get(key) : null
+  if (!file) {
+    throw new Error(`File not found: ${url}`)
+  }
+  return file
+}
+
+/**
+ * Remove a saved file. Missing files are ignored.
+ */
+export async function deleteUpload(url: string) {
+  const key = uploadKey(url)
+  if (key) {
+    await fileStorage.delete(key)
+  }
+}
@@ -0,0 +1,143 @@
+import { headers } from 'next/headers'
+import prisma from '@/lib/prisma'
+import { clientIp } from '@/lib/login-security'
+
+// Server-side records of signed-in sessions. Logins are still JWTs, but each
+// one carries the id of a user_sessions row; revoking the row ends the
+// session on its next request. Lookups are cached briefly, so another server
+// instance can take up to a minute to notice a revocation.
+
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60 // 30 days
+const CHECK_TTL_MS = 60 * 1000
+
+export type SessionAuthMethod = 'password' | 'sso'
+
+const globalForSessions = globalThis as unknown as {
+  sessionChecks: Map<string, { active: boolean; checkedAt: number }> | undefined
+}
+
+function sessionChecks() {
+  if (!globalForSessions.sessionChecks) {
+    globalForSessions.sessionChecks = new Map()
+  }
+  return globalForSessions.sessionChecks
+}
+
+function sessionExpiry(now = Date.now()): Date {
+  return new Date(now + SESSION_MAX_AGE_SECONDS * 1000)
+}
+
+// IP and browser of the request being handled, when there is one
+function requestDetails(): { ipAddress: string | null; userAgent: string | null } {
+  try {
+    const requestHeaders = headers()
+    const ip = clientIp(requestHeaders as unknown as Headers)
+    return {
+      ipAddress: ip === 'unknown' ? null : ip,
+      userAgent: requestHeaders.get('user-agent')?.slice(0, 500) || null,
+    }
+  } catch {
+    return { ipAddress: null, userAgent: null }
+  }
+}
+
+/**
+ * Record a new login and return the session id to store in its JWT
+ */
+export async function createUserSession(userId: string, authMethod: SessionAuthMethod): Promise<string> {
+  // Forget this user's sessions that ended over a month ago
+  await prisma.userSession.deleteMany({
+    where: {
+      userId,
+      OR: [
+        { expiresAt: { lt: new Date(Date.now() - SESSION_MAX_AGE_SECONDS * 1000) } },
+        { revokedAt: { lt: new Date(Date.now() - SESSION_MAX_AGE_SECONDS * 1000) } },
+      ],
+    },
+  })
+
+  const session = await prisma.userSession.create({
+    data: {
+      userId,
+      authMethod,
+      expiresAt: sessionExpiry(),
+      ...requestDetails(),
+    },
+  })
+  return session.id
+}
+
+/**
+ * Whether the session hasn't been revoked or expired. Checking also records
+ * activity, at most once per cache period.
+ */
+export async function isUserSessionActive(sessionId: string): Promise<boolean> {
+  const checks = sessionChecks()
+  const cached = checks.get(sessionId)
+  const now = Date.now()
+  if (cached && now - cached.checkedAt < CHECK_TTL_MS) {
+    return cached.active
+  }
+
+  const touched = await prisma.userSession.updateMany({
+    where: { id: sessionId, revokedAt: null, expiresAt: { gt: new Date(now) } },
+    data: { lastSeenAt: new Date(now), expiresAt: sessionExpiry(now) },
+  })
+  const active = touched.count > 0
+  checks.set(sessionId, { active, checkedAt: now })
+
+  // Drop stale entries now and then so the map doesn't grow without bound
+  if (checks.size > 10000) {
+    Array.from(checks.entries()).forEach(([key, check]) => {
+      if (now - check.checkedAt >= CHECK_TTL_MS) checks.delete(key)
+    })
+  }
+  return active
+}
+
+export async function listActiveSessions(userId: string) {
+  return prisma.userSession.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      authMethod: true,
+      ipAddress: true,
+      userAgent: true,
+      createdAt: true,
+      lastSeenAt: true,
+    },
+    orderBy: { lastSeenAt: 'desc' },
+  })
+}
+
+/**
+ * Revoke one of a user's sessions. Returns false if there is no such active
+ * session.
+ */
+export async function revokeUserSession(userId: string, sessionId: string): Promise<boolean> {
+  const result = await prisma.userSession.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  })
+  sessionChecks().delete(sessionId)
+  return result.count > 0
+}
+
+/**
+ * Revoke all of a user's sessions, optionally keeping the one making the
+ * request. Returns how many were revoked.
+ */
+export async function revokeAllUserSessions(userId: string, exceptSessionId?: string): Promise<number> {
+  const where = {
+    userId,
+    revokedAt: null,
+    ...(exceptSessionId ? { id: { not: exceptSessionId } } : {}),
+  }
+  const sessions = await prisma.userSession.findMany({ where, select: { id: true } })
+  if (sessions.length === 0) return 0
+
+  await prisma.userSession.updateMany({ where, data: { revokedAt: new Date() } })
+  const checks = sessionChecks()
+  sessions.forEach((session) => checks.delete(session.id))
+  return sessions.length
+}
@@ -1,4 +1,5 @@
 import { z } from 'zod'
+import { ALL_PERMISSIONS, Permission } from './permissions'
 
 // User validations
 export const loginSchema = z.object({
@@ -6,12 +7,24 @@ export const loginSchema = z.object({
   password: z.string().min(1, 'Password is required'),
 })
 
-export const createUserSchema = z.object({
-  fullName: z.string().min(2, 'Name must be at least 2 characters'),
-  email: z.string().email('Invalid email address'),
-  password: z.string().min(8, 'Password must be at least 8 characters'),
-  role: z.enum(['ADMIN', 'SALES', 'RECRUITER', 'CLIENT_MANAGER']),
-})
+export const createUserSchema = z
+  .object({
+    fullName: z.string().min(2, 'Name must be at least 2 characters'),
+    email: z.string().email('Invalid email address'),
+    password: z
+      .string()
+      .min(8, 'Password must be at least 8 characters')
+      .optional()
+      .or(z.literal('')),
+    role: z.string().min(1, 'Role is required'),
+    // Email a set-password link instead of setting the password here
+    sendInvite: z.boolean().optional(),
+    mustChangePassword: z.boolean().optional(),
+  })
+  .refine((data) => data.sendInvite || !!data.password, {
+    message: 'Password is required unless you send an invitation',
+    path: ['password'],
+  })
 
 export const updateUserSchema = z.object({
   fullName: z.string().min(2, 'Name must be at least 2 characters').optional(),
@@ -21,8 +34,21 @@ export const updateUserSchema = z.object({
     .min(8, 'Password must be at least 8 characters')
     .optional()
     .or(z.literal('')),
-  role: z.enum(['ADMIN', 'SALES', 'RECRUITER', 'CLIENT_MANAGER']).optional(),
+  role: z.string().min(1, 'Role is required').optional(),
   isActive: z.boolean().optional(),
+  // Admin actions: clear a login lockout, remove 2FA for a lost device
+  unlock: z.boolean().optional(),
+  resetTwoFactor: z.boolean().optional(),
+  mustChangePassword: z.boolean().optional(),
+})
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email('Invalid email address'),
+})
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
 })
 
 // Customer validations
@@ -66,10 +92,19 @@ export const projectSchema = z.object({
     .enum(['INITIAL', 'SOURCING', 'INTERVIEWS', 'CLOSED_WON', 'CLOSED_LOST'])
     .optional(),
   devOpsStatus: z.enum(['ACTIVE', 'AT_RISK', 'BLOCKED', 'COMPLETED']).optional().nullable(),
+  scoringProfileId: z.string().optional().nullable(),
   assignedUserIds: z.array(z.string()).optional(),
 })
 
 // Candidate validations
+// Employment history entry validation (stored as JSON in Candidate)
+export const employmentHistoryEntrySchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  company: z.string(),
+  startDate: z.string(),
+  endDate: z.string().nullable(),
+})
+
 export const candidateSchema = z.object({
   fullName: z.string().min(1, 'Name is required'),
   email: z.string().email().optional().or(z.literal('')),
@@ -88,6 +123,42 @@ export const candidateSchema = z.object({
   resumeExtractedText: z.string().optional(),
   resumeFileUrl: z.string().optional().nullable(),
   resumeOriginalName: z.string().optional().nullable(),
+  employmentHistory: z.array(employmentHistoryEntrySchema).optional(),
+})
+
+// Candidate document upload (multipart fields). With documentId the file is a
+// new version of that document and type/title are ignored.
+export const candidateDocumentSchema = z.object({
+  documentId: z.string().optional(),
+  type: z.enum(['RESUME', 'CERTIFICATE', 'PORTFOLIO', 'NDA', 'OTHER']).default('OTHER'),
+  title: z.string().trim().max(200).optional(),
+  visibility: z.enum(['ALL_USERS', 'FULL_ACCESS', 'EDITORS']).default('FULL_ACCESS'),
+  // Resumes only: make the new version the one used for matching and search
+  useForMatching: z.boolean().default(true),
+})
+
+export const updateCandidateDocumentSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(200).optional(),
+  visibility: z.enum(['ALL_USERS', 'FULL_ACCESS', 'EDITORS']).optional(),
+})
+
+// Which resume version feeds matching and search (null for none)
+export const activeResumeSchema = z.object({
+  versionId: z.string().nullable(),
+})
+
+// Duplicate check validation (fields from the candidate form or a parsed resume)
+export const duplicateCheckSchema = z.object({
+  fullName: z.string().optional().nullable(),
+  email: z.string().optional().nullable(),
+  phone: z.string().optional().nullable(),
+  resumeExtractedText: z.string().optional().nullable(),
+  excludeId: z.string().optional(),
+})
+
+// Candidate merge validation (the source candidate is folded into the target and removed)
+export const mergeCandidateSchema = z.object({
+  sourceCandidateId: z.string().min(1, 'Candidate to merge is required'),
 })
 
 // Interview note validation
@@ -195,16 +266,65 @@ export const projectTalentSchema = z.object({
   { message: 'Must provide candidateId for CANDIDATE or engineerId for ENGINEER' }
 )
 
-export const updateProjectTalentStageSchema = z.object({
-  stage: z.enum([
-    'SHORTLISTED',
-    'CONTACTED',
-    'SUBMITTED_TO_CLIENT',
-    'INTERVIEWING',
-    'REJECTED',
-    'HIRED',
-    'ASSIGNED',
-  ]),
+// Stage moves are further checked against the workflow in lib/talent-stages
+export const updateProjectTalentSchema = z.object({
+  stage: z
+    .enum([
+      'SHORTLISTED',
+      'CONTACTED',
+      'SUBMITTED_TO_CLIENT',
+      'INTERVIEWING',
+      'REJECTED',
+      'HIRED',
+      'ASSIGNED',
+    ])
+    .optional(),
+  notes: z.string().optional().nullable(),
+  clientFeedback: z.string().optional().nullable(),
+  ownerUserId: z.string().optional().nullable(),
+  submittedAt: z.string().optional().nullable(),
+  startDate: z.string().optional().nullable(),
+  interviewNoteIndexes: z.array(z.number().int().min(0)).optional(),
+})
+
+// Client-facing profile PDF; interview notes are picked by their index on the candidate
+export const clientProfileSchema = z.object({
+  interviewNoteIndexes: z.array(z.number().int().min(0)).default([]),
+})
+
+// Interview scheduling validation
+const interviewContactSchema = z.object({
+  name: z.string().min(1, 'Contact name is required'),
+  title: z.string().optional(),
+  email: z.string().email().optional().or(z.literal('')),
+})
+
+export const interviewSchema = z.object({
+  projectTalentId: z.string().min(1, 'Project talent is required'),
+  round: z.number().int().min(1).optional(),
+  title: z.string().optional().nullable(),
+  scheduledAt: z
+    .string()
+    .min(1, 'Date and time are required')
+    .refine((value) => !isNaN(Date.parse(value)), 'Invalid date and time'),
+  durationMinutes: z.number().int().min(15).max(480).optional(),
+  location: z.string().optional().nullable(),
+  meetingUrl: z.string().url().optional().nullable().or(z.literal('')),
+  interviewerUserIds: z.array(z.string()).min(1, 'At least one interviewer is required'),
+  customerContacts: z.array(interviewContactSchema).optional(),
+})
+
+export const updateInterviewSchema = interviewSchema
+  .omit({ projectTalentId: true })
+  .partial()
+  .extend({
+    status: z.enum(['SCHEDULED', 'COMPLETED', 'CANCELLED', 'NO_SHOW']).optional(),
+  })
+
+export const interviewFeedbackSchema = z.object({
+  score: z.number().int().min(1).max(5).optional().nullable(),
+  recommendation: z.enum(['STRONG_YES', 'YES', 'NO', 'STRONG_NO']).optional().nullable(),
+  notes: z.string().min(1, 'Notes are required'),
 })
 
 // Convert candidate to engineer validation
@@ -232,17 +352,240 @@ export const projectUpdateSchema = z.object({
 
 export type ProjectUpdateInput = z.infer<typeof projectUpdateSchema>
 
+// Scoring profile validation (matching engine weights)
+const weight = z.number().min(0).max(100)
+
+const sumOf = (values: Record<string, number>) =>
+  Object.values(values).reduce((sum, value) => sum + value, 0)
+
+// Weights may have decimals, so allow for rounding in the sum
+const isHundred = (total: number) => Math.abs(total - 100) < 0.01
+
+// An engineer's best score is their weights plus the largest availability boost
+export function engineerPointsTotal(
+  engineerWeights: Record<string, number>,
+  availabilityBoost: Record<string, number>
+): number {
+  return sumOf(engineerWeights) + Math.max(0, ...Object.values(availabilityBoost))
+}
+
+export const scoringProfileSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required'),
+    description: z.string().optional(),
+    isDefault: z.boolean().optional(),
+    candidateWeights: z.object({
+      technologies: weight,
+      mustHave: weight,
+      seniority: weight,
+      experience: weight,
+      niceToHave: weight,
+    }),
+    engineerWeights: z.object({
+      technologies: weight,
+      mustHave: weight,
+      seniority: weight,
+      experience: weight,
+      pastCustomer: weight,
+    }),
+    availabilityBoost: z.object({
+      BENCH: z.number().min(-100).max(100),
+      ACTIVE: z.number().min(-100).max(100),
+      ASSIGNED: z.number().min(-100).max(100),
+      ON_LEAVE: z.number().min(-100).max(100),
+      INACTIVE: z.number().min(-100).max(100),
+    }),
+  })
+  .refine((data) => isHundred(sumOf(data.candidateWeights)), {
+    message: 'Candidate weights must add up to 100',
+    path: ['candidateWeights'],
+  })
+  .refine((data) => isHundred(engineerPointsTotal(data.engineerWeights, data.availabilityBoost)), {
+    message: 'Engineer weights plus the largest availability boost must add up to 100',
+    path: ['engineerWeights'],
+  })
+
+export type ScoringProfileInput = z.infer<typeof scoringProfileSchema>
+
+// Customer portal validations
+export const portalUserSchema = z.object({
+  fullName: z.string().min(2, 'Name must be at least 2 characters'),
+  email: z.string().email('Invalid email address'),
+  sendInvite: z.boolean().optional().default(true),
+})
+
+export const updatePortalUserSchema = z.object({
+  fullName: z.string().min(2, 'Name must be at least 2 characters').optional(),
+  isActive: z.boolean().optional(),
+})
+
+export const portalLoginSchema = z.object({
+  email: z.string().email('Invalid email address'),
+})
+
+export const portalFeedbackSchema = z.object({
+  feedback: z.string().min(1, 'Feedback is required').max(5000),
+})
+
+export type PortalUserInput = z.infer<typeof portalUserSchema>
+export type UpdatePortalUserInput = z.infer<typeof updatePortalUserSchema>
+export type PortalFeedbackInput = z.infer<typeof portalFeedbackSchema>
+
+// Skill taxonomy validation
+export const skillSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  aliases: z.array(z.string()).optional(),
+  category: z.string().optional().nullable(),
+})
+
+export type SkillInput = z.infer<typeof skillSchema>
+
 // Type exports
 export type LoginInput = z.infer<typeof loginSchema>
 export type CreateUserInput = z.infer<typeof createUserSchema>
 export type UpdateUserInput = z.infer<typeof updateUserSchema>
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>
 export type CustomerInput = z.infer<typeof customerSchema>
 export type ProjectInput = z.infer<typeof projectSchema>
 export type CandidateInput = z.infer<typeof candidateSchema>
+export type DuplicateCheckInput = z.infer<typeof duplicateCheckSchema>
+export type MergeCandidateInput = z.infer<typeof mergeCandidateSchema>
+export type CandidateDocumentInput = z.infer<typeof candidateDocumentSchema>
+export type UpdateCandidateDocumentInput = z.infer<typeof updateCandidateDocumentSchema>
+export type ActiveResumeInput = z.infer<typeof activeResumeSchema>
 export type InterviewNoteInput = z.infer<typeof interviewNoteSchema>
 export type ProjectCandidateInput = z.infer<typeof projectCandidateSchema>
 export type EngineerInput = z.infer<typeof engineerSchema>
 export type EngineerAssignmentInput = z.infer<typeof engineerAssignmentSchema>
 export type EngineerUpdateInput = z.infer<typeof engineerUpdateSchema>
 export type ProjectTalentInput = z.infer<typeof projectTalentSchema>
+export type UpdateProjectTalentInput = z.infer<typeof updateProjectTalentSchema>
+export type ClientProfileInput = z.infer<typeof clientProfileSchema>
+export type InterviewInput = z.infer<typeof interviewSchema>
+export type UpdateInterviewInput = z.infer<typeof updateInterviewSchema>
+export type InterviewFeedbackInput = z.infer<typeof interviewFeedbackSchema>
 export type ConvertToEngineerInput = z.infer<typeof convertToEngineerSchema>
+
+// Notification preference validation
+export const notificationPreferencesSchema = z.object({
+  preferences: z
+    .array(
+      z.object({
+        type: z.enum([
+          'MENTION',
+          'TALENT_STAGE_CHANGED',
+          'CLIENT_FEEDBACK_RECEIVED',
+          'ENGINEER_ASSIGNED',
+          'ENGINEER_UNASSIGNED',
+          'ENGINEER_ON_BENCH',
+          'PROJECT_STATUS_ALERT',
+          'CUSTOMER_PROJECT_CREATED',
+          'INTERVIEW_SCHEDULED',
+          'INTERVIEW_RESCHEDULED',
+          'INTERVIEW_CANCELLED',
+          'INTERVIEW_REMINDER',
+        ]),
+        delivery: z.enum(['IN_APP', 'EMAIL', 'DIGEST', 'OFF']),
+      })
+    )
+    .min(1, 'At least one preference is required'),
+})
+
+export type NotificationPreferencesInput = z.infer<typeof notificationPreferencesSchema>
+
+// Role validation
+export const roleSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters'),
+  description: z.string().optional().nullable(),
+  recordScope: z.enum(['ALL', 'ASSIGNED_PROJECTS', 'OWN_ACCOUNTS']),
+  requireTwoFactor: z.boolean(),
+  permissions: z.array(z.enum(ALL_PERMISSIONS as [Permission, ...Permission[]])),
+})
+
+export type RoleInput = z.infer<typeof roleSchema>
+
+// Single sign-on settings validation
+export const ssoSettingsSchema = z.object({
+  passwordLoginEnabled: z.boolean(),
+  jitProvisioning: z.boolean(),
+  syncRoleOnLogin: z.boolean(),
+  allowedDomains: z.array(
+    z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Invalid domain')
+  ),
+  defaultRole: z.string().optional().nullable(),
+  groupRoleMappings: z.array(
+    z.object({
+      group: z.string().trim().min(1, 'Group is required'),
+      role: z.string().min(1, 'Role is required'),
+    })
+  ),
+})
+
+export type SsoSettingsInput = z.infer<typeof ssoSettingsSchema>
+
+// Two-factor authentication validation
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, 'Enter the code from your authenticator app'),
+})
+
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeSchema>
+
+// API token validation
+export const apiTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  scopes: z
+    .array(z.enum(ALL_PERMISSIONS as [Permission, ...Permission[]]))
+    .min(1, 'Choose at least one permission'),
+  expiresInDays: z.number().int().min(1).max(365),
+})
+
+export type ApiTokenInput = z.infer<typeof apiTokenSchema>
+
+// Webhook validations. These are the entity types and actions that can be
+// sent to webhooks; sign-in events and settings changes never leave the app.
+export const WEBHOOK_ENTITY_TYPES = [
+  'Customer',
+  'Project',
+  'Candidate',
+  'Engineer',
+  'EngineerAssignment',
+  'EngineerUpdate',
+  'ProjectTalent',
+  'Interview',
+  'User',
+] as const
+
+export const WEBHOOK_ACTIONS = [
+  'CREATED',
+  'UPDATED',
+  'DELETED',
+  'STAGE_CHANGED',
+  'UPLOADED_RESUME',
+  'ASSIGNED',
+  'UNASSIGNED',
+  'CONVERTED',
+  'UPDATE_ADDED',
+  'MERGED',
+] as const
+
+export const webhookEndpointSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  url: z
+    .string()
+    .trim()
+    .url('Invalid URL')
+    .refine((url) => /^https?:\/\//i.test(url), 'URL must use http or https'),
+  entityTypes: z.array(z.enum(WEBHOOK_ENTITY_TYPES)).default([]),
+  actions: z.array(z.enum(WEBHOOK_ACTIONS)).default([]),
+  isActive: z.boolean().default(true),
+})
+
+export const updateWebhookEndpointSchema = webhookEndpointSchema.partial().extend({
+  rotateSecret: z.boolean().optional(),
+})
+
+export type WebhookEndpointInput = z.infer<typeof webhookEndpointSchema>
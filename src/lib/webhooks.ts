@@ -0,0 +1,269 @@
+import crypto from 'crypto'
+import type { ActivityLog, Prisma, WebhookEndpoint } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { enqueueJob } from '@/lib/jobs'
+import { WEBHOOK_ACTIONS, WEBHOOK_ENTITY_TYPES } from '@/lib/validations'
+
+// Outgoing webhooks. Each activity log entry that an active endpoint
+// subscribes to becomes a delivery row, which a "webhooks.deliver" job POSTs
+// as JSON. Failed attempts queue another job after a backoff until the
+// receiver answers with a 2xx or the attempts run out.
+//
+// Every request is signed: X-Naviteq-Signature is "t=<unix seconds>,v1=<hex>"
+// where the hex is HMAC-SHA256 of "<t>.<raw body>" keyed with the endpoint's
+// secret. Receivers should recompute it and reject stale timestamps.
+
+export const WEBHOOK_SECRET_PREFIX = 'whsec_'
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Naviteq-Signature'
+export const WEBHOOK_EVENT_HEADER = 'X-Naviteq-Event'
+export const WEBHOOK_DELIVERY_HEADER = 'X-Naviteq-Delivery'
+export const WEBHOOK_PING_EVENT = 'ping'
+
+// Minutes to wait before each retry; a delivery gets one attempt more than this
+const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 360, 720]
+export const WEBHOOK_MAX_ATTEMPTS = RETRY_DELAYS_MINUTES.length + 1
+const REQUEST_TIMEOUT_MS = 10 * 1000
+// A claimed delivery is left alone by other workers for this long
+const CLAIM_LEASE_MS = 2 * 60 * 1000
+const RESPONSE_BODY_LIMIT = 2000
+const ENDPOINT_CACHE_TTL_MS = 60 * 1000
+
+type WebhookEntityType = (typeof WEBHOOK_ENTITY_TYPES)[number]
+type WebhookAction = (typeof WEBHOOK_ACTIONS)[number]
+
+// Every logActivity call checks the subscriptions, so they are kept in memory
+// like the role configuration
+const globalForWebhooks = globalThis as unknown as {
+  webhookEndpointCache: { endpoints: WebhookEndpoint[]; loadedAt: number } | undefined
+}
+
+async function getActiveEndpoints(): Promise<WebhookEndpoint[]> {
+  const cache = globalForWebhooks.webhookEndpointCache
+  if (cache && Date.now() - cache.loadedAt < ENDPOINT_CACHE_TTL_MS) {
+    return cache.endpoints
+  }
+
+  const endpoints = await prisma.webhookEndpoint.findMany({ where: { isActive: true } })
+  globalForWebhooks.webhookEndpointCache = { endpoints, loadedAt: Date.now() }
+  return endpoints
+}
+
+export function invalidateWebhookCache() {
+  globalForWebhooks.webhookEndpointCache = undefined
+}
+
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${crypto.randomBytes(24).toString('base64url')}`
+}
+
+/**
+ * An endpoint as listed by the API. The secret is only returned when it is
+ * created or rotated; afterwards only its last characters identify it.
+ */
+export function maskWebhookSecret<T extends { secret: string }>(
+  endpoint: T
+): Omit<T, 'secret'> & { secretHint: string } {
+  const { secret, ...rest } = endpoint
+  return { ...rest, secretHint: `${WEBHOOK_SECRET_PREFIX}…${secret.slice(-4)}` }
+}
+
+export function webhookEventName(entityType: string, action: string): string {
+  return `${entityType}.${action}`
+}
+
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `t=${timestamp},v1=${digest}`
+}
+
+function endpointSubscribes(endpoint: WebhookEndpoint, entityType: string, action: string): boolean {
+  return (
+    (endpoint.entityTypes.length === 0 || endpoint.entityTypes.includes(entityType)) &&
+    (endpoint.actions.length === 0 || endpoint.actions.includes(action))
+  )
+}
+
+function isWebhookEvent(entityType: string, action: string): boolean {
+  return (
+    WEBHOOK_ENTITY_TYPES.includes(entityType as WebhookEntityType) &&
+    WEBHOOK_ACTIONS.includes(action as WebhookAction)
+  )
+}
+
+/**
+ * Queue a delivery to every endpoint subscribed to an activity and start
+ * sending them. Called by logActivity; failures are logged, never thrown.
+ */
+export async function queueWebhookDeliveries(activity: ActivityLog): Promise<void> {
+  try {
+    if (!isWebhookEvent(activity.entityType, activity.action)) return
+
+    const endpoints = (await getActiveEndpoints()).filter((endpoint) =>
+      endpointSubscribes(endpoint, activity.entityType, activity.action)
+    )
+    if (endpoints.length === 0) return
+
+    const performedBy = activity.performedByUserId
+      ? await prisma.user.findUnique({
+          where: { id: activity.performedByUserId },
+          select: { id: true, fullName: true, email: true },
+        })
+      : null
+
+    const event = webhookEventName(activity.entityType, activity.action)
+    const deliveries = await prisma.$transaction(
+      endpoints.map((endpoint) =>
+        prisma.webhookDelivery.create({
+          data: {
+            endpointId: endpoint.id,
+            event,
+            activityLogId: activity.id,
+            // The activity id is the same for every endpoint, so receivers
+            // can use it to drop duplicates
+            payload: {
+              id: activity.id,
+              event,
+              createdAt: activity.createdAt.toISOString(),
+              data: {
+                entityType: activity.entityType,
+                entityId: activity.entityId,
+                action: activity.action,
+                performedBy,
+                diff: activity.diff ?? null,
+              },
+            } as Prisma.InputJsonObject,
+          },
+          select: { id: true },
+        })
+      )
+    )
+
+    for (const delivery of deliveries) {
+      await enqueueJob('webhooks.deliver', { deliveryId: delivery.id })
+    }
+  } catch (error) {
+    console.error('Failed to queue webhook deliveries:', error)
+  }
+}
+
+/**
+ * Queue a "ping" to one endpoint and send it now, to check the receiver
+ */
+export async function sendWebhookPing(endpointId: string) {
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      endpointId,
+      event: WEBHOOK_PING_EVENT,
+      payload: {
+        id: crypto.randomUUID(),
+        event: WEBHOOK_PING_EVENT,
+        createdAt: new Date().toISOString(),
+        data: { endpointId },
+      },
+    },
+  })
+  await attemptDelivery(delivery.id)
+  return prisma.webhookDelivery.findUniqueOrThrow({ where: { id: delivery.id } })
+}
+
+/**
+ * Send a delivery once, if it is due and no other worker has claimed it.
+ * Returns whether the receiver accepted it.
+ */
+export async function attemptDelivery(deliveryId: string): Promise<boolean> {
+  const now = new Date()
+
+  // Claim it by pushing nextAttemptAt out; only one worker's update matches
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: 'PENDING', nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + CLAIM_LEASE_MS) },
+  })
+  if (claimed.count === 0) return false
+
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { endpoint: true },
+  })
+
+  // Retries queued before an admin disabled the endpoint aren't sent
+  if (!delivery.endpoint.isActive) {
+    await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: 'FAILED', error: 'Endpoint disabled' },
+    })
+    return false
+  }
+
+  const body = JSON.stringify(delivery.payload)
+  const timestamp = Math.floor(now.getTime() / 1000)
+  const startedAt = Date.now()
+  let responseStatus: number | null = null
+  let responseBody: string | null = null
+  let error: string | null = null
+
+  try {
+    const response = await fetch(delivery.endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Naviteq-Webhooks/1.0',
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(delivery.endpoint.secret, timestamp, body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      cache: 'no-store',
+    })
+    responseStatus = response.status
+    responseBody = (await response.text().catch(() => '')).slice(0, RESPONSE_BODY_LIMIT)
+    if (!response.ok) {
+      error = `Receiver answered ${response.status}`
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  const attempts = delivery.attempts + 1
+  const succeeded = error === null
+  const retryDelay = RETRY_DELAYS_MINUTES[attempts - 1]
+  const nextAttemptAt =
+    !succeeded && retryDelay !== undefined
+      ? new Date(Date.now() + retryDelay * 60 * 1000)
+      : null
+
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts,
+      lastAttemptAt: now,
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: Date.now() - startedAt,
+      ...(succeeded
+        ? { status: 'SUCCEEDED', deliveredAt: new Date() }
+        : nextAttemptAt
+          ? { nextAttemptAt }
+          : { status: 'FAILED' }),
+    },
+  })
+
+  if (nextAttemptAt) {
+    await enqueueJob('webhooks.deliver', { deliveryId: delivery.id }, { runAt: nextAttemptAt })
+  }
+
+  return succeeded
+}
+
+/**
+ * Put a delivery back in the queue to be sent now, with a fresh set of retries
+ */
+export async function redeliverWebhook(deliveryId: string): Promise<boolean> {
+  await prisma.webhookDelivery.update({
+    where: { id: deliveryId },
+    data: { status: 'PENDING', attempts: 0, nextAttemptAt: new Date(), deliveredAt: null },
+  })
+  return attemptDelivery(deliveryId)
+}
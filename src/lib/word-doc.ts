@@ -0,0 +1,201 @@
+// Text of legacy Word (.doc, Word 97-2003) files, which mammoth can't read.
+// A .doc is an OLE compound file; its WordDocument stream starts with the
+// FIB, which points at the piece table (in the 0Table or 1Table stream)
+// listing where each run of the document's text is stored.
+// See [MS-CFB] and [MS-DOC].
+
+const COMPOUND_FILE_SIGNATURE = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])
+const FREE_SECTOR = 0xffffffff
+const END_OF_CHAIN = 0xfffffffe
+// Guards against looping sector chains in damaged files
+const MAX_CHAIN_LENGTH = 1 << 20
+
+const cp1252 = new TextDecoder('windows-1252')
+
+interface CompoundFile {
+  buffer: Buffer
+  sectorSize: number
+  miniSectorSize: number
+  miniStreamCutoff: number
+  fat: number[]
+  miniFat: number[]
+  miniStream: Buffer
+  streams: Map<string, { start: number; size: number }>
+}
+
+function chain(table: number[], start: number): number[] {
+  const sectors: number[] = []
+  for (let sector = start; sector !== END_OF_CHAIN && sector !== FREE_SECTOR; sector = table[sector]) {
+    if (sector === undefined || sectors.length > MAX_CHAIN_LENGTH) {
+      throw new Error('Damaged compound file: broken sector chain')
+    }
+    sectors.push(sector)
+  }
+  return sectors
+}
+
+function readSectors(buffer: Buffer, sectorSize: number, sectors: number[]): Buffer {
+  return Buffer.concat(
+    sectors.map((sector) => buffer.subarray((sector + 1) * sectorSize, (sector + 2) * sectorSize))
+  )
+}
+
+function readUInt32s(buffer: Buffer): number[] {
+  const values: number[] = []
+  for (let offset = 0; offset + 4 <= buffer.length; offset += 4) {
+    values.push(buffer.readUInt32LE(offset))
+  }
+  return values
+}
+
+function openCompoundFile(buffer: Buffer): CompoundFile {
+  if (buffer.length < 0x200 || !buffer.subarray(0, 8).equals(COMPOUND_FILE_SIGNATURE)) {
+    throw new Error('Not a compound file')
+  }
+  const sectorSize = 1 << buffer.readUInt16LE(0x1e)
+  const miniSectorSize = 1 << buffer.readUInt16LE(0x20)
+  const fatSectorCount = buffer.readUInt32LE(0x2c)
+  const firstDirectorySector = buffer.readUInt32LE(0x30)
+  const miniStreamCutoff = buffer.readUInt32LE(0x38)
+  const firstMiniFatSector = buffer.readUInt32LE(0x3c)
+  let difatSector = buffer.readUInt32LE(0x44)
+
+  // The first 109 FAT sector numbers are in the header, the rest in DIFAT sectors
+  const fatSectors = readUInt32s(buffer.subarray(0x4c, 0x200))
+  for (let i = 0; difatSector !== END_OF_CHAIN && difatSector !== FREE_SECTOR; i++) {
+    if (i > MAX_CHAIN_LENGTH) throw new Error('Damaged compound file: broken DIFAT')
+    const entries = readUInt32s(readSectors(buffer, sectorSize, [difatSector]))
+    difatSector = entries.pop() as number
+    fatSectors.push(...entries)
+  }
+  const fat = readUInt32s(
+    readSectors(buffer, sectorSize, fatSectors.filter((s) => s !== FREE_SECTOR).slice(0, fatSectorCount))
+  )
+
+  const miniFat = readUInt32s(readSectors(buffer, sectorSize, chain(fat, firstMiniFatSector)))
+
+  const directory = readSectors(buffer, sectorSize, chain(fat, firstDirectorySector))
+  const streams = new Map<string, { start: number; size: number }>()
+  let miniStream: Buffer = Buffer.alloc(0)
+  for (let offset = 0; offset + 128 <= directory.length; offset += 128) {
+    const nameLength = directory.readUInt16LE(offset + 0x40)
+    const type = directory.readUInt8(offset + 0x42)
+    const name = directory.toString('utf16le', offset, offset + Math.max(0, nameLength - 2))
+    const start = directory.readUInt32LE(offset + 0x74)
+    const size = directory.readUInt32LE(offset + 0x78)
+    if (type === 5) {
+      // The root entry holds the mini stream that small streams live in
+      miniStream = readSectors(buffer, sectorSize, chain(fat, start)).subarray(0, size)
+    } else if (type === 2) {
+      streams.set(name, { start, size })
+    }
+  }
+
+  return { buffer, sectorSize, miniSectorSize, miniStreamCutoff, fat, miniFat, miniStream, streams }
+}
+
+function readStream(file: CompoundFile, name: string): Buffer | null {
+  const entry = file.streams.get(name)
+  if (!entry) return null
+
+  if (entry.size < file.miniStreamCutoff) {
+    const sectors = chain(file.miniFat, entry.start)
+    return Buffer.concat(
+      sectors.map((sector) =>
+        file.miniStream.subarray(sector * file.miniSectorSize, (sector + 1) * file.miniSectorSize)
+      )
+    ).subarray(0, entry.size)
+  }
+  return readSectors(file.buffer, file.sectorSize, chain(file.fat, entry.start)).subarray(0, entry.size)
+}
+
+/**
+ * Plain text of the main document: paragraphs on their own lines, table
+ * cells separated by tabs, and field results without their field codes
+ */
+function cleanWordText(raw: string): string {
+  let text = ''
+  // Field codes nest: 0x13 begin, 0x14 separator, 0x15 end. Only the result
+  // (between separator and end) is visible text.
+  const fields: boolean[] = []
+  for (const char of raw) {
+    if (char === '\x13') {
+      fields.push(false)
+    } else if (char === '\x14') {
+      if (fields.length > 0) fields[fields.length - 1] = true
+    } else if (char === '\x15') {
+      fields.pop()
+    } else if (fields.length > 0 && !fields[fields.length - 1]) {
+      continue
+    } else if (char === '\r' || char === '\x0b' || char === '\x0c') {
+      text += '\n'
+    } else if (char === '\x07') {
+      text += '\t'
+    } else if (char === '\t' || char >= ' ') {
+      text += char
+    }
+  }
+  return text
+}
+
+/**
+ * Extract the text of a Word 97-2003 document. Throws if the file isn't one
+ * or is encrypted.
+ */
+export function extractWordDocText(buffer: Buffer): string {
+  const file = openCompoundFile(buffer)
+  const wordDocument = readStream(file, 'WordDocument')
+  if (!wordDocument || wordDocument.readUInt16LE(0) !== 0xa5ec) {
+    throw new Error('Not a Word 97-2003 document')
+  }
+
+  const flags = wordDocument.readUInt16LE(0x0a)
+  if (flags & 0x0100) {
+    throw new Error('The document is password protected')
+  }
+  const table = readStream(file, flags & 0x0200 ? '1Table' : '0Table')
+  if (!table) {
+    throw new Error('Damaged Word document: missing table stream')
+  }
+
+  // FibRgLw97.ccpText and FibRgFcLcb97.fcClx/lcbClx
+  const csw = wordDocument.readUInt16LE(32)
+  const rgLwOffset = 34 + csw * 2 + 2
+  const cslw = wordDocument.readUInt16LE(34 + csw * 2)
+  const ccpText = wordDocument.readUInt32LE(rgLwOffset + 3 * 4)
+  const rgFcLcbOffset = rgLwOffset + cslw * 4 + 2
+  const fcClx = wordDocument.readUInt32LE(rgFcLcbOffset + 33 * 8)
+  const lcbClx = wordDocument.readUInt32LE(rgFcLcbOffset + 33 * 8 + 4)
+  const clx = table.subarray(fcClx, fcClx + lcbClx)
+
+  // The Clx is any number of Prc entries (formatting) and then the Pcdt
+  let offset = 0
+  while (offset < clx.length && clx[offset] === 0x01) {
+    offset += 3 + clx.readInt16LE(offset + 1)
+  }
+  if (clx[offset] !== 0x02) {
+    throw new Error('Damaged Word document: no piece table')
+  }
+  const plcPcd = clx.subarray(offset + 5, offset + 5 + clx.readUInt32LE(offset + 1))
+
+  // PlcPcd: n + 1 character positions, then n 8-byte piece descriptors
+  const pieceCount = (plcPcd.length - 4) / 12
+  let raw = ''
+  for (let i = 0; i < pieceCount; i++) {
+    const cpStart = plcPcd.readUInt32LE(i * 4)
+    if (cpStart >= ccpText) break
+    const cpEnd = Math.min(plcPcd.readUInt32LE((i + 1) * 4), ccpText)
+    const fc = plcPcd.readUInt32LE((pieceCount + 1) * 4 + i * 8 + 2)
+    const length = cpEnd - cpStart
+
+    // Compressed pieces hold one byte per character (Windows-1252) at fc / 2
+    if (fc & 0x40000000) {
+      const start = (fc & 0x3fffffff) / 2
+      raw += cp1252.decode(wordDocument.subarray(start, start + length))
+    } else {
+      raw += wordDocument.toString('utf16le', fc, fc + length * 2)
+    }
+  }
+
+  return cleanWordText(raw)
+}
@@ -5,7 +5,7 @@ import {
   Candidate,
   ProjectCandidate,
   ActivityLog,
-  Role,
+  RecordScope,
   ProjectCategory,
   ProjectStatus,
   DevOpsStatus,
@@ -27,11 +27,19 @@ import {
   TalentStage,
   UpdateVisibility,
   ProjectUpdateVisibility,
+  Interview,
+  InterviewFeedback,
+  InterviewStatus,
+  InterviewRecommendation,
+  NotificationDelivery,
+  CandidateDocumentType,
+  DocumentVisibility,
+  TextExtractionStatus,
 } from '@prisma/client'
 
 // Re-export Prisma types
 export {
-  Role,
+  RecordScope,
   ProjectCategory,
   ProjectStatus,
   DevOpsStatus,
@@ -47,6 +55,12 @@ export {
   TalentStage,
   UpdateVisibility,
   ProjectUpdateVisibility,
+  InterviewStatus,
+  InterviewRecommendation,
+  NotificationDelivery,
+  CandidateDocumentType,
+  DocumentVisibility,
+  TextExtractionStatus,
 }
 
 // Extended types with relations
@@ -64,22 +78,18 @@ export interface ProjectWithRelations extends Project {
     id: string
     user: User
   }>
-  projectCandidates?: ProjectCandidateWithRelations[]
   projectTalents?: ProjectTalentWithRelations[]
   updates?: ProjectUpdateWithRelations[]
   _count?: {
-    projectCandidates: number
     projectTalents: number
     updates: number
   }
 }
 
 export interface CandidateWithRelations extends Candidate {
-  projectCandidates?: ProjectCandidateWithRelations[]
   projectTalents?: ProjectTalentWithRelations[]
   linkedEngineer?: Engineer | null
   _count?: {
-    projectCandidates: number
     projectTalents: number
   }
 }
@@ -138,10 +148,62 @@ export interface ProjectUpdateWithRelations extends ProjectUpdate {
   mentionedUsers?: User[]
 }
 
+// ============================================
+// Interview types
+// ============================================
+export interface InterviewWithRelations extends Interview {
+  projectTalent?: ProjectTalentWithRelations
+  interviewers?: User[]
+  feedback?: InterviewFeedbackWithRelations[]
+}
+
+export interface InterviewFeedbackWithRelations extends InterviewFeedback {
+  author?: User
+}
+
 export interface NotificationWithRelations extends Notification {
   projectUpdate?: ProjectUpdateWithRelations | null
 }
 
+// ============================================
+// Notification catalog (Notification.type)
+// ============================================
+export type NotificationType =
+  | 'MENTION'
+  | 'TALENT_STAGE_CHANGED'
+  | 'CLIENT_FEEDBACK_RECEIVED'
+  | 'ENGINEER_ASSIGNED'
+  | 'ENGINEER_UNASSIGNED'
+  | 'ENGINEER_ON_BENCH'
+  | 'PROJECT_STATUS_ALERT'
+  | 'CUSTOMER_PROJECT_CREATED'
+  | 'INTERVIEW_SCHEDULED'
+  | 'INTERVIEW_RESCHEDULED'
+  | 'INTERVIEW_CANCELLED'
+  | 'INTERVIEW_REMINDER'
+
+export const notificationTypeLabels: Record<NotificationType, string> = {
+  MENTION: 'Mentioned in a project update',
+  TALENT_STAGE_CHANGED: 'Talent stage changed on my project',
+  CLIENT_FEEDBACK_RECEIVED: 'Customer feedback on a submission',
+  ENGINEER_ASSIGNED: 'Engineer assigned',
+  ENGINEER_UNASSIGNED: 'Engineer unassigned',
+  ENGINEER_ON_BENCH: 'Engineer back on bench',
+  PROJECT_STATUS_ALERT: 'Project at risk or blocked',
+  CUSTOMER_PROJECT_CREATED: 'New project for my customer',
+  INTERVIEW_SCHEDULED: 'Interview scheduled',
+  INTERVIEW_RESCHEDULED: 'Interview rescheduled',
+  INTERVIEW_CANCELLED: 'Interview cancelled',
+  INTERVIEW_REMINDER: 'Interview reminder',
+}
+
+export const notificationDeliveryLabels: Record<NotificationDelivery, string> = {
+  IN_APP: 'In-app only',
+  EMAIL: 'Email immediately',
+  DIGEST: 'Daily digest',
+  OFF: 'Off',
+}
+
 // Contact type (stored as JSON in Customer)
 export interface Contact {
   name: string
@@ -158,6 +220,14 @@ export interface InterviewNote {
   score?: number
 }
 
+// Employment history entry (stored as JSON in Candidate)
+export interface EmploymentHistoryEntry {
+  title: string
+  company: string
+  startDate: string
+  endDate: string | null
+}
+
 // API Response types
 export interface ApiResponse<T> {
   data?: T
@@ -349,6 +419,34 @@ export const talentStageColors: Record<TalentStage, string> = {
   ASSIGNED: 'bg-teal-100 text-teal-800',
 }
 
+export const interviewStatusLabels: Record<InterviewStatus, string> = {
+  SCHEDULED: 'Scheduled',
+  COMPLETED: 'Completed',
+  CANCELLED: 'Cancelled',
+  NO_SHOW: 'No Show',
+}
+
+export const interviewStatusColors: Record<InterviewStatus, string> = {
+  SCHEDULED: 'bg-blue-100 text-blue-800',
+  COMPLETED: 'bg-green-100 text-green-800',
+  CANCELLED: 'bg-gray-100 text-gray-800',
+  NO_SHOW: 'bg-red-100 text-red-800',
+}
+
+export const interviewRecommendationLabels: Record<InterviewRecommendation, string> = {
+  STRONG_YES: 'Strong Yes',
+  YES: 'Yes',
+  NO: 'No',
+  STRONG_NO: 'Strong No',
+}
+
+export const interviewRecommendationColors: Record<InterviewRecommendation, string> = {
+  STRONG_YES: 'bg-green-100 text-green-800',
+  YES: 'bg-teal-100 text-teal-800',
+  NO: 'bg-orange-100 text-orange-800',
+  STRONG_NO: 'bg-red-100 text-red-800',
+}
+
 export const updateVisibilityLabels: Record<UpdateVisibility, string> = {
   INTERNAL: 'Internal',
   MANAGER_ONLY: 'Manager Only',
@@ -387,3 +485,91 @@ export const projectUpdateVisibilityLabels: Record<ProjectUpdateVisibility, stri
   INTERNAL: 'Internal',
   CUSTOMER_FACING: 'Customer Facing',
 }
+
+// ============================================
+// Candidate documents
+// ============================================
+export const candidateDocumentTypeLabels: Record<CandidateDocumentType, string> = {
+  RESUME: 'CV / Resume',
+  CERTIFICATE: 'Certificate',
+  PORTFOLIO: 'Portfolio',
+  NDA: 'Signed NDA',
+  OTHER: 'Other',
+}
+
+export const documentVisibilityLabels: Record<DocumentVisibility, string> = {
+  ALL_USERS: 'Everyone who can see the candidate',
+  FULL_ACCESS: 'Users with full candidate access',
+  EDITORS: 'Users who can edit candidates',
+}
+
+// File types accepted as resumes (the server checks the contents)
+export const RESUME_FILE_EXTENSIONS = ['pdf', 'docx', 'doc', 'rtf', 'odt', 'txt', 'html', 'htm']
+
+export const textExtractionStatusLabels: Record<TextExtractionStatus, string> = {
+  PENDING: 'Extracting text',
+  OK: 'Text extracted',
+  LOW_QUALITY: 'Low-quality text',
+  FAILED: 'Text extraction failed',
+}
+
+// ============================================
+// Candidate bulk import
+// ============================================
+export type CandidateImportField =
+  | 'fullName'
+  | 'email'
+  | 'phone'
+  | 'location'
+  | 'title'
+  | 'summaryPublic'
+  | 'summaryInternal'
+  | 'technologies'
+  | 'yearsExperience'
+  | 'seniorityLevel'
+  | 'languages'
+  | 'availability'
+  | 'salaryExpectation'
+  | 'tags'
+  | 'resumeFile'
+
+export const candidateImportFieldLabels: Record<CandidateImportField, string> = {
+  fullName: 'Full Name',
+  email: 'Email',
+  phone: 'Phone',
+  location: 'Location',
+  title: 'Title',
+  summaryPublic: 'Public Summary',
+  summaryInternal: 'Internal Summary',
+  technologies: 'Technologies',
+  yearsExperience: 'Years of Experience',
+  seniorityLevel: 'Seniority Level',
+  languages: 'Languages',
+  availability: 'Availability',
+  salaryExpectation: 'Salary Expectation',
+  tags: 'Tags',
+  resumeFile: 'Resume File (in ZIP)',
+}
+
+// CSV header -> candidate field ('' = ignore the column)
+export type CandidateImportMapping = Record<string, CandidateImportField | ''>
+
+export interface CandidateImportRow {
+  rowNumber: number
+  source: 'csv' | 'zip'
+  resumeFileName: string | null
+  fullName: string
+  email: string | null
+  technologies: string[]
+  errors: string[]
+  duplicates: Array<{ id: string; fullName: string; reasons: string[] }>
+  batchDuplicateOf: number | null
+}
+
+export interface CandidateImportResult {
+  rowNumber: number
+  fullName: string
+  status: 'created' | 'skipped' | 'invalid'
+  candidateId?: string
+  message?: string
+}
@@ -1,4 +1,4 @@
-import { Role, ProjectStatus, EmploymentStatus, SeniorityLevel } from '@prisma/client'
+import { ProjectStatus, EmploymentStatus, SeniorityLevel } from '@prisma/client'
 
 // Base search result interface
 export interface BaseSearchResult {
@@ -47,7 +47,8 @@ export interface UserSearchResult extends BaseSearchResult {
   type: 'user'
   fullName: string
   email: string
-  role: Role
+  role: string
+  roleName: string
 }
 
 // Union type for any search result